@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // pdfkit reads its font metrics from disk at runtime
+    serverComponentsExternalPackages: ["pdfkit", "exceljs"],
+  },
   async redirects() {
     return [
       {
@@ -0,0 +1,178 @@
+"use server";
+
+import { v4 as uuidv4 } from "uuid";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { logger } from "@/lib/logger";
+import { AuthorizationError, authorizePermission } from "@/lib/auth";
+import { UsageContext } from "@/lib/billing";
+import { loadFileText } from "@/lib/document-loaders";
+import {
+  fetchPublicUrl,
+  isPublicUrl,
+  readBodyWithLimit,
+} from "@/lib/public-url";
+import { generateText } from "@/lib/llm";
+import {
+  SYSTEM_PROMPT,
+  getSummariseDocumentPrompt,
+} from "@/lib/prompts/summarise-document";
+import {
+  DOCUMENT_CONTEXT_BUDGET,
+  MAX_DOCUMENT_FILE_SIZE,
+  getDocumentKind,
+} from "@/lib/interview-documents";
+import { InterviewDocument, InterviewDocumentKind } from "@/types/interview";
+
+const URL_FETCH_TIMEOUT_MS = 10000;
+const MIN_CHUNK_SIZE = 12000;
+const MAX_CHUNKS = 8;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<(script|style|noscript|svg|head)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<\/?(p|div|li|h[1-6]|br|tr|section|article)[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+
+const loadUrlText = async (url: URL) => {
+  const response = await fetchPublicUrl(url, {
+    signal: AbortSignal.timeout(URL_FETCH_TIMEOUT_MS),
+    headers: { Accept: "text/html,text/plain,text/markdown,application/pdf" },
+  });
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} returned ${response.status}`);
+  }
+
+  // Pages get the same size limit as uploaded files
+  const bytes = await readBodyWithLimit(response, MAX_DOCUMENT_FILE_SIZE);
+  const contentType = response.headers.get("content-type") || "";
+  if (contentType.includes("application/pdf")) {
+    return loadFileText(new File([bytes], "document.pdf"), "pdf");
+  }
+  const body = new TextDecoder().decode(bytes);
+
+  return contentType.includes("html") ? htmlToText(body) : body;
+};
+
+// Splits the text into at most MAX_CHUNKS parts and summarises each into its
+// share of the budget, so every part of a long document is represented
+const fitToBudget = async (name: string, text: string, usage: UsageContext) => {
+  if (text.length <= DOCUMENT_CONTEXT_BUDGET) {
+    return { content: text, is_summarised: false };
+  }
+
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: Math.max(MIN_CHUNK_SIZE, Math.ceil(text.length / MAX_CHUNKS)),
+    chunkOverlap: 200,
+  });
+  const chunks = (await splitter.splitText(text)).slice(0, MAX_CHUNKS);
+  const chunkBudget = Math.floor(DOCUMENT_CONTEXT_BUDGET / chunks.length);
+
+  const summaries = await Promise.all(
+    chunks.map(async (chunk) => {
+      const { content } = await generateText({
+        task: "summarise-document",
+        usage,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: getSummariseDocumentPrompt(name, chunk, chunkBudget),
+          },
+        ],
+      });
+
+      return content.trim().slice(0, chunkBudget);
+    }),
+  );
+
+  return { content: summaries.join("\n\n"), is_summarised: true };
+};
+
+// Accepts either a "file" (PDF, DOCX, Markdown or plain text) or a "url" and
+// returns the document ready to be stored on the interview
+export async function parseDocument(formData: FormData) {
+  try {
+    const { orgId } = await authorizePermission("interview:edit");
+
+    const file = formData.get("file") as File | null;
+    const rawUrl = formData.get("url") as string | null;
+
+    let name: string;
+    let kind: InterviewDocumentKind;
+    let url: string | null = null;
+    let text: string;
+
+    if (file) {
+      const fileKind = getDocumentKind(file.name);
+      if (!fileKind) {
+        return { success: false, error: "Unsupported file type" };
+      }
+      if (file.size > MAX_DOCUMENT_FILE_SIZE) {
+        return { success: false, error: "File is larger than 10MB" };
+      }
+      name = file.name;
+      kind = fileKind;
+      text = await loadFileText(file, fileKind);
+    } else if (rawUrl) {
+      let parsedUrl: URL;
+      try {
+        parsedUrl = new URL(rawUrl.trim());
+      } catch {
+        return { success: false, error: "Invalid URL" };
+      }
+      // Job posts live on public sites, so hosts on private networks are
+      // refused to keep the server from being used to probe its own network
+      if (!(await isPublicUrl(parsedUrl))) {
+        return { success: false, error: "Invalid URL" };
+      }
+      name = parsedUrl.hostname + parsedUrl.pathname.replace(/\/$/, "");
+      kind = "url";
+      url = parsedUrl.toString();
+      text = await loadUrlText(parsedUrl);
+    } else {
+      return { success: false, error: "No file or URL provided" };
+    }
+
+    text = text.trim();
+    if (!text) {
+      return { success: false, error: "No text found in the document" };
+    }
+
+    const document: InterviewDocument = {
+      id: uuidv4(),
+      name,
+      kind,
+      url,
+      ...(await fitToBudget(name, text, { organizationId: orgId })),
+    };
+
+    return { success: true, document };
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return { success: false, error: error.message };
+    }
+    logger.error(
+      "Error parsing document",
+      error instanceof Error ? error.message : String(error),
+    );
+
+    return {
+      success: false,
+      error: "Failed to read the document",
+    };
+  }
+}
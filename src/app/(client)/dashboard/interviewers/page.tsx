@@ -1,14 +1,17 @@
 "use client";
 
 import { useInterviewers } from "@/contexts/interviewers.context";
+import { useClient } from "@/contexts/clients.context";
 import React from "react";
 import { ChevronLeft } from "lucide-react";
 import { ChevronRight } from "lucide-react";
 import InterviewerCard from "@/components/dashboard/interviewer/interviewerCard";
 import CreateInterviewerButton from "@/components/dashboard/interviewer/createInterviewerButton";
+import CreateInterviewerCard from "@/components/dashboard/interviewer/createInterviewerCard";
 
 function Interviewers() {
   const { interviewers, interviewersLoading } = useInterviewers();
+  const { can } = useClient();
 
   const slideLeft = () => {
     var slider = document.getElementById("slider");
@@ -39,8 +42,8 @@ function Interviewers() {
   return (
     <main className="p-8 pt-0 ml-12 mr-auto rounded-md">
       <div className="flex flex-col items-left">
-        <div className="flex flex-row mt-5">
-          <div>
+        <div className="flex flex-row items-center mt-5">
+          <div className="mr-4">
             <h2 className="mr-2 text-2xl font-semibold tracking-tight mt-3">
               Interviewers
             </h2>
@@ -48,6 +51,7 @@ function Interviewers() {
               Get to know them by clicking the profile.
             </h3>
           </div>
+          {can("interview:edit") && <CreateInterviewerCard />}
         </div>
         <div className="relative flex items-center mt-2 ">
           <div
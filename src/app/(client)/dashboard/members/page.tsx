@@ -0,0 +1,270 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useOrganization, useUser } from "@clerk/nextjs";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useClient } from "@/contexts/clients.context";
+import {
+  ORGANIZATION_ROLES,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  canAssignRole,
+} from "@/lib/permissions";
+import {
+  OrganizationMember,
+  OrganizationRole,
+} from "@/types/organization-member";
+
+const getErrorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || undefined;
+
+function Members() {
+  const { user } = useUser();
+  const { organization } = useOrganization();
+  const { role, can } = useClient();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        const response = await axios.get("/api/organization-members");
+        setMembers(response.data.members);
+      } catch (error) {
+        console.error("Error fetching members:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (organization && can("members:manage")) {
+      fetchMembers();
+    } else if (role) {
+      setLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [role, organization?.id]);
+
+  const onRoleChange = async (
+    member: OrganizationMember,
+    newRole: OrganizationRole,
+  ) => {
+    try {
+      const response = await axios.put("/api/organization-members", {
+        userId: member.user_id,
+        role: newRole,
+      });
+      setMembers(
+        members.map((item) =>
+          item.user_id === member.user_id ? response.data.member : item,
+        ),
+      );
+      toast.success("Role updated", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error updating role:", error);
+      toast.error("Failed to update the role", {
+        description: getErrorMessage(error),
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  const onRemove = async (member: OrganizationMember) => {
+    try {
+      await axios.delete(
+        `/api/organization-members?userId=${encodeURIComponent(member.user_id)}`,
+      );
+      setMembers(members.filter((item) => item.user_id !== member.user_id));
+      toast.success("Member removed", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error removing member:", error);
+      toast.error("Failed to remove the member", {
+        description: getErrorMessage(error),
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <main className="p-8 pt-0 ml-12 mr-auto rounded-md">
+      <div className="flex flex-col items-left w-[60rem]">
+        <h2 className="mr-2 text-2xl font-semibold tracking-tight mt-8">
+          Members
+        </h2>
+        <h3 className=" text-sm tracking-tight text-gray-600 font-medium ">
+          Choose what each member of your organization can do. New members join
+          through your organization&apos;s invitations.
+        </h3>
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          {ORGANIZATION_ROLES.map((item) => (
+            <div key={item} className="bg-slate-100 rounded-xl p-3 text-sm">
+              <p className="font-semibold">{ROLE_LABELS[item]}</p>
+              <p className="text-gray-600">{ROLE_DESCRIPTIONS[item]}</p>
+            </div>
+          ))}
+        </div>
+        <div className="mt-6">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading members...</p>
+          ) : !organization ? (
+            <p className="text-sm text-gray-500">
+              Members belong to an organization. Switch to an organization to
+              manage its members.
+            </p>
+          ) : !role || !can("members:manage") ? (
+            <p className="text-sm text-gray-500">
+              Only owners and admins of an organization can manage its members.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const isSelf = member.user_id === user?.id;
+                  const canChange =
+                    !isSelf && canAssignRole(role, member.role, null);
+
+                  return (
+                    <TableRow key={member.user_id}>
+                      <TableCell>
+                        <div className="flex flex-row items-center gap-3">
+                          <Avatar className="h-8 w-8">
+                            {member.image_url && (
+                              <AvatarImage src={member.image_url} />
+                            )}
+                            <AvatarFallback>
+                              {(member.name || member.identifier)[0]}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex flex-col">
+                            <span className="font-medium">
+                              {member.name || member.identifier}
+                              {isSelf && " (you)"}
+                            </span>
+                            {member.name && (
+                              <span className="text-xs text-gray-500">
+                                {member.identifier}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {new Date(member.joined_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.role}
+                          disabled={!canChange}
+                          onValueChange={(value) =>
+                            onRoleChange(member, value as OrganizationRole)
+                          }
+                        >
+                          <SelectTrigger className="w-36 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ORGANIZATION_ROLES.map((item) => (
+                              <SelectItem
+                                key={item}
+                                value={item}
+                                disabled={
+                                  !canAssignRole(role, member.role, item)
+                                }
+                              >
+                                {ROLE_LABELS[item]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {canChange && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Trash2
+                                className="cursor-pointer ml-auto"
+                                color="red"
+                                size={16}
+                              />
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                  Remove {member.name || member.identifier}?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  They lose access to this organization&apos;s
+                                  interviews and responses.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  className="bg-indigo-600 hover:bg-indigo-800"
+                                  onClick={() => onRemove(member)}
+                                >
+                                  Remove
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default Members;
@@ -1,25 +1,25 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { useOrganization } from "@clerk/nextjs";
 import InterviewCard from "@/components/dashboard/interview/interviewCard";
 import CreateInterviewCard from "@/components/dashboard/interview/createInterviewCard";
 import { Card, CardContent, CardTitle } from "@/components/ui/card";
-import { InterviewService } from "@/services/interviews.service";
 import { ClientService } from "@/services/clients.service";
-import { ResponseService } from "@/services/responses.service";
 import { useInterviews } from "@/contexts/interviews.context";
+import { useClient } from "@/contexts/clients.context";
 import Modal from "@/components/dashboard/Modal";
 import { Gem, Plus } from "lucide-react";
 import Image from "next/image";
+import { Button } from "@/components/ui/button";
 
 function Interviews() {
   const { interviews, interviewsLoading } = useInterviews();
+  const { can } = useClient();
   const { organization } = useOrganization();
-  const [loading, setLoading] = useState<boolean>(false);
+  const router = useRouter();
   const [currentPlan, setCurrentPlan] = useState<string>("");
-  const [allowedResponsesCount, setAllowedResponsesCount] =
-    useState<number>(10);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
 
   function InterviewsLoader() {
@@ -45,9 +45,6 @@ function Interviews() {
               setIsModalOpen(true);
             }
           }
-          if (data?.allowed_responses_count) {
-            setAllowedResponsesCount(data.allowed_responses_count);
-          }
         }
       } catch (error) {
         console.error("Error fetching organization data:", error);
@@ -57,37 +54,6 @@ function Interviews() {
     fetchOrganizationData();
   }, [organization]);
 
-  useEffect(() => {
-    const fetchResponsesCount = async () => {
-      if (!organization || currentPlan !== "free") {
-        return;
-      }
-
-      setLoading(true);
-      try {
-        const totalResponses =
-          await ResponseService.getResponseCountByOrganizationId(
-            organization.id,
-          );
-        const hasExceededLimit = totalResponses >= allowedResponsesCount;
-        if (hasExceededLimit) {
-          setCurrentPlan("free_trial_over");
-          await InterviewService.deactivateInterviewsByOrgId(organization.id);
-          await ClientService.updateOrganization(
-            { plan: "free_trial_over" },
-            organization.id,
-          );
-        }
-      } catch (error) {
-        console.error("Error fetching responses:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchResponsesCount();
-  }, [organization, currentPlan, allowedResponsesCount]);
-
   return (
     <main className="p-8 pt-0 ml-12 mr-auto rounded-md">
       <div className="flex flex-col items-left">
@@ -110,9 +76,9 @@ function Interviews() {
               </CardContent>
             </Card>
           ) : (
-            <CreateInterviewCard />
+            can("interview:create") && <CreateInterviewCard />
           )}
-          {interviewsLoading || loading ? (
+          {interviewsLoading ? (
             <InterviewsLoader />
           ) : (
             <>
@@ -158,11 +124,14 @@ function Interviews() {
                         </div>
                       </div>
                     </div>
-                    <p className="text-l text-center">
-                      Contact{" "}
-                      <span className="font-semibold">founders@folo-up.co</span>{" "}
-                      to upgrade your plan.
-                    </p>
+                    <div className="flex justify-center">
+                      <Button
+                        className="bg-indigo-600 hover:bg-indigo-800"
+                        onClick={() => router.push("/dashboard/usage")}
+                      >
+                        Upgrade your plan
+                      </Button>
+                    </div>
                   </div>
                 </Modal>
               )}
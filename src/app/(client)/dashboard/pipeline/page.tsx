@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useClient } from "@/contexts/clients.context";
+import {
+  ENTRY_STAGE_KEY,
+  MAX_PIPELINE_STAGES,
+  MAX_STAGE_NAME_LENGTH,
+} from "@/lib/pipeline";
+import { PipelineStage, PipelineStagePayload } from "@/types/pipeline";
+
+const NEW_STAGE_COLOR = "#6366f1";
+
+function Pipeline() {
+  const { role, can } = useClient();
+  const canManage = can("pipeline:manage");
+  const [stages, setStages] = useState<PipelineStagePayload[]>([]);
+  const [isDefault, setIsDefault] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchStages = async () => {
+      try {
+        const response = await axios.get("/api/pipeline-stages");
+        setStages(response.data.stages);
+        setIsDefault(response.data.isDefault);
+      } catch (error) {
+        console.error("Error fetching stages:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (role) {
+      fetchStages();
+    }
+  }, [role]);
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) =>
+    setStages(
+      stages.map((stage, i) =>
+        i === index ? { ...stage, ...changes } : stage,
+      ),
+    );
+
+  const moveStage = (index: number, offset: number) => {
+    const moved = [...stages];
+    [moved[index], moved[index + offset]] = [
+      moved[index + offset],
+      moved[index],
+    ];
+    setStages(moved);
+  };
+
+  const onSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.put("/api/pipeline-stages", { stages });
+      setStages(response.data.stages);
+      setIsDefault(false);
+      toast.success("Pipeline saved", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error saving stages:", error);
+      toast.error("Failed to save the pipeline", {
+        description:
+          (axios.isAxiosError(error) && error.response?.data?.error) ||
+          undefined,
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <main className="p-8 pt-0 ml-12 mr-auto rounded-md">
+      <div className="flex flex-col items-left w-[60rem]">
+        <h2 className="mr-2 text-2xl font-semibold tracking-tight mt-8">
+          Hiring Pipeline
+        </h2>
+        <h3 className=" text-sm tracking-tight text-gray-600 font-medium ">
+          The stages candidates move through, in order. Terminal stages are
+          outcomes such as hired or rejected. New responses start in the first
+          stage.
+        </h3>
+        {isDefault && !loading && (
+          <p className="text-sm text-indigo-600 bg-indigo-100 rounded-xl px-3 py-2 mt-4">
+            You are using the default stages. Saving creates your own pipeline.
+          </p>
+        )}
+        <div className="flex flex-col gap-2 mt-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading stages...</p>
+          ) : (
+            stages.map((stage, index) => {
+              const isEntry = index === 0 && stage.key === ENTRY_STAGE_KEY;
+
+              return (
+                <div
+                  key={stage.key || `new-${index}`}
+                  className="flex flex-row items-center gap-4 bg-slate-100 rounded-xl p-3 text-sm"
+                >
+                  <input
+                    type="color"
+                    className="h-8 w-8 cursor-pointer bg-transparent"
+                    value={stage.color}
+                    disabled={!canManage}
+                    onChange={(e) =>
+                      updateStage(index, { color: e.target.value })
+                    }
+                  />
+                  <input
+                    type="text"
+                    className="flex-1 py-1 bg-transparent border-b-2 border-gray-300 focus:outline-none"
+                    value={stage.name}
+                    maxLength={MAX_STAGE_NAME_LENGTH}
+                    disabled={!canManage}
+                    onChange={(e) =>
+                      updateStage(index, { name: e.target.value })
+                    }
+                  />
+                  {isEntry ? (
+                    <span className="text-xs text-gray-500 w-32">
+                      Where responses start
+                    </span>
+                  ) : (
+                    <label className="flex flex-row items-center gap-2 w-32 font-medium">
+                      Terminal
+                      <Switch
+                        checked={stage.is_terminal}
+                        disabled={!canManage}
+                        className={
+                          stage.is_terminal ? "bg-indigo-600" : "bg-[#E6E7EB]"
+                        }
+                        onCheckedChange={(checked) =>
+                          updateStage(index, { is_terminal: checked })
+                        }
+                      />
+                    </label>
+                  )}
+                  {canManage && (
+                    <div className="flex flex-row items-center gap-2">
+                      <ArrowUp
+                        className={
+                          index > 1
+                            ? "cursor-pointer"
+                            : "text-gray-300 pointer-events-none"
+                        }
+                        size={16}
+                        onClick={() => moveStage(index, -1)}
+                      />
+                      <ArrowDown
+                        className={
+                          index > 0 && index < stages.length - 1
+                            ? "cursor-pointer"
+                            : "text-gray-300 pointer-events-none"
+                        }
+                        size={16}
+                        onClick={() => moveStage(index, 1)}
+                      />
+                      <Trash2
+                        className={
+                          isEntry
+                            ? "text-gray-300 pointer-events-none"
+                            : "cursor-pointer"
+                        }
+                        color={isEntry ? undefined : "red"}
+                        size={16}
+                        onClick={() =>
+                          setStages(stages.filter((_, i) => i !== index))
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+        {canManage ? (
+          <div className="flex flex-row justify-between mt-4">
+            <Button
+              variant="outline"
+              disabled={stages.length >= MAX_PIPELINE_STAGES}
+              onClick={() =>
+                setStages([
+                  ...stages,
+                  { name: "", color: NEW_STAGE_COLOR, is_terminal: false },
+                ])
+              }
+            >
+              <Plus size={16} className="mr-2" />
+              Add Stage
+            </Button>
+            <Button
+              className="bg-indigo-600 hover:bg-indigo-800"
+              disabled={isSaving || loading}
+              onClick={onSave}
+            >
+              Save Pipeline
+            </Button>
+          </div>
+        ) : (
+          role && (
+            <p className="text-sm text-gray-500 mt-4">
+              Only owners and admins can change the pipeline.
+            </p>
+          )
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default Pipeline;
@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Archive, ArchiveRestore, Pencil, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import Modal from "@/components/dashboard/Modal";
+import BankQuestionForm from "@/components/dashboard/question-bank/bankQuestionForm";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { matchesBankQuestionSearch } from "@/lib/question-bank";
+import { useClient } from "@/contexts/clients.context";
+import {
+  BankQuestion,
+  BankQuestionStats,
+  BankQuestionWithStats,
+} from "@/types/question-bank";
+
+type SortOrder = "newest" | "most_used" | "lowest_score";
+
+const EMPTY_STATS: BankQuestionStats = {
+  interview_count: 0,
+  response_count: 0,
+  not_asked_count: 0,
+  not_answered_count: 0,
+  average_score: null,
+  average_overall_score: null,
+};
+
+// Questions skipped or unanswered in at least half of the responses, or
+// averaging below 5/10, are flagged as candidates to retire
+const WEAK_MISS_RATE = 0.5;
+const WEAK_SCORE = 5;
+
+const formatRate = (count: number, total: number) =>
+  total > 0 ? `${count} (${Math.round((count / total) * 100)}%)` : "-";
+
+const isWeak = (stats: BankQuestionStats) =>
+  (stats.response_count > 0 &&
+    (stats.not_asked_count + stats.not_answered_count) / stats.response_count >=
+      WEAK_MISS_RATE) ||
+  (stats.average_score !== null && stats.average_score < WEAK_SCORE);
+
+const sortQuestions = (questions: BankQuestionWithStats[], order: SortOrder) =>
+  [...questions].sort((a, b) => {
+    if (order === "most_used") {
+      return b.stats.interview_count - a.stats.interview_count;
+    }
+    if (order === "lowest_score") {
+      return (a.stats.average_score ?? 11) - (b.stats.average_score ?? 11);
+    }
+
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  });
+
+function QuestionBank() {
+  const { can } = useClient();
+  const [questions, setQuestions] = useState<BankQuestionWithStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [showRetired, setShowRetired] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+  const [editing, setEditing] = useState<BankQuestionWithStats>();
+
+  useEffect(() => {
+    const fetchQuestions = async () => {
+      try {
+        const response = await axios.get("/api/question-bank");
+        setQuestions(response.data.questions);
+      } catch (error) {
+        console.error("Error fetching question bank:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQuestions();
+  }, []);
+
+  const onSaved = (saved: BankQuestion) => {
+    const existing = questions.find((question) => question.id === saved.id);
+    if (existing) {
+      setQuestions(
+        questions.map((question) =>
+          question.id === saved.id
+            ? { ...saved, stats: question.stats }
+            : question,
+        ),
+      );
+      setEditing(undefined);
+    } else {
+      setQuestions([{ ...saved, stats: EMPTY_STATS }, ...questions]);
+    }
+  };
+
+  const onToggleRetired = async (question: BankQuestionWithStats) => {
+    try {
+      const response = await axios.put("/api/question-bank", {
+        id: question.id,
+        is_retired: !question.is_retired,
+      });
+      onSaved(response.data.question);
+    } catch (error) {
+      console.error("Error updating bank question:", error);
+      toast.error("Failed to update the question.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  const onDelete = async (question: BankQuestionWithStats) => {
+    try {
+      await axios.delete(`/api/question-bank?id=${question.id}`);
+      setQuestions(questions.filter((item) => item.id !== question.id));
+    } catch (error) {
+      console.error("Error deleting bank question:", error);
+      toast.error("Failed to delete the question.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  const visibleQuestions = sortQuestions(
+    questions.filter(
+      (question) =>
+        (showRetired || !question.is_retired) &&
+        matchesBankQuestionSearch(question, search),
+    ),
+    sortOrder,
+  );
+
+  return (
+    <main className="p-8 pt-0 ml-12 mr-auto rounded-md">
+      <div className="flex flex-col items-left">
+        <h2 className="mr-2 text-2xl font-semibold tracking-tight mt-8">
+          Question Bank
+        </h2>
+        <h3 className=" text-sm tracking-tight text-gray-600 font-medium ">
+          Reuse proven questions across interviews and retire the ones that do
+          not work.
+        </h3>
+        {can("interview:edit") && (
+          <div className="bg-slate-100 rounded-2xl p-4 mt-4 w-[60rem]">
+            <p className="font-semibold mb-2">Add a Question</p>
+            <BankQuestionForm onSaved={onSaved} />
+          </div>
+        )}
+        <div className="flex flex-row items-center gap-6 mt-6 w-[60rem] text-sm">
+          <div className="flex flex-row items-center flex-1 border-b-2 border-gray-300">
+            <Search className="text-gray-400 mr-2" size={16} />
+            <input
+              type="text"
+              className="w-full py-1 focus:outline-none"
+              placeholder="Search by text, skill, seniority or role"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <Select
+            value={sortOrder}
+            onValueChange={(value) => setSortOrder(value as SortOrder)}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="most_used">Most used</SelectItem>
+              <SelectItem value="lowest_score">Lowest score</SelectItem>
+            </SelectContent>
+          </Select>
+          <label className="flex flex-row items-center font-medium">
+            Show retired
+            <Switch
+              checked={showRetired}
+              className={`ms-2 ${showRetired ? "bg-indigo-600" : "bg-[#E6E7EB]"}`}
+              onCheckedChange={setShowRetired}
+            />
+          </label>
+        </div>
+        <div className="w-[60rem] mt-2">
+          {loading ? (
+            <p className="text-sm text-gray-500 mt-4">Loading questions...</p>
+          ) : visibleQuestions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Interviews</TableHead>
+                  <TableHead>Responses</TableHead>
+                  <TableHead>Not Asked</TableHead>
+                  <TableHead>Not Answered</TableHead>
+                  <TableHead>Avg. Score</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleQuestions.map((question) => (
+                  <TableRow
+                    key={question.id}
+                    className={question.is_retired ? "opacity-50" : ""}
+                  >
+                    <TableCell className="max-w-[24rem]">
+                      <p>{question.question}</p>
+                      <div className="flex flex-row flex-wrap gap-1 mt-1">
+                        {[
+                          ...question.skills,
+                          ...(question.seniority ? [question.seniority] : []),
+                          ...(question.role ? [question.role] : []),
+                        ].map((tag) => (
+                          <span
+                            key={tag}
+                            className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-[10px]"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                        {question.is_retired && (
+                          <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-700 text-[10px]">
+                            retired
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{question.stats.interview_count}</TableCell>
+                    <TableCell>{question.stats.response_count}</TableCell>
+                    <TableCell>
+                      {formatRate(
+                        question.stats.not_asked_count,
+                        question.stats.response_count,
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatRate(
+                        question.stats.not_answered_count,
+                        question.stats.response_count,
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={
+                        isWeak(question.stats) ? "text-red-600 font-medium" : ""
+                      }
+                    >
+                      {question.stats.average_score !== null
+                        ? `${question.stats.average_score}/10`
+                        : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {can("interview:edit") && (
+                        <div className="flex flex-row justify-end gap-3">
+                          <Pencil
+                            className="cursor-pointer text-indigo-600"
+                            size={16}
+                            onClick={() => setEditing(question)}
+                          />
+                          {question.is_retired ? (
+                            <ArchiveRestore
+                              className="cursor-pointer text-indigo-600"
+                              size={16}
+                              onClick={() => onToggleRetired(question)}
+                            />
+                          ) : (
+                            <Archive
+                              className="cursor-pointer text-indigo-600"
+                              size={16}
+                              onClick={() => onToggleRetired(question)}
+                            />
+                          )}
+                          <Trash2
+                            className="cursor-pointer"
+                            color="red"
+                            size={16}
+                            onClick={() => onDelete(question)}
+                          />
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-500 mt-4">
+              {questions.length === 0
+                ? "No questions yet. Add one above or save a question while creating an interview."
+                : "No matching questions."}
+            </p>
+          )}
+        </div>
+      </div>
+      <Modal open={!!editing} onClose={() => setEditing(undefined)}>
+        <div className="w-[40rem] p-2">
+          <h3 className="text-lg font-semibold mb-4 text-center">
+            Edit Question
+          </h3>
+          {editing && (
+            <BankQuestionForm
+              key={editing.id}
+              bankQuestion={editing}
+              onSaved={onSaved}
+            />
+          )}
+        </div>
+      </Modal>
+    </main>
+  );
+}
+
+export default QuestionBank;
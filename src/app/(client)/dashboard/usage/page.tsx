@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Gem } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BillingPlan, UsageKind, UsageSummary } from "@/types/billing";
+import { useClient } from "@/contexts/clients.context";
+
+type Props = {
+  searchParams: {
+    upgraded?: string;
+  };
+};
+
+const USAGE_LABELS: Record<UsageKind, string> = {
+  response: "Responses",
+  call_minutes: "Call minutes",
+  llm_tokens: "AI tokens",
+};
+
+const PLAN_LABELS: Record<BillingPlan, string> = {
+  free: "Free trial",
+  pro: "Pro",
+  free_trial_over: "Free trial ended",
+};
+
+const formatQuantity = (kind: UsageKind, quantity: number) =>
+  kind === "call_minutes"
+    ? quantity.toFixed(1)
+    : Math.round(quantity).toLocaleString();
+
+function UsageMeter({
+  kind,
+  used,
+  limit,
+}: {
+  kind: UsageKind;
+  used: number;
+  limit: number | null;
+}) {
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0;
+
+  return (
+    <div className="bg-slate-100 rounded-2xl p-4 flex-1">
+      <p className="text-sm text-gray-600 font-medium">{USAGE_LABELS[kind]}</p>
+      <p className="text-2xl font-semibold mt-1">
+        {formatQuantity(kind, used)}
+        <span className="text-sm text-gray-500 font-normal">
+          {limit !== null ? ` / ${formatQuantity(kind, limit)}` : " (no limit)"}
+        </span>
+      </p>
+      {limit !== null && (
+        <div className="h-2 bg-slate-200 rounded-full mt-3 overflow-hidden">
+          <div
+            className={`h-full ${percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-500" : "bg-indigo-600"}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Usage({ searchParams }: Props) {
+  const { can } = useClient();
+  const [usage, setUsage] = useState<UsageSummary>();
+  const [loading, setLoading] = useState(true);
+  const [isUpgrading, setIsUpgrading] = useState(false);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        const response = await axios.get("/api/usage");
+        setUsage(response.data.usage);
+      } catch (error) {
+        console.error("Error fetching usage:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, []);
+
+  useEffect(() => {
+    if (searchParams.upgraded) {
+      toast.success("Your organization is now on the Pro plan.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  }, [searchParams.upgraded]);
+
+  const onUpgrade = async () => {
+    setIsUpgrading(true);
+    try {
+      const response = await axios.post("/api/billing/checkout", {
+        plan: "pro",
+      });
+      window.location.href = response.data.url;
+    } catch (error) {
+      console.error("Error starting checkout:", error);
+      toast.error("Could not start the upgrade. Please try again.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+      setIsUpgrading(false);
+    }
+  };
+
+  const kinds = Object.keys(USAGE_LABELS) as UsageKind[];
+
+  return (
+    <main className="p-8 pt-0 ml-12 mr-auto rounded-md">
+      <div className="flex flex-col items-left w-[60rem]">
+        <h2 className="mr-2 text-2xl font-semibold tracking-tight mt-8">
+          Usage & Billing
+        </h2>
+        {loading ? (
+          <p className="text-sm text-gray-500 mt-4">Loading usage...</p>
+        ) : !usage ? (
+          <p className="text-sm text-gray-500 mt-4">
+            Usage is tracked per organization. Switch to an organization to see
+            its usage.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-row items-center justify-between mt-1">
+              <h3 className="text-sm tracking-tight text-gray-600 font-medium">
+                {PLAN_LABELS[usage.plan]} plan,{" "}
+                {usage.plan === "pro"
+                  ? `billing period from ${new Date(usage.period_start).toLocaleDateString()}`
+                  : "usage since the organization was created"}
+              </h3>
+              {usage.plan !== "pro" && can("billing:manage") && (
+                <Button
+                  className="bg-indigo-600 hover:bg-indigo-800"
+                  disabled={isUpgrading}
+                  onClick={onUpgrade}
+                >
+                  <Gem className="w-4 h-4 mr-2" />
+                  {isUpgrading ? "Redirecting..." : "Upgrade to Pro"}
+                </Button>
+              )}
+            </div>
+            <div className="flex flex-row gap-4 mt-4">
+              {kinds.map((kind) => (
+                <UsageMeter
+                  key={kind}
+                  kind={kind}
+                  limit={usage.limits[kind]}
+                  used={usage.totals[kind]}
+                />
+              ))}
+            </div>
+            <p className="font-semibold mt-8 mb-2">By Interview</p>
+            {usage.interviews.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Interview</TableHead>
+                    {kinds.map((kind) => (
+                      <TableHead key={kind}>{USAGE_LABELS[kind]}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.interviews
+                    .sort((a, b) => b.response - a.response)
+                    .map((interview) => (
+                      <TableRow key={interview.interview_id ?? "none"}>
+                        <TableCell>{interview.name}</TableCell>
+                        {kinds.map((kind) => (
+                          <TableCell key={kind}>
+                            {formatQuantity(kind, interview[kind])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No usage recorded in this period yet.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default Usage;
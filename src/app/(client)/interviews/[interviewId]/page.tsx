@@ -5,21 +5,54 @@ import { Switch } from "@/components/ui/switch";
 import React, { useState, useEffect } from "react";
 import { useOrganization } from "@clerk/nextjs";
 import { useInterviews } from "@/contexts/interviews.context";
-import { Share2, Filter, Pencil, UserIcon, Eye, Palette } from "lucide-react";
+import { useClient } from "@/contexts/clients.context";
+import {
+  Share2,
+  Filter,
+  Pencil,
+  UserIcon,
+  Eye,
+  Palette,
+  Loader2,
+  AlertCircle,
+  Flag,
+  Download,
+  Mail,
+  ScrollText,
+  MessagesSquare,
+  CopyPlus,
+  BookmarkPlus,
+  CalendarClock,
+} from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useRouter } from "next/navigation";
 import { ResponseService } from "@/services/responses.service";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
 import { ClientService } from "@/services/clients.service";
 import { Interview } from "@/types/interview";
 import { Response } from "@/types/response";
+import { AnalysisJob } from "@/types/analysis-job";
 import { formatTimestampToDateHHMM } from "@/lib/utils";
+import { getCandidateLabel } from "@/lib/permissions";
+import {
+  InterviewSchedule as Schedule,
+  getInterviewAvailabilityState,
+  getReachedLimit,
+} from "@/lib/interview-schedule";
 import CallInfo from "@/components/call/callInfo";
 import SummaryInfo from "@/components/dashboard/interview/summaryInfo";
+import CompareResponses from "@/components/dashboard/interview/compareResponses";
+import Invitations from "@/components/dashboard/interview/invitations";
+import InterviewPrompt from "@/components/dashboard/interview/interviewPrompt";
+import InterviewSimulator from "@/components/dashboard/interview/interviewSimulator";
+import DuplicateInterview from "@/components/dashboard/interview/duplicateInterview";
+import InterviewSchedule from "@/components/dashboard/interview/interviewSchedule";
 import { InterviewService } from "@/services/interviews.service";
 import EditInterview from "@/components/dashboard/interview/editInterview";
 import Modal from "@/components/dashboard/Modal";
 import { toast } from "sonner";
 import { ChromePicker } from "react-color";
+import axios from "axios";
 import SharePopup from "@/components/dashboard/interview/sharePopup";
 import {
   Tooltip,
@@ -34,7 +67,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { CandidateStatus } from "@/lib/enum";
+import { DEFAULT_PIPELINE_STAGES, getStage } from "@/lib/pipeline";
+import { PipelineStage } from "@/types/pipeline";
 import LoaderWithText from "@/components/loaders/loader-with-text/loaderWithText";
 
 interface Props {
@@ -44,6 +78,10 @@ interface Props {
   searchParams: {
     call: string;
     edit: boolean;
+    compare: string;
+    invitations: boolean;
+    prompt: boolean;
+    simulate: boolean;
   };
 }
 
@@ -52,7 +90,11 @@ const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
 function InterviewHome({ params, searchParams }: Props) {
   const [interview, setInterview] = useState<Interview>();
   const [responses, setResponses] = useState<Response[]>();
+  const [analysisJobs, setAnalysisJobs] = useState<Record<string, AnalysisJob>>(
+    {},
+  );
   const { getInterviewById } = useInterviews();
+  const { can } = useClient();
   const [isSharePopupOpen, setIsSharePopupOpen] = useState(false);
   const router = useRouter();
   const [isActive, setIsActive] = useState<boolean>(true);
@@ -66,6 +108,11 @@ function InterviewHome({ params, searchParams }: Props) {
   const [iconColor, seticonColor] = useState<string>("#4F46E5");
   const { organization } = useOrganization();
   const [filterStatus, setFilterStatus] = useState<string>("ALL");
+  const [isDuplicateOpen, setIsDuplicateOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [stages, setStages] = useState<PipelineStage[]>(
+    DEFAULT_PIPELINE_STAGES,
+  );
 
   const seeInterviewPreviewPage = () => {
     const protocol = base_url?.includes("localhost") ? "http" : "https";
@@ -120,14 +167,35 @@ function InterviewHome({ params, searchParams }: Props) {
 
     fetchOrganizationData();
   }, [organization]);
+  useEffect(() => {
+    const fetchStages = async () => {
+      try {
+        const response = await axios.get(
+          `/api/pipeline-stages?interviewId=${params.interviewId}`,
+        );
+        setStages(response.data.stages);
+      } catch (error) {
+        console.error("Error fetching pipeline stages:", error);
+      }
+    };
+
+    fetchStages();
+  }, [params.interviewId]);
+
   useEffect(() => {
     const fetchResponses = async () => {
       try {
-        const response = await ResponseService.getAllResponses(
-          params.interviewId,
+        const response = await axios.get(
+          `/api/responses?interviewId=${params.interviewId}`,
         );
-        setResponses(response);
+        setResponses(response.data.responses);
         setLoading(true);
+        const jobs = await AnalysisJobService.getAnalysisJobsByInterviewId(
+          params.interviewId,
+        );
+        setAnalysisJobs(
+          Object.fromEntries(jobs.map((job) => [job.call_id, job])),
+        );
       } catch (error) {
         console.error(error);
       } finally {
@@ -168,12 +236,34 @@ function InterviewHome({ params, searchParams }: Props) {
   const handleToggle = async () => {
     try {
       const updatedIsActive = !isActive;
+      if (updatedIsActive && interview) {
+        const responseCount = await ResponseService.getResponseCount(
+          params.interviewId,
+        );
+        const reachedLimit = getReachedLimit(interview, responseCount);
+        if (reachedLimit) {
+          toast.error("The interview cannot be reopened yet", {
+            description:
+              reachedLimit === "schedule"
+                ? "Its close date has passed. Change the schedule first."
+                : "It has reached its response limit. Raise the limit first.",
+            position: "bottom-right",
+            duration: 3000,
+          });
+
+          return;
+        }
+      }
       setIsActive(updatedIsActive);
 
-      await InterviewService.updateInterview(
-        { is_active: updatedIsActive },
-        params.interviewId,
-      );
+      // Turning it on or off by hand replaces any automatic closure
+      const update = {
+        is_active: updatedIsActive,
+        closed_at: null,
+        closed_reason: null,
+      };
+      await InterviewService.updateInterview(update, params.interviewId);
+      setInterview(interview && { ...interview, ...update });
 
       toast.success("Interview status updated", {
         description: `The interview is now ${
@@ -191,6 +281,33 @@ function InterviewHome({ params, searchParams }: Props) {
     }
   };
 
+  const handleScheduleSaved = (schedule: Schedule) => {
+    setInterview(interview && { ...interview, ...schedule });
+  };
+
+  // Shown next to the switch when the schedule keeps an active interview shut
+  const scheduleStatus = (() => {
+    if (!interview || !isActive) {
+      return null;
+    }
+    const state = getInterviewAvailabilityState(
+      interview,
+      responses?.length ?? 0,
+    );
+    switch (state.status) {
+      case "not_open":
+        return `Opens ${formatTimestampToDateHHMM(state.opens_at)}`;
+      case "outside_window":
+        return "Outside availability hours";
+      case "closed":
+        return "Closed by schedule";
+      case "full":
+        return "Response limit reached";
+      default:
+        return null;
+    }
+  })();
+
   const handleThemeColorChange = async (newColor: string) => {
     try {
       await InterviewService.updateInterview(
@@ -211,10 +328,33 @@ function InterviewHome({ params, searchParams }: Props) {
     }
   };
 
-  const handleCandidateStatusChange = (callId: string, newStatus: string) => {
+  const handleSaveAsTemplate = async () => {
+    try {
+      await axios.post("/api/interview-templates", {
+        interviewId: params.interviewId,
+      });
+
+      toast.success("Saved as template", {
+        description: "It is now available when creating an interview.",
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error(error);
+      toast.error("Error", {
+        description: "Failed to save the interview as a template.",
+        duration: 3000,
+      });
+    }
+  };
+
+  const handleCandidateStatusChange = (
+    callIds: string[],
+    newStatus: string,
+  ) => {
     setResponses((prevResponses) => {
       return prevResponses?.map((response) =>
-        response.call_id === callId
+        callIds.includes(response.call_id)
           ? { ...response, candidate_status: newStatus }
           : response,
       );
@@ -250,7 +390,8 @@ function InterviewHome({ params, searchParams }: Props) {
     }
 
     return responses?.filter(
-      (response) => response?.candidate_status == filterStatus,
+      (response) =>
+        getStage(stages, response?.candidate_status).key == filterStatus,
     );
   };
 
@@ -324,53 +465,232 @@ function InterviewHome({ params, searchParams }: Props) {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      setShowColorPicker(!showColorPicker);
-                    }}
-                  >
-                    <Palette size={19} />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent
-                  className="bg-zinc-300"
-                  side="bottom"
-                  sideOffset={4}
-                >
-                  <span className="text-black flex flex-row gap-4">
-                    Theme Color
-                  </span>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
-                    onClick={(event) => {
-                      router.push(
-                        `/interviews/${params.interviewId}?edit=true`,
-                      );
-                    }}
+            {can("interview:edit") && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setShowColorPicker(!showColorPicker);
+                      }}
+                    >
+                      <Palette size={19} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent
+                    className="bg-zinc-300"
+                    side="bottom"
+                    sideOffset={4}
                   >
-                    <Pencil size={16} />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent
-                  className="bg-zinc-300"
-                  side="bottom"
-                  sideOffset={4}
-                >
-                  <span className="text-black flex flex-row gap-4">Edit</span>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+                    <span className="text-black flex flex-row gap-4">
+                      Theme Color
+                    </span>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {can("interview:edit") && (
+              <>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          router.push(
+                            `/interviews/${params.interviewId}?edit=true`,
+                          );
+                        }}
+                      >
+                        <Pencil size={16} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Edit
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          router.push(
+                            `/interviews/${params.interviewId}?invitations=true`,
+                          );
+                        }}
+                      >
+                        <Mail size={17} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Invitations
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          router.push(
+                            `/interviews/${params.interviewId}?prompt=true`,
+                          );
+                        }}
+                      >
+                        <ScrollText size={17} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Agent Prompt
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          router.push(
+                            `/interviews/${params.interviewId}?simulate=true`,
+                          );
+                        }}
+                      >
+                        <MessagesSquare size={17} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Dry Run
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setIsScheduleOpen(true);
+                        }}
+                      >
+                        <CalendarClock size={17} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Schedule
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </>
+            )}
+            {can("interview:create") && (
+              <>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setIsDuplicateOpen(true);
+                        }}
+                      >
+                        <CopyPlus size={17} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Duplicate
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        className="bg-transparent shadow-none text-xs text-indigo-600 px-0 h-7 hover:scale-110 relative"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleSaveAsTemplate();
+                        }}
+                      >
+                        <BookmarkPlus size={17} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent
+                      className="bg-zinc-300"
+                      side="bottom"
+                      sideOffset={4}
+                    >
+                      <span className="text-black flex flex-row gap-4">
+                        Save as Template
+                      </span>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </>
+            )}
+            {can("response:export") && (
+              <Select
+                value=""
+                onValueChange={(format) => {
+                  window.open(
+                    `/api/export-responses?interviewId=${params.interviewId}&format=${format}`,
+                    "_self",
+                  );
+                }}
+              >
+                <SelectTrigger className="w-fit h-7 gap-1 border-none shadow-none text-xs text-indigo-600 hover:scale-110">
+                  <Download size={16} />
+                  <SelectValue placeholder="Export" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
 
             <label className="inline-flex cursor-pointer">
               {currentPlan == "free_trial_over" ? (
@@ -393,11 +713,17 @@ function InterviewHome({ params, searchParams }: Props) {
                   <span className="ms-3 my-auto text-sm">Active</span>
                   <Switch
                     checked={isActive}
+                    disabled={!can("interview:edit")}
                     className={`ms-3 my-auto ${
                       isActive ? "bg-indigo-600" : "bg-[#E6E7EB]"
                     }`}
                     onCheckedChange={handleToggle}
                   />
+                  {scheduleStatus && (
+                    <span className="ms-2 my-auto text-xs text-amber-600">
+                      {scheduleStatus}
+                    </span>
+                  )}
                 </>
               )}
             </label>
@@ -415,30 +741,17 @@ function InterviewHome({ params, searchParams }: Props) {
                     <SelectValue placeholder="Filter By" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value={CandidateStatus.NO_STATUS}>
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 bg-gray-400 rounded-full mr-2" />
-                        No Status
-                      </div>
-                    </SelectItem>
-                    <SelectItem value={CandidateStatus.NOT_SELECTED}>
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 bg-red-500 rounded-full mr-2" />
-                        Not Selected
-                      </div>
-                    </SelectItem>
-                    <SelectItem value={CandidateStatus.POTENTIAL}>
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 bg-yellow-500 rounded-full mr-2" />
-                        Potential
-                      </div>
-                    </SelectItem>
-                    <SelectItem value={CandidateStatus.SELECTED}>
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 bg-green-500 rounded-full mr-2" />
-                        Selected
-                      </div>
-                    </SelectItem>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        <div className="flex items-center">
+                          <div
+                            className="w-3 h-3 rounded-full mr-2"
+                            style={{ backgroundColor: stage.color }}
+                          />
+                          {stage.name}
+                        </div>
+                      </SelectItem>
+                    ))}
                     <SelectItem value="ALL">
                       <div className="flex items-center">
                         <div className="w-3 h-3 border-2 border-gray-300 rounded-full mr-2" />
@@ -467,21 +780,27 @@ function InterviewHome({ params, searchParams }: Props) {
                       }}
                     >
                       <div className="flex flex-row gap-1 items-center w-full">
-                        {response.candidate_status === "NOT_SELECTED" ? (
-                          <div className="w-[5%] h-full bg-red-500 rounded-sm" />
-                        ) : response.candidate_status === "POTENTIAL" ? (
-                          <div className="w-[5%] h-full bg-yellow-500 rounded-sm" />
-                        ) : response.candidate_status === "SELECTED" ? (
-                          <div className="w-[5%] h-full bg-green-500 rounded-sm" />
-                        ) : (
-                          <div className="w-[5%] h-full bg-gray-400 rounded-sm" />
-                        )}
+                        <div
+                          className="w-[5%] h-full rounded-sm"
+                          style={{
+                            backgroundColor: getStage(
+                              stages,
+                              response.candidate_status,
+                            ).color,
+                          }}
+                          title={
+                            getStage(stages, response.candidate_status).name
+                          }
+                        />
                         <div className="flex items-center justify-between w-full">
                           <div className="flex flex-col my-auto">
                             <p className="font-medium mb-[2px]">
-                              {response?.name
+                              {can("response:view_pii") && response?.name
                                 ? `${response?.name}'s Response`
-                                : "Anonymous"}
+                                : getCandidateLabel(
+                                    response,
+                                    can("response:view_pii"),
+                                  )}
                             </p>
                             <p className="">
                               {formatTimestampToDateHHMM(
@@ -490,6 +809,27 @@ function InterviewHome({ params, searchParams }: Props) {
                             </p>
                           </div>
                           <div className="flex flex-col items-center justify-center ml-auto flex-shrink-0">
+                            {response.analytics?.unmetMustHaves?.length > 0 && (
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Flag
+                                      className="text-red-500 mb-1"
+                                      size={14}
+                                    />
+                                  </TooltipTrigger>
+                                  <TooltipContent
+                                    className="bg-gray-500"
+                                    side="bottom"
+                                    sideOffset={4}
+                                  >
+                                    <span className="text-white font-normal flex flex-row gap-4">
+                                      Must-have not met
+                                    </span>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            )}
                             {!response.is_viewed && (
                               <div className="w-4 h-4 flex items-center justify-center mb-1">
                                 <div className="text-indigo-500 text-xl leading-none">
@@ -526,6 +866,39 @@ function InterviewHome({ params, searchParams }: Props) {
                                     </Tooltip>
                                   </TooltipProvider>
                                 )}
+                              {!response.analytics &&
+                                analysisJobs[response.call_id] && (
+                                  <TooltipProvider>
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        {analysisJobs[response.call_id]
+                                          .status === "failed" ? (
+                                          <AlertCircle
+                                            className="text-red-500"
+                                            size={18}
+                                          />
+                                        ) : (
+                                          <Loader2
+                                            className="text-indigo-500 animate-spin"
+                                            size={18}
+                                          />
+                                        )}
+                                      </TooltipTrigger>
+                                      <TooltipContent
+                                        className="bg-gray-500"
+                                        side="bottom"
+                                        sideOffset={4}
+                                      >
+                                        <span className="text-white font-normal flex flex-row gap-4">
+                                          {analysisJobs[response.call_id]
+                                            .status === "failed"
+                                            ? "Analysis failed"
+                                            : "Analysis in progress"}
+                                        </span>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  </TooltipProvider>
+                                )}
                             </div>
                           </div>
                         </div>
@@ -544,13 +917,32 @@ function InterviewHome({ params, searchParams }: Props) {
                 {searchParams.call ? (
                   <CallInfo
                     call_id={searchParams.call}
+                    stages={stages}
                     onDeleteResponse={handleDeleteResponse}
                     onCandidateStatusChange={handleCandidateStatusChange}
                   />
-                ) : searchParams.edit ? (
+                ) : searchParams.edit && can("interview:edit") ? (
                   <EditInterview interview={interview} />
+                ) : searchParams.invitations && can("interview:edit") ? (
+                  <Invitations interview={interview} />
+                ) : searchParams.prompt && can("interview:edit") ? (
+                  <InterviewPrompt interview={interview} />
+                ) : searchParams.simulate && can("interview:edit") ? (
+                  <InterviewSimulator interview={interview} />
+                ) : searchParams.compare ? (
+                  <CompareResponses
+                    interview={interview}
+                    responses={responses}
+                    stages={stages}
+                    callIds={searchParams.compare.split(",")}
+                  />
                 ) : (
-                  <SummaryInfo responses={responses} interview={interview} />
+                  <SummaryInfo
+                    responses={responses}
+                    interview={interview}
+                    stages={stages}
+                    onCandidateStatusChange={handleCandidateStatusChange}
+                  />
                 )}
               </div>
             )}
@@ -578,6 +970,21 @@ function InterviewHome({ params, searchParams }: Props) {
           />
         </div>
       </Modal>
+      <Modal open={isDuplicateOpen} onClose={() => setIsDuplicateOpen(false)}>
+        <DuplicateInterview
+          open={isDuplicateOpen}
+          interview={interview}
+          onClose={() => setIsDuplicateOpen(false)}
+        />
+      </Modal>
+      <Modal open={isScheduleOpen} onClose={() => setIsScheduleOpen(false)}>
+        <InterviewSchedule
+          interview={interview}
+          open={isScheduleOpen}
+          onClose={() => setIsScheduleOpen(false)}
+          onSaved={handleScheduleSaved}
+        />
+      </Modal>
       {isSharePopupOpen && (
         <SharePopup
           open={isSharePopupOpen}
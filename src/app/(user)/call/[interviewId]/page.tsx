@@ -1,17 +1,22 @@
 "use client";
 
-import { useInterviews } from "@/contexts/interviews.context";
 import { useEffect, useState } from "react";
+import axios from "axios";
 import Call from "@/components/call";
 import Image from "next/image";
 import { ArrowUpRightSquareIcon } from "lucide-react";
-import { Interview } from "@/types/interview";
+import { InterviewAvailabilityState, PublicInterview } from "@/types/interview";
+import { describeWindow } from "@/lib/interview-schedule";
+import { InvitationCandidate, InvitationError } from "@/types/invitation";
 import LoaderWithText from "@/components/loaders/loader-with-text/loaderWithText";
 
 type Props = {
   params: {
     interviewId: string;
   };
+  searchParams: {
+    invite?: string;
+  };
 };
 
 type PopupProps = {
@@ -80,27 +85,102 @@ function PopUpMessage({ title, description, image }: PopupProps) {
   );
 }
 
-function InterviewInterface({ params }: Props) {
-  const [interview, setInterview] = useState<Interview>();
-  const [isActive, setIsActive] = useState(true);
-  const { getInterviewById } = useInterviews();
-  const [interviewNotFound, setInterviewNotFound] = useState(false);
-  useEffect(() => {
-    if (interview) {
-      setIsActive(interview?.is_active === true);
-    }
-  }, [interview, params.interviewId]);
+const INVITATION_ERRORS: Record<
+  InvitationError | "required",
+  { title: string; description: string }
+> = {
+  required: {
+    title: "Invitation Required",
+    description:
+      "This interview is by invitation only. Please use the personal link you were sent.",
+  },
+  invalid: {
+    title: "Invalid Invitation",
+    description:
+      "The invitation link you're trying to access is invalid. Please check the URL and try again.",
+  },
+  expired: {
+    title: "Invitation Expired",
+    description:
+      "This invitation has expired. Please contact the sender for a new link.",
+  },
+  used: {
+    title: "Invitation Already Used",
+    description:
+      "This invitation has no attempts left. Please contact the sender for more information.",
+  },
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString(undefined, {
+    dateStyle: "full",
+    timeStyle: "short",
+  });
 
+// The message shown for each reason the interview cannot be taken right now.
+// Dates are shown in the candidate's own timezone.
+const getAvailabilityMessage = (
+  availability: InterviewAvailabilityState,
+): { title: string; description: string } => {
+  switch (availability.status) {
+    case "not_open":
+      return {
+        title: "Interview Opens Soon",
+        description: `This interview opens on ${formatDateTime(availability.opens_at)}. Please come back then.`,
+      };
+    case "closed":
+      return {
+        title: "Interview Closed",
+        description: `This interview closed on ${formatDateTime(availability.closed_at)} and is no longer accepting responses.`,
+      };
+    case "full":
+      return {
+        title: "Interview Is Full",
+        description:
+          "This interview has received all the responses it needs and is no longer accepting new ones.",
+      };
+    case "outside_window":
+      return {
+        title: "Outside Interview Hours",
+        description: `This interview can be taken ${availability.windows
+          .map(describeWindow)
+          .join("; ")} (${availability.timezone} time).${
+          availability.next_window_at
+            ? ` It next opens on ${formatDateTime(availability.next_window_at)}.`
+            : ""
+        }`,
+      };
+    default:
+      return {
+        title: "Interview Is Unavailable",
+        description:
+          "We are not currently accepting responses. Please contact the sender for more information.",
+      };
+  }
+};
+
+function InterviewInterface({ params, searchParams }: Props) {
+  const [interview, setInterview] = useState<PublicInterview>();
+  const [availability, setAvailability] = useState<InterviewAvailabilityState>({
+    status: "open",
+  });
+  const [interviewNotFound, setInterviewNotFound] = useState(false);
+  const [invitation, setInvitation] = useState<InvitationCandidate>();
+  const [invitationError, setInvitationError] = useState<
+    InvitationError | "required"
+  >();
+  const [isVerifyingInvitation, setIsVerifyingInvitation] = useState(
+    !!searchParams.invite,
+  );
   useEffect(() => {
     const fetchinterview = async () => {
       try {
-        const response = await getInterviewById(params.interviewId);
-        if (response) {
-          setInterview(response);
-          document.title = response.name;
-        } else {
-          setInterviewNotFound(true);
-        }
+        const response = await axios.get(
+          `/api/get-interview?id=${encodeURIComponent(params.interviewId)}`,
+        );
+        setInterview(response.data.interview);
+        setAvailability(response.data.availability);
+        document.title = response.data.interview.name;
       } catch (error) {
         console.error(error);
         setInterviewNotFound(true);
@@ -111,10 +191,43 @@ function InterviewInterface({ params }: Props) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    if (!interview) {
+      return;
+    }
+    if (!searchParams.invite) {
+      if (interview.is_invite_only) {
+        setInvitationError("required");
+      }
+
+      return;
+    }
+
+    const verifyInvitation = async () => {
+      try {
+        const response = await axios.post("/api/verify-invitation", {
+          token: searchParams.invite,
+          interviewId: interview.id,
+        });
+        setInvitation(response.data.invitation);
+      } catch (error) {
+        console.error(error);
+        const reason = axios.isAxiosError(error)
+          ? error.response?.data?.error
+          : undefined;
+        setInvitationError(reason in INVITATION_ERRORS ? reason : "invalid");
+      } finally {
+        setIsVerifyingInvitation(false);
+      }
+    };
+
+    verifyInvitation();
+  }, [interview, searchParams.invite]);
+
   return (
     <div>
       <div className="hidden md:block p-8 mx-auto form-container">
-        {!interview ? (
+        {!interview || isVerifyingInvitation ? (
           interviewNotFound ? (
             <PopUpMessage
               title="Invalid URL"
@@ -124,14 +237,23 @@ function InterviewInterface({ params }: Props) {
           ) : (
             <PopupLoader />
           )
-        ) : !isActive ? (
+        ) : availability.status !== "open" ? (
           <PopUpMessage
-            title="Interview Is Unavailable"
-            description="We are not currently accepting responses. Please contact the sender for more information."
+            {...getAvailabilityMessage(availability)}
             image="/closed.png"
           />
+        ) : invitationError ? (
+          <PopUpMessage
+            title={INVITATION_ERRORS[invitationError].title}
+            description={INVITATION_ERRORS[invitationError].description}
+            image="/invalid-url.png"
+          />
         ) : (
-          <Call interview={interview} />
+          <Call
+            interview={interview}
+            invitation={invitation}
+            invitationToken={searchParams.invite}
+          />
         )}
       </div>
       <div className=" md:hidden flex flex-col items-center md:h-[0px] justify-center  my-auto">
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { processAnalysisJobs } from "@/lib/analysis-worker";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
+import { ResponseService } from "@/services/responses.service";
+import { authorizeCall, toErrorResponse } from "@/lib/auth";
+
+export const maxDuration = 60;
+
+export async function POST(req: Request) {
+  logger.info("analysis-jobs request received");
+  const body = await req.json();
+  const callId = body.call_id;
+
+  const response = await ResponseService.getResponseByCallId(callId);
+  if (!response) {
+    return NextResponse.json({ error: "Response not found" }, { status: 404 });
+  }
+
+  // Retrying is a recruiter action. The candidate's call page only reports
+  // that its own call ended, identified by the unguessable Retell call id.
+  if (body.retry) {
+    try {
+      await authorizeCall(callId);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+    await AnalysisJobService.retryAnalysisJob(callId);
+    // Give the job a first attempt straight away instead of waiting for the
+    // next scheduled worker run
+    await processAnalysisJobs(1, callId);
+  } else {
+    await ResponseService.saveResponse(
+      {
+        is_ended: true,
+        ...(typeof body.tab_switch_count === "number"
+          ? { tab_switch_count: body.tab_switch_count }
+          : {}),
+      },
+      callId,
+    );
+    const enqueued = await AnalysisJobService.enqueueAnalysisJob(
+      callId,
+      response.interview_id,
+    );
+    if (!enqueued) {
+      return NextResponse.json(
+        { error: "Failed to enqueue analysis" },
+        { status: 500 },
+      );
+    }
+  }
+
+  // The candidate's job is not run here: Retell has not analysed the call yet,
+  // and the call_analyzed webhook makes it due and runs it
+
+  const job = await AnalysisJobService.getAnalysisJobByCallId(callId);
+
+  return NextResponse.json({ job }, { status: 200 });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { processAnalysisJobs } from "@/lib/analysis-worker";
+import { isCronRequest } from "@/lib/auth";
+
+export const maxDuration = 300;
+
+// Meant to be called on a schedule (e.g. every minute) to drain the analysis
+// queue, including jobs waiting on a retry.
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  logger.info("analysis-worker run started");
+
+  const result = await processAnalysisJobs(10);
+
+  logger.info(
+    `analysis-worker run finished: ${result.completed}/${result.claimed} jobs completed`,
+  );
+
+  return NextResponse.json(result, { status: 200 });
+}
@@ -1,60 +1,41 @@
-import { OpenAI } from "openai";
 import { NextResponse } from "next/server";
 import { logger } from "@/lib/logger";
-import {
-  SYSTEM_PROMPT,
-  getCommunicationAnalysisPrompt,
-} from "@/lib/prompts/communication-analysis";
+import { authorizeCall, toErrorResponse } from "@/lib/auth";
+import { getInterviewUsageContext } from "@/lib/billing";
+import { generateCommunicationAnalysis } from "@/services/analytics.service";
 
+// Analyses the stored transcript of a call the member can see, so the LLM
+// usage is billed to the interview's organization
 export async function POST(req: Request) {
   logger.info("analyze-communication request received");
 
   try {
     const body = await req.json();
-    const { transcript } = body;
+    if (typeof body.callId !== "string") {
+      return NextResponse.json(
+        { error: "callId is required" },
+        { status: 400 },
+      );
+    }
 
+    const { response, interview } = await authorizeCall(body.callId);
+    const transcript = response.details?.transcript;
     if (!transcript) {
       return NextResponse.json(
-        { error: "Transcript is required" },
+        { error: "The call has no transcript" },
         { status: 400 },
       );
     }
 
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      maxRetries: 5,
-      dangerouslyAllowBrowser: true,
-    });
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: SYSTEM_PROMPT,
-        },
-        {
-          role: "user",
-          content: getCommunicationAnalysisPrompt(transcript),
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const analysis = completion.choices[0]?.message?.content;
+    const analysis = await generateCommunicationAnalysis(
+      transcript,
+      getInterviewUsageContext(interview),
+    );
 
     logger.info("Communication analysis completed successfully");
 
-    return NextResponse.json(
-      { analysis: JSON.parse(analysis || "{}") },
-      { status: 200 },
-    );
+    return NextResponse.json({ analysis }, { status: 200 });
   } catch (error) {
-    logger.error("Error analyzing communication skills");
-
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 },
-    );
+    return toErrorResponse(error);
   }
 }
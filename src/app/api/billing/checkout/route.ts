@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authorizePermission, toErrorResponse } from "@/lib/auth";
+import { getBillingProvider } from "@/lib/billing";
+
+const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
+
+// Starts an upgrade with the billing provider. The plan only changes once the
+// provider confirms payment through /api/billing/webhook.
+export async function POST(req: Request) {
+  logger.info("billing-checkout request received");
+
+  try {
+    const { orgId } = await authorizePermission("billing:manage");
+    if (!orgId) {
+      return NextResponse.json(
+        { error: "Plans belong to an organization" },
+        { status: 400 },
+      );
+    }
+
+    const body = await req.json();
+    if (body.plan !== "pro") {
+      return NextResponse.json({ error: "Unknown plan" }, { status: 400 });
+    }
+
+    const provider = getBillingProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { error: "Billing is not set up" },
+        { status: 503 },
+      );
+    }
+
+    const protocol = base_url?.includes("localhost") ? "http" : "https";
+    const session = await provider.createCheckoutSession({
+      organizationId: orgId,
+      plan: body.plan,
+      returnUrl: `${protocol}://${base_url}/dashboard/usage`,
+    });
+
+    return NextResponse.json({ url: session.url }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authorizePermission, toErrorResponse } from "@/lib/auth";
+import { applyBillingEvent, getBillingProvider } from "@/lib/billing";
+
+// The mock provider's checkout page: it skips payment and applies the plan to
+// the signed-in organization. Only available while BILLING_PROVIDER is mock, outside production.
+export async function GET(req: NextRequest) {
+  logger.info("billing-mock-checkout request received");
+
+  if (getBillingProvider()?.name !== "mock") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const { orgId } = await authorizePermission("billing:manage");
+    if (!orgId || req.nextUrl.searchParams.get("plan") !== "pro") {
+      return NextResponse.json({ error: "Invalid checkout" }, { status: 400 });
+    }
+
+    await applyBillingEvent({
+      organizationId: orgId,
+      plan: "pro",
+      customerId: `mock_${orgId}`,
+      subscriptionId: `mock_sub_${orgId}`,
+    });
+
+    return NextResponse.redirect(
+      new URL("/dashboard/usage?upgraded=true", req.url),
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  applyBillingEvent,
+  BillingError,
+  getBillingProvider,
+} from "@/lib/billing";
+
+// Plan changes confirmed by the billing provider. The provider checks the
+// signature, so this route is public.
+export async function POST(req: Request) {
+  logger.info("billing-webhook request received");
+
+  try {
+    const provider = getBillingProvider();
+    if (!provider) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const event = await provider.parseWebhook(req);
+    if (!event) {
+      return new NextResponse(null, { status: 204 });
+    }
+    await applyBillingEvent(event);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    logger.error(
+      "Failed to handle billing webhook",
+      error instanceof Error ? error.message : String(error),
+    );
+
+    return NextResponse.json(
+      { error: "Failed to handle event" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "@/lib/logger";
+import { generateStructured } from "@/lib/llm";
+import { checkQuota, getInterviewUsageContext } from "@/lib/billing";
+import { enforceInterviewLimits } from "@/lib/interview-schedule";
+import { resolveInvitation } from "@/lib/invitation-token";
+import { consumeRequestLimit, RateLimit } from "@/lib/rate-limit";
+import { createResumeQuestionsSchema } from "@/lib/llm/schemas";
+import { loadFileText } from "@/lib/document-loaders";
+import { getDocumentKind } from "@/lib/interview-documents";
+import {
+  MAX_RESUME_FILE_SIZE,
+  RESUME_QUESTION_COUNT,
+  RESUME_TEXT_LIMIT,
+} from "@/lib/resumes";
+import {
+  SYSTEM_PROMPT,
+  getResumeQuestionsPrompt,
+} from "@/lib/prompts/resume-questions";
+import { InterviewService } from "@/services/interviews.service";
+import { ResumeService } from "@/services/resumes.service";
+import { Interview } from "@/types/interview";
+
+export const maxDuration = 60;
+
+const RESUME_UPLOAD_LIMIT: RateLimit = { maxCount: 5, windowSeconds: 60 * 60 };
+
+// Candidates upload their resume before the call starts. The questions
+// generated from it stay on the server and are only used by register-call, so
+// the response carries nothing but the id to start the call with.
+export async function POST(req: Request) {
+  logger.info("candidate-resume request received");
+
+  const formData = await req.formData();
+  const interviewId = formData.get("interview_id");
+  const file = formData.get("file");
+  const invitationToken = formData.get("invitation_token");
+
+  const interview: Interview | null =
+    typeof interviewId === "string"
+      ? await InterviewService.getInterviewById(interviewId)
+      : null;
+  if (!interview) {
+    return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+  }
+  // Every upload costs an LLM completion, so candidates are limited per
+  // interview
+  if (
+    !(await consumeRequestLimit(
+      req,
+      `candidate-resume:${interview.id}`,
+      RESUME_UPLOAD_LIMIT,
+    ))
+  ) {
+    return NextResponse.json(
+      { error: "Too many uploads, please try again later" },
+      { status: 429 },
+    );
+  }
+  if (!interview.accepts_resume) {
+    return NextResponse.json(
+      { error: "Interview does not accept resumes" },
+      { status: 403 },
+    );
+  }
+
+  // The same checks register-call makes before a call, so a resume is only
+  // read for a candidate who could start one
+  const availability = await enforceInterviewLimits(interview);
+  if (availability.status !== "open") {
+    return NextResponse.json(
+      { error: "Interview is not active", availability },
+      { status: 403 },
+    );
+  }
+  if (invitationToken || interview.is_invite_only) {
+    if (typeof invitationToken !== "string") {
+      return NextResponse.json(
+        { error: "invitation required" },
+        { status: 403 },
+      );
+    }
+    const result = await resolveInvitation(invitationToken, interview.id);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "invalid" ? 404 : 410 },
+      );
+    }
+  }
+  const quota = await checkQuota(interview.organization_id);
+  if (!quota.allowed) {
+    return NextResponse.json(
+      { error: "Interview is not accepting responses" },
+      { status: 402 },
+    );
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "No file provided" }, { status: 400 });
+  }
+  const kind = getDocumentKind(file.name);
+  if (kind !== "pdf" && kind !== "docx") {
+    return NextResponse.json(
+      { error: "Resumes must be PDF or DOCX files" },
+      { status: 400 },
+    );
+  }
+  if (file.size > MAX_RESUME_FILE_SIZE) {
+    return NextResponse.json(
+      { error: "Resumes must be 5 MB or smaller" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const content = (await loadFileText(file, kind))
+      .replace(/\s+\n/g, "\n")
+      .trim()
+      .slice(0, RESUME_TEXT_LIMIT);
+    if (!content) {
+      return NextResponse.json(
+        { error: "No text could be read from the resume" },
+        { status: 422 },
+      );
+    }
+
+    const { data } = await generateStructured({
+      task: "resume-questions",
+      usage: getInterviewUsageContext(interview),
+      schema: createResumeQuestionsSchema(RESUME_QUESTION_COUNT),
+      messages: [
+        {
+          role: "system",
+          content: SYSTEM_PROMPT,
+        },
+        {
+          role: "user",
+          content: getResumeQuestionsPrompt({
+            name: interview.name,
+            objective: interview.objective,
+            questions: interview.questions
+              .map((question, index) => `${index + 1}. ${question.question}`)
+              .join("\n"),
+            resume: content,
+            number: RESUME_QUESTION_COUNT,
+          }),
+        },
+      ],
+    });
+
+    const resume = await ResumeService.createResume({
+      interview_id: interview.id,
+      file_name: file.name,
+      content,
+      claims: data.claims,
+      questions: data.questions.map((question) => ({
+        id: uuidv4(),
+        question: question.question,
+        follow_up_count: 1,
+      })),
+    });
+    if (!resume) {
+      return NextResponse.json(
+        { error: "Failed to save resume" },
+        { status: 500 },
+      );
+    }
+
+    logger.info(`Resume ${resume.id} saved for interview ${interview.id}`);
+
+    return NextResponse.json(
+      { resume_id: resume.id, file_name: resume.file_name },
+      { status: 201 },
+    );
+  } catch (error) {
+    logger.error("Error processing resume");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
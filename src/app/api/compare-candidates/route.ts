@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { ResponseService } from "@/services/responses.service";
+import {
+  SYSTEM_PROMPT,
+  getCompareCandidatesPrompt,
+} from "@/lib/prompts/compare-candidates";
+import { logger } from "@/lib/logger";
+import {
+  authorizeInterview,
+  getRoleContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { getCandidateLabel, hasPermission } from "@/lib/permissions";
+import { Interview } from "@/types/interview";
+import { generateStructured } from "@/lib/llm";
+import { getInterviewUsageContext } from "@/lib/billing";
+import { createCandidateComparisonSchema } from "@/lib/llm/schemas";
+import { Response } from "@/types/response";
+import {
+  MAX_COMPARED_CANDIDATES,
+  MIN_COMPARED_CANDIDATES,
+} from "@/lib/constants";
+
+export async function POST(req: Request) {
+  logger.info("compare-candidates request received");
+  const body = await req.json();
+  // Comparing a candidate with themselves is not a comparison
+  const callIds: string[] = Array.isArray(body.callIds)
+    ? body.callIds.filter(
+        (callId: unknown, index: number, all: unknown[]) =>
+          typeof callId === "string" && all.indexOf(callId) === index,
+      )
+    : [];
+
+  if (
+    callIds.length < MIN_COMPARED_CANDIDATES ||
+    callIds.length > MAX_COMPARED_CANDIDATES
+  ) {
+    return NextResponse.json(
+      {
+        error: `Select between ${MIN_COMPARED_CANDIDATES} and ${MAX_COMPARED_CANDIDATES} candidates to compare`,
+      },
+      { status: 400 },
+    );
+  }
+
+  let interview: Interview;
+  let canViewPii: boolean;
+  try {
+    interview = await authorizeInterview(body.interviewId);
+    canViewPii = hasPermission(
+      (await getRoleContext()).role,
+      "response:view_pii",
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+  const responses: Response[] = await Promise.all(
+    callIds.map((callId) => ResponseService.getResponseByCallId(callId)),
+  );
+
+  if (
+    responses.some(
+      (response) => !response || response.interview_id !== interview.id,
+    )
+  ) {
+    return NextResponse.json(
+      { error: "Responses not found for this interview" },
+      { status: 404 },
+    );
+  }
+
+  try {
+    const { data: comparison } = await generateStructured({
+      task: "compare-candidates",
+      usage: getInterviewUsageContext(interview),
+      schema: createCandidateComparisonSchema(callIds),
+      messages: [
+        {
+          role: "system",
+          content: SYSTEM_PROMPT,
+        },
+        {
+          role: "user",
+          content: getCompareCandidatesPrompt(
+            interview.name,
+            interview.objective,
+            // The summary refers to candidates by name, so members who cannot
+            // see names get the labels the dashboard shows them instead
+            canViewPii
+              ? responses
+              : responses.map((response) => ({
+                  ...response,
+                  name: getCandidateLabel(response, false),
+                })),
+          ),
+        },
+      ],
+    });
+
+    logger.info("Candidate comparison generated successfully");
+
+    return NextResponse.json({ comparison }, { status: 200 });
+  } catch (error) {
+    logger.error("Error generating candidate comparison");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,43 +1,52 @@
-import { nanoid } from "nanoid";
 import { NextResponse } from "next/server";
-import { InterviewService } from "@/services/interviews.service";
 import { logger } from "@/lib/logger";
-
-const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
+import {
+  AuthorizationError,
+  authorizeInterviewerChoice,
+  authorizePermission,
+  toErrorResponse,
+} from "@/lib/auth";
+import { insertInterview } from "@/lib/create-interview";
+import { normalizeInterviewData } from "@/lib/interview-data";
 
 export async function POST(req: Request, res: Response) {
   try {
-    const url_id = nanoid();
-    const url = `${base_url}/call/${url_id}`;
     const body = await req.json();
 
     logger.info("create-interview request received");
 
-    const payload = body.interviewData;
-
-    let readableSlug = null;
-    if (body.organizationName) {
-      const interviewNameSlug = payload.name?.toLowerCase().replace(/\s/g, "-");
-      const orgNameSlug = body.organizationName
-        ?.toLowerCase()
-        .replace(/\s/g, "-");
-      readableSlug = `${orgNameSlug}-${interviewNameSlug}`;
+    // Ownership comes from the Clerk session, not from what the client sent
+    const { userId, orgId } = await authorizePermission("interview:create");
+    const result = normalizeInterviewData(body.interviewData);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (result.interviewData.interviewer_id != null) {
+      await authorizeInterviewerChoice(
+        result.interviewData.interviewer_id as bigint,
+      );
+    }
+    const payload = {
+      ...result.interviewData,
+      user_id: userId,
+      organization_id: orgId,
+    };
+
+    const newInterview = await insertInterview(payload, body.organizationName);
+    if (!newInterview) {
+      throw new Error("Interview insert failed");
     }
-
-    const newInterview = await InterviewService.createInterview({
-      ...payload,
-      url: url,
-      id: url_id,
-      readable_slug: readableSlug,
-    });
 
     logger.info("Interview created successfully");
 
     return NextResponse.json(
-      { response: "Interview created successfully" },
+      { response: "Interview created successfully", id: newInterview.id },
       { status: 200 },
     );
   } catch (err) {
+    if (err instanceof AuthorizationError) {
+      return toErrorResponse(err);
+    }
     logger.error("Error creating interview");
 
     return NextResponse.json(
@@ -1,55 +1,61 @@
 import { logger } from "@/lib/logger";
 import { InterviewerService } from "@/services/interviewers.service";
-import { NextResponse, NextRequest } from "next/server";
-import Retell from "retell-sdk";
-import { INTERVIEWERS, RETELL_AGENT_GENERAL_PROMPT } from "@/lib/constants";
+import { NextResponse } from "next/server";
+import { INTERVIEWERS } from "@/lib/constants";
+import {
+  ensureInterviewerPromptSynced,
+  provisionInterviewerAgent,
+} from "@/lib/interviewer-agent";
+import { Interviewer } from "@/types/interviewer";
 
-const retellClient = new Retell({
-  apiKey: process.env.RETELL_API_KEY || "",
-});
-
-export async function GET(res: NextRequest) {
-  logger.info("create-interviewer request received");
-
-  try {
-    const newModel = await retellClient.llm.create({
-      model: "gpt-4o",
-      general_prompt: RETELL_AGENT_GENERAL_PROMPT,
-      general_tools: [
-        {
-          type: "end_call",
-          name: "end_call_1",
-          description:
-            "End the call if the user uses goodbye phrases such as 'bye,' 'goodbye,' or 'have a nice day.' ",
-        },
-      ],
-    });
+// Provisions a Retell agent only for default interviewers that do not have
+// one yet, so repeated requests never create duplicate agents or LLMs
+const ensureDefaultInterviewer = async (
+  agentName: string,
+  interviewer: (typeof INTERVIEWERS)[keyof typeof INTERVIEWERS],
+): Promise<Interviewer | null> => {
+  const existing: Interviewer[] | null =
+    await InterviewerService.getDefaultInterviewers(interviewer.name);
+  if (!existing) {
+    throw new Error(`Failed to look up interviewer ${interviewer.name}`);
+  }
+  const provisioned = existing.find((current) => current.agent_id);
+  if (provisioned) {
+    await ensureInterviewerPromptSynced(provisioned);
 
-    // Create Lisa
-    const newFirstAgent = await retellClient.agent.create({
-      response_engine: { llm_id: newModel.llm_id, type: "retell-llm" },
-      voice_id: "11labs-Chloe",
-      agent_name: "Lisa",
-    });
+    return provisioned;
+  }
 
-    const newInterviewer = await InterviewerService.createInterviewer({
-      agent_id: newFirstAgent.agent_id,
-      ...INTERVIEWERS.LISA,
-    });
+  const agent = await provisionInterviewerAgent(
+    agentName,
+    interviewer.voice_id,
+    interviewer,
+  );
+  if (existing.length > 0) {
+    return InterviewerService.updateInterviewer(
+      { ...agent, ...interviewer },
+      existing[0].id,
+    );
+  }
 
-    // Create Bob
-    const newSecondAgent = await retellClient.agent.create({
-      response_engine: { llm_id: newModel.llm_id, type: "retell-llm" },
-      voice_id: "11labs-Brian",
-      agent_name: "Bob",
-    });
+  return InterviewerService.createInterviewer({
+    ...agent,
+    ...interviewer,
+  });
+};
 
-    const newSecondInterviewer = await InterviewerService.createInterviewer({
-      agent_id: newSecondAgent.agent_id,
-      ...INTERVIEWERS.BOB,
-    });
+export async function POST() {
+  logger.info("create-interviewer request received");
 
-    logger.info("");
+  try {
+    const newInterviewer = await ensureDefaultInterviewer(
+      "Lisa",
+      INTERVIEWERS.LISA,
+    );
+    const newSecondInterviewer = await ensureDefaultInterviewer(
+      "Bob",
+      INTERVIEWERS.BOB,
+    );
 
     return NextResponse.json(
       {
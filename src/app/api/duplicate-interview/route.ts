@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from "uuid";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeInterview,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { insertInterview } from "@/lib/create-interview";
+import { getTemplateContent } from "@/lib/interview-templates";
+import { buildDocumentContext } from "@/lib/interview-documents";
+import { savePromptVersion } from "@/lib/prompt-versions";
+import { generateStructured } from "@/lib/llm";
+import { getInterviewUsageContext } from "@/lib/billing";
+import { createGeneratedQuestionsSchema } from "@/lib/llm/schemas";
+import {
+  SYSTEM_PROMPT,
+  generateQuestionsPrompt,
+} from "@/lib/prompts/generate-questions";
+import { InterviewPromptService } from "@/services/interview-prompts.service";
+import { Interview, Question } from "@/types/interview";
+
+export const maxDuration = 60;
+
+const generateNewQuestions = async (interview: Interview) => {
+  const { data } = await generateStructured({
+    task: "generate-questions",
+    schema: createGeneratedQuestionsSchema(interview.question_count),
+    usage: getInterviewUsageContext(interview),
+    messages: [
+      {
+        role: "system",
+        content: SYSTEM_PROMPT,
+      },
+      {
+        role: "user",
+        content: generateQuestionsPrompt({
+          name: interview.name,
+          objective: interview.objective,
+          number: interview.question_count,
+          context: buildDocumentContext(interview.documents),
+        }),
+      },
+    ],
+  });
+
+  return data.questions.map((question): Question => ({
+    id: uuidv4(),
+    question: question.question,
+    follow_up_count: 1,
+  }));
+};
+
+// Copies the interview's setup, branding and prompt settings. Responses,
+// invitations and insights stay with the original.
+export async function POST(req: Request) {
+  logger.info("duplicate-interview request received");
+  const body = await req.json();
+
+  let userId: string;
+  let orgId: string | null;
+  let source: Interview;
+  try {
+    ({ userId, orgId } = getAuthContext());
+    source = await authorizeInterview(body.interviewId, "interview:create");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  try {
+    const content = getTemplateContent(source);
+    const name = (body.name || "").trim() || `Copy of ${source.name}`;
+    const questions = body.regenerateQuestions
+      ? await generateNewQuestions(source)
+      : content.questions;
+
+    const interview = await insertInterview(
+      {
+        ...content,
+        name,
+        questions,
+        interviewer_id: source.interviewer_id,
+        documents: source.documents || [],
+        is_anonymous: source.is_anonymous,
+        is_invite_only: source.is_invite_only,
+        send_digest: source.send_digest,
+        theme_color: source.theme_color,
+        logo_url: source.logo_url,
+        user_id: userId,
+        organization_id: orgId,
+      },
+      body.organizationName,
+    );
+    if (!interview) {
+      return NextResponse.json(
+        { error: "Failed to duplicate interview" },
+        { status: 500 },
+      );
+    }
+
+    const promptVersion = await InterviewPromptService.getLatestPromptVersion(
+      source.id,
+    );
+    if (promptVersion) {
+      await savePromptVersion(
+        interview,
+        {
+          tone: promptVersion.tone,
+          opening_script: promptVersion.opening_script,
+          closing_script: promptVersion.closing_script,
+          forbidden_topics: promptVersion.forbidden_topics || [],
+        },
+        userId,
+      );
+    }
+
+    logger.info(`Interview ${source.id} duplicated as ${interview.id}`);
+
+    return NextResponse.json({ id: interview.id }, { status: 200 });
+  } catch (error) {
+    logger.error("Error duplicating interview");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
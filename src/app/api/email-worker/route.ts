@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { isCronRequest } from "@/lib/auth";
+import {
+  sendInvitationReminders,
+  sendResponseDigests,
+} from "@/lib/notifications";
+
+export const maxDuration = 300;
+
+// Meant to be called on a schedule (e.g. hourly). Reminders and digests keep
+// their own intervals, so running it more often does not send more email.
+export async function GET(req: NextRequest) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  logger.info("email-worker run started");
+
+  const reminders = await sendInvitationReminders();
+  const digests = await sendResponseDigests();
+
+  logger.info(
+    `email-worker run finished: ${reminders} reminders and ${digests} digests sent`,
+  );
+
+  return NextResponse.json({ reminders, digests }, { status: 200 });
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authorizeCall, toErrorResponse } from "@/lib/auth";
+import { ResponseService } from "@/services/responses.service";
+import { generateCommunicationAnalysis } from "@/services/analytics.service";
+import { createResponseReport } from "@/lib/response-report";
+import { toFileName } from "@/lib/response-export";
+import { getInterviewUsageContext } from "@/lib/billing";
+import { getPipelineOwner, resolveStages } from "@/lib/pipeline";
+import { PipelineService } from "@/services/pipeline.service";
+import { Interview } from "@/types/interview";
+import { Response } from "@/types/response";
+
+export const maxDuration = 60;
+
+// The communication analysis is only generated on request, so the first report
+// for a response creates it and stores it alongside the other analytics.
+const addCommunicationAnalysis = async (
+  interview: Interview,
+  response: Response,
+) => {
+  const transcript = response.details?.transcript;
+  if (
+    !response.analytics ||
+    response.analytics.communicationAnalysis ||
+    !transcript
+  ) {
+    return response;
+  }
+
+  try {
+    const communicationAnalysis = await generateCommunicationAnalysis(
+      transcript,
+      getInterviewUsageContext(interview),
+    );
+    const analytics = { ...response.analytics, communicationAnalysis };
+    await ResponseService.saveResponse({ analytics }, response.call_id);
+
+    return { ...response, analytics };
+  } catch (error) {
+    logger.warn(
+      `Communication analysis failed for call ${response.call_id}`,
+      error instanceof Error ? error.message : String(error),
+    );
+
+    return response;
+  }
+};
+
+export async function GET(req: NextRequest) {
+  logger.info("export-response-report request received");
+  const callId = req.nextUrl.searchParams.get("callId");
+
+  if (!callId) {
+    return NextResponse.json({ error: "callId is required" }, { status: 400 });
+  }
+
+  let call: { response: Response; interview: Interview };
+  try {
+    call = await authorizeCall(callId, "response:export");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+  const { response, interview } = call;
+
+  try {
+    const report = await createResponseReport(
+      interview,
+      await addCommunicationAnalysis(interview, response),
+      resolveStages(
+        await PipelineService.getStages(getPipelineOwner(interview)),
+      ),
+    );
+    const fileName = `${toFileName(response.name || "anonymous")}-${toFileName(interview.name)}-report.pdf`;
+
+    logger.info(`Report generated for call ${callId}`);
+
+    return new NextResponse(report, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Error generating response report");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
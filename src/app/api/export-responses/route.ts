@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authorizeInterview, toErrorResponse } from "@/lib/auth";
+import { Interview } from "@/types/interview";
+import { ResponseService } from "@/services/responses.service";
+import { PipelineService } from "@/services/pipeline.service";
+import { getPipelineOwner, resolveStages } from "@/lib/pipeline";
+import {
+  ExportFormat,
+  getResponsesTable,
+  toCSV,
+  toFileName,
+  toXLSX,
+} from "@/lib/response-export";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export async function GET(req: NextRequest) {
+  logger.info("export-responses request received");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+  const format = (req.nextUrl.searchParams.get("format") ||
+    "csv") as ExportFormat;
+
+  if (!interviewId || !(format in CONTENT_TYPES)) {
+    return NextResponse.json(
+      { error: "interviewId and a format of csv or xlsx are required" },
+      { status: 400 },
+    );
+  }
+
+  let interview: Interview;
+  try {
+    interview = await authorizeInterview(interviewId, "response:export");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  try {
+    const responses = await ResponseService.getAllResponses(interview.id);
+    const stages = resolveStages(
+      await PipelineService.getStages(getPipelineOwner(interview)),
+    );
+    const table = getResponsesTable(interview, responses, stages);
+    const fileName = `${toFileName(interview.name)}-responses.${format}`;
+    // The BOM makes Excel open the CSV as UTF-8
+    const body =
+      format === "csv"
+        ? `\uFEFF${toCSV(table)}`
+        : await toXLSX(table, interview.name);
+
+    logger.info(`Exported ${responses.length} responses as ${format}`);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Error exporting responses");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
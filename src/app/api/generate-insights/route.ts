@@ -1,4 +1,3 @@
-import { OpenAI } from "openai";
 import { NextResponse } from "next/server";
 import { ResponseService } from "@/services/responses.service";
 import { InterviewService } from "@/services/interviews.service";
@@ -7,13 +6,23 @@ import {
   createUserPrompt,
 } from "@/lib/prompts/generate-insights";
 import { logger } from "@/lib/logger";
+import { authorizeInterview, toErrorResponse } from "@/lib/auth";
+import { Interview } from "@/types/interview";
+import { generateStructured } from "@/lib/llm";
+import { getInterviewUsageContext } from "@/lib/billing";
+import { insightsSchema } from "@/lib/llm/schemas";
 
 export async function POST(req: Request, res: Response) {
   logger.info("generate-insights request received");
   const body = await req.json();
 
-  const responses = await ResponseService.getAllResponses(body.interviewId);
-  const interview = await InterviewService.getInterviewById(body.interviewId);
+  let interview: Interview;
+  try {
+    interview = await authorizeInterview(body.interviewId);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+  const responses = await ResponseService.getAllResponses(interview.id);
 
   let callSummaries = "";
   if (responses) {
@@ -22,12 +31,6 @@ export async function POST(req: Request, res: Response) {
     });
   }
 
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-    maxRetries: 5,
-    dangerouslyAllowBrowser: true,
-  });
-
   try {
     const prompt = createUserPrompt(
       callSummaries,
@@ -36,8 +39,10 @@ export async function POST(req: Request, res: Response) {
       interview.description,
     );
 
-    const baseCompletion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const { data: insightsResponse } = await generateStructured({
+      task: "generate-insights",
+      usage: getInterviewUsageContext(interview),
+      schema: insightsSchema,
       messages: [
         {
           role: "system",
@@ -48,13 +53,8 @@ export async function POST(req: Request, res: Response) {
           content: prompt,
         },
       ],
-      response_format: { type: "json_object" },
     });
 
-    const basePromptOutput = baseCompletion.choices[0] || {};
-    const content = basePromptOutput.message?.content || "";
-    const insightsResponse = JSON.parse(content);
-
     await InterviewService.updateInterview(
       { insights: insightsResponse.insights },
       body.interviewId,
@@ -64,7 +64,7 @@ export async function POST(req: Request, res: Response) {
 
     return NextResponse.json(
       {
-        response: content,
+        response: JSON.stringify(insightsResponse),
       },
       { status: 200 },
     );
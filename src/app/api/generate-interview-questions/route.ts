@@ -1,26 +1,36 @@
-import { OpenAI } from "openai";
 import { NextResponse } from "next/server";
 import {
   SYSTEM_PROMPT,
   generateQuestionsPrompt,
 } from "@/lib/prompts/generate-questions";
 import { logger } from "@/lib/logger";
+import { authorizePermission, toErrorResponse } from "@/lib/auth";
+import { generateStructured } from "@/lib/llm";
+import { createGeneratedQuestionsSchema } from "@/lib/llm/schemas";
+import {
+  buildDocumentContext,
+  normalizeInterviewDocuments,
+} from "@/lib/interview-documents";
 
 export const maxDuration = 60;
 
 export async function POST(req: Request, res: Response) {
   logger.info("generate-interview-questions request received");
-  const body = await req.json();
+  let orgId: string | null;
+  try {
+    ({ orgId } = await authorizePermission("interview:create"));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
 
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-    maxRetries: 5,
-    dangerouslyAllowBrowser: true,
-  });
+  const body = await req.json();
+  const documents = normalizeInterviewDocuments(body.documents);
 
   try {
-    const baseCompletion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const { data } = await generateStructured({
+      task: "generate-questions",
+      usage: { organizationId: orgId },
+      schema: createGeneratedQuestionsSchema(Number(body.number)),
       messages: [
         {
           role: "system",
@@ -28,20 +38,21 @@ export async function POST(req: Request, res: Response) {
         },
         {
           role: "user",
-          content: generateQuestionsPrompt(body),
+          content: generateQuestionsPrompt({
+            name: body.name,
+            objective: body.objective,
+            number: body.number,
+            context: buildDocumentContext(documents),
+          }),
         },
       ],
-      response_format: { type: "json_object" },
     });
 
-    const basePromptOutput = baseCompletion.choices[0] || {};
-    const content = basePromptOutput.message?.content;
-
     logger.info("Interview questions generated successfully");
 
     return NextResponse.json(
       {
-        response: content,
+        response: JSON.stringify(data),
       },
       { status: 200 },
     );
@@ -0,0 +1,119 @@
+import { auth } from "@clerk/nextjs/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/get-call/route";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
+import { InterviewService } from "@/services/interviews.service";
+import { OrganizationMemberService } from "@/services/organization-members.service";
+import { ResponseService } from "@/services/responses.service";
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+vi.mock("@/services/interviews.service", () => ({
+  InterviewService: {
+    getInterviewById: vi.fn(async (id: string) =>
+      id === "interview_a"
+        ? { id, organization_id: "org_a", user_id: "user_a" }
+        : null,
+    ),
+  },
+}));
+vi.mock("@/services/responses.service", () => ({
+  ResponseService: { getResponseByCallId: vi.fn() },
+}));
+vi.mock("@/services/organization-members.service", () => ({
+  OrganizationMemberService: { getMemberRole: vi.fn() },
+}));
+vi.mock("@/services/analysis-jobs.service", () => ({
+  AnalysisJobService: {
+    enqueueAnalysisJob: vi.fn(),
+    getAnalysisJobByCallId: vi.fn(async () => null),
+  },
+}));
+
+const getCall = (id: string) =>
+  POST(
+    new Request("http://localhost/api/get-call", {
+      method: "POST",
+      body: JSON.stringify({ id }),
+    }),
+    {} as never,
+  );
+
+describe("get-call", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => undefined);
+    vi.mocked(OrganizationMemberService.getMemberRole).mockResolvedValue(null);
+    vi.mocked(ResponseService.getResponseByCallId).mockResolvedValue({
+      id: 1,
+      call_id: "call_a",
+      interview_id: "interview_a",
+      is_analysed: true,
+      details: {
+        call_id: "call_a",
+        retell_llm_dynamic_variables: { name: "Candidate A" },
+      },
+      analytics: { overallScore: 80 },
+    });
+  });
+
+  it("returns the call to a member of the interview's organization", async () => {
+    vi.mocked(auth).mockReturnValue({
+      userId: "user_a",
+      orgId: "org_a",
+    } as ReturnType<typeof auth>);
+
+    const response = await getCall("call_a");
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      callResponse: {
+        retell_llm_dynamic_variables: { name: "Candidate A" },
+      },
+      analytics: { overallScore: 80 },
+    });
+  });
+
+  it("leaves the candidate's name out for members who cannot see it", async () => {
+    vi.mocked(auth).mockReturnValue({
+      userId: "user_a",
+      orgId: "org_a",
+    } as ReturnType<typeof auth>);
+    vi.mocked(OrganizationMemberService.getMemberRole).mockResolvedValue({
+      organization_id: "org_a",
+      user_id: "user_a",
+      role: "reviewer",
+    } as Awaited<ReturnType<typeof OrganizationMemberService.getMemberRole>>);
+
+    const response = await getCall("call_a");
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      callResponse: { call_id: "call_a" },
+      analytics: { overallScore: 80 },
+      job: null,
+    });
+  });
+
+  it("reports another organization's call as missing", async () => {
+    vi.mocked(auth).mockReturnValue({
+      userId: "user_b",
+      orgId: "org_b",
+    } as ReturnType<typeof auth>);
+
+    const response = await getCall("call_a");
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      error: "Interview not found",
+    });
+    expect(InterviewService.getInterviewById).toHaveBeenCalledWith(
+      "interview_a",
+    );
+    expect(AnalysisJobService.enqueueAnalysisJob).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { logger } from "@/lib/logger";
-import { generateInterviewAnalytics } from "@/services/analytics.service";
-import { ResponseService } from "@/services/responses.service";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
+import { authorizeCall, getRoleContext, toErrorResponse } from "@/lib/auth";
+import { hasPermission, redactCallDetails } from "@/lib/permissions";
 import { Response } from "@/types/response";
 import { NextResponse } from "next/server";
 import Retell from "retell-sdk";
@@ -13,51 +14,50 @@ export async function POST(req: Request, res: Response) {
   logger.info("get-call request received");
   const body = await req.json();
 
-  const callDetails: Response = await ResponseService.getResponseByCallId(
-    body.id,
-  );
-  let callResponse = callDetails.details;
+  let callDetails: Response;
+  let canViewPii: boolean;
+  try {
+    ({ response: callDetails } = await authorizeCall(body.id));
+    canViewPii = hasPermission(
+      (await getRoleContext()).role,
+      "response:view_pii",
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
   if (callDetails.is_analysed) {
+    const job = await AnalysisJobService.getAnalysisJobByCallId(body.id);
+
     return NextResponse.json(
       {
-        callResponse,
+        callResponse: canViewPii
+          ? callDetails.details
+          : redactCallDetails(callDetails.details),
         analytics: callDetails.analytics,
+        job,
       },
       { status: 200 },
     );
   }
-  const callOutput = await retell.call.retrieve(body.id);
-  const interviewId = callDetails?.interview_id;
-  callResponse = callOutput;
-  const duration = Math.round(
-    callResponse.end_timestamp / 1000 - callResponse.start_timestamp / 1000,
-  );
-
-  const payload = {
-    callId: body.id,
-    interviewId: interviewId,
-    transcript: callResponse.transcript,
-  };
-  const result = await generateInterviewAnalytics(payload);
-
-  const analytics = result.analytics;
 
-  await ResponseService.saveResponse(
-    {
-      details: callResponse,
-      is_analysed: true,
-      duration: duration,
-      analytics: analytics,
-    },
+  // Analysis runs in the background queue. Make sure responses from before
+  // the queue existed get a job, and show what Retell has in the meantime.
+  await AnalysisJobService.enqueueAnalysisJob(
     body.id,
+    callDetails.interview_id,
   );
 
-  logger.info("Call analysed successfully");
+  const [callResponse, job] = await Promise.all([
+    retell.call.retrieve(body.id),
+    AnalysisJobService.getAnalysisJobByCallId(body.id),
+  ]);
 
   return NextResponse.json(
     {
-      callResponse,
-      analytics,
+      callResponse: canViewPii ? callResponse : redactCallDetails(callResponse),
+      analytics: null,
+      job,
     },
     { status: 200 },
   );
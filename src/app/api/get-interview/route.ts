@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { InterviewService } from "@/services/interviews.service";
+import { enforceInterviewLimits } from "@/lib/interview-schedule";
+import { Interview, PublicInterview } from "@/types/interview";
+
+// Public: candidates are signed out, so the call page loads the interview
+// here instead of reading the table, and only gets the fields it displays
+export async function GET(req: NextRequest) {
+  logger.info("get-interview request received");
+  const id = req.nextUrl.searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const interview: Interview | null =
+    await InterviewService.getInterviewById(id);
+  if (!interview) {
+    return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+  }
+
+  const availability = await enforceInterviewLimits(interview);
+
+  const publicInterview: PublicInterview = {
+    id: interview.id,
+    name: interview.name,
+    description: interview.description,
+    time_duration: interview.time_duration,
+    interviewer_id: interview.interviewer_id,
+    is_active: availability.status === "open",
+    is_anonymous: interview.is_anonymous,
+    is_invite_only: interview.is_invite_only,
+    accepts_resume: interview.accepts_resume,
+    theme_color: interview.theme_color,
+    logo_url: interview.logo_url,
+  };
+
+  return NextResponse.json(
+    { interview: publicInterview, availability },
+    { status: 200 },
+  );
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeInterview,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { normalizePromptSettings } from "@/lib/interview-prompt";
+import { savePromptVersion } from "@/lib/prompt-versions";
+import { InterviewPromptService } from "@/services/interview-prompts.service";
+
+export async function GET(req: NextRequest) {
+  logger.info("interview-prompt request received");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+
+  if (!interviewId) {
+    return NextResponse.json(
+      { error: "interviewId is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await authorizeInterview(interviewId);
+    const versions =
+      await InterviewPromptService.getPromptVersions(interviewId);
+
+    return NextResponse.json({ versions }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  logger.info("interview-prompt request received");
+  const body = await req.json();
+
+  if (!body.interviewId) {
+    return NextResponse.json(
+      { error: "interviewId is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { userId } = getAuthContext();
+    const interview = await authorizeInterview(
+      body.interviewId,
+      "interview:edit",
+    );
+    const version = await savePromptVersion(
+      interview,
+      normalizePromptSettings(body.settings),
+      userId,
+    );
+
+    if (!version) {
+      return NextResponse.json(
+        { error: "Failed to save prompt" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ version }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
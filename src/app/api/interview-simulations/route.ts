@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  AuthorizationError,
+  authorizeInterview,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import {
+  getCoveredQuestionIds,
+  getSimulationAgentPrompt,
+  normalizeSimulationMessages,
+  toTranscript,
+} from "@/lib/simulation";
+import { generateInterviewAnalytics } from "@/services/analytics.service";
+import { InterviewerService } from "@/services/interviewers.service";
+import { SimulationService } from "@/services/simulations.service";
+import { Interview } from "@/types/interview";
+import { Analytics } from "@/types/response";
+
+export const maxDuration = 120;
+
+export async function GET(req: NextRequest) {
+  logger.info("interview-simulations request received");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+
+  if (!interviewId) {
+    return NextResponse.json(
+      { error: "interviewId is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await authorizeInterview(interviewId);
+    const simulations =
+      await SimulationService.getSimulationsByInterviewId(interviewId);
+
+    return NextResponse.json({ simulations }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Saves a dry run as a sample transcript and scores it with the same
+// analytics as a real response
+export async function POST(req: Request) {
+  logger.info("interview-simulations request received");
+  const body = await req.json();
+
+  let interview: Interview;
+  let userId: string;
+  try {
+    userId = getAuthContext().userId;
+    interview = await authorizeInterview(body.interviewId, "interview:edit");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  const messages = normalizeSimulationMessages(body.messages);
+  if (!messages.some((message) => message.role === "user")) {
+    return NextResponse.json(
+      { error: "The conversation has no candidate answers" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const transcript = toTranscript(messages);
+    const interviewer = await InterviewerService.getInterviewer(
+      interview.interviewer_id,
+    );
+    const { promptVersionId } = await getSimulationAgentPrompt(
+      interview,
+      interviewer,
+    );
+    const coveredQuestionIds = await getCoveredQuestionIds(interview, messages);
+    const result = await generateInterviewAnalytics({
+      callId: `simulation_${interview.id}`,
+      interviewId: interview.id,
+      transcript,
+    });
+    if (result.error) {
+      logger.error(`Failed to score simulation for ${interview.id}`);
+    }
+
+    const simulation = await SimulationService.createSimulation({
+      interview_id: interview.id,
+      created_by: userId,
+      prompt_version_id: promptVersionId,
+      messages,
+      transcript,
+      covered_question_ids: coveredQuestionIds,
+      analytics: (result.analytics as Analytics) ?? null,
+    });
+    if (!simulation) {
+      return NextResponse.json(
+        { error: "Failed to save simulation" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ simulation }, { status: 200 });
+  } catch (error) {
+    logger.error("Error saving simulation");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  logger.info("interview-simulations request received");
+  const id = Number(req.nextUrl.searchParams.get("id"));
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const simulation = await SimulationService.getSimulationById(id);
+  try {
+    if (!simulation) {
+      throw new AuthorizationError("Simulation not found", 404);
+    }
+    await authorizeInterview(simulation.interview_id, "interview:edit");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  const deleted = await SimulationService.deleteSimulation(id);
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Failed to delete simulation" },
+      { status: 500 },
+    );
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
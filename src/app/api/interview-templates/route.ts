@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  AuthorizationError,
+  authorizeInterview,
+  authorizePermission,
+  canAccessInterview,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { getTemplateContent } from "@/lib/interview-templates";
+import { InterviewTemplateService } from "@/services/interview-templates.service";
+
+export async function GET() {
+  logger.info("interview-templates request received");
+
+  try {
+    const { userId, orgId } = getAuthContext();
+    const templates = await InterviewTemplateService.getTemplates(
+      userId,
+      orgId,
+    );
+
+    return NextResponse.json({ templates }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Saves an existing interview as a template for the organization
+export async function POST(req: Request) {
+  logger.info("interview-templates request received");
+  const body = await req.json();
+
+  try {
+    const { userId, orgId } = getAuthContext();
+    const interview = await authorizeInterview(
+      body.interviewId,
+      "interview:create",
+    );
+    const content = getTemplateContent(interview);
+    const name = (body.name || "").trim();
+
+    const template = await InterviewTemplateService.createTemplate(
+      { ...content, name: name || content.name },
+      userId,
+      orgId,
+    );
+    if (!template) {
+      return NextResponse.json(
+        { error: "Failed to save template" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ template }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  logger.info("interview-templates request received");
+  const id = Number(req.nextUrl.searchParams.get("id"));
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const { userId, orgId } = getAuthContext();
+    const template = await InterviewTemplateService.getTemplateById(id);
+    // Templates follow the same ownership rules as interviews
+    if (!template || !canAccessInterview(template, userId, orgId)) {
+      throw new AuthorizationError("Template not found", 404);
+    }
+    await authorizePermission("interview:delete");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  const deleted = await InterviewTemplateService.deleteTemplate(id);
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Failed to delete template" },
+      { status: 500 },
+    );
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
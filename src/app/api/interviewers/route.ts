@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeInterviewer,
+  authorizePermission,
+  toErrorResponse,
+} from "@/lib/auth";
+import {
+  deleteInterviewerAgent,
+  listVoices,
+  normalizeInterviewerSettings,
+  provisionInterviewerAgent,
+  updateInterviewerAgent,
+} from "@/lib/interviewer-agent";
+import { InterviewerService } from "@/services/interviewers.service";
+import { InterviewService } from "@/services/interviews.service";
+import { InterviewerPayload, InterviewerSettings } from "@/types/interviewer";
+
+const MAX_NAME_LENGTH = 50;
+
+// Returns null when the payload is incomplete or the voice does not exist
+const parsePayload = async (body: any) => {
+  const payload: Partial<InterviewerPayload> = body?.interviewer || {};
+  const name = (payload.name || "").trim().slice(0, MAX_NAME_LENGTH);
+  if (!name || !payload.image || !payload.voice_id) {
+    return null;
+  }
+
+  const voice = (await listVoices()).find(
+    (item) => item.voice_id === payload.voice_id,
+  );
+  if (!voice) {
+    return null;
+  }
+
+  return {
+    name,
+    image: payload.image,
+    voice_id: voice.voice_id,
+    description:
+      (payload.description || "").trim() ||
+      `Hi! I'm ${name}, a custom interviewer created by your team. Let's have a great conversation!`,
+    // Custom interviewers use the voice preview as their audio sample
+    audio: voice.preview_audio_url ?? null,
+    ...normalizeInterviewerSettings(payload as InterviewerSettings),
+  };
+};
+
+const invalidPayloadResponse = () =>
+  NextResponse.json(
+    { error: "name, image and a valid voice_id are required" },
+    { status: 400 },
+  );
+
+export async function POST(req: Request) {
+  logger.info("interviewers request received");
+
+  try {
+    const { userId, orgId } = await authorizePermission("interview:edit");
+    const payload = await parsePayload(await req.json());
+    if (!payload) {
+      return invalidPayloadResponse();
+    }
+
+    const agent = await provisionInterviewerAgent(
+      payload.name,
+      payload.voice_id,
+      payload,
+    );
+    const interviewer = await InterviewerService.createInterviewer({
+      ...payload,
+      ...agent,
+      user_id: userId,
+      organization_id: orgId,
+    });
+
+    if (!interviewer) {
+      await deleteInterviewerAgent(agent.agent_id, agent.llm_id);
+
+      return NextResponse.json(
+        { error: "Failed to create interviewer" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ interviewer }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function PUT(req: Request) {
+  logger.info("interviewers request received");
+
+  try {
+    const body = await req.json();
+    const existing = await authorizeInterviewer(body.id);
+    await authorizePermission("interview:edit");
+    const payload = await parsePayload(body);
+    if (!payload) {
+      return invalidPayloadResponse();
+    }
+
+    // Interviewers saved before agents were provisioned get one now
+    let agent = {};
+    if (existing.agent_id) {
+      agent = await updateInterviewerAgent(
+        existing.agent_id,
+        existing.llm_id,
+        payload.name,
+        payload.voice_id,
+        payload,
+      );
+    } else {
+      agent = await provisionInterviewerAgent(
+        payload.name,
+        payload.voice_id,
+        payload,
+      );
+    }
+
+    const interviewer = await InterviewerService.updateInterviewer(
+      { ...payload, ...agent },
+      existing.id,
+    );
+
+    if (!interviewer) {
+      return NextResponse.json(
+        { error: "Failed to update interviewer" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ interviewer }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  logger.info("interviewers request received");
+  const id = req.nextUrl.searchParams.get("id");
+
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const interviewer = await authorizeInterviewer(BigInt(id));
+    await authorizePermission("interview:edit");
+
+    const interviewCount =
+      await InterviewService.countInterviewsByInterviewerId(interviewer.id);
+    if (interviewCount === null) {
+      return NextResponse.json(
+        { error: "internal server error" },
+        { status: 500 },
+      );
+    }
+    if (interviewCount > 0) {
+      return NextResponse.json(
+        { error: "Interviewer is used by existing interviews" },
+        { status: 409 },
+      );
+    }
+
+    // Retell goes first so a failure leaves the row in place to retry with
+    await deleteInterviewerAgent(interviewer.agent_id, interviewer.llm_id);
+    const deleted = await InterviewerService.deleteInterviewer(interviewer.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Failed to delete interviewer" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ deleted: true }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
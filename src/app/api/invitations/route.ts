@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  AuthorizationError,
+  authorizeInterview,
+  toErrorResponse,
+} from "@/lib/auth";
+import { InvitationService } from "@/services/invitations.service";
+import { createInvitationToken } from "@/lib/invitation-token";
+import { sendInvitationEmails } from "@/lib/notifications";
+import {
+  DEFAULT_INVITATION_EXPIRY_DAYS,
+  DEFAULT_INVITATION_MAX_ATTEMPTS,
+  MAX_INVITATION_ATTEMPTS,
+  MAX_INVITATION_EXPIRY_DAYS,
+  MAX_INVITATIONS_PER_REQUEST,
+} from "@/lib/invitations";
+import { testEmail } from "@/lib/utils";
+import { Interview } from "@/types/interview";
+import { Invitation, InvitationCandidate } from "@/types/invitation";
+
+export const maxDuration = 300;
+
+const clamp = (value: unknown, fallback: number, max: number) => {
+  const number = Math.round(Number(value));
+
+  return Number.isFinite(number) && number >= 1
+    ? Math.min(number, max)
+    : fallback;
+};
+
+const withTokens = (invitations: Invitation[]) =>
+  invitations.map((invitation) => ({
+    ...invitation,
+    token: createInvitationToken(invitation),
+  }));
+
+export async function GET(req: NextRequest) {
+  logger.info("invitations request received");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+
+  if (!interviewId) {
+    return NextResponse.json(
+      { error: "interviewId is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await authorizeInterview(interviewId, "response:view_pii");
+    const invitations =
+      await InvitationService.getInvitationsByInterviewId(interviewId);
+
+    return NextResponse.json(
+      { invitations: withTokens(invitations) },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  logger.info("invitations request received");
+  const body = await req.json();
+
+  const candidates: InvitationCandidate[] = (body.candidates || [])
+    .filter((candidate: InvitationCandidate) => testEmail(candidate?.email))
+    .map((candidate: InvitationCandidate) => ({
+      name: (candidate.name || "").trim(),
+      email: candidate.email.trim().toLowerCase(),
+    }));
+
+  if (!body.interviewId || candidates.length === 0) {
+    return NextResponse.json(
+      { error: "interviewId and at least one candidate email are required" },
+      { status: 400 },
+    );
+  }
+
+  if (candidates.length > MAX_INVITATIONS_PER_REQUEST) {
+    return NextResponse.json(
+      {
+        error: `At most ${MAX_INVITATIONS_PER_REQUEST} candidates can be invited at once`,
+      },
+      { status: 400 },
+    );
+  }
+
+  let interview: Interview;
+  try {
+    interview = await authorizeInterview(body.interviewId, "interview:edit");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  const expiresInDays = clamp(
+    body.expiresInDays,
+    DEFAULT_INVITATION_EXPIRY_DAYS,
+    MAX_INVITATION_EXPIRY_DAYS,
+  );
+  const maxAttempts = clamp(
+    body.maxAttempts,
+    DEFAULT_INVITATION_MAX_ATTEMPTS,
+    MAX_INVITATION_ATTEMPTS,
+  );
+  const expiresAt = new Date(
+    Date.now() + expiresInDays * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  try {
+    const invitations = await InvitationService.createInvitations(
+      interview.id,
+      candidates,
+      expiresAt,
+      maxAttempts,
+    );
+    if (invitations.length === 0) {
+      return NextResponse.json(
+        { error: "Failed to create invitations" },
+        { status: 500 },
+      );
+    }
+
+    logger.info(`Created ${invitations.length} invitations`);
+
+    const emailed = body.sendEmail
+      ? await sendInvitationEmails(interview, invitations)
+      : 0;
+
+    return NextResponse.json(
+      { invitations: withTokens(invitations), emailed },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error creating invitations");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  logger.info("invitations request received");
+  const id = Number(req.nextUrl.searchParams.get("id"));
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const invitation = await InvitationService.getInvitationById(id);
+  try {
+    if (!invitation) {
+      throw new AuthorizationError("Invitation not found", 404);
+    }
+    await authorizeInterview(invitation.interview_id, "interview:edit");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  const deleted = await InvitationService.deleteInvitation(id);
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Failed to revoke invitation" },
+      { status: 500 },
+    );
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  AuthorizationError,
+  authorizePermission,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { canAssignRole, isOrganizationRole } from "@/lib/permissions";
+import {
+  getOrganizationMembers,
+  removeOrganizationMember,
+} from "@/lib/organization-members";
+import { OrganizationMemberService } from "@/services/organization-members.service";
+import {
+  OrganizationMember,
+  OrganizationRole,
+} from "@/types/organization-member";
+
+const authorizeMemberManagement = async () => {
+  const context = await authorizePermission("members:manage");
+  if (!context.orgId) {
+    throw new AuthorizationError("Members belong to an organization", 400);
+  }
+
+  return { ...context, orgId: context.orgId };
+};
+
+// Checks a change to another member's role, where a null role removes them.
+// An organization always keeps at least one owner.
+const authorizeMemberChange = (
+  members: OrganizationMember[],
+  actorRole: OrganizationRole,
+  targetUserId: string,
+  newRole: OrganizationRole | null,
+) => {
+  const target = members.find((member) => member.user_id === targetUserId);
+  if (!target) {
+    throw new AuthorizationError("Member not found", 404);
+  }
+  if (!canAssignRole(actorRole, target.role, newRole)) {
+    throw new AuthorizationError("Only owners can change owners", 403);
+  }
+  const owners = members.filter((member) => member.role === "owner");
+  if (target.role === "owner" && newRole !== "owner" && owners.length === 1) {
+    throw new AuthorizationError(
+      "The organization needs at least one owner",
+      400,
+    );
+  }
+
+  return target;
+};
+
+// Any member can list the organization's members, to mention them in
+// comments; changing them needs members:manage
+export async function GET() {
+  logger.info("organization-members request received");
+
+  try {
+    const { orgId } = getAuthContext();
+    if (!orgId) {
+      throw new AuthorizationError("Members belong to an organization", 400);
+    }
+
+    return NextResponse.json(
+      { members: await getOrganizationMembers(orgId) },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function PUT(req: Request) {
+  logger.info("organization-members request received");
+  const body = await req.json();
+
+  if (!body.userId || !isOrganizationRole(body.role)) {
+    return NextResponse.json(
+      { error: "userId and a valid role are required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { userId, orgId, role } = await authorizeMemberManagement();
+    const members = await getOrganizationMembers(orgId);
+    const target = authorizeMemberChange(members, role, body.userId, body.role);
+
+    const member = await OrganizationMemberService.setMemberRole(
+      orgId,
+      target.user_id,
+      body.role,
+      userId,
+    );
+    if (!member) {
+      return NextResponse.json(
+        { error: "Failed to update role" },
+        { status: 500 },
+      );
+    }
+
+    logger.info(`Role of ${target.user_id} set to ${member.role}`);
+
+    return NextResponse.json(
+      { member: { ...target, role: member.role } },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  logger.info("organization-members request received");
+  const targetUserId = req.nextUrl.searchParams.get("userId");
+
+  if (!targetUserId) {
+    return NextResponse.json({ error: "userId is required" }, { status: 400 });
+  }
+
+  try {
+    const { userId, orgId, role } = await authorizeMemberManagement();
+    // Leaving goes through Clerk, so nobody removes themselves here
+    if (targetUserId === userId) {
+      throw new AuthorizationError("You cannot remove yourself", 400);
+    }
+    const members = await getOrganizationMembers(orgId);
+    authorizeMemberChange(members, role, targetUserId, null);
+
+    await removeOrganizationMember(orgId, targetUserId);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getRoleContext, toErrorResponse } from "@/lib/auth";
+import { ROLE_PERMISSIONS } from "@/lib/permissions";
+
+// The signed-in user's role, used by the dashboard to show only what they can
+// do. Every action is checked again where it happens.
+export async function GET() {
+  logger.info("organization-role request received");
+
+  try {
+    const { role } = await getRoleContext();
+
+    return NextResponse.json(
+      { role, permissions: ROLE_PERMISSIONS[role] },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeInterview,
+  authorizePermission,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import {
+  getPipelineOwner,
+  normalizeStages,
+  resolveStages,
+} from "@/lib/pipeline";
+import { InterviewService } from "@/services/interviews.service";
+import { PipelineService } from "@/services/pipeline.service";
+import { ResponseService } from "@/services/responses.service";
+import { Interview } from "@/types/interview";
+import { PipelineOwner } from "@/types/pipeline";
+
+const getContextOwner = (userId: string, orgId: string | null) =>
+  getPipelineOwner({ organization_id: orgId, user_id: userId });
+
+// The stages of an interview's pipeline when interviewId is given, otherwise
+// those of the signed-in user's organization
+export async function GET(req: NextRequest) {
+  logger.info("pipeline-stages request received");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+
+  try {
+    const { userId, orgId } = getAuthContext();
+    const owner: PipelineOwner = interviewId
+      ? getPipelineOwner(await authorizeInterview(interviewId))
+      : getContextOwner(userId, orgId);
+    const stored = await PipelineService.getStages(owner);
+
+    return NextResponse.json(
+      { stages: resolveStages(stored), isDefault: stored.length === 0 },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function PUT(req: Request) {
+  logger.info("pipeline-stages request received");
+  const body = await req.json();
+
+  try {
+    const { userId, orgId } = await authorizePermission("pipeline:manage");
+    const owner = getContextOwner(userId, orgId);
+    const existing = resolveStages(await PipelineService.getStages(owner));
+
+    const result = normalizeStages(body.stages, existing);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Removing a stage would strand the responses in it
+    const keys = result.stages.map((stage) => stage.key);
+    const removed = existing.filter((stage) => !keys.includes(stage.key));
+    const interviews: Interview[] = await InterviewService.getAllInterviews(
+      userId,
+      orgId ?? "",
+    );
+    const inUse = await ResponseService.getResponseCountByStatuses(
+      interviews
+        .filter(
+          (interview) =>
+            getPipelineOwner(interview).organization_id ===
+              owner.organization_id &&
+            getPipelineOwner(interview).user_id === owner.user_id,
+        )
+        .map((interview) => interview.id),
+      removed.map((stage) => stage.key),
+    );
+    if (inUse > 0) {
+      return NextResponse.json(
+        {
+          error: `${inUse} ${inUse === 1 ? "response is" : "responses are"} still in ${removed
+            .map((stage) => stage.name)
+            .join(", ")}. Move them to another stage first.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const stages = await PipelineService.replaceStages(owner, result.stages);
+    if (!stages) {
+      return NextResponse.json(
+        { error: "Failed to save stages" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      { stages: resolveStages(stages), isDefault: false },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeBankQuestion,
+  authorizePermission,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import {
+  computeBankQuestionStats,
+  normalizeBankQuestionPayload,
+} from "@/lib/question-bank";
+import { QuestionBankService } from "@/services/question-bank.service";
+import { InterviewService } from "@/services/interviews.service";
+import { ResponseService } from "@/services/responses.service";
+import { Interview } from "@/types/interview";
+
+const invalidPayloadResponse = () =>
+  NextResponse.json({ error: "question is required" }, { status: 400 });
+
+// Lists the bank with usage and answer stats. Pass stats=false to skip them
+// when only the questions are needed, as the question picker does.
+export async function GET(req: NextRequest) {
+  logger.info("question-bank request received");
+
+  try {
+    const { userId, orgId } = getAuthContext();
+    const bankQuestions = await QuestionBankService.getBankQuestions(
+      userId,
+      orgId,
+    );
+    if (req.nextUrl.searchParams.get("stats") === "false") {
+      return NextResponse.json({ questions: bankQuestions }, { status: 200 });
+    }
+
+    const interviews: Interview[] = await InterviewService.getAllInterviews(
+      userId,
+      orgId ?? "",
+    );
+    const usedInterviews = interviews.filter((interview) =>
+      (interview.questions || []).some((question) => question.bank_question_id),
+    );
+    const responses = await ResponseService.getAnalyticsByInterviewIds(
+      usedInterviews.map((interview) => interview.id),
+    );
+
+    return NextResponse.json(
+      {
+        questions: computeBankQuestionStats(
+          bankQuestions,
+          usedInterviews,
+          responses,
+        ),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  logger.info("question-bank request received");
+
+  try {
+    const { userId, orgId } = await authorizePermission("interview:edit");
+    const payload = normalizeBankQuestionPayload(await req.json());
+    if (!payload) {
+      return invalidPayloadResponse();
+    }
+
+    const question = await QuestionBankService.createBankQuestion(
+      payload,
+      userId,
+      orgId,
+    );
+    if (!question) {
+      return NextResponse.json(
+        { error: "Failed to save question" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ question }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Retiring hides a question from the picker; interviews that already use it
+// keep it and its stats keep counting
+export async function PUT(req: Request) {
+  logger.info("question-bank request received");
+
+  try {
+    const body = await req.json();
+    const existing = await authorizeBankQuestion(Number(body.id));
+    await authorizePermission("interview:edit");
+    const payload = normalizeBankQuestionPayload({ ...existing, ...body });
+    if (!payload) {
+      return invalidPayloadResponse();
+    }
+
+    const question = await QuestionBankService.updateBankQuestion(
+      {
+        ...payload,
+        is_retired:
+          typeof body.is_retired === "boolean"
+            ? body.is_retired
+            : existing.is_retired,
+      },
+      existing.id,
+    );
+    if (!question) {
+      return NextResponse.json(
+        { error: "Failed to update question" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ question }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  logger.info("question-bank request received");
+  const id = Number(req.nextUrl.searchParams.get("id"));
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    await authorizeBankQuestion(id);
+    await authorizePermission("interview:edit");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  const deleted = await QuestionBankService.deleteBankQuestion(id);
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Failed to delete question" },
+      { status: 500 },
+    );
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -1,5 +1,26 @@
 import { logger } from "@/lib/logger";
 import { InterviewerService } from "@/services/interviewers.service";
+import { InterviewService } from "@/services/interviews.service";
+import { InvitationService } from "@/services/invitations.service";
+import { ResponseService } from "@/services/responses.service";
+import { ResumeService } from "@/services/resumes.service";
+import { resolveInvitation } from "@/lib/invitation-token";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  renderInterviewPrompt,
+} from "@/lib/interview-prompt";
+import { resolvePromptVersion } from "@/lib/prompt-versions";
+import { ensureInterviewerPromptSynced } from "@/lib/interviewer-agent";
+import { getResumePromptSection } from "@/lib/resumes";
+import { enforceInterviewLimits } from "@/lib/interview-schedule";
+import {
+  checkQuota,
+  getInterviewUsageContext,
+  recordUsage,
+} from "@/lib/billing";
+import { Interview } from "@/types/interview";
+import { Invitation } from "@/types/invitation";
+import { CandidateResume } from "@/types/resume";
 import { NextResponse } from "next/server";
 import Retell from "retell-sdk";
 
@@ -7,19 +28,184 @@ const retellClient = new Retell({
   apiKey: process.env.RETELL_API_KEY || "",
 });
 
+// Candidates are signed out, so everything the call page used to read or
+// write directly happens here: eligibility, the interviewer's prompt and the
+// response row.
 export async function POST(req: Request, res: Response) {
   logger.info("register-call request received");
 
   const body = await req.json();
 
-  const interviewerId = body.interviewer_id;
-  const interviewer = await InterviewerService.getInterviewer(interviewerId);
+  const interview: Interview | null = body.interview_id
+    ? await InterviewService.getInterviewById(body.interview_id)
+    : null;
+  if (!interview) {
+    return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+  }
+  const availability = await enforceInterviewLimits(interview);
+  if (availability.status !== "open") {
+    return NextResponse.json(
+      { error: "Interview is not active", availability },
+      { status: 403 },
+    );
+  }
 
-  const registerCallResponse = await retellClient.call.createWebCall({
-    agent_id: interviewer?.agent_id,
-    retell_llm_dynamic_variables: body.dynamic_data,
+  // Checked before an invitation attempt is used up, so a refused candidate
+  // can try again once the organization has upgraded
+  const quota = await checkQuota(interview.organization_id);
+  if (!quota.allowed) {
+    logger.info(
+      `Call refused for ${interview.id}: ${quota.kind} limit of the plan reached`,
+    );
+
+    return NextResponse.json(
+      { error: "Interview is not accepting responses" },
+      { status: 402 },
+    );
+  }
+
+  // Also checked before an invitation attempt is used up, since the candidate
+  // cannot fix it
+  const interviewer = await InterviewerService.getInterviewer(
+    interview.interviewer_id,
+  );
+
+  if (!interviewer?.agent_id) {
+    logger.error(`Interviewer for interview ${interview.id} has no agent`);
+
+    return NextResponse.json(
+      { error: "interviewer is not set up" },
+      { status: 500 },
+    );
+  }
+
+  let invitation: Invitation | null = null;
+  let name: string = body.name || "";
+  let email: string = body.email || "";
+
+  if (body.invitation_token) {
+    const result = await resolveInvitation(body.invitation_token, interview.id);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "invalid" ? 404 : 410 },
+      );
+    }
+    invitation = result.invitation;
+    if (!interview.is_anonymous) {
+      name = name || invitation.name;
+      email = invitation.email;
+    }
+
+    if (!(await InvitationService.startInvitationAttempt(invitation))) {
+      return NextResponse.json({ error: "used" }, { status: 409 });
+    }
+  } else if (interview.is_invite_only) {
+    return NextResponse.json({ error: "invitation required" }, { status: 403 });
+  } else if (email) {
+    // Invited candidates are limited by their invitation's attempts instead
+    const previousEmails = (
+      await ResponseService.getAllEmails(interview.id)
+    ).map((item) => item.email);
+    if (
+      previousEmails.includes(email) ||
+      (interview.respondents && !interview.respondents.includes(email))
+    ) {
+      return NextResponse.json({ error: "already responded" }, { status: 409 });
+    }
+  }
+
+  // A resume that was already used for a call, or belongs to another
+  // interview, is ignored rather than failing the call
+  let resume: CandidateResume | null = null;
+  if (body.resume_id && interview.accepts_resume) {
+    const candidateResume = await ResumeService.getResumeById(body.resume_id);
+    if (
+      candidateResume?.interview_id === interview.id &&
+      !candidateResume.call_id
+    ) {
+      resume = candidateResume;
+    }
+  }
+
+  const promptVersion = await resolvePromptVersion(interview);
+  if (!promptVersion) {
+    logger.error(`Failed to save a prompt version for ${interview.id}`);
+  }
+  // An interviewer whose Retell prompt predates {{interview_prompt}} runs
+  // without the prompt version, so the response must not claim it
+  const isPromptSynced = await ensureInterviewerPromptSynced(interviewer);
+
+  const interviewPrompt =
+    promptVersion?.prompt ??
+    renderInterviewPrompt(interview, DEFAULT_PROMPT_SETTINGS);
+  const questions = [...interview.questions, ...(resume?.questions || [])];
+
+  let registerCallResponse;
+  try {
+    registerCallResponse = await retellClient.call.createWebCall({
+      agent_id: interviewer.agent_id,
+      retell_llm_dynamic_variables: {
+        interview_prompt: resume
+          ? `${interviewPrompt}\n\n${getResumePromptSection(resume)}`
+          : interviewPrompt,
+        name: name || "not provided",
+        // Read by agents provisioned before interview prompts existed
+        mins: interview.time_duration,
+        objective: interview.objective,
+        questions: questions.map((q) => q.question).join(", "),
+      },
+    });
+  } catch (error) {
+    logger.error(
+      `Failed to create a call for ${interview.id}`,
+      error instanceof Error ? error.message : String(error),
+    );
+    // The candidate never got to talk, so the attempt is not used up
+    if (invitation) {
+      await InvitationService.releaseInvitationAttempt(invitation);
+    }
+
+    return NextResponse.json(
+      { error: "Failed to start the call" },
+      { status: 502 },
+    );
+  }
+
+  if (
+    resume &&
+    !(await ResumeService.claimResume(resume.id, registerCallResponse.call_id))
+  ) {
+    resume = null;
+  }
+
+  if (invitation) {
+    await InvitationService.updateInvitation(
+      { call_id: registerCallResponse.call_id },
+      invitation.id,
+    );
+  }
+
+  await ResponseService.createResponse({
+    interview_id: interview.id,
+    call_id: registerCallResponse.call_id,
+    email: email,
+    name: name,
+    prompt_version_id: isPromptSynced ? (promptVersion?.id ?? null) : null,
+    resume_id: resume?.id ?? null,
+  });
+
+  await recordUsage(getInterviewUsageContext(interview), {
+    kind: "response",
+    quantity: 1,
+    idempotencyKey: `response:${registerCallResponse.call_id}`,
   });
 
+  // Closes the interview as soon as this response uses up the last place
+  if (interview.max_responses) {
+    await enforceInterviewLimits(interview);
+  }
+
   logger.info("Call registered successfully");
 
   return NextResponse.json(
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  AuthorizationError,
+  authorizeCall,
+  getRoleContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { sendMentionEmails } from "@/lib/notifications";
+import {
+  getCurrentMemberName,
+  getOrganizationMembers,
+} from "@/lib/organization-members";
+import { hasPermission } from "@/lib/permissions";
+import { MAX_COMMENT_LENGTH } from "@/lib/reviews";
+import { ReviewService } from "@/services/reviews.service";
+
+export async function POST(req: Request) {
+  logger.info("response-comments request received");
+  const body = await req.json();
+  const text = typeof body.body === "string" ? body.body.trim() : "";
+
+  if (!body.callId || !text) {
+    return NextResponse.json(
+      { error: "callId and body are required" },
+      { status: 400 },
+    );
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json(
+      { error: `Comments must be at most ${MAX_COMMENT_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
+  const timestampSeconds =
+    body.timestampSeconds === undefined || body.timestampSeconds === null
+      ? null
+      : Number(body.timestampSeconds);
+  if (
+    timestampSeconds !== null &&
+    (!Number.isFinite(timestampSeconds) || timestampSeconds < 0)
+  ) {
+    return NextResponse.json(
+      { error: "timestampSeconds must be a positive number" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { userId, orgId } = await getRoleContext();
+    const { response, interview } = await authorizeCall(body.callId);
+
+    if (body.parentId) {
+      const parent = await ReviewService.getCommentById(Number(body.parentId));
+      if (!parent || parent.response_id !== Number(response.id)) {
+        throw new AuthorizationError("Comment not found", 404);
+      }
+    }
+
+    // Only other members of the organization can be mentioned
+    const mentionIds: string[] = Array.isArray(body.mentions)
+      ? body.mentions
+      : [];
+    const mentioned = orgId
+      ? (await getOrganizationMembers(orgId)).filter(
+          (member) =>
+            member.user_id !== userId && mentionIds.includes(member.user_id),
+        )
+      : [];
+
+    const authorName = await getCurrentMemberName();
+    const comment = await ReviewService.createComment({
+      response_id: Number(response.id),
+      interview_id: interview.id,
+      parent_id: body.parentId ? Number(body.parentId) : null,
+      author_id: userId,
+      author_name: authorName,
+      body: text,
+      timestamp_seconds: timestampSeconds,
+      mentions: mentioned.map((member) => member.user_id),
+    });
+    if (!comment) {
+      return NextResponse.json(
+        { error: "Failed to save comment" },
+        { status: 500 },
+      );
+    }
+
+    if (mentioned.length > 0) {
+      await sendMentionEmails(
+        interview,
+        response.call_id,
+        authorName || "A teammate",
+        text,
+        mentioned,
+      );
+    }
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Authors remove their own comments; members who manage the organization can
+// remove anyone's. Replies go with the comment they answer.
+export async function DELETE(req: NextRequest) {
+  logger.info("response-comments request received");
+  const id = Number(req.nextUrl.searchParams.get("id"));
+  const callId = req.nextUrl.searchParams.get("callId");
+
+  if (!id || !callId) {
+    return NextResponse.json(
+      { error: "id and callId are required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { userId, role } = await getRoleContext();
+    const { response } = await authorizeCall(callId);
+    const comment = await ReviewService.getCommentById(id);
+    if (!comment || comment.response_id !== Number(response.id)) {
+      throw new AuthorizationError("Comment not found", 404);
+    }
+    if (
+      comment.author_id !== userId &&
+      !hasPermission(role, "members:manage")
+    ) {
+      throw new AuthorizationError(
+        "You can only delete your own comments",
+        403,
+      );
+    }
+
+    const deleted = await ReviewService.deleteComment(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Failed to delete comment" },
+        { status: 500 },
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authorizeCall, getAuthContext, toErrorResponse } from "@/lib/auth";
+import { getCurrentMemberName } from "@/lib/organization-members";
+import {
+  computeReviewConsensus,
+  isScorecardEmpty,
+  normalizeScorecard,
+} from "@/lib/reviews";
+import { ReviewService } from "@/services/reviews.service";
+
+// Scorecards, comments and the AI vs team consensus of one response. Every
+// member who can open the response can review it, reviewers included.
+export async function GET(req: NextRequest) {
+  logger.info("response-reviews request received");
+  const callId = req.nextUrl.searchParams.get("callId");
+
+  if (!callId) {
+    return NextResponse.json({ error: "callId is required" }, { status: 400 });
+  }
+
+  try {
+    const { response, interview } = await authorizeCall(callId);
+    const responseId = Number(response.id);
+    const [scorecards, comments] = await Promise.all([
+      ReviewService.getScorecardsByResponseId(responseId),
+      ReviewService.getCommentsByResponseId(responseId),
+    ]);
+
+    return NextResponse.json(
+      {
+        scorecards,
+        comments,
+        consensus: computeReviewConsensus(
+          interview,
+          response.analytics,
+          scorecards,
+        ),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Saves the signed-in member's own scorecard; each member has one per response
+export async function PUT(req: Request) {
+  logger.info("response-reviews request received");
+  const body = await req.json();
+
+  if (!body.callId || !body.scorecard) {
+    return NextResponse.json(
+      { error: "callId and scorecard are required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { userId } = getAuthContext();
+    const { response, interview } = await authorizeCall(body.callId);
+
+    const result = normalizeScorecard(body.scorecard, interview);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (isScorecardEmpty(result.scorecard)) {
+      return NextResponse.json(
+        { error: "Rate something or add a recommendation first" },
+        { status: 400 },
+      );
+    }
+
+    const scorecard = await ReviewService.upsertScorecard({
+      ...result.scorecard,
+      response_id: Number(response.id),
+      interview_id: interview.id,
+      reviewer_id: userId,
+      reviewer_name: await getCurrentMemberName(),
+    });
+    if (!scorecard) {
+      return NextResponse.json(
+        { error: "Failed to save scorecard" },
+        { status: 500 },
+      );
+    }
+
+    const scorecards = await ReviewService.getScorecardsByResponseId(
+      Number(response.id),
+    );
+
+    return NextResponse.json(
+      {
+        scorecard,
+        scorecards,
+        consensus: computeReviewConsensus(
+          interview,
+          response.analytics,
+          scorecards,
+        ),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
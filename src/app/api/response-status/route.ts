@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  AuthorizationError,
+  authorizeCall,
+  authorizeInterview,
+  getAuthContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { getCurrentMemberName } from "@/lib/organization-members";
+import { getPipelineOwner, getStage, resolveStages } from "@/lib/pipeline";
+import { PipelineService } from "@/services/pipeline.service";
+import { ResponseService } from "@/services/responses.service";
+import { Interview } from "@/types/interview";
+
+const MAX_BULK_STATUS_CHANGES = 500;
+
+// Status history of one response (callId) or of all responses to an
+// interview (interviewId)
+export async function GET(req: NextRequest) {
+  logger.info("response-status request received");
+  const callId = req.nextUrl.searchParams.get("callId");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+
+  if (!callId && !interviewId) {
+    return NextResponse.json(
+      { error: "callId or interviewId is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (callId) {
+      const { response } = await authorizeCall(callId);
+
+      return NextResponse.json(
+        {
+          changes: await PipelineService.getStatusChanges({
+            responseId: Number(response.id),
+          }),
+        },
+        { status: 200 },
+      );
+    }
+    const interview = await authorizeInterview(interviewId as string);
+
+    return NextResponse.json(
+      {
+        changes: await PipelineService.getStatusChanges({
+          interviewId: interview.id,
+        }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+// Moves one or more responses of an interview to a stage and records who
+// moved them
+export async function PUT(req: Request) {
+  logger.info("response-status request received");
+  const body = await req.json();
+  const callIds: string[] = Array.isArray(body.callIds)
+    ? Array.from(new Set(body.callIds as string[]))
+    : [];
+
+  if (callIds.length === 0 || typeof body.status !== "string") {
+    return NextResponse.json(
+      { error: "callIds and status are required" },
+      { status: 400 },
+    );
+  }
+  if (callIds.length > MAX_BULK_STATUS_CHANGES) {
+    return NextResponse.json(
+      {
+        error: `At most ${MAX_BULK_STATUS_CHANGES} responses can be moved at once`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { userId } = getAuthContext();
+    const responses = await ResponseService.getResponsesByCallIds(callIds);
+    const interviewIds = Array.from(
+      new Set(responses.map((response) => response.interview_id)),
+    );
+    if (responses.length !== callIds.length || interviewIds.length !== 1) {
+      throw new AuthorizationError(
+        "Responses not found, or from more than one interview",
+        404,
+      );
+    }
+    const interview: Interview = await authorizeInterview(
+      interviewIds[0],
+      "response:update_status",
+    );
+
+    const stages = resolveStages(
+      await PipelineService.getStages(getPipelineOwner(interview)),
+    );
+    if (!stages.some((stage) => stage.key === body.status)) {
+      return NextResponse.json({ error: "Unknown stage" }, { status: 400 });
+    }
+
+    const moved = responses.filter(
+      (response) =>
+        getStage(stages, response.candidate_status).key !== body.status,
+    );
+    if (moved.length > 0) {
+      const updated = await ResponseService.updateCandidateStatus(
+        moved.map((response) => response.call_id),
+        body.status,
+      );
+      if (!updated) {
+        return NextResponse.json(
+          { error: "Failed to update status" },
+          { status: 500 },
+        );
+      }
+      const changedByName = await getCurrentMemberName();
+      await PipelineService.createStatusChanges(
+        moved.map((response) => ({
+          response_id: Number(response.id),
+          interview_id: interview.id,
+          from_status: response.candidate_status,
+          to_status: body.status,
+          changed_by: userId,
+          changed_by_name: changedByName,
+        })),
+      );
+    }
+
+    logger.info(`Moved ${moved.length} responses to ${body.status}`);
+
+    return NextResponse.json(
+      { moved: moved.map((response) => response.call_id) },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
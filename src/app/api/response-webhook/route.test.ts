@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeSupabase } from "@/test/fake-supabase";
+import {
+  createCallFixture,
+  createWebhookRequest,
+} from "@/test/fixtures/retell";
+import { POST } from "@/app/api/response-webhook/route";
+import { ResponseService } from "@/services/responses.service";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
+import { InvitationService } from "@/services/invitations.service";
+import { processAnalysisJobs } from "@/lib/analysis-worker";
+import { recordUsage } from "@/lib/billing";
+import { sendCompletionReceipt } from "@/lib/notifications";
+
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+vi.mock("@/services/responses.service", () => ({
+  ResponseService: {
+    getResponseByCallId: vi.fn(),
+    saveResponse: vi.fn(),
+  },
+}));
+vi.mock("@/services/analysis-jobs.service", () => ({
+  AnalysisJobService: { scheduleAnalysisJobNow: vi.fn() },
+}));
+vi.mock("@/services/invitations.service", () => ({
+  InvitationService: { completeInvitationByCallId: vi.fn() },
+}));
+vi.mock("@/services/interviews.service", () => ({
+  InterviewService: {
+    getInterviewById: vi.fn(async () => ({
+      id: "interview_1",
+      organization_id: "org_1",
+    })),
+  },
+}));
+vi.mock("@/lib/analysis-worker", () => ({ processAnalysisJobs: vi.fn() }));
+vi.mock("@/lib/billing", () => ({ recordUsage: vi.fn() }));
+vi.mock("@/lib/notifications", () => ({ sendCompletionReceipt: vi.fn() }));
+
+const call = createCallFixture();
+
+const mockResponse = (overrides: { is_analysed?: boolean } = {}) =>
+  vi.mocked(ResponseService.getResponseByCallId).mockResolvedValue({
+    call_id: call.call_id,
+    interview_id: "interview_1",
+    is_analysed: false,
+    ...overrides,
+  });
+
+describe("POST /api/response-webhook", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    fakeSupabase.reset({ retell_event: [["call_id", "event"]] });
+    mockResponse();
+  });
+
+  it("handles an event with a valid signature", async () => {
+    const response = await POST(
+      createWebhookRequest({ event: "call_ended", call }),
+    );
+
+    expect(response.status).toBe(204);
+    const [event] = fakeSupabase.rows("retell_event");
+    expect(event).toMatchObject({
+      call_id: call.call_id,
+      event: "call_ended",
+      locked_at: null,
+    });
+    expect(event.processed_at).toEqual(expect.any(String));
+  });
+
+  it("rejects a payload signed with another key", async () => {
+    const response = await POST(
+      createWebhookRequest(
+        { event: "call_ended", call },
+        `v=${Date.now()},d=${"0".repeat(64)}`,
+      ),
+    );
+
+    expect(response.status).toBe(401);
+    expect(fakeSupabase.rows("retell_event")).toHaveLength(0);
+    expect(ResponseService.saveResponse).not.toHaveBeenCalled();
+  });
+
+  it("rejects a payload without a signature", async () => {
+    const response = await POST(
+      createWebhookRequest({ event: "call_ended", call }, null),
+    );
+
+    expect(response.status).toBe(401);
+    expect(ResponseService.saveResponse).not.toHaveBeenCalled();
+  });
+
+  it("rejects a body changed after signing", async () => {
+    const request = createWebhookRequest({ event: "call_ended", call });
+    const tampered = createWebhookRequest(
+      { event: "call_ended", call: { ...call, call_id: "call_other" } },
+      request.headers.get("x-retell-signature"),
+    );
+
+    expect((await POST(tampered)).status).toBe(401);
+  });
+
+  it("skips a replayed event that was already handled", async () => {
+    await POST(createWebhookRequest({ event: "call_ended", call }));
+    const replay = await POST(
+      createWebhookRequest({ event: "call_ended", call }),
+    );
+
+    expect(replay.status).toBe(204);
+    expect(ResponseService.saveResponse).toHaveBeenCalledTimes(1);
+    expect(sendCompletionReceipt).toHaveBeenCalledTimes(1);
+    expect(fakeSupabase.rows("retell_event")).toHaveLength(1);
+  });
+
+  it("handles only one of two concurrent deliveries", async () => {
+    const responses = await Promise.all([
+      POST(createWebhookRequest({ event: "call_ended", call })),
+      POST(createWebhookRequest({ event: "call_ended", call })),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([204, 204]);
+    expect(ResponseService.saveResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it("handles a redelivery of an event whose handling failed", async () => {
+    vi.mocked(ResponseService.saveResponse).mockRejectedValueOnce(
+      new Error("database unavailable"),
+    );
+
+    const failed = await POST(
+      createWebhookRequest({ event: "call_ended", call }),
+    );
+    const redelivered = await POST(
+      createWebhookRequest({ event: "call_ended", call }),
+    );
+
+    expect(failed.status).toBe(500);
+    expect(redelivered.status).toBe(204);
+    expect(ResponseService.saveResponse).toHaveBeenCalledTimes(2);
+    expect(fakeSupabase.rows("retell_event")[0].processed_at).toEqual(
+      expect.any(String),
+    );
+  });
+
+  it("marks the response ended on call_ended", async () => {
+    await POST(createWebhookRequest({ event: "call_ended", call }));
+
+    expect(ResponseService.saveResponse).toHaveBeenCalledWith(
+      { is_ended: true, duration: 125, details: call },
+      call.call_id,
+    );
+    expect(InvitationService.completeInvitationByCallId).toHaveBeenCalledWith(
+      call.call_id,
+    );
+    expect(recordUsage).toHaveBeenCalledWith(
+      { organizationId: "org_1", interviewId: "interview_1" },
+      expect.objectContaining({
+        kind: "call_minutes",
+        idempotencyKey: `call_minutes:${call.call_id}`,
+      }),
+    );
+    expect(AnalysisJobService.scheduleAnalysisJobNow).not.toHaveBeenCalled();
+  });
+
+  it("keeps the analysed details when call_ended arrives late", async () => {
+    mockResponse({ is_analysed: true });
+
+    await POST(createWebhookRequest({ event: "call_ended", call }));
+
+    expect(ResponseService.saveResponse).toHaveBeenCalledWith(
+      { is_ended: true, duration: 125 },
+      call.call_id,
+    );
+  });
+
+  it("saves the details and runs the analysis on call_analyzed", async () => {
+    await POST(createWebhookRequest({ event: "call_analyzed", call }));
+
+    expect(ResponseService.saveResponse).toHaveBeenCalledWith(
+      { is_ended: true, duration: 125, details: call },
+      call.call_id,
+    );
+    expect(AnalysisJobService.scheduleAnalysisJobNow).toHaveBeenCalledWith(
+      call.call_id,
+      "interview_1",
+    );
+    expect(processAnalysisJobs).toHaveBeenCalledWith(1, call.call_id);
+  });
+
+  it("does not analyse a response again on call_analyzed", async () => {
+    mockResponse({ is_analysed: true });
+
+    await POST(createWebhookRequest({ event: "call_analyzed", call }));
+
+    expect(AnalysisJobService.scheduleAnalysisJobNow).not.toHaveBeenCalled();
+    expect(processAnalysisJobs).not.toHaveBeenCalled();
+  });
+
+  it("ignores events it does not handle", async () => {
+    const response = await POST(
+      createWebhookRequest({ event: "transcript_updated", call }),
+    );
+
+    expect(response.status).toBe(204);
+    expect(fakeSupabase.rows("retell_event")).toHaveLength(0);
+  });
+});
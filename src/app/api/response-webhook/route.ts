@@ -1,45 +1,158 @@
-import axios from "axios";
 import { NextRequest, NextResponse } from "next/server";
 import { Retell } from "retell-sdk";
+import { logger } from "@/lib/logger";
+import { processAnalysisJobs } from "@/lib/analysis-worker";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
+import { ResponseService } from "@/services/responses.service";
+import { RetellEventService } from "@/services/retell-events.service";
+import { InvitationService } from "@/services/invitations.service";
+import { sendCompletionReceipt } from "@/lib/notifications";
+import { recordUsage } from "@/lib/billing";
+import { InterviewService } from "@/services/interviews.service";
+import { RetellEventType, RetellWebhookPayload } from "@/types/retell-event";
+import { CallData } from "@/types/response";
 
 const apiKey = process.env.RETELL_API_KEY || "";
 
-export async function POST(req: NextRequest, res: NextResponse) {
-  if (req.method !== "POST") {
-    return NextResponse.json({ error: "Method not allowed" }, { status: 405 });
-  }
+const RETELL_EVENTS: RetellEventType[] = [
+  "call_started",
+  "call_ended",
+  "call_analyzed",
+];
 
-  if (
-    !Retell.verify(
-      JSON.stringify(req.body),
-      apiKey,
-      req.headers.get("x-retell-signature") as string,
-    )
-  ) {
-    console.error("Invalid signature");
+export const maxDuration = 60;
 
-    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+const getDurationInSeconds = (call: CallData) =>
+  Math.round(((call.end_timestamp ?? 0) - (call.start_timestamp ?? 0)) / 1000);
+
+// Minutes are billed per call and keyed on the call id, since both call_ended
+// and call_analyzed carry the duration and either can arrive first
+const recordCallMinutes = async (interviewId: string, call: CallData) => {
+  const interview = await InterviewService.getInterviewById(interviewId);
+  if (!interview) {
+    return;
   }
+  await recordUsage(
+    { organizationId: interview.organization_id, interviewId },
+    {
+      kind: "call_minutes",
+      quantity: Math.round((getDurationInSeconds(call) / 60) * 100) / 100,
+      idempotencyKey: `call_minutes:${call.call_id}`,
+    },
+  );
+};
 
-  const { event, call } = req.body as unknown as { event: string; call: any };
+const handleRetellEvent = async (event: RetellEventType, call: CallData) => {
+  const response = await ResponseService.getResponseByCallId(call.call_id);
+  if (!response) {
+    logger.warn(`No response found for call ${call.call_id}`);
+
+    return;
+  }
 
   switch (event) {
     case "call_started":
-      console.log("Call started event received", call.call_id);
       break;
     case "call_ended":
-      console.log("Call ended event received", call.call_id);
+      // call_ended can arrive after call_analyzed; keep the analysed details
+      await ResponseService.saveResponse(
+        {
+          is_ended: true,
+          duration: getDurationInSeconds(call),
+          ...(response.is_analysed ? {} : { details: call }),
+        },
+        call.call_id,
+      );
+      await InvitationService.completeInvitationByCallId(call.call_id);
+      await recordCallMinutes(response.interview_id, call);
+      await sendCompletionReceipt(call.call_id);
       break;
     case "call_analyzed":
-      const result = await axios.post("/api/get-call", {
-        id: call.call_id,
-      });
-      console.log("Call analyzed event received", call.call_id);
+      await ResponseService.saveResponse(
+        {
+          is_ended: true,
+          duration: getDurationInSeconds(call),
+          details: call,
+        },
+        call.call_id,
+      );
+      await recordCallMinutes(response.interview_id, call);
+      if (!response.is_analysed) {
+        await AnalysisJobService.scheduleAnalysisJobNow(
+          call.call_id,
+          response.interview_id,
+        );
+        await processAnalysisJobs(1, call.call_id);
+      }
       break;
-    default:
-      console.log("Received an unknown event:", event);
   }
+};
+
+export async function POST(req: NextRequest) {
+  logger.info("response-webhook request received");
+
+  // The signature covers the exact bytes Retell sent, so verify before parsing
+  const rawBody = await req.text();
+  const signature = req.headers.get("x-retell-signature");
+
+  if (!signature || !Retell.verify(rawBody, apiKey, signature)) {
+    logger.error("Invalid retell webhook signature");
+
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: RetellWebhookPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  const { event, call } = payload;
+
+  if (!RETELL_EVENTS.includes(event as RetellEventType) || !call?.call_id) {
+    logger.info(`Ignoring retell event ${event}`);
+
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const retellEvent = await RetellEventService.claimRetellEvent(
+    call.call_id,
+    event as RetellEventType,
+    payload,
+  );
+
+  // A non-2xx response makes Retell redeliver the event later
+  if (!retellEvent) {
+    return NextResponse.json(
+      { error: "Failed to record event" },
+      { status: 500 },
+    );
+  }
+
+  if (retellEvent === "duplicate") {
+    logger.info(`Duplicate ${event} event for call ${call.call_id}`);
+
+    return new NextResponse(null, { status: 204 });
+  }
+
+  try {
+    await handleRetellEvent(retellEvent.event, call);
+  } catch (error) {
+    logger.error(
+      `Failed to handle ${event} event for call ${call.call_id}`,
+      error instanceof Error ? error.message : String(error),
+    );
+    await RetellEventService.releaseRetellEvent(retellEvent.id);
+
+    return NextResponse.json(
+      { error: "Failed to handle event" },
+      { status: 500 },
+    );
+  }
+
+  await RetellEventService.markRetellEventProcessed(retellEvent.id);
+  logger.info(`${event} event handled for call ${call.call_id}`);
 
-  // Acknowledge the receipt of the event
-  return NextResponse.json({ status: 204 });
+  return new NextResponse(null, { status: 204 });
 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeCall,
+  authorizeInterview,
+  getRoleContext,
+  toErrorResponse,
+} from "@/lib/auth";
+import { hasPermission, redactResponse } from "@/lib/permissions";
+import { ResponseService } from "@/services/responses.service";
+import { Response } from "@/types/response";
+
+const canViewPii = async () =>
+  hasPermission((await getRoleContext()).role, "response:view_pii");
+
+// Responses for the dashboard, without the candidate's name and email for
+// members who cannot see candidate details. Pass callId for one response or
+// interviewId for all the ended responses of an interview.
+export async function GET(req: NextRequest) {
+  logger.info("responses request received");
+  const callId = req.nextUrl.searchParams.get("callId");
+  const interviewId = req.nextUrl.searchParams.get("interviewId");
+
+  if (!callId && !interviewId) {
+    return NextResponse.json(
+      { error: "callId or interviewId is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (callId) {
+      const { response } = await authorizeCall(callId);
+
+      return NextResponse.json(
+        { response: redactResponse(response, await canViewPii()) },
+        { status: 200 },
+      );
+    }
+
+    const interview = await authorizeInterview(interviewId as string);
+    const responses: Response[] = await ResponseService.getAllResponses(
+      interview.id,
+    );
+    const showPii = await canViewPii();
+
+    return NextResponse.json(
+      {
+        responses: responses.map((response) =>
+          redactResponse(response, showPii),
+        ),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
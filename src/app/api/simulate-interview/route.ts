@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authorizeInterview, toErrorResponse } from "@/lib/auth";
+import { getInterviewUsageContext } from "@/lib/billing";
+import {
+  generateSimulationReply,
+  getCoveredQuestionIds,
+  getSimulationAgentPrompt,
+  normalizeSimulationMessages,
+} from "@/lib/simulation";
+import { InterviewerService } from "@/services/interviewers.service";
+import { Interview } from "@/types/interview";
+
+export const maxDuration = 60;
+
+// One turn of a text dry run: the agent's next message for the conversation
+// so far, and which interview questions it has covered including that message
+export async function POST(req: Request) {
+  logger.info("simulate-interview request received");
+  const body = await req.json();
+
+  let interview: Interview;
+  try {
+    interview = await authorizeInterview(body.interviewId, "interview:edit");
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+
+  try {
+    const messages = normalizeSimulationMessages(body.messages);
+    const interviewer = await InterviewerService.getInterviewer(
+      interview.interviewer_id,
+    );
+    const { prompt } = await getSimulationAgentPrompt(interview, interviewer);
+    const { reply, ended } = await generateSimulationReply(
+      prompt,
+      messages,
+      getInterviewUsageContext(interview),
+    );
+    const coveredQuestionIds = await getCoveredQuestionIds(interview, [
+      ...messages,
+      { role: "agent", content: reply },
+    ]);
+
+    return NextResponse.json(
+      { reply, ended, coveredQuestionIds },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error simulating interview");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
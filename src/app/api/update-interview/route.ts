@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  authorizeInterview,
+  authorizeInterviewerChoice,
+  toErrorResponse,
+} from "@/lib/auth";
+import { normalizeInterviewData } from "@/lib/interview-data";
+import { InterviewService } from "@/services/interviews.service";
+
+// Saves the edit form and the schedule. Both carry settings that are checked
+// here; the database refuses them from the browser (see supabase_schema.sql).
+export async function PUT(req: Request) {
+  logger.info("update-interview request received");
+  const body = await req.json();
+
+  try {
+    const interview = await authorizeInterview(
+      body.interviewId,
+      "interview:edit",
+    );
+    const result = normalizeInterviewData(body.interviewData);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (Object.keys(result.interviewData).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+    if (result.interviewData.interviewer_id != null) {
+      await authorizeInterviewerChoice(
+        result.interviewData.interviewer_id as bigint,
+      );
+    }
+
+    const updated = await InterviewService.updateInterview(
+      result.interviewData,
+      interview.id,
+    );
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Failed to update interview" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ interview: updated }, { status: 200 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getAuthContext, toErrorResponse } from "@/lib/auth";
+import { getUsageSummary } from "@/lib/billing";
+import { ClientService } from "@/services/clients.service";
+
+// Usage of the signed-in organization for the current billing period
+export async function GET() {
+  logger.info("usage request received");
+
+  try {
+    const { orgId } = getAuthContext();
+    const organization = orgId
+      ? await ClientService.getOrganization(orgId)
+      : null;
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Usage is tracked per organization" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      { usage: await getUsageSummary(organization) },
+      { status: 200 },
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
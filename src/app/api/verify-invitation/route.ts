@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { InvitationService } from "@/services/invitations.service";
+import { resolveInvitation } from "@/lib/invitation-token";
+
+export async function POST(req: Request) {
+  logger.info("verify-invitation request received");
+  const body = await req.json();
+
+  if (!body.token || !body.interviewId) {
+    return NextResponse.json(
+      { error: "token and interviewId are required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await resolveInvitation(body.token, body.interviewId);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "invalid" ? 404 : 410 },
+      );
+    }
+
+    const { invitation } = result;
+    if (invitation.status === "sent") {
+      await InvitationService.updateInvitation(
+        { status: "opened", opened_at: new Date().toISOString() },
+        invitation.id,
+      );
+    }
+
+    return NextResponse.json(
+      {
+        invitation: {
+          name: invitation.name,
+          email: invitation.email,
+          attempts: invitation.attempts,
+          max_attempts: invitation.max_attempts,
+          expires_at: invitation.expires_at,
+        },
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error verifying invitation");
+
+    return NextResponse.json(
+      { error: "internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { listVoices } from "@/lib/interviewer-agent";
+import { InterviewerVoice } from "@/types/interviewer";
+
+export async function GET() {
+  logger.info("voices request received");
+
+  try {
+    const voices: InterviewerVoice[] = (await listVoices()).map((voice) => ({
+      voice_id: voice.voice_id,
+      voice_name: voice.voice_name,
+      gender: voice.gender,
+      accent: voice.accent,
+      preview_audio_url: voice.preview_audio_url,
+    }));
+
+    return NextResponse.json({ voices }, { status: 200 });
+  } catch (error) {
+    logger.error("Error fetching voices");
+
+    return NextResponse.json(
+      { error: "Failed to fetch voices" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,11 +1,23 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { Analytics, CallData } from "@/types/response";
+import React, { useEffect, useRef, useState } from "react";
+import { useUser } from "@clerk/nextjs";
+import {
+  Analytics,
+  CallData,
+  Response,
+  ResumeClaimStatus,
+} from "@/types/response";
+import { AnalysisJob } from "@/types/analysis-job";
 import axios from "axios";
 import { ScrollArea } from "@radix-ui/react-scroll-area";
 import ReactAudioPlayer from "react-audio-player";
-import { DownloadIcon, TrashIcon } from "lucide-react";
+import {
+  DownloadIcon,
+  FileTextIcon,
+  RefreshCwIcon,
+  TrashIcon,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { ResponseService } from "@/services/responses.service";
@@ -15,6 +27,13 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { CircularProgress } from "@nextui-org/react";
 import QuestionAnswerCard from "@/components/dashboard/interview/questionAnswerCard";
+import CompetencyScoreCard from "@/components/dashboard/interview/competencyScoreCard";
+import ResponseScorecard from "@/components/call/responseScorecard";
+import ResponseComments from "@/components/call/responseComments";
+import SyncedTranscript from "@/components/call/syncedTranscript";
+import SpeechMetrics from "@/components/call/speechMetrics";
+import { formatTimestamp } from "@/lib/transcript";
+import { computeSpeechMetrics } from "@/lib/speech-metrics";
 import { marked } from "marked";
 import {
   AlertDialog,
@@ -34,20 +53,38 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { CandidateStatus } from "@/lib/enum";
+import { getStage, getStageName } from "@/lib/pipeline";
+import { getCandidateLabel } from "@/lib/permissions";
+import { useClient } from "@/contexts/clients.context";
 import { ArrowLeft } from "lucide-react";
+import {
+  ResponseComment,
+  ResponseScorecard as Scorecard,
+  ReviewConsensus,
+} from "@/types/review";
+import { PipelineStage, ResponseStatusChange } from "@/types/pipeline";
+
+const RESUME_CLAIM_STATUS_STYLES: Record<ResumeClaimStatus, string> = {
+  consistent: "text-green-700 bg-green-200",
+  inconsistent: "text-red-600 bg-red-200",
+  not_discussed: "text-slate-600 bg-slate-200",
+};
 
 type CallProps = {
   call_id: string;
+  stages: PipelineStage[];
   onDeleteResponse: (deletedCallId: string) => void;
-  onCandidateStatusChange: (callId: string, newStatus: string) => void;
+  onCandidateStatusChange: (callIds: string[], newStatus: string) => void;
 };
 
 function CallInfo({
   call_id,
+  stages,
   onDeleteResponse,
   onCandidateStatusChange,
 }: CallProps) {
+  const { can } = useClient();
+  const canViewPii = can("response:view_pii");
   const [call, setCall] = useState<CallData>();
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
   const [email, setEmail] = useState<string>("");
@@ -59,6 +96,17 @@ function CallInfo({
   const [candidateStatus, setCandidateStatus] = useState<string>("");
   const [interviewId, setInterviewId] = useState<string>("");
   const [tabSwitchCount, setTabSwitchCount] = useState<number>();
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJob | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const { user } = useUser();
+  const playerRef = useRef<ReactAudioPlayer>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [scorecards, setScorecards] = useState<Scorecard[]>([]);
+  const [comments, setComments] = useState<ResponseComment[]>([]);
+  const [consensus, setConsensus] = useState<ReviewConsensus | null>(null);
+  const [statusChanges, setStatusChanges] = useState<ResponseStatusChange[]>(
+    [],
+  );
 
   useEffect(() => {
     const fetchResponses = async () => {
@@ -71,6 +119,7 @@ function CallInfo({
         const response = await axios.post("/api/get-call", { id: call_id });
         setCall(response.data.callResponse);
         setAnalytics(response.data.analytics);
+        setAnalysisJob(response.data.job);
       } catch (error) {
         console.error(error);
       } finally {
@@ -82,13 +131,131 @@ function CallInfo({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [call_id]);
 
+  useEffect(() => {
+    const fetchReviews = async () => {
+      setConsensus(null);
+      try {
+        const response = await axios.get(
+          `/api/response-reviews?callId=${call_id}`,
+        );
+        setScorecards(response.data.scorecards);
+        setComments(response.data.comments);
+        setConsensus(response.data.consensus);
+      } catch (error) {
+        console.error("Error fetching reviews:", error);
+      }
+    };
+
+    fetchReviews();
+  }, [call_id]);
+
+  useEffect(() => {
+    const fetchStatusChanges = async () => {
+      setStatusChanges([]);
+      try {
+        const response = await axios.get(
+          `/api/response-status?callId=${call_id}`,
+        );
+        setStatusChanges(response.data.changes);
+      } catch (error) {
+        console.error("Error fetching status history:", error);
+      }
+    };
+
+    fetchStatusChanges();
+  }, [call_id]);
+
+  const onStatusChange = async (newStatus: string) => {
+    const previousStatus = candidateStatus;
+    setCandidateStatus(newStatus);
+    try {
+      await axios.put("/api/response-status", {
+        callIds: [call_id],
+        status: newStatus,
+      });
+      onCandidateStatusChange([call_id], newStatus);
+      const response = await axios.get(
+        `/api/response-status?callId=${call_id}`,
+      );
+      setStatusChanges(response.data.changes);
+    } catch (error) {
+      console.error("Error updating status:", error);
+      setCandidateStatus(previousStatus);
+      toast.error("Failed to update the status.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  const getPlaybackTime = () =>
+    playerRef.current?.audioEl.current?.currentTime ?? null;
+
+  const onSeek = (seconds: number) => {
+    const audio = playerRef.current?.audioEl.current;
+    if (audio) {
+      audio.currentTime = seconds;
+      audio.play();
+    }
+  };
+
+  // Responses analysed before speech metrics existed are measured here
+  const speechMetrics =
+    analytics?.speechMetrics ?? computeSpeechMetrics(call?.transcript_object);
+
+  const isAnalysisPending =
+    !analytics &&
+    (analysisJob?.status === "pending" || analysisJob?.status === "running");
+
+  // Picks up the analytics once the background job has finished
+  useEffect(() => {
+    if (!isAnalysisPending) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await axios.post("/api/get-call", { id: call_id });
+        setCall(response.data.callResponse);
+        setAnalytics(response.data.analytics);
+        setAnalysisJob(response.data.job);
+      } catch (error) {
+        console.error(error);
+      }
+    }, 10000);
+
+    return () => clearInterval(interval);
+  }, [call_id, isAnalysisPending]);
+
+  const onRetryAnalysisClick = async () => {
+    setIsRetrying(true);
+    try {
+      await axios.post("/api/analysis-jobs", { call_id: call_id, retry: true });
+      const response = await axios.post("/api/get-call", { id: call_id });
+      setCall(response.data.callResponse);
+      setAnalytics(response.data.analytics);
+      setAnalysisJob(response.data.job);
+    } catch (error) {
+      console.error("Error retrying analysis:", error);
+
+      toast.error("Failed to retry the analysis.", {
+        position: "bottom-right",
+
+        duration: 3000,
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
   useEffect(() => {
     const fetchEmail = async () => {
       setIsLoading(true);
       try {
-        const response = await ResponseService.getResponseByCallId(call_id);
+        const { data } = await axios.get(`/api/responses?callId=${call_id}`);
+        const response: Response = data.response;
         setEmail(response.email);
-        setName(response.name);
+        setName(getCandidateLabel(response, canViewPii));
         setCandidateStatus(response.candidate_status);
         setInterviewId(response.interview_id);
         setTabSwitchCount(response.tab_switch_count);
@@ -101,7 +268,7 @@ function CallInfo({
 
     fetchEmail();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [call_id]);
+  }, [call_id, canViewPii]);
 
   useEffect(() => {
     const replaceAgentAndUser = (transcript: string, name: string): string => {
@@ -126,17 +293,11 @@ function CallInfo({
 
   const onDeleteResponseClick = async () => {
     try {
-      const response = await ResponseService.getResponseByCallId(call_id);
-
-      if (response) {
-        const interview_id = response.interview_id;
+      await ResponseService.deleteResponse(call_id);
 
-        await ResponseService.deleteResponse(call_id);
+      router.push(`/interviews/${interviewId}`);
 
-        router.push(`/interviews/${interview_id}`);
-
-        onDeleteResponse(call_id);
-      }
+      onDeleteResponse(call_id);
 
       toast.success("Response deleted successfully.", {
         position: "bottom-right",
@@ -200,87 +361,91 @@ function CallInfo({
                   </div>
                   <div className="flex flex-row mr-2 items-center gap-3">
                     <Select
-                      value={candidateStatus}
-                      onValueChange={async (newValue: string) => {
-                        setCandidateStatus(newValue);
-                        await ResponseService.updateResponse(
-                          { candidate_status: newValue },
-                          call_id,
-                        );
-                        onCandidateStatusChange(call_id, newValue);
-                      }}
+                      value={getStage(stages, candidateStatus)?.key}
+                      disabled={!can("response:update_status")}
+                      onValueChange={onStatusChange}
                     >
                       <SelectTrigger className="w-[180px]  bg-slate-50 rounded-2xl">
-                        <SelectValue placeholder="Not Selected" />
+                        <SelectValue placeholder="No Status" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value={CandidateStatus.NO_STATUS}>
-                          <div className="flex items-center">
-                            <div className="w-3 h-3 bg-gray-400 rounded-full mr-2" />
-                            No Status
-                          </div>
-                        </SelectItem>
-                        <SelectItem value={CandidateStatus.NOT_SELECTED}>
-                          <div className="flex items-center">
-                            <div className="w-3 h-3 bg-red-500 rounded-full mr-2" />
-                            Not Selected
-                          </div>
-                        </SelectItem>
-                        <SelectItem value={CandidateStatus.POTENTIAL}>
-                          <div className="flex items-center">
-                            <div className="w-3 h-3 bg-yellow-500 rounded-full mr-2" />
-                            Potential
-                          </div>
-                        </SelectItem>
-                        <SelectItem value={CandidateStatus.SELECTED}>
-                          <div className="flex items-center">
-                            <div className="w-3 h-3 bg-green-500 rounded-full mr-2" />
-                            Selected
-                          </div>
-                        </SelectItem>
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.key} value={stage.key}>
+                            <div className="flex items-center">
+                              <div
+                                className="w-3 h-3 rounded-full mr-2"
+                                style={{ backgroundColor: stage.color }}
+                              />
+                              {stage.name}
+                            </div>
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
-                    <AlertDialog>
-                      <AlertDialogTrigger>
-                        <Button
-                          disabled={isClicked}
-                          className="bg-red-500 hover:bg-red-600 p-2"
-                        >
-                          <TrashIcon size={16} className="" />
-                        </Button>
-                      </AlertDialogTrigger>
-
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-
-                          <AlertDialogDescription>
-                            This action cannot be undone. This will permanently
-                            delete this response.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-
-                          <AlertDialogAction
-                            className="bg-indigo-600 hover:bg-indigo-800"
-                            onClick={async () => {
-                              await onDeleteResponseClick();
-                            }}
+                    {can("response:export") && (
+                      <Button
+                        className="bg-indigo-600 hover:bg-indigo-800 p-2"
+                        title="Download PDF report"
+                        onClick={() => {
+                          window.open(
+                            `/api/export-response-report?callId=${call_id}`,
+                            "_self",
+                          );
+                        }}
+                      >
+                        <FileTextIcon size={16} />
+                      </Button>
+                    )}
+                    {can("response:delete") && (
+                      <AlertDialog>
+                        <AlertDialogTrigger>
+                          <Button
+                            disabled={isClicked}
+                            className="bg-red-500 hover:bg-red-600 p-2"
                           >
-                            Continue
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                            <TrashIcon size={16} className="" />
+                          </Button>
+                        </AlertDialogTrigger>
+
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+
+                            <AlertDialogDescription>
+                              This action cannot be undone. This will
+                              permanently delete this response.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+
+                            <AlertDialogAction
+                              className="bg-indigo-600 hover:bg-indigo-800"
+                              onClick={async () => {
+                                await onDeleteResponseClick();
+                              }}
+                            >
+                              Continue
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                   </div>
                 </div>
                 <div className="flex flex-col mt-3">
                   <p className="font-semibold">Interview Recording</p>
                   <div className="flex flex-row gap-3 mt-2">
                     {call?.recording_url && (
-                      <ReactAudioPlayer src={call?.recording_url} controls />
+                      <ReactAudioPlayer
+                        ref={playerRef}
+                        src={call?.recording_url}
+                        listenInterval={250}
+                        controls
+                        onListen={setPlaybackTime}
+                        onSeeked={() => setPlaybackTime(getPlaybackTime() ?? 0)}
+                      />
                     )}
                     <a
                       className="my-auto"
@@ -291,7 +456,49 @@ function CallInfo({
                       <DownloadIcon size={20} />
                     </a>
                   </div>
+                  {call?.recording_url &&
+                    (analytics?.questionSegments?.length ?? 0) > 0 && (
+                      <div className="flex flex-row flex-wrap items-center gap-2 mt-2 text-xs">
+                        <span className="text-gray-500">Jump to</span>
+                        {analytics?.questionSegments?.map((segment) => (
+                          <button
+                            key={segment.questionIndex}
+                            type="button"
+                            className="rounded-full px-2 py-0.5 font-semibold text-indigo-600 bg-indigo-100 hover:bg-indigo-200"
+                            title={
+                              analytics.mainInterviewQuestions?.[
+                                segment.questionIndex
+                              ]
+                            }
+                            onClick={() => onSeek(segment.start)}
+                          >
+                            Q{segment.questionIndex + 1} ·{" "}
+                            {formatTimestamp(segment.start)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                 </div>
+                {statusChanges.length > 0 && (
+                  <div className="flex flex-col mt-3">
+                    <p className="font-semibold">Status History</p>
+                    <div className="flex flex-col gap-1 mt-2 text-sm">
+                      {statusChanges.map((change) => (
+                        <p key={change.id}>
+                          <span className="font-medium">
+                            {change.changed_by_name || "A member"}
+                          </span>{" "}
+                          moved {name || "the candidate"} from{" "}
+                          {getStageName(stages, change.from_status)} to{" "}
+                          {getStageName(stages, change.to_status)}{" "}
+                          <span className="text-xs text-gray-500">
+                            {new Date(change.created_at).toLocaleString()}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
             {/* <div>{call.}</div> */}
@@ -299,6 +506,32 @@ function CallInfo({
           <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5 my-3">
             <p className="font-semibold my-2">General Summary</p>
 
+            {isAnalysisPending && (
+              <p className="text-sm text-indigo-600 bg-indigo-100 rounded-xl px-3 py-2">
+                {analysisJob?.status === "running"
+                  ? "Analysing this response..."
+                  : "This response is queued for analysis."}{" "}
+                Scores will appear here once it is done.
+              </p>
+            )}
+            {!analytics && analysisJob?.status === "failed" && (
+              <div className="flex flex-row items-center justify-between gap-3 text-sm text-red-600 bg-red-100 rounded-xl px-3 py-2">
+                <p>
+                  Analysis failed after {analysisJob.attempts} attempts
+                  {analysisJob.last_error ? `: ${analysisJob.last_error}` : "."}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isRetrying}
+                  onClick={onRetryAnalysisClick}
+                >
+                  <RefreshCwIcon size={14} className="mr-2" />
+                  Retry
+                </Button>
+              </div>
+            )}
+
             <div className="grid grid-cols-3 gap-4 my-2 mt-4 ">
               {analytics?.overallScore !== undefined && (
                 <div className="flex flex-col gap-3 text-sm p-4 rounded-2xl bg-slate-50">
@@ -366,6 +599,7 @@ function CallInfo({
                       )}
                     </div>
                   </div>
+                  {speechMetrics && <SpeechMetrics metrics={speechMetrics} />}
                 </div>
               )}
               <div className="flex flex-col gap-3 text-sm p-4 rounded-2xl bg-slate-50">
@@ -409,6 +643,61 @@ function CallInfo({
               </div>
             </div>
           </div>
+          {analytics?.competencyScores &&
+            analytics.competencyScores.length > 0 && (
+              <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5 my-3">
+                <p className="font-semibold my-2 mb-4">Competency Scores</p>
+                {analytics.unmetMustHaves &&
+                  analytics.unmetMustHaves.length > 0 && (
+                    <p className="text-sm font-semibold text-red-500 bg-red-200 rounded-sm px-2 py-1 mb-3 w-fit">
+                      Must-have not met: {analytics.unmetMustHaves.join(", ")}
+                    </p>
+                  )}
+                <div className="grid grid-cols-2 gap-4">
+                  {analytics.competencyScores.map((competencyScore) => (
+                    <CompetencyScoreCard
+                      key={competencyScore.competency}
+                      competencyScore={competencyScore}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          {analytics?.resumeConsistency && (
+            <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5 my-3">
+              <div className="flex flex-row justify-between items-center my-2 mb-4">
+                <p className="font-semibold">Resume Consistency</p>
+                <p className="text-sm font-semibold">
+                  {analytics.resumeConsistency.score}/10
+                </p>
+              </div>
+              <p className="text-sm mb-3">
+                {analytics.resumeConsistency.summary}
+              </p>
+              <div className="flex flex-col gap-2">
+                {analytics.resumeConsistency.claims.map((claim) => (
+                  <div
+                    key={claim.claim}
+                    className="bg-slate-50 rounded-md p-2 text-sm"
+                  >
+                    <div className="flex flex-row justify-between gap-2">
+                      <p className="font-medium">{claim.claim}</p>
+                      <span
+                        className={`text-xs font-semibold rounded-sm px-2 py-0.5 h-fit shrink-0 ${RESUME_CLAIM_STATUS_STYLES[claim.status]}`}
+                      >
+                        {claim.status.replace("_", " ")}
+                      </span>
+                    </div>
+                    {claim.evidence && (
+                      <p className="text-xs italic text-slate-500 mt-1">
+                        {claim.evidence}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           {analytics &&
             analytics.questionSummaries &&
             analytics.questionSummaries.length > 0 && (
@@ -421,20 +710,61 @@ function CallInfo({
                       questionNumber={index + 1}
                       question={qs.question}
                       answer={qs.summary}
+                      score={qs.score}
+                      segment={analytics.questionSegments?.find(
+                        (segment) => segment.questionIndex === index,
+                      )}
+                      onSeek={call?.recording_url ? onSeek : undefined}
                     />
                   ))}
                 </ScrollArea>
               </div>
             )}
-          <div className="bg-slate-200 rounded-2xl min-h-[150px] max-h-[500px] p-4 px-5 mb-[150px]">
+          {consensus && (
+            <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5 my-3">
+              <p className="font-semibold my-2 mb-4">Team Review</p>
+              <ResponseScorecard
+                callId={call_id}
+                consensus={consensus}
+                scorecards={scorecards}
+                userId={user?.id}
+                onSaved={(newScorecards, newConsensus) => {
+                  setScorecards(newScorecards);
+                  setConsensus(newConsensus);
+                }}
+              />
+              <div className="mt-4">
+                <ResponseComments
+                  callId={call_id}
+                  comments={comments}
+                  transcript={call?.transcript_object}
+                  candidateName={name || "Candidate"}
+                  userId={user?.id}
+                  getCurrentTime={getPlaybackTime}
+                  onSeek={onSeek}
+                  onChange={setComments}
+                />
+              </div>
+            </div>
+          )}
+          <div className="bg-slate-200 rounded-2xl min-h-[150px] p-4 px-5 mb-[150px]">
             <p className="font-semibold my-2 mb-4">Transcript</p>
-            <ScrollArea className="rounded-2xl text-sm h-96  overflow-y-auto whitespace-pre-line px-2">
-              <div
-                className="text-sm p-4 rounded-2xl leading-5 bg-slate-50"
-                // eslint-disable-next-line react/no-danger
-                dangerouslySetInnerHTML={{ __html: marked(transcript) }}
+            {call?.transcript_object?.length ? (
+              <SyncedTranscript
+                transcript={call.transcript_object}
+                candidateName={name || "Candidate"}
+                currentTime={playbackTime}
+                onSeek={onSeek}
               />
-            </ScrollArea>
+            ) : (
+              <ScrollArea className="rounded-2xl text-sm h-96  overflow-y-auto whitespace-pre-line px-2">
+                <div
+                  className="text-sm p-4 rounded-2xl leading-5 bg-slate-50"
+                  // eslint-disable-next-line react/no-danger
+                  dangerouslySetInnerHTML={{ __html: marked(transcript) }}
+                />
+              </ScrollArea>
+            )}
           </div>
         </>
       )}
@@ -9,18 +9,18 @@ import {
 import React, { useState, useEffect, useRef } from "react";
 import { Card, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
-import { useResponses } from "@/contexts/responses.context";
 import Image from "next/image";
 import axios from "axios";
 import { RetellWebClient } from "retell-client-js-sdk";
 import MiniLoader from "../loaders/mini-loader/miniLoader";
 import { toast } from "sonner";
 import { isLightColor, testEmail } from "@/lib/utils";
-import { ResponseService } from "@/services/responses.service";
-import { Interview } from "@/types/interview";
+import { PublicInterview } from "@/types/interview";
 import { FeedbackData } from "@/types/response";
+import { InvitationCandidate } from "@/types/invitation";
 import { FeedbackService } from "@/services/feedback.service";
 import { FeedbackForm } from "@/components/call/feedbackForm";
+import ResumeUpload, { UploadedResume } from "@/components/call/resumeUpload";
 import {
   TabSwitchWarning,
   useTabSwitchPrevention,
@@ -41,7 +41,9 @@ import { InterviewerService } from "@/services/interviewers.service";
 const webClient = new RetellWebClient();
 
 type InterviewProps = {
-  interview: Interview;
+  interview: PublicInterview;
+  invitation?: InvitationCandidate;
+  invitationToken?: string;
 };
 
 type registerCallResponseType = {
@@ -58,8 +60,7 @@ type transcriptType = {
   content: string;
 };
 
-function Call({ interview }: InterviewProps) {
-  const { createResponse } = useResponses();
+function Call({ interview, invitation, invitationToken }: InterviewProps) {
   const [lastInterviewerResponse, setLastInterviewerResponse] =
     useState<string>("");
   const [lastUserResponse, setLastUserResponse] = useState<string>("");
@@ -68,11 +69,15 @@ function Call({ interview }: InterviewProps) {
   const [isStarted, setIsStarted] = useState(false);
   const [isEnded, setIsEnded] = useState(false);
   const [isCalling, setIsCalling] = useState(false);
-  const [email, setEmail] = useState<string>("");
-  const [name, setName] = useState<string>("");
+  // Anonymous interviews do not record who responded, even when invited
+  const prefill = interview.is_anonymous ? undefined : invitation;
+  const [email, setEmail] = useState<string>(prefill?.email || "");
+  const [name, setName] = useState<string>(prefill?.name || "");
   const [isValidEmail, setIsValidEmail] = useState<boolean>(false);
   const [isOldUser, setIsOldUser] = useState<boolean>(false);
   const [callId, setCallId] = useState<string>("");
+  const [resume, setResume] = useState<UploadedResume | null>(null);
+  const [isUploadingResume, setIsUploadingResume] = useState(false);
   const { tabSwitchCount } = useTabSwitchPrevention();
   const [isFeedbackSubmitted, setIsFeedbackSubmitted] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -196,49 +201,43 @@ function Call({ interview }: InterviewProps) {
   };
 
   const startConversation = async () => {
-    const data = {
-      mins: interview?.time_duration,
-      objective: interview?.objective,
-      questions: interview?.questions.map((q) => q.question).join(", "),
-      name: name || "not provided",
-    };
     setLoading(true);
 
-    const oldUserEmails: string[] = (
-      await ResponseService.getAllEmails(interview.id)
-    ).map((item) => item.email);
-    const OldUser =
-      oldUserEmails.includes(email) ||
-      (interview?.respondents && !interview?.respondents.includes(email));
-
-    if (OldUser) {
-      setIsOldUser(true);
-    } else {
-      const registerCallResponse: registerCallResponseType = await axios.post(
-        "/api/register-call",
-        { dynamic_data: data, interviewer_id: interview?.interviewer_id },
-      );
-      if (registerCallResponse.data.registerCallResponse.access_token) {
-        await webClient
-          .startCall({
-            accessToken:
-              registerCallResponse.data.registerCallResponse.access_token,
-          })
-          .catch(console.error);
-        setIsCalling(true);
-        setIsStarted(true);
-
-        setCallId(registerCallResponse?.data?.registerCallResponse?.call_id);
-
-        const response = await createResponse({
-          interview_id: interview.id,
-          call_id: registerCallResponse.data.registerCallResponse.call_id,
-          email: email,
-          name: name,
-        });
+    // The server checks eligibility, builds the interviewer's prompt and
+    // records the response, since candidates cannot write to the database
+    let registerCallResponse: registerCallResponseType;
+    try {
+      registerCallResponse = await axios.post("/api/register-call", {
+        interview_id: interview.id,
+        name: name,
+        email: email,
+        invitation_token: invitationToken,
+        resume_id: resume?.resume_id,
+      });
+    } catch (error) {
+      console.error("Failed to register call:", error);
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        setIsOldUser(true);
       } else {
-        console.log("Failed to register call");
+        toast.error("Could not start the interview. Please try again.");
       }
+      setLoading(false);
+
+      return;
+    }
+    if (registerCallResponse.data.registerCallResponse.access_token) {
+      await webClient
+        .startCall({
+          accessToken:
+            registerCallResponse.data.registerCallResponse.access_token,
+        })
+        .catch(console.error);
+      setIsCalling(true);
+      setIsStarted(true);
+
+      setCallId(registerCallResponse?.data?.registerCallResponse?.call_id);
+    } else {
+      console.log("Failed to register call");
     }
 
     setLoading(false);
@@ -264,10 +263,14 @@ function Call({ interview }: InterviewProps) {
   useEffect(() => {
     if (isEnded) {
       const updateInterview = async () => {
-        await ResponseService.saveResponse(
-          { is_ended: true, tab_switch_count: tabSwitchCount },
-          callId,
-        );
+        if (callId) {
+          axios
+            .post("/api/analysis-jobs", {
+              call_id: callId,
+              tab_switch_count: tabSwitchCount,
+            })
+            .catch(console.error);
+        }
       };
 
       updateInterview();
@@ -348,8 +351,9 @@ function Call({ interview }: InterviewProps) {
                       <div className="flex justify-center">
                         <input
                           value={email}
-                          className="h-fit mx-auto py-2 border-2 rounded-md w-[75%] self-center px-2 border-gray-400 text-sm font-normal"
+                          className="h-fit mx-auto py-2 border-2 rounded-md w-[75%] self-center px-2 border-gray-400 text-sm font-normal read-only:bg-gray-100 read-only:text-gray-500"
                           placeholder="Enter your email address"
+                          readOnly={!!invitation}
                           onChange={(e) => setEmail(e.target.value)}
                         />
                       </div>
@@ -363,6 +367,17 @@ function Call({ interview }: InterviewProps) {
                       </div>
                     </div>
                   )}
+                  {interview?.accepts_resume && (
+                    <ResumeUpload
+                      interviewId={interview.id}
+                      invitationToken={invitationToken}
+                      resume={resume}
+                      setResume={setResume}
+                      setUploading={setIsUploadingResume}
+                      themeColor={interview.theme_color ?? "#4F46E5"}
+                      uploading={isUploadingResume}
+                    />
+                  )}
                 </div>
                 <div className="w-[80%] flex flex-row mx-auto justify-center items-center align-middle">
                   <Button
@@ -375,6 +390,7 @@ function Call({ interview }: InterviewProps) {
                     }}
                     disabled={
                       Loading ||
+                      isUploadingResume ||
                       (!interview?.is_anonymous && (!isValidEmail || !name))
                     }
                     onClick={startConversation}
@@ -0,0 +1,316 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useOrganization } from "@clerk/nextjs";
+import { ClockIcon, ReplyIcon, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useClient } from "@/contexts/clients.context";
+import {
+  CommentThread,
+  MAX_COMMENT_LENGTH,
+  threadComments,
+} from "@/lib/reviews";
+import { formatTimestamp, getUtteranceAt } from "@/lib/transcript";
+import { OrganizationMember } from "@/types/organization-member";
+import { CallData } from "@/types/response";
+import { ResponseComment } from "@/types/review";
+
+type ResponseCommentsProps = {
+  callId: string;
+  comments: ResponseComment[];
+  transcript: CallData["transcript_object"] | undefined;
+  candidateName: string;
+  userId: string | undefined;
+  getCurrentTime: () => number | null;
+  onSeek: (seconds: number) => void;
+  onChange: (comments: ResponseComment[]) => void;
+};
+
+const getMemberName = (member: OrganizationMember) =>
+  member.name || member.identifier;
+
+function CommentForm({
+  callId,
+  parentId,
+  members,
+  getCurrentTime,
+  onCreated,
+  onCancel,
+}: {
+  callId: string;
+  parentId: number | null;
+  members: OrganizationMember[];
+  getCurrentTime: () => number | null;
+  onCreated: (comment: ResponseComment) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [mentions, setMentions] = useState<OrganizationMember[]>([]);
+  const [isAnchored, setIsAnchored] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const onMention = (userId: string) => {
+    const member = members.find((item) => item.user_id === userId);
+    if (!member) {
+      return;
+    }
+    setBody(
+      `${body}${body && !body.endsWith(" ") ? " " : ""}@${getMemberName(member)} `,
+    );
+    if (!mentions.some((item) => item.user_id === userId)) {
+      setMentions([...mentions, member]);
+    }
+  };
+
+  const onSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post("/api/response-comments", {
+        callId,
+        body,
+        parentId,
+        timestampSeconds: isAnchored ? getCurrentTime() : null,
+        // Mentions removed from the text while editing are not notified
+        mentions: mentions
+          .filter((member) => body.includes(`@${getMemberName(member)}`))
+          .map((member) => member.user_id),
+      });
+      onCreated(response.data.comment);
+      setBody("");
+      setMentions([]);
+      setIsAnchored(false);
+    } catch (error) {
+      console.error("Error saving comment:", error);
+      toast.error("Failed to save the comment", {
+        description:
+          (axios.isAxiosError(error) && error.response?.data?.error) ||
+          undefined,
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Textarea
+        value={body}
+        maxLength={MAX_COMMENT_LENGTH}
+        placeholder={parentId ? "Reply..." : "Add a comment..."}
+        className="bg-white"
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className="flex flex-row items-center gap-3">
+        {members.length > 0 && (
+          <Select value="" onValueChange={onMention}>
+            <SelectTrigger className="w-40 h-8 bg-white">
+              <SelectValue placeholder="@ Mention" />
+            </SelectTrigger>
+            <SelectContent>
+              {members.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {getMemberName(member)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <label className="flex flex-row items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={isAnchored}
+            onChange={(e) => setIsAnchored(e.target.checked)}
+          />
+          At current playback time
+        </label>
+        <div className="flex flex-row gap-2 ml-auto">
+          {onCancel && (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            className="bg-indigo-600 hover:bg-indigo-800"
+            size="sm"
+            disabled={isSaving || !body.trim()}
+            onClick={onSubmit}
+          >
+            {parentId ? "Reply" : "Comment"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ResponseComments({
+  callId,
+  comments,
+  transcript,
+  candidateName,
+  userId,
+  getCurrentTime,
+  onSeek,
+  onChange,
+}: ResponseCommentsProps) {
+  const { organization } = useOrganization();
+  const { can } = useClient();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        const response = await axios.get("/api/organization-members");
+        setMembers(
+          response.data.members.filter(
+            (member: OrganizationMember) => member.user_id !== userId,
+          ),
+        );
+      } catch (error) {
+        console.error("Error fetching members:", error);
+      }
+    };
+
+    if (organization) {
+      fetchMembers();
+    } else {
+      setMembers([]);
+    }
+  }, [organization, userId]);
+
+  const onDelete = async (comment: ResponseComment) => {
+    try {
+      await axios.delete(
+        `/api/response-comments?id=${comment.id}&callId=${callId}`,
+      );
+      // Replies are removed with the comment they answer
+      const removed = new Set([comment.id]);
+      for (const item of comments) {
+        if (item.parent_id && removed.has(item.parent_id)) {
+          removed.add(item.id);
+        }
+      }
+      onChange(comments.filter((item) => !removed.has(item.id)));
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast.error("Failed to delete the comment", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  const renderComment = (comment: ResponseComment) => {
+    const utterance =
+      comment.timestamp_seconds === null
+        ? null
+        : getUtteranceAt(transcript, comment.timestamp_seconds);
+
+    return (
+      <div key={comment.id} className="flex flex-col gap-1">
+        <div className="flex flex-row items-center gap-2">
+          <p className="font-medium">{comment.author_name || "Reviewer"}</p>
+          <p className="text-xs text-gray-500">
+            {new Date(comment.created_at).toLocaleString()}
+          </p>
+          {comment.timestamp_seconds !== null && (
+            <button
+              type="button"
+              className="flex flex-row items-center gap-1 text-xs font-semibold text-indigo-600 bg-indigo-100 rounded-full px-2 py-0.5"
+              title="Play from here"
+              onClick={() => onSeek(comment.timestamp_seconds as number)}
+            >
+              <ClockIcon size={12} />
+              {formatTimestamp(comment.timestamp_seconds)}
+            </button>
+          )}
+          {(comment.author_id === userId || can("members:manage")) && (
+            <Trash2
+              className="cursor-pointer ml-auto"
+              color="red"
+              size={14}
+              onClick={() => onDelete(comment)}
+            />
+          )}
+        </div>
+        {utterance && (
+          <p className="text-xs italic text-slate-500 border-l-2 border-slate-300 pl-2 line-clamp-2">
+            {utterance.role === "agent" ? "AI interviewer" : candidateName}:{" "}
+            {utterance.content}
+          </p>
+        )}
+        <p className="whitespace-pre-line">{comment.body}</p>
+      </div>
+    );
+  };
+
+  const threads: CommentThread[] = threadComments(comments);
+
+  return (
+    <div className="flex flex-col gap-3 text-sm p-4 rounded-2xl bg-slate-50">
+      <p className="font-medium text-base">Team Comments</p>
+      {threads.length === 0 && (
+        <p className="text-gray-500">
+          No comments yet. Anchor one to the recording to point the team at a
+          moment in the interview.
+        </p>
+      )}
+      {threads.map((thread) => (
+        <div key={thread.id} className="bg-white rounded-md p-3">
+          {renderComment(thread)}
+          {thread.replies.length > 0 && (
+            <div className="flex flex-col gap-3 mt-3 ml-4 pl-3 border-l-2 border-slate-200">
+              {thread.replies.map(renderComment)}
+            </div>
+          )}
+          {replyingTo === thread.id ? (
+            <div className="mt-3 ml-4">
+              <CommentForm
+                callId={callId}
+                parentId={thread.id}
+                members={members}
+                getCurrentTime={getCurrentTime}
+                onCreated={(comment) => {
+                  onChange([...comments, comment]);
+                  setReplyingTo(null);
+                }}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="flex flex-row items-center gap-1 text-xs text-indigo-600 mt-2"
+              onClick={() => setReplyingTo(thread.id)}
+            >
+              <ReplyIcon size={12} />
+              Reply
+            </button>
+          )}
+        </div>
+      ))}
+      <CommentForm
+        callId={callId}
+        parentId={null}
+        members={members}
+        getCurrentTime={getCurrentTime}
+        onCreated={(comment) => onChange([...comments, comment])}
+      />
+    </div>
+  );
+}
+
+export default ResponseComments;
@@ -0,0 +1,381 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  MAX_SCORECARD_NOTES_LENGTH,
+  QUESTION_RATING_MAX,
+  QUESTION_RATING_MIN,
+  RECOMMENDATIONS,
+  RECOMMENDATION_LABELS,
+  getConsensusRecommendation,
+} from "@/lib/reviews";
+import { RUBRIC_MAX_LEVEL, RUBRIC_MIN_LEVEL } from "@/lib/rubric";
+import {
+  ConsensusItem,
+  ResponseScorecard as Scorecard,
+  ReviewConsensus,
+  ReviewRecommendation,
+  ScorecardRating,
+} from "@/types/review";
+
+const UNRATED = "unrated";
+
+const RECOMMENDATION_STYLES: Record<ReviewRecommendation, string> = {
+  strong_no: "bg-red-500 text-white",
+  no: "bg-red-200 text-red-700",
+  yes: "bg-green-200 text-green-700",
+  strong_yes: "bg-green-600 text-white",
+};
+
+type ResponseScorecardProps = {
+  callId: string;
+  consensus: ReviewConsensus;
+  scorecards: Scorecard[];
+  userId: string | undefined;
+  onSaved: (scorecards: Scorecard[], consensus: ReviewConsensus) => void;
+};
+
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, index) => min + index);
+
+const toRatingMap = (ratings: ScorecardRating[] = []) =>
+  Object.fromEntries(ratings.map((item) => [item.id, item.rating]));
+
+const toRatings = (ratings: Record<string, number>) =>
+  Object.entries(ratings).map(([id, rating]) => ({ id, rating }));
+
+function RatingSelect({
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  value: number | undefined;
+  min: number;
+  max: number;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <Select
+      value={value === undefined ? UNRATED : String(value)}
+      onValueChange={(newValue) =>
+        onChange(newValue === UNRATED ? undefined : Number(newValue))
+      }
+    >
+      <SelectTrigger className="w-24 h-8 bg-white shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNRATED}>–</SelectItem>
+        {range(min, max).map((level) => (
+          <SelectItem key={level} value={String(level)}>
+            {level}/{max}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ConsensusRows({
+  items,
+  max,
+}: {
+  items: ConsensusItem[];
+  max: number;
+}) {
+  return (
+    <>
+      {items.map((item) => {
+        const gap =
+          item.ai !== null && item.average !== null
+            ? Math.abs(item.ai - item.average)
+            : 0;
+
+        return (
+          <tr key={item.id} className="border-t border-slate-200">
+            <td className="py-1 pr-2">{item.label}</td>
+            <td className="py-1 px-2 text-right whitespace-nowrap">
+              {item.ai === null ? "–" : `${item.ai}/${max}`}
+            </td>
+            <td
+              className={`py-1 px-2 text-right whitespace-nowrap ${
+                // Flags where the team and the AI disagree by a quarter of the scale
+                gap >= max / 4 ? "text-red-600 font-semibold" : ""
+              }`}
+            >
+              {item.average === null ? "–" : `${item.average}/${max}`}
+            </td>
+            <td className="py-1 pl-2 text-right text-gray-500">
+              {item.ratings.length}
+            </td>
+          </tr>
+        );
+      })}
+    </>
+  );
+}
+
+function ResponseScorecard({
+  callId,
+  consensus,
+  scorecards,
+  userId,
+  onSaved,
+}: ResponseScorecardProps) {
+  const ownScorecard = scorecards.find(
+    (scorecard) => scorecard.reviewer_id === userId,
+  );
+  const [competencyRatings, setCompetencyRatings] = useState<
+    Record<string, number>
+  >({});
+  const [questionRatings, setQuestionRatings] = useState<
+    Record<string, number>
+  >({});
+  const [recommendation, setRecommendation] =
+    useState<ReviewRecommendation | null>(null);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCompetencyRatings(toRatingMap(ownScorecard?.competency_ratings));
+    setQuestionRatings(toRatingMap(ownScorecard?.question_ratings));
+    setRecommendation(ownScorecard?.recommendation ?? null);
+    setNotes(ownScorecard?.notes ?? "");
+  }, [ownScorecard]);
+
+  const setRating = (
+    ratings: Record<string, number>,
+    id: string,
+    value: number | undefined,
+  ) => {
+    const updated = { ...ratings };
+    if (value === undefined) {
+      delete updated[id];
+    } else {
+      updated[id] = value;
+    }
+
+    return updated;
+  };
+
+  const onSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.put("/api/response-reviews", {
+        callId,
+        scorecard: {
+          competency_ratings: toRatings(competencyRatings),
+          question_ratings: toRatings(questionRatings),
+          recommendation,
+          notes,
+        },
+      });
+      onSaved(response.data.scorecards, response.data.consensus);
+      toast.success("Scorecard saved", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error saving scorecard:", error);
+      toast.error("Failed to save the scorecard", {
+        description:
+          (axios.isAxiosError(error) && error.response?.data?.error) ||
+          undefined,
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const consensusRecommendation = getConsensusRecommendation(
+    consensus.recommendation_score,
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="flex flex-col gap-3 text-sm p-4 rounded-2xl bg-slate-50">
+        <p className="font-medium text-base">Your Scorecard</p>
+        {consensus.competencies.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-xs font-semibold text-gray-500 uppercase">
+              Competencies
+            </p>
+            {consensus.competencies.map((item) => (
+              <div
+                key={item.id}
+                className="flex flex-row justify-between items-center gap-2"
+              >
+                <p>{item.label}</p>
+                <RatingSelect
+                  value={competencyRatings[item.id]}
+                  min={RUBRIC_MIN_LEVEL}
+                  max={RUBRIC_MAX_LEVEL}
+                  onChange={(value) =>
+                    setCompetencyRatings(
+                      setRating(competencyRatings, item.id, value),
+                    )
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        {consensus.questions.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-xs font-semibold text-gray-500 uppercase">
+              Questions
+            </p>
+            {consensus.questions.map((item, index) => (
+              <div
+                key={item.id}
+                className="flex flex-row justify-between items-center gap-2"
+              >
+                <p className="line-clamp-2" title={item.label}>
+                  {index + 1}. {item.label}
+                </p>
+                <RatingSelect
+                  value={questionRatings[item.id]}
+                  min={QUESTION_RATING_MIN}
+                  max={QUESTION_RATING_MAX}
+                  onChange={(value) =>
+                    setQuestionRatings(
+                      setRating(questionRatings, item.id, value),
+                    )
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-col gap-2">
+          <p className="text-xs font-semibold text-gray-500 uppercase">
+            Recommendation
+          </p>
+          <div className="flex flex-row flex-wrap gap-2">
+            {RECOMMENDATIONS.map((item) => (
+              <button
+                key={item}
+                type="button"
+                className={`text-xs font-semibold rounded-full px-3 py-1 ${
+                  recommendation === item
+                    ? RECOMMENDATION_STYLES[item]
+                    : "bg-slate-200 text-slate-600"
+                }`}
+                onClick={() =>
+                  setRecommendation(recommendation === item ? null : item)
+                }
+              >
+                {RECOMMENDATION_LABELS[item]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <Textarea
+          value={notes}
+          maxLength={MAX_SCORECARD_NOTES_LENGTH}
+          placeholder="Why do you recommend this? What should the next round dig into?"
+          className="bg-white"
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        <Button
+          className="bg-indigo-600 hover:bg-indigo-800 w-fit ml-auto"
+          disabled={isSaving}
+          onClick={onSave}
+        >
+          {ownScorecard ? "Update Scorecard" : "Save Scorecard"}
+        </Button>
+      </div>
+      <div className="flex flex-col gap-3 text-sm p-4 rounded-2xl bg-slate-50">
+        <div className="flex flex-row justify-between items-center">
+          <p className="font-medium text-base">AI vs Team</p>
+          <p className="text-xs text-gray-500">
+            {consensus.reviewer_count}{" "}
+            {consensus.reviewer_count === 1 ? "reviewer" : "reviewers"}
+          </p>
+        </div>
+        <div className="flex flex-row flex-wrap items-center gap-2">
+          {RECOMMENDATIONS.map((item) => (
+            <span
+              key={item}
+              className="text-xs font-semibold rounded-full px-3 py-1 bg-slate-200 text-slate-600"
+            >
+              {RECOMMENDATION_LABELS[item]}: {consensus.recommendations[item]}
+            </span>
+          ))}
+          {consensusRecommendation && (
+            <span
+              className={`text-xs font-semibold rounded-full px-3 py-1 ${RECOMMENDATION_STYLES[consensusRecommendation]}`}
+            >
+              Team leans {RECOMMENDATION_LABELS[consensusRecommendation]}
+            </span>
+          )}
+        </div>
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="font-medium pr-2" />
+              <th className="font-medium px-2 text-right">AI</th>
+              <th className="font-medium px-2 text-right">Team</th>
+              <th className="font-medium pl-2 text-right">#</th>
+            </tr>
+          </thead>
+          <tbody>
+            <ConsensusRows
+              items={consensus.competencies}
+              max={RUBRIC_MAX_LEVEL}
+            />
+            <ConsensusRows
+              items={consensus.questions}
+              max={QUESTION_RATING_MAX}
+            />
+          </tbody>
+        </table>
+        {scorecards.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-xs font-semibold text-gray-500 uppercase">
+              Reviewer Notes
+            </p>
+            {scorecards.map((scorecard) => (
+              <div key={scorecard.id} className="bg-white rounded-md p-2">
+                <div className="flex flex-row justify-between items-center gap-2">
+                  <p className="font-medium">
+                    {scorecard.reviewer_name || "Reviewer"}
+                    {scorecard.reviewer_id === userId && " (you)"}
+                  </p>
+                  {scorecard.recommendation && (
+                    <span
+                      className={`text-xs font-semibold rounded-full px-2 py-0.5 ${RECOMMENDATION_STYLES[scorecard.recommendation]}`}
+                    >
+                      {RECOMMENDATION_LABELS[scorecard.recommendation]}
+                    </span>
+                  )}
+                </div>
+                {scorecard.notes && (
+                  <p className="text-xs text-gray-600 mt-1 whitespace-pre-line">
+                    {scorecard.notes}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ResponseScorecard;
@@ -0,0 +1,116 @@
+"use client";
+
+import axios from "axios";
+import { toast } from "sonner";
+import { FileText, Loader2, Upload, X } from "lucide-react";
+import { useDropzone } from "react-dropzone";
+import { MAX_RESUME_FILE_SIZE, RESUME_FILE_TYPES } from "@/lib/resumes";
+
+export type UploadedResume = {
+  resume_id: string;
+  file_name: string;
+};
+
+type Props = {
+  interviewId: string;
+  invitationToken?: string;
+  themeColor: string;
+  resume: UploadedResume | null;
+  setResume: (resume: UploadedResume | null) => void;
+  uploading: boolean;
+  setUploading: (uploading: boolean) => void;
+};
+
+function ResumeUpload({
+  interviewId,
+  invitationToken,
+  themeColor,
+  resume,
+  setResume,
+  uploading,
+  setUploading,
+}: Props) {
+  const { getRootProps, getInputProps } = useDropzone({
+    accept: RESUME_FILE_TYPES,
+    maxFiles: 1,
+    disabled: uploading,
+    onDrop: async (acceptedFiles: File[]) => {
+      const file = acceptedFiles[0];
+      if (!file) {
+        return;
+      }
+      if (file.size > MAX_RESUME_FILE_SIZE) {
+        toast.error("Please upload a resume smaller than 5MB.", {
+          position: "bottom-right",
+          duration: 3000,
+        });
+
+        return;
+      }
+
+      setUploading(true);
+      try {
+        const formData = new FormData();
+        formData.append("interview_id", interviewId);
+        formData.append("file", file);
+        if (invitationToken) {
+          formData.append("invitation_token", invitationToken);
+        }
+        const response = await axios.post("/api/candidate-resume", formData);
+        setResume(response.data);
+      } catch (error) {
+        console.error("Failed to upload resume:", error);
+        toast.error("Could not read your resume", {
+          description: axios.isAxiosError(error)
+            ? error.response?.data?.error
+            : undefined,
+          position: "bottom-right",
+          duration: 3000,
+        });
+      }
+      setUploading(false);
+    },
+  });
+
+  if (resume) {
+    return (
+      <div className="flex flex-row items-center w-[75%] mx-auto mb-4 text-sm text-slate-600">
+        <FileText
+          className="w-4 h-4 mr-2 shrink-0"
+          style={{ color: themeColor }}
+        />
+        <span className="truncate">{resume.file_name}</span>
+        <X
+          className="w-4 h-4 ml-auto cursor-pointer text-slate-400 hover:text-red-500 shrink-0"
+          onClick={() => setResume(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      {...getRootProps({
+        className:
+          "w-[75%] mx-auto mb-4 border-dashed border-2 rounded-md cursor-pointer bg-white py-2 flex justify-center items-center flex-col",
+      })}
+    >
+      <input {...getInputProps()} />
+      {uploading ? (
+        <Loader2
+          className="w-5 h-5 animate-spin"
+          style={{ color: themeColor }}
+        />
+      ) : (
+        <Upload className="w-5 h-5" style={{ color: themeColor }} />
+      )}
+      <p className="mt-1 text-xs text-slate-500 text-center px-2">
+        {uploading
+          ? "Reading your resume..."
+          : "Optional: add your resume (PDF or DOCX) for a few questions about your experience"}
+      </p>
+    </div>
+  );
+}
+
+export default ResumeUpload;
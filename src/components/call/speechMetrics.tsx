@@ -0,0 +1,84 @@
+import React from "react";
+import { convertSecondstoMMSS } from "@/lib/utils";
+import {
+  LONG_PAUSE_SECONDS,
+  MEDIUM_PAUSE_SECONDS,
+  MIN_PAUSE_SECONDS,
+} from "@/lib/speech-metrics";
+import { SpeechMetrics as SpeechMetricsData } from "@/types/response";
+
+type SpeechMetricsProps = {
+  metrics: SpeechMetricsData;
+};
+
+function Metric({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <div className="flex flex-col rounded-lg bg-white px-2 py-1">
+      <span className="text-xs text-gray-500">{label}</span>
+      <span className="font-semibold text-indigo-600">{value}</span>
+      {detail && <span className="text-xs text-gray-500">{detail}</span>}
+    </div>
+  );
+}
+
+function SpeechMetrics({ metrics }: SpeechMetricsProps) {
+  const pauseCount =
+    metrics.pauses.short + metrics.pauses.medium + metrics.pauses.long;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="font-medium">Delivery (measured from the recording)</p>
+      <div className="grid grid-cols-2 gap-2">
+        <Metric
+          label="Speaking pace"
+          value={`${metrics.wordsPerMinute} words/min`}
+          detail={`${metrics.wordCount} words`}
+        />
+        <Metric
+          label="Filler words"
+          value={`${metrics.fillerRate} per 100 words`}
+          detail={`${metrics.fillerCount} in total`}
+        />
+        <Metric
+          label="Talk ratio"
+          value={`${Math.round(metrics.talkRatio * 100)}% candidate`}
+          detail={`${convertSecondstoMMSS(metrics.candidateTalkTime)} vs ${convertSecondstoMMSS(metrics.agentTalkTime)}`}
+        />
+        <Metric
+          label="Longest monologue"
+          value={convertSecondstoMMSS(metrics.longestMonologue)}
+        />
+        <Metric
+          label="Pauses"
+          value={
+            metrics.pauses.longest !== null
+              ? `${pauseCount}, longest ${metrics.pauses.longest.toFixed(1)}s`
+              : "None"
+          }
+          detail={`${metrics.pauses.short} under ${MEDIUM_PAUSE_SECONDS}s · ${metrics.pauses.medium} under ${LONG_PAUSE_SECONDS}s · ${metrics.pauses.long} longer`}
+        />
+        <Metric
+          label="Interruptions"
+          value={`${
+            metrics.interruptions.byCandidate +
+            metrics.interruptions.byInterviewer
+          }`}
+          detail={`${metrics.interruptions.byCandidate} by the candidate, ${metrics.interruptions.byInterviewer} by the interviewer`}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        Pauses are gaps of {MIN_PAUSE_SECONDS}s or more within an answer.
+      </p>
+    </div>
+  );
+}
+
+export default SpeechMetrics;
@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, Search } from "lucide-react";
+import {
+  formatTimestamp,
+  getActivePosition,
+  getUtteranceStart,
+  isSearchMatch,
+  searchTranscript,
+} from "@/lib/transcript";
+import { CallData } from "@/types/response";
+
+type SyncedTranscriptProps = {
+  transcript: CallData["transcript_object"];
+  candidateName: string;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+};
+
+// Keeps the line being spoken, or the current search match, in view without
+// scrolling the rest of the page
+const scrollIntoContainer = (
+  container: HTMLDivElement | null,
+  element: HTMLDivElement | undefined,
+) => {
+  if (!container || !element) {
+    return;
+  }
+  const top = element.offsetTop - container.offsetTop;
+  if (
+    top < container.scrollTop ||
+    top + element.offsetHeight > container.scrollTop + container.clientHeight
+  ) {
+    container.scrollTo({ top: top - 16, behavior: "smooth" });
+  }
+};
+
+function SyncedTranscript({
+  transcript,
+  candidateName,
+  currentTime,
+  onSeek,
+}: SyncedTranscriptProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<HTMLDivElement[]>([]);
+  const [query, setQuery] = useState("");
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(true);
+
+  const active = getActivePosition(transcript, currentTime);
+  const matches = useMemo(
+    () => searchTranscript(transcript, query),
+    [transcript, query],
+  );
+  const activeLine = active?.utteranceIndex;
+
+  useEffect(() => {
+    if (isFollowing && activeLine !== undefined && !query) {
+      scrollIntoContainer(containerRef.current, lineRefs.current[activeLine]);
+    }
+  }, [activeLine, isFollowing, query]);
+
+  useEffect(() => {
+    setMatchIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    if (matches.length > 0) {
+      scrollIntoContainer(
+        containerRef.current,
+        lineRefs.current[matches[matchIndex]],
+      );
+    }
+  }, [matches, matchIndex]);
+
+  const stepMatch = (offset: number) =>
+    setMatchIndex(
+      (matchIndex + offset + matches.length) % Math.max(matches.length, 1),
+    );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-row items-center gap-3 text-sm">
+        <div className="flex flex-row items-center flex-1 bg-slate-50 rounded-lg px-2">
+          <Search className="text-gray-400 mr-2" size={16} />
+          <input
+            type="text"
+            className="w-full py-1 bg-transparent focus:outline-none"
+            placeholder="Search the transcript"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                stepMatch(e.shiftKey ? -1 : 1);
+              }
+            }}
+          />
+          {query && (
+            <div className="flex flex-row items-center gap-1 shrink-0 text-xs text-gray-500">
+              {matches.length > 0
+                ? `${matchIndex + 1} of ${matches.length}`
+                : "No matches"}
+              <ChevronUp
+                className="cursor-pointer"
+                size={16}
+                onClick={() => stepMatch(-1)}
+              />
+              <ChevronDown
+                className="cursor-pointer"
+                size={16}
+                onClick={() => stepMatch(1)}
+              />
+            </div>
+          )}
+        </div>
+        <label className="flex flex-row items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={isFollowing}
+            onChange={(e) => setIsFollowing(e.target.checked)}
+          />
+          Follow playback
+        </label>
+      </div>
+      <div
+        ref={containerRef}
+        className="relative h-96 overflow-y-auto rounded-2xl bg-slate-50 p-4 text-sm leading-6"
+      >
+        {transcript.map((utterance, index) => {
+          const start = getUtteranceStart(utterance);
+          const isActive = active?.utteranceIndex === index;
+          const isCurrentMatch = matches[matchIndex] === index;
+          const isMatch = matches.includes(index);
+
+          return (
+            <div
+              // eslint-disable-next-line react/no-array-index-key
+              key={index}
+              ref={(element) => {
+                if (element) {
+                  lineRefs.current[index] = element;
+                }
+              }}
+              className={`flex flex-row gap-3 rounded-md px-2 py-1 ${
+                start !== null ? "cursor-pointer hover:bg-indigo-50" : ""
+              } ${isActive ? "bg-indigo-100" : ""} ${
+                isCurrentMatch ? "ring-2 ring-indigo-300" : ""
+              }`}
+              onClick={() => start !== null && onSeek(start)}
+            >
+              <span className="w-10 shrink-0 text-xs text-indigo-600 font-semibold pt-0.5">
+                {start !== null ? formatTimestamp(start) : ""}
+              </span>
+              <p>
+                <span className="font-semibold">
+                  {utterance.role === "agent"
+                    ? "AI interviewer"
+                    : candidateName}
+                  :{" "}
+                </span>
+                {utterance.words.length > 0
+                  ? utterance.words.map((word, wordIndex) => (
+                      <span
+                        // eslint-disable-next-line react/no-array-index-key
+                        key={wordIndex}
+                        className={`rounded-sm ${
+                          isActive && active?.wordIndex === wordIndex
+                            ? "bg-indigo-600 text-white"
+                            : isMatch && isSearchMatch(word.word, query)
+                              ? "bg-yellow-200"
+                              : ""
+                        }`}
+                      >
+                        {word.word}{" "}
+                      </span>
+                    ))
+                  : utterance.content}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default SyncedTranscript;
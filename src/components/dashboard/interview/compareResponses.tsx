@@ -0,0 +1,299 @@
+"use client";
+
+import React, { useState } from "react";
+import axios from "axios";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, ExternalLink, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { Interview } from "@/types/interview";
+import {
+  CandidateComparison,
+  CompetencyScore,
+  Response,
+} from "@/types/response";
+import { Button } from "@/components/ui/button";
+import { getStage } from "@/lib/pipeline";
+import { PipelineStage } from "@/types/pipeline";
+import { convertSecondstoMMSS } from "@/lib/utils";
+import { alignQuestionSummaries } from "@/lib/llm/schemas";
+import { MUST_HAVE_MIN_LEVEL, RUBRIC_MAX_LEVEL } from "@/lib/rubric";
+import { MIN_COMPARED_CANDIDATES } from "@/lib/constants";
+import { getCandidateLabel } from "@/lib/permissions";
+import { useClient } from "@/contexts/clients.context";
+
+type CompareResponsesProps = {
+  interview: Interview | undefined;
+  responses: Response[];
+  stages: PipelineStage[];
+  callIds: string[];
+};
+
+function CompareRow({
+  label,
+  cells,
+  columns,
+}: {
+  label: string;
+  cells: React.ReactNode[];
+  columns: string;
+}) {
+  return (
+    <div
+      className="grid gap-3 py-2 border-b border-slate-200 text-sm"
+      style={{ gridTemplateColumns: columns }}
+    >
+      <p className="font-medium">{label}</p>
+      {cells.map((cell, index) => (
+        // eslint-disable-next-line react/no-array-index-key
+        <div key={index}>{cell}</div>
+      ))}
+    </div>
+  );
+}
+
+function CompareResponses({
+  interview,
+  responses,
+  stages,
+  callIds,
+}: CompareResponsesProps) {
+  const router = useRouter();
+  const { can } = useClient();
+  const [comparison, setComparison] = useState<CandidateComparison>();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const candidates = callIds
+    .map((callId) => responses.find((response) => response.call_id === callId))
+    .filter((response): response is Response => !!response);
+
+  const columns = `200px repeat(${candidates.length}, minmax(0, 1fr))`;
+  const questions = (interview?.questions || []).map((q) => q.question);
+  const competencies = Array.from(
+    new Set([
+      ...(interview?.rubric || []).map((competency) => competency.name),
+      ...candidates.flatMap((candidate) =>
+        (candidate.analytics?.competencyScores || []).map(
+          (score: CompetencyScore) => score.competency,
+        ),
+      ),
+    ]),
+  );
+
+  const onGenerateComparison = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await axios.post("/api/compare-candidates", {
+        interviewId: interview?.id,
+        callIds: candidates.map((candidate) => candidate.call_id),
+      });
+      setComparison(response.data.comparison);
+    } catch (error) {
+      console.error("Error generating comparison:", error);
+      toast.error("Failed to generate the comparison.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="h-screen z-[10] mx-2 mb-[100px] overflow-y-scroll">
+      <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5">
+        <div className="flex justify-between items-center pb-4 pr-2">
+          <div
+            className="inline-flex items-center text-indigo-600 hover:cursor-pointer"
+            onClick={() => {
+              router.push(`/interviews/${interview?.id}`);
+            }}
+          >
+            <ArrowLeft className="mr-2" />
+            <p className="text-sm font-semibold">Back to Summary</p>
+          </div>
+          <Button
+            className="bg-indigo-600 hover:bg-indigo-800"
+            disabled={
+              isGenerating || candidates.length < MIN_COMPARED_CANDIDATES
+            }
+            onClick={onGenerateComparison}
+          >
+            <Sparkles size={16} className="mr-2" />
+            {isGenerating ? "Comparing..." : "Generate Relative Strengths"}
+          </Button>
+        </div>
+        <div className="p-4 rounded-2xl bg-slate-50">
+          <div
+            className="grid gap-3 pb-2 border-b-2 border-slate-300"
+            style={{ gridTemplateColumns: columns }}
+          >
+            <p className="font-semibold">Candidate</p>
+            {candidates.map((candidate) => (
+              <div
+                key={candidate.call_id}
+                className="flex flex-row items-center gap-2 font-semibold text-indigo-600 cursor-pointer"
+                onClick={() =>
+                  router.push(
+                    `/interviews/${interview?.id}?call=${candidate.call_id}`,
+                  )
+                }
+              >
+                <span className="truncate">
+                  {getCandidateLabel(candidate, can("response:view_pii"))}
+                </span>
+                <ExternalLink size={14} className="shrink-0" />
+              </div>
+            ))}
+          </div>
+          <CompareRow
+            label="Overall Score"
+            columns={columns}
+            cells={candidates.map((candidate) => (
+              <span
+                key={candidate.call_id}
+                className="text-lg font-semibold text-indigo-600"
+              >
+                {candidate.analytics?.overallScore ?? "-"}
+              </span>
+            ))}
+          />
+          <CompareRow
+            label="Communication"
+            columns={columns}
+            cells={candidates.map((candidate) =>
+              candidate.analytics?.communication
+                ? `${candidate.analytics.communication.score}/10`
+                : "-",
+            )}
+          />
+          <CompareRow
+            label="Status"
+            columns={columns}
+            cells={candidates.map((candidate) => {
+              const stage = getStage(stages, candidate.candidate_status);
+
+              return (
+                <div
+                  key={candidate.call_id}
+                  className="flex items-center text-sm"
+                >
+                  <div
+                    className="w-3 h-3 rounded-full mr-2"
+                    style={{ backgroundColor: stage.color }}
+                  />
+                  {stage.name}
+                </div>
+              );
+            })}
+          />
+          <CompareRow
+            label="Duration"
+            columns={columns}
+            cells={candidates.map((candidate) =>
+              candidate.duration
+                ? convertSecondstoMMSS(candidate.duration)
+                : "-",
+            )}
+          />
+          <CompareRow
+            label="Tab Switches"
+            columns={columns}
+            cells={candidates.map((candidate) => (
+              <span
+                key={candidate.call_id}
+                className={candidate.tab_switch_count > 0 ? "text-red-500" : ""}
+              >
+                {candidate.tab_switch_count ?? 0}
+              </span>
+            ))}
+          />
+          {competencies.length > 0 && (
+            <p className="font-semibold mt-5 mb-1">Competency Scores</p>
+          )}
+          {competencies.map((competency) => (
+            <CompareRow
+              key={competency}
+              label={competency}
+              columns={columns}
+              cells={candidates.map((candidate) => {
+                const score: CompetencyScore | undefined = (
+                  candidate.analytics?.competencyScores || []
+                ).find(
+                  (item: CompetencyScore) => item.competency === competency,
+                );
+                if (!score) {
+                  return "-";
+                }
+
+                return (
+                  <span
+                    key={candidate.call_id}
+                    className={`font-medium ${
+                      score.mustHave && score.score < MUST_HAVE_MIN_LEVEL
+                        ? "text-red-500"
+                        : ""
+                    }`}
+                  >
+                    {score.score}/{RUBRIC_MAX_LEVEL}
+                  </span>
+                );
+              })}
+            />
+          ))}
+          {questions.length > 0 && (
+            <p className="font-semibold mt-5 mb-1">Question Summaries</p>
+          )}
+          {questions.map((question, index) => (
+            <CompareRow
+              key={question}
+              label={`${index + 1}. ${question}`}
+              columns={columns}
+              cells={candidates.map((candidate) =>
+                candidate.analytics?.questionSummaries
+                  ? alignQuestionSummaries(
+                      candidate.analytics.questionSummaries,
+                      questions,
+                    )[index].summary
+                  : "-",
+              )}
+            />
+          ))}
+          {comparison && (
+            <>
+              <p className="font-semibold mt-5 mb-1">Relative Strengths</p>
+              <p className="text-sm mb-2">{comparison.summary}</p>
+              <CompareRow
+                label="Strengths"
+                columns={columns}
+                cells={candidates.map((candidate) => (
+                  <ul key={candidate.call_id} className="list-disc pl-4">
+                    {comparison.candidates
+                      .find((item) => item.callId === candidate.call_id)
+                      ?.strengths.map((strength) => (
+                        <li key={strength}>{strength}</li>
+                      ))}
+                  </ul>
+                ))}
+              />
+              <CompareRow
+                label="Concerns"
+                columns={columns}
+                cells={candidates.map((candidate) => (
+                  <ul key={candidate.call_id} className="list-disc pl-4">
+                    {comparison.candidates
+                      .find((item) => item.callId === candidate.call_id)
+                      ?.concerns.map((concern) => (
+                        <li key={concern}>{concern}</li>
+                      ))}
+                  </ul>
+                ))}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CompareResponses;
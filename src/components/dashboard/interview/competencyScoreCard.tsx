@@ -0,0 +1,62 @@
+import { CompetencyScore } from "@/types/response";
+import { MUST_HAVE_MIN_LEVEL, RUBRIC_MAX_LEVEL } from "@/lib/rubric";
+
+interface CompetencyScoreCardProps {
+  competencyScore: CompetencyScore;
+}
+
+function CompetencyScoreCard({ competencyScore }: CompetencyScoreCardProps) {
+  const isUnmetMustHave =
+    competencyScore.mustHave && competencyScore.score < MUST_HAVE_MIN_LEVEL;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm p-4 rounded-2xl bg-slate-50">
+      <div className="flex flex-row justify-between items-center gap-2">
+        <div className="flex flex-row items-center gap-2">
+          <p className="font-medium text-base">{competencyScore.competency}</p>
+          {competencyScore.mustHave && (
+            <span
+              className={`text-xs font-semibold rounded-sm px-1.5 py-0.5 ${
+                isUnmetMustHave
+                  ? "text-red-500 bg-red-200"
+                  : "text-indigo-600 bg-indigo-100"
+              }`}
+            >
+              Must-have
+            </span>
+          )}
+        </div>
+        <p className="font-semibold text-indigo-600 text-lg shrink-0">
+          {competencyScore.score}
+          <span className="text-sm">/{RUBRIC_MAX_LEVEL}</span>
+        </p>
+      </div>
+      <div className="flex flex-row gap-1">
+        {Array.from({ length: RUBRIC_MAX_LEVEL }, (_, index) => (
+          <div
+            key={index}
+            className={`h-1.5 flex-1 rounded-full ${
+              index < competencyScore.score
+                ? isUnmetMustHave
+                  ? "bg-red-500"
+                  : "bg-indigo-600"
+                : "bg-indigo-600/10"
+            }`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Weight: {competencyScore.weight}</p>
+      {competencyScore.rationale && <p>{competencyScore.rationale}</p>}
+      {competencyScore.evidence.map((quote) => (
+        <p
+          key={quote}
+          className="italic text-gray-600 border-l-2 border-indigo-300 pl-2"
+        >
+          &ldquo;{quote}&rdquo;
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default CompetencyScoreCard;
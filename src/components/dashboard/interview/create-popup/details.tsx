@@ -2,14 +2,22 @@ import React, { useState, useEffect } from "react";
 import axios from "axios";
 import { v4 as uuidv4 } from "uuid";
 import { useInterviewers } from "@/contexts/interviewers.context";
-import { InterviewBase, Question } from "@/types/interview";
+import {
+  InterviewBase,
+  InterviewDocument,
+  Question,
+  RubricCompetency,
+} from "@/types/interview";
 import { ChevronRight, ChevronLeft, Info } from "lucide-react";
 import Image from "next/image";
 import { CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import FileUpload from "../fileUpload";
+import DocumentUpload from "@/components/dashboard/interview/documentUpload";
+import RubricEditor from "@/components/dashboard/interview/rubricEditor";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cleanRubric } from "@/lib/rubric";
 import Modal from "@/components/dashboard/Modal";
 import InterviewerDetailsModal from "@/components/dashboard/interviewer/interviewerDetailsModal";
 import { Interviewer } from "@/types/interviewer";
@@ -19,10 +27,6 @@ interface Props {
   setLoading: (loading: boolean) => void;
   interviewData: InterviewBase;
   setInterviewData: (interviewData: InterviewBase) => void;
-  isUploaded: boolean;
-  setIsUploaded: (isUploaded: boolean) => void;
-  fileName: string;
-  setFileName: (fileName: string) => void;
 }
 
 function DetailsPopup({
@@ -30,10 +34,6 @@ function DetailsPopup({
   setLoading,
   interviewData,
   setInterviewData,
-  isUploaded,
-  setIsUploaded,
-  fileName,
-  setFileName,
 }: Props) {
   const { interviewers } = useInterviewers();
   const [isClicked, setIsClicked] = useState(false);
@@ -54,7 +54,12 @@ function DetailsPopup({
       : String(interviewData.question_count),
   );
   const [duration, setDuration] = useState(interviewData.time_duration);
-  const [uploadedDocumentContext, setUploadedDocumentContext] = useState("");
+  const [documents, setDocuments] = useState<InterviewDocument[]>(
+    interviewData.documents,
+  );
+  const [rubric, setRubric] = useState<RubricCompetency[]>(
+    interviewData.rubric,
+  );
 
   const slideLeft = (id: string, value: number) => {
     var slider = document.getElementById(`${id}`);
@@ -77,7 +82,7 @@ function DetailsPopup({
       name: name.trim(),
       objective: objective.trim(),
       number: numQuestions,
-      context: uploadedDocumentContext,
+      documents,
     };
 
     const generatedQuestions = (await axios.post(
@@ -107,10 +112,15 @@ function DetailsPopup({
       time_duration: duration,
       description: generatedQuestionsResponse.description,
       is_anonymous: isAnonymous,
+      rubric: cleanRubric(rubric),
+      documents,
     };
     setInterviewData(updatedInterviewData);
   };
 
+  // Interviews started from a template keep its questions
+  const hasTemplateQuestions = interviewData.questions.length > 0;
+
   const onManual = () => {
     setLoading(true);
 
@@ -118,12 +128,16 @@ function DetailsPopup({
       ...interviewData,
       name: name.trim(),
       objective: objective.trim(),
-      questions: [{ id: uuidv4(), question: "", follow_up_count: 1 }],
+      questions: hasTemplateQuestions
+        ? interviewData.questions.slice(0, Number(numQuestions))
+        : [{ id: uuidv4(), question: "", follow_up_count: 1 }],
       interviewer_id: selectedInterviewer,
       question_count: Number(numQuestions),
       time_duration: String(duration),
-      description: "",
+      description: hasTemplateQuestions ? interviewData.description : "",
       is_anonymous: isAnonymous,
+      rubric: cleanRubric(rubric),
+      documents,
     };
     setInterviewData(updatedInterviewData);
   };
@@ -136,6 +150,8 @@ function DetailsPopup({
       setIsAnonymous(false);
       setNumQuestions("");
       setDuration("");
+      setRubric([]);
+      setDocuments([]);
       setIsClicked(false);
     }
   }, [open]);
@@ -225,15 +241,22 @@ function DetailsPopup({
             onBlur={(e) => setObjective(e.target.value.trim())}
           />
           <h3 className="text-sm font-medium mt-2">
-            Upload any documents related to the interview.
+            Add documents related to the interview{" "}
+            <span className="text-xs font-normal">
+              (e.g. job description, competency framework, company values)
+            </span>
           </h3>
-          <FileUpload
-            isUploaded={isUploaded}
-            setIsUploaded={setIsUploaded}
-            fileName={fileName}
-            setFileName={setFileName}
-            setUploadedDocumentContext={setUploadedDocumentContext}
-          />
+          <DocumentUpload documents={documents} setDocuments={setDocuments} />
+          <h3 className="text-sm font-medium mt-3">
+            Scoring rubric{" "}
+            <span className="text-xs font-normal">
+              (Optional. Responses are scored on each competency and the overall
+              score is weighted accordingly.)
+            </span>
+          </h3>
+          <ScrollArea className="w-[33.2rem] max-h-48 mt-2">
+            <RubricEditor rubric={rubric} setRubric={setRubric} />
+          </ScrollArea>
           <label className="flex-col mt-7 w-full">
             <div className="flex items-center cursor-pointer">
               <span className="text-sm font-medium">
@@ -338,7 +361,9 @@ function DetailsPopup({
                 onManual();
               }}
             >
-              I&apos;ll do it myself
+              {hasTemplateQuestions
+                ? "Use template questions"
+                : "I'll do it myself"}
             </Button>
           </div>
         </div>
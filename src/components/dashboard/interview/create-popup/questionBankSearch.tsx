@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Search } from "lucide-react";
+import { matchesBankQuestionSearch } from "@/lib/question-bank";
+import { BankQuestion } from "@/types/question-bank";
+
+interface Props {
+  onSelect: (bankQuestion: BankQuestion) => void;
+}
+
+const MAX_RESULTS = 20;
+
+function QuestionBankSearch({ onSelect }: Props) {
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBankQuestions = async () => {
+      try {
+        const response = await axios.get("/api/question-bank?stats=false");
+        setBankQuestions(
+          (response.data.questions as BankQuestion[]).filter(
+            (question) => !question.is_retired,
+          ),
+        );
+      } catch (error) {
+        console.error("Error fetching question bank:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBankQuestions();
+  }, []);
+
+  const results = bankQuestions
+    .filter((question) => matchesBankQuestionSearch(question, search))
+    .slice(0, MAX_RESULTS);
+
+  return (
+    <div className="mt-3 p-2 rounded-md border-2 border-indigo-100 bg-slate-50 text-left">
+      <div className="flex flex-row items-center border-b-2 border-gray-300 pb-1">
+        <Search className="text-gray-400 mr-2" size={14} />
+        <input
+          type="text"
+          className="w-full bg-transparent text-sm focus:outline-none"
+          placeholder="Search by text, skill, seniority or role"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+      <div className="max-h-40 overflow-y-auto mt-1">
+        {loading ? (
+          <p className="text-xs text-gray-500 p-2">Loading question bank...</p>
+        ) : results.length > 0 ? (
+          results.map((question) => (
+            <div
+              key={question.id}
+              className="p-2 rounded-md hover:bg-indigo-100 cursor-pointer"
+              onClick={() => onSelect(question)}
+            >
+              <p className="text-sm">{question.question}</p>
+              <div className="flex flex-row flex-wrap gap-1 mt-1">
+                {[
+                  ...question.skills,
+                  ...(question.seniority ? [question.seniority] : []),
+                  ...(question.role ? [question.role] : []),
+                ].map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-[10px]"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-xs text-gray-500 p-2">
+            {bankQuestions.length === 0
+              ? "The question bank is empty. Save questions to reuse them."
+              : "No matching questions."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default QuestionBankSearch;
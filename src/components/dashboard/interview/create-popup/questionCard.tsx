@@ -1,7 +1,11 @@
+import { useState } from "react";
+import axios from "axios";
+import { toast } from "sonner";
 import { Question } from "@/types/interview";
 import { Card, CardContent, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trash2 } from "lucide-react";
+import { BookmarkCheck, BookmarkPlus, Library, Trash2 } from "lucide-react";
+import QuestionBankSearch from "@/components/dashboard/interview/create-popup/questionBankSearch";
 import {
   Tooltip,
   TooltipContent,
@@ -16,18 +20,96 @@ interface QuestionCardProps {
   onDelete: (id: string) => void;
 }
 
-const questionCard = ({
+function QuestionCard({
   questionNumber,
   questionData,
   onQuestionChange,
   onDelete,
-}: QuestionCardProps) => {
+}: QuestionCardProps) {
+  const [isBankOpen, setIsBankOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const onSaveToBank = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post("/api/question-bank", {
+        question: questionData.question,
+        follow_up_count: questionData.follow_up_count,
+      });
+      onQuestionChange(questionData.id, {
+        ...questionData,
+        bank_question_id: response.data.question.id,
+      });
+      toast.success("Question saved to the question bank.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error saving question to the bank:", error);
+      toast.error("Failed to save the question.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <>
       <Card className=" shadow-md mb-5 pb-3 ">
         <CardContent className="p-2 mx-5">
           <div className="flex flex-row justify-between mt-3 items-baseline ">
-            <CardTitle className="text-lg">Question {questionNumber}</CardTitle>
+            <div className="flex flex-row items-center gap-3">
+              <CardTitle className="text-lg">
+                Question {questionNumber}
+              </CardTitle>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Library
+                      className="cursor-pointer text-indigo-600"
+                      size={18}
+                      onClick={() => setIsBankOpen(!isBankOpen)}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent className="bg-zinc-200">
+                    <p className="text-zinc-800">Pick from question bank</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+              {questionData.bank_question_id ? (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <BookmarkCheck className="text-indigo-600" size={18} />
+                    </TooltipTrigger>
+                    <TooltipContent className="bg-zinc-200">
+                      <p className="text-zinc-800">From the question bank</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              ) : (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <BookmarkPlus
+                        className={`text-indigo-600 ${
+                          isSaving || !questionData.question.trim()
+                            ? "opacity-50 pointer-events-none"
+                            : "cursor-pointer"
+                        }`}
+                        size={18}
+                        onClick={onSaveToBank}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent className="bg-zinc-200">
+                      <p className="text-zinc-800">Save to question bank</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+            </div>
             <div className="flex flex-row items-start space-x-1">
               <h3 className="text-base font-semibold mr-2">Depth Level: </h3>
               <TooltipProvider>
@@ -106,16 +188,31 @@ const questionCard = ({
               </TooltipProvider>
             </div>
           </div>
+          {isBankOpen && (
+            <QuestionBankSearch
+              onSelect={(bankQuestion) => {
+                onQuestionChange(questionData.id, {
+                  ...questionData,
+                  question: bankQuestion.question,
+                  follow_up_count: bankQuestion.follow_up_count,
+                  bank_question_id: bankQuestion.id,
+                });
+                setIsBankOpen(false);
+              }}
+            />
+          )}
           <div className="flex flex-row items-center">
             <textarea
               value={questionData?.question}
               className="h-fit mt-3 pt-1 border-2 rounded-md w-full px-2 border-gray-400"
               placeholder="e.g. Can you tell me about a challenging project you’ve worked on?"
               rows={3}
+              // An edited question is no longer the bank question
               onChange={(e) =>
                 onQuestionChange(questionData.id, {
                   ...questionData,
                   question: e.target.value,
+                  bank_question_id: null,
                 })
               }
               onBlur={(e) =>
@@ -136,5 +233,5 @@ const questionCard = ({
       </Card>
     </>
   );
-};
-export default questionCard;
+}
+export default QuestionCard;
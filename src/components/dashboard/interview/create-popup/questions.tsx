@@ -47,6 +47,7 @@ function QuestionsPopup({ interviewData, setProceed, setOpen }: Props) {
           ...question,
           question: "",
           follow_up_count: 1,
+          bank_question_id: null,
         })),
       );
 
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { FilePlus2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { BUILT_IN_INTERVIEW_TEMPLATES } from "@/lib/interview-templates";
+import {
+  InterviewTemplate,
+  InterviewTemplateContent,
+} from "@/types/interview-template";
+
+interface Props {
+  open: boolean;
+  onSelect: (template: InterviewTemplateContent | null) => void;
+}
+
+function TemplateCard({
+  template,
+  onClick,
+  onDelete,
+}: {
+  template: InterviewTemplateContent;
+  onClick: () => void;
+  onDelete?: () => void;
+}) {
+  return (
+    <div
+      className="relative flex flex-col text-left p-3 rounded-xl border-2 border-slate-200 hover:border-indigo-600 cursor-pointer"
+      onClick={onClick}
+    >
+      <p className="text-sm font-semibold pr-5">{template.name}</p>
+      <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+        {template.objective}
+      </p>
+      <p className="text-xs text-indigo-600 mt-2">
+        {template.questions.length} questions · {template.time_duration} mins
+      </p>
+      {onDelete && (
+        <Trash2
+          className="absolute top-3 right-3 cursor-pointer"
+          color="red"
+          size={14}
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function TemplatesPopup({ open, onSelect }: Props) {
+  const [templates, setTemplates] = useState<InterviewTemplate[]>([]);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await axios.get("/api/interview-templates");
+        setTemplates(response.data.templates);
+      } catch (error) {
+        console.error("Error fetching interview templates:", error);
+      }
+    };
+
+    if (open) {
+      fetchTemplates();
+    }
+  }, [open]);
+
+  const onDelete = async (template: InterviewTemplate) => {
+    try {
+      await axios.delete(`/api/interview-templates?id=${template.id}`);
+      setTemplates(templates.filter((item) => item.id !== template.id));
+    } catch (error) {
+      console.error("Error deleting interview template:", error);
+      toast.error("Failed to delete the template.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <div className="text-center w-[38rem]">
+      <h1 className="text-xl font-semibold">Create an Interview</h1>
+      <p className="text-sm text-gray-500 mt-1">
+        Start from a template or from scratch. You can change everything in the
+        next step.
+      </p>
+      <ScrollArea className="h-[30rem] mt-4 px-4">
+        <div
+          className="flex flex-row items-center justify-center gap-2 p-3 mb-4 rounded-xl border-2 border-dashed border-indigo-300 text-indigo-600 cursor-pointer hover:border-indigo-600"
+          onClick={() => onSelect(null)}
+        >
+          <FilePlus2 size={18} />
+          <span className="text-sm font-semibold">Start from scratch</span>
+        </div>
+        {templates.length > 0 && (
+          <>
+            <h3 className="text-sm font-medium text-left mb-2">
+              Your templates
+            </h3>
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {templates.map((template) => (
+                <TemplateCard
+                  key={template.id}
+                  template={template}
+                  onClick={() => onSelect(template)}
+                  onDelete={() => onDelete(template)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+        <h3 className="text-sm font-medium text-left mb-2">Templates</h3>
+        <div className="grid grid-cols-2 gap-3">
+          {BUILT_IN_INTERVIEW_TEMPLATES.map((template) => (
+            <TemplateCard
+              key={template.key}
+              template={template}
+              onClick={() => onSelect(template)}
+            />
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+export default TemplatesPopup;
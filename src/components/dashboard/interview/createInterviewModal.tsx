@@ -2,7 +2,10 @@ import React, { useEffect, useState } from "react";
 import LoaderWithLogo from "@/components/loaders/loader-with-logo/loaderWithLogo";
 import DetailsPopup from "@/components/dashboard/interview/create-popup/details";
 import QuestionsPopup from "@/components/dashboard/interview/create-popup/questions";
+import TemplatesPopup from "@/components/dashboard/interview/create-popup/templates";
+import { cloneTemplateContent } from "@/lib/interview-templates";
 import { InterviewBase } from "@/types/interview";
+import { InterviewTemplateContent } from "@/types/interview-template";
 
 interface Props {
   open: boolean;
@@ -21,19 +24,18 @@ const CreateEmptyInterviewData = (): InterviewBase => ({
   questions: [],
   description: "",
   response_count: BigInt(0),
+  rubric: [],
+  documents: [],
 });
 
 function CreateInterviewModal({ open, setOpen }: Props) {
   const [loading, setLoading] = useState(false);
   const [proceed, setProceed] = useState(false);
+  const [isTemplateChosen, setIsTemplateChosen] = useState(false);
   const [interviewData, setInterviewData] = useState<InterviewBase>(
     CreateEmptyInterviewData(),
   );
 
-  // Below for File Upload
-  const [isUploaded, setIsUploaded] = useState(false);
-  const [fileName, setFileName] = useState("");
-
   useEffect(() => {
     if (loading == true) {
       setLoading(false);
@@ -46,17 +48,34 @@ function CreateInterviewModal({ open, setOpen }: Props) {
     if (!open) {
       setLoading(false);
       setProceed(false);
+      setIsTemplateChosen(false);
       setInterviewData(CreateEmptyInterviewData());
-      // Below for File Upload
-      setIsUploaded(false);
-      setFileName("");
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
 
+  // The details step caps interviews at 5 questions and 10 minutes
+  const onSelectTemplate = (template: InterviewTemplateContent | null) => {
+    if (template) {
+      const content = cloneTemplateContent(template);
+      const questionCount = Math.min(content.question_count, 5);
+      setInterviewData({
+        ...CreateEmptyInterviewData(),
+        ...content,
+        questions: content.questions.slice(0, questionCount),
+        question_count: questionCount,
+        time_duration: String(Math.min(Number(content.time_duration), 10)),
+        interviewer_id: content.interviewer_id ?? BigInt(0),
+      });
+    }
+    setIsTemplateChosen(true);
+  };
+
   return (
     <>
-      {loading ? (
+      {!isTemplateChosen ? (
+        <TemplatesPopup open={open} onSelect={onSelectTemplate} />
+      ) : loading ? (
         <div className="w-[38rem] h-[35.3rem]">
           <LoaderWithLogo />
         </div>
@@ -66,11 +85,6 @@ function CreateInterviewModal({ open, setOpen }: Props) {
           setLoading={setLoading}
           interviewData={interviewData}
           setInterviewData={setInterviewData}
-          // Below for File Upload
-          isUploaded={isUploaded}
-          setIsUploaded={setIsUploaded}
-          fileName={fileName}
-          setFileName={setFileName}
         />
       ) : (
         <QuestionsPopup
@@ -23,6 +23,7 @@ import {
   TooltipContent,
   TooltipProvider,
 } from "@/components/ui/tooltip";
+import { MAX_COMPARED_CANDIDATES } from "@/lib/constants";
 
 export type TableData = {
   call_id: string;
@@ -35,9 +36,16 @@ export type TableData = {
 interface DataTableProps {
   data: TableData[];
   interviewId: string;
+  selectedCallIds: string[];
+  onSelectCall: (callId: string, selected: boolean) => void;
 }
 
-function DataTable({ data, interviewId }: DataTableProps) {
+function DataTable({
+  data,
+  interviewId,
+  selectedCallIds,
+  onSelectCall,
+}: DataTableProps) {
   const [sorting, setSorting] = useState<SortingState>([
     { id: "overallScore", desc: true },
   ]);
@@ -72,6 +80,30 @@ function DataTable({ data, interviewId }: DataTableProps) {
   };
 
   const columns: ColumnDef<TableData>[] = [
+    {
+      id: "select",
+      header: () => null,
+      cell: ({ row }) => {
+        const isSelected = selectedCallIds.includes(row.original.call_id);
+
+        return (
+          <div className="min-h-[2.6em] flex items-center justify-center">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-indigo-600 cursor-pointer"
+              aria-label="Select for comparison"
+              checked={isSelected}
+              disabled={
+                !isSelected && selectedCallIds.length >= MAX_COMPARED_CANDIDATES
+              }
+              onChange={(e) =>
+                onSelectCall(row.original.call_id, e.target.checked)
+              }
+            />
+          </div>
+        );
+      },
+    },
     {
       accessorKey: "name",
       header: ({ column }) => {
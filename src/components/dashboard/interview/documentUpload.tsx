@@ -0,0 +1,152 @@
+"use client";
+
+import { toast } from "sonner";
+import { FileText, Inbox, Link, Loader2, X } from "lucide-react";
+import { useState } from "react";
+import { useDropzone } from "react-dropzone";
+import { parseDocument } from "@/actions/parse-document";
+import { Button } from "@/components/ui/button";
+import {
+  DOCUMENT_FILE_TYPES,
+  MAX_DOCUMENT_FILE_SIZE,
+  MAX_INTERVIEW_DOCUMENTS,
+} from "@/lib/interview-documents";
+import { InterviewDocument } from "@/types/interview";
+
+type Props = {
+  documents: InterviewDocument[];
+  setDocuments: (documents: InterviewDocument[]) => void;
+};
+
+function DocumentUpload({ documents, setDocuments }: Props) {
+  const [uploading, setUploading] = useState(false);
+  const [url, setUrl] = useState("");
+
+  const remaining = MAX_INTERVIEW_DOCUMENTS - documents.length;
+
+  // Parses one source at a time and appends it, so a failed file does not
+  // discard the ones before it
+  const addDocuments = async (sources: FormData[]) => {
+    setUploading(true);
+    let added = [...documents];
+    for (const formData of sources) {
+      const result = await parseDocument(formData);
+      if (result.success && result.document) {
+        added = [...added, result.document];
+        setDocuments(added);
+      } else {
+        toast.error("Error reading document", {
+          description: result.error || "Please try again.",
+          duration: 3000,
+        });
+      }
+    }
+    setUploading(false);
+  };
+
+  const { getRootProps, getInputProps } = useDropzone({
+    accept: DOCUMENT_FILE_TYPES,
+    maxFiles: remaining,
+    disabled: uploading || remaining <= 0,
+    onDrop: async (acceptedFiles: File[]) => {
+      const files = acceptedFiles.filter((file) => {
+        if (file.size > MAX_DOCUMENT_FILE_SIZE) {
+          toast.error(`${file.name} is larger than 10MB.`, {
+            position: "bottom-right",
+            duration: 3000,
+          });
+
+          return false;
+        }
+
+        return true;
+      });
+
+      await addDocuments(
+        files.slice(0, remaining).map((file) => {
+          const formData = new FormData();
+          formData.append("file", file);
+
+          return formData;
+        }),
+      );
+    },
+  });
+
+  const onAddUrl = async () => {
+    const formData = new FormData();
+    formData.append("url", url.trim());
+    await addDocuments([formData]);
+    setUrl("");
+  };
+
+  return (
+    <div className="p-2 bg-white rounded-xl w-full text-left">
+      {documents.map((document) => (
+        <div
+          key={document.id}
+          className="flex flex-row items-center text-sm text-slate-600 py-1"
+        >
+          {document.kind === "url" ? (
+            <Link className="w-4 h-4 mr-2 text-blue-500 shrink-0" />
+          ) : (
+            <FileText className="w-4 h-4 mr-2 text-blue-500 shrink-0" />
+          )}
+          <span className="truncate">{document.name}</span>
+          {document.is_summarised && (
+            <span className="ml-2 text-xs italic text-slate-400 shrink-0">
+              summarised
+            </span>
+          )}
+          <X
+            className="w-4 h-4 ml-auto cursor-pointer text-slate-400 hover:text-red-500 shrink-0"
+            onClick={() =>
+              setDocuments(documents.filter((item) => item.id !== document.id))
+            }
+          />
+        </div>
+      ))}
+      {remaining > 0 && (
+        <>
+          <div
+            {...getRootProps({
+              className:
+                "border-dashed border-2 rounded-xl cursor-pointer bg-gray-50 py-3 mt-1 flex justify-center items-center flex-col",
+            })}
+          >
+            <input {...getInputProps()} />
+            {uploading ? (
+              <Loader2 className="w-7 h-7 text-blue-500 animate-spin" />
+            ) : (
+              <Inbox className="w-7 h-7 text-blue-500" />
+            )}
+            <p className="mt-1 text-sm text-slate-400">
+              {uploading
+                ? "Reading documents..."
+                : "Drop PDF, DOCX, Markdown or text files here"}
+            </p>
+          </div>
+          <div className="flex flex-row items-center mt-2">
+            <input
+              type="url"
+              className="border-b-2 focus:outline-none border-gray-300 px-2 py-0.5 text-sm flex-1"
+              placeholder="Or add a link, e.g. https://example.com/careers/job"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              className="h-7 ml-2 text-xs"
+              disabled={uploading || !url.trim()}
+              onClick={onAddUrl}
+            >
+              Add Link
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DocumentUpload;
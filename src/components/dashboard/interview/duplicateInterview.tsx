@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useRouter } from "next/navigation";
+import { useOrganization } from "@clerk/nextjs";
+import { toast } from "sonner";
+import { Interview } from "@/types/interview";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useInterviews } from "@/contexts/interviews.context";
+
+type DuplicateInterviewProps = {
+  open: boolean;
+  interview: Interview | undefined;
+  onClose: () => void;
+};
+
+function DuplicateInterview({
+  open,
+  interview,
+  onClose,
+}: DuplicateInterviewProps) {
+  const router = useRouter();
+  const { organization } = useOrganization();
+  const { fetchInterviews } = useInterviews();
+  const [name, setName] = useState("");
+  const [regenerateQuestions, setRegenerateQuestions] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(`Copy of ${interview?.name ?? ""}`);
+      setRegenerateQuestions(false);
+    }
+  }, [open, interview?.name]);
+
+  const onDuplicate = async () => {
+    setIsDuplicating(true);
+    try {
+      const response = await axios.post("/api/duplicate-interview", {
+        interviewId: interview?.id,
+        name: name.trim(),
+        regenerateQuestions,
+        organizationName: organization?.name,
+      });
+      fetchInterviews();
+      toast.success("Interview duplicated.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+      onClose();
+      router.push(`/interviews/${response.data.id}`);
+    } catch (error) {
+      console.error("Error duplicating interview:", error);
+      toast.error("Failed to duplicate the interview.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  return (
+    <div className="w-[28rem] p-2">
+      <h3 className="text-lg font-semibold mb-1 text-center">
+        Duplicate Interview
+      </h3>
+      <p className="text-xs text-gray-500 mb-4 text-center">
+        Copies the questions, rubric, documents, interviewer, branding and agent
+        prompt. Responses and invitations are not copied.
+      </p>
+      <div className="flex flex-row items-center">
+        <span className="text-sm font-medium">Name:</span>
+        <input
+          type="text"
+          className="border-b-2 focus:outline-none border-gray-500 px-2 py-0.5 ml-3 flex-1"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <label className="flex flex-row items-center text-sm font-medium mt-4">
+        Generate new questions
+        <Switch
+          checked={regenerateQuestions}
+          className={`ms-3 ${
+            regenerateQuestions ? "bg-indigo-600" : "bg-[#E6E7EB]"
+          }`}
+          onCheckedChange={setRegenerateQuestions}
+        />
+      </label>
+      <div className="flex justify-end mt-6">
+        <Button
+          className="bg-indigo-600 hover:bg-indigo-800"
+          disabled={isDuplicating || !name.trim()}
+          onClick={onDuplicate}
+        >
+          {isDuplicating ? "Duplicating..." : "Duplicate"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicateInterview;
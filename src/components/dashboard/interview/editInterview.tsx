@@ -1,21 +1,31 @@
 "use client";
 
-import { Interview, Question } from "@/types/interview";
+import {
+  Interview,
+  InterviewDocument,
+  Question,
+  RubricCompetency,
+} from "@/types/interview";
 import React, { useEffect, useRef, useState } from "react";
+import axios from "axios";
 import { v4 as uuidv4 } from "uuid";
-import { Plus, SaveIcon, TrashIcon } from "lucide-react";
+import { Plus, RefreshCw, SaveIcon, TrashIcon } from "lucide-react";
 import { useInterviewers } from "@/contexts/interviewers.context";
 import QuestionCard from "@/components/dashboard/interview/create-popup/questionCard";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useInterviews } from "@/contexts/interviews.context";
+import { useClient } from "@/contexts/clients.context";
 import { InterviewService } from "@/services/interviews.service";
 import { CardTitle } from "../../ui/card";
 import Image from "next/image";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { ArrowLeft } from "lucide-react";
+import RubricEditor from "@/components/dashboard/interview/rubricEditor";
+import DocumentUpload from "@/components/dashboard/interview/documentUpload";
+import { cleanRubric } from "@/lib/rubric";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -35,6 +45,7 @@ type EditInterviewProps = {
 function EditInterview({ interview }: EditInterviewProps) {
   const { interviewers } = useInterviewers();
   const { fetchInterviews } = useInterviews();
+  const { can } = useClient();
 
   const [description, setDescription] = useState<string>(
     interview?.description || "",
@@ -57,6 +68,19 @@ function EditInterview({ interview }: EditInterviewProps) {
   const [isAnonymous, setIsAnonymous] = useState<boolean>(
     interview?.is_anonymous || false,
   );
+  const [sendDigest, setSendDigest] = useState<boolean>(
+    interview?.send_digest || false,
+  );
+  const [acceptsResume, setAcceptsResume] = useState<boolean>(
+    interview?.accepts_resume || false,
+  );
+  const [rubric, setRubric] = useState<RubricCompetency[]>(
+    interview?.rubric || [],
+  );
+  const [documents, setDocuments] = useState<InterviewDocument[]>(
+    interview?.documents || [],
+  );
+  const [isRegenerating, setIsRegenerating] = useState(false);
 
   const [isClicked, setIsClicked] = useState(false);
 
@@ -79,6 +103,7 @@ function EditInterview({ interview }: EditInterviewProps) {
           ...question,
           question: "",
           follow_up_count: 1,
+          bank_question_id: null,
         })),
       );
 
@@ -109,16 +134,20 @@ function EditInterview({ interview }: EditInterviewProps) {
       time_duration: Number(duration),
       description: description,
       is_anonymous: isAnonymous,
+      send_digest: sendDigest,
+      accepts_resume: acceptsResume,
+      rubric: cleanRubric(rubric),
+      documents: documents,
     };
 
     try {
       if (!interview) {
         return;
       }
-      const response = await InterviewService.updateInterview(
+      await axios.put("/api/update-interview", {
+        interviewId: interview.id,
         interviewData,
-        interview?.id,
-      );
+      });
       setIsClicked(false);
       fetchInterviews();
       toast.success("Interview updated successfully.", {
@@ -127,7 +156,45 @@ function EditInterview({ interview }: EditInterviewProps) {
       });
       router.push(`/interviews/${interview?.id}`);
     } catch (error) {
-      console.error("Error creating interview:", error);
+      console.error("Error updating interview:", error);
+      setIsClicked(false);
+      toast.error("Failed to update the interview.", {
+        description: axios.isAxiosError(error)
+          ? error.response?.data?.error
+          : undefined,
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  // Replaces the questions with a fresh set generated from the objective and
+  // documents. Nothing is stored until the interview is saved.
+  const onRegenerateQuestions = async () => {
+    setIsRegenerating(true);
+    try {
+      const response = await axios.post("/api/generate-interview-questions", {
+        name: interview?.name,
+        objective: objective.trim(),
+        number: numQuestions,
+        documents,
+      });
+      const generated = JSON.parse(response.data.response);
+      setQuestions(
+        generated.questions.map((question: Question) => ({
+          id: uuidv4(),
+          question: question.question.trim(),
+          follow_up_count: 1,
+        })),
+      );
+    } catch (error) {
+      console.error("Error regenerating questions:", error);
+      toast.error("Failed to generate new questions.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsRegenerating(false);
     }
   };
 
@@ -187,36 +254,38 @@ function EditInterview({ interview }: EditInterviewProps) {
             >
               Save <SaveIcon size={16} className="ml-2" />
             </Button>
-            <AlertDialog>
-              <AlertDialogTrigger>
-                <Button
-                  disabled={isClicked}
-                  className="bg-red-500 hover:bg-red-600 mr-5 mt-2 p-2"
-                >
-                  <TrashIcon size={16} className="" />
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete
-                    this interview.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction
-                    className="bg-indigo-600 hover:bg-indigo-800"
-                    onClick={async () => {
-                      await onDeleteInterviewClick();
-                    }}
+            {can("interview:delete") && (
+              <AlertDialog>
+                <AlertDialogTrigger>
+                  <Button
+                    disabled={isClicked}
+                    className="bg-red-500 hover:bg-red-600 mr-5 mt-2 p-2"
                   >
-                    Continue
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+                    <TrashIcon size={16} className="" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This action cannot be undone. This will permanently delete
+                      this interview.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      className="bg-indigo-600 hover:bg-indigo-800"
+                      onClick={async () => {
+                        await onDeleteInterviewClick();
+                      }}
+                    >
+                      Continue
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
           </div>
         </div>
         <textarea
@@ -240,6 +309,15 @@ function EditInterview({ interview }: EditInterviewProps) {
           onChange={(e) => setObjective(e.target.value)}
           onBlur={(e) => setObjective(e.target.value.trim())}
         />
+        <p className="mt-3 mb-1 ml-2 font-medium">
+          Documents{" "}
+          <span className="text-xs ml-2 font-normal">
+            (Context used when generating questions.)
+          </span>
+        </p>
+        <div className="ml-2 mt-2 w-[75%]">
+          <DocumentUpload documents={documents} setDocuments={setDocuments} />
+        </div>
         <div className="flex flex-row gap-3">
           <div>
             <p className="mt-3 mb-1 ml-2 font-medium">Interviewer</p>
@@ -301,6 +379,41 @@ function EditInterview({ interview }: EditInterviewProps) {
             be collected.
           </span>
         </label>
+        <label className="flex-col mt-2 ml-2 w-full">
+          <div className="flex items-center cursor-pointer">
+            <span className="text-sm font-medium">
+              Email me a digest of new responses?
+            </span>
+            <Switch
+              checked={sendDigest}
+              className={`ml-4 mt-1 border-2 border-gray-300 ${
+                sendDigest ? "bg-indigo-600" : "bg-white"
+              }`}
+              onCheckedChange={(checked) => setSendDigest(checked)}
+            />
+          </div>
+        </label>
+        <label className="flex-col mt-2 ml-2 w-full">
+          <div className="flex items-center cursor-pointer">
+            <span className="text-sm font-medium">
+              Let candidates share their resume?
+            </span>
+            <Switch
+              checked={acceptsResume}
+              className={`ml-4 mt-1 border-2 border-gray-300 ${
+                acceptsResume ? "bg-indigo-600" : "bg-white"
+              }`}
+              onCheckedChange={(checked) => setAcceptsResume(checked)}
+            />
+          </div>
+          <span
+            style={{ fontSize: "0.7rem", lineHeight: "0.66rem" }}
+            className="font-light text-xs italic w-full text-left block"
+          >
+            Note: A couple of questions about the resume are added to the
+            interview and the analysis checks the answers against it.
+          </span>
+        </label>
         <div className="flex flex-row justify-between w-[75%] gap-3 ml-2">
           <div className="flex flex-row justify-center items-center mt-5 ">
             <h3 className="font-medium ">No. of Questions:</h3>
@@ -349,7 +462,21 @@ function EditInterview({ interview }: EditInterviewProps) {
             />
           </div>
         </div>
-        <p className="mt-3 mb-1 ml-2 font-medium">Questions</p>
+        <div className="flex flex-row justify-between items-center w-[75%] mt-3 mb-1 ml-2">
+          <p className="font-medium">Questions</p>
+          <Button
+            variant="outline"
+            className="h-8 text-xs"
+            disabled={isRegenerating || !objective.trim()}
+            onClick={onRegenerateQuestions}
+          >
+            <RefreshCw
+              size={14}
+              className={`mr-2 ${isRegenerating ? "animate-spin" : ""}`}
+            />
+            {isRegenerating ? "Generating..." : "Regenerate Questions"}
+          </Button>
+        </div>
         <ScrollArea className="flex ml-2 p-2 pr-4 mb-4 flex-col justify-center items-center w-[75%] max-h-[500px] bg-slate-100 rounded-md text-sm mt-3">
           {questions.map((question, index) => (
             <QuestionCard
@@ -376,6 +503,15 @@ function EditInterview({ interview }: EditInterviewProps) {
             <></>
           )}
         </ScrollArea>
+        <p className="mt-3 mb-1 ml-2 font-medium">
+          Scoring Rubric{" "}
+          <span className="text-xs ml-2 font-normal">
+            (Applies to responses analysed after saving.)
+          </span>
+        </p>
+        <div className="ml-2 p-2 mb-4 w-[75%] bg-slate-100 rounded-md">
+          <RubricEditor rubric={rubric} setRubric={setRubric} />
+        </div>
       </div>
     </div>
   );
@@ -5,9 +5,8 @@ import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Copy, ArrowUpRight } from "lucide-react";
 import { CopyCheck } from "lucide-react";
-import { ResponseService } from "@/services/responses.service";
+import { Response } from "@/types/response";
 import axios from "axios";
-import MiniLoader from "@/components/loaders/mini-loader/miniLoader";
 import { InterviewerService } from "@/services/interviewers.service";
 
 interface Props {
@@ -23,7 +22,6 @@ const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
 function InterviewCard({ name, interviewerId, id, url, readableSlug }: Props) {
   const [copied, setCopied] = useState(false);
   const [responseCount, setResponseCount] = useState<number | null>(null);
-  const [isFetching, setIsFetching] = useState(false);
   const [img, setImg] = useState("");
 
   useEffect(() => {
@@ -39,30 +37,23 @@ function InterviewCard({ name, interviewerId, id, url, readableSlug }: Props) {
   useEffect(() => {
     const fetchResponses = async () => {
       try {
-        const responses = await ResponseService.getAllResponses(id);
+        const { data } = await axios.get(`/api/responses?interviewId=${id}`);
+        const responses: Response[] = data.responses;
         setResponseCount(responses.length);
-        if (responses.length > 0) {
-          setIsFetching(true);
-          for (const response of responses) {
-            if (!response.is_analysed) {
-              try {
-                const result = await axios.post("/api/get-call", {
-                  id: response.call_id,
-                });
-
-                if (result.status !== 200) {
-                  throw new Error(`HTTP error! status: ${result.status}`);
-                }
-              } catch (error) {
+        // Analysis runs in the background queue; this only makes sure
+        // responses that ended before the queue existed get a job
+        responses
+          .filter((response) => !response.is_analysed)
+          .forEach((response) => {
+            axios
+              .post("/api/analysis-jobs", { call_id: response.call_id })
+              .catch((error) => {
                 console.error(
-                  `Failed to call api/get-call for response id ${response.call_id}:`,
+                  `Failed to queue analysis for response id ${response.call_id}:`,
                   error,
                 );
-              }
-            }
-          }
-          setIsFetching(false);
-        }
+              });
+          });
       } catch (error) {
         console.error(error);
       }
@@ -107,23 +98,12 @@ function InterviewCard({ name, interviewerId, id, url, readableSlug }: Props) {
   };
 
   return (
-    <a
-      href={`/interviews/${id}`}
-      style={{
-        pointerEvents: isFetching ? "none" : "auto",
-        cursor: isFetching ? "default" : "pointer",
-      }}
-    >
+    <a href={`/interviews/${id}`}>
       <Card className="relative p-0 mt-4 inline-block cursor-pointer h-60 w-56 ml-1 mr-3 rounded-xl shrink-0 overflow-hidden shadow-md">
-        <CardContent className={`p-0 ${isFetching ? "opacity-60" : ""}`}>
+        <CardContent className="p-0">
           <div className="w-full h-40 overflow-hidden bg-indigo-600 flex items-center text-center">
             <CardTitle className="w-full mt-3 mx-2 text-white text-lg">
               {name}
-              {isFetching && (
-                <div className="z-100 mt-[-5px]">
-                  <MiniLoader />
-                </div>
-              )}
             </CardTitle>
           </div>
           <div className="flex flex-row items-center mx-4 ">
@@ -0,0 +1,272 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "sonner";
+import { Interview } from "@/types/interview";
+import {
+  InterviewTone,
+  PromptSettings,
+  PromptVersion,
+} from "@/types/interview-prompt";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  INTERVIEW_TONES,
+  MAX_FORBIDDEN_TOPICS,
+  MAX_SCRIPT_LENGTH,
+  normalizePromptSettings,
+  renderInterviewPrompt,
+} from "@/lib/interview-prompt";
+import { formatTimestampToDateHHMM } from "@/lib/utils";
+
+type InterviewPromptProps = {
+  interview: Interview | undefined;
+};
+
+const toFormSettings = (version: PromptVersion): PromptSettings => ({
+  tone: version.tone,
+  opening_script: version.opening_script,
+  closing_script: version.closing_script,
+  forbidden_topics: version.forbidden_topics || [],
+});
+
+function InterviewPrompt({ interview }: InterviewPromptProps) {
+  const router = useRouter();
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [settings, setSettings] = useState<PromptSettings>(
+    DEFAULT_PROMPT_SETTINGS,
+  );
+  const [forbiddenTopics, setForbiddenTopics] = useState("");
+  const [viewedVersion, setViewedVersion] = useState<PromptVersion | null>(
+    null,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const normalizedSettings = normalizePromptSettings({
+    ...settings,
+    forbidden_topics: forbiddenTopics.split("\n"),
+  });
+  const preview = viewedVersion
+    ? viewedVersion.prompt
+    : interview
+      ? renderInterviewPrompt(interview, normalizedSettings)
+      : "";
+
+  const loadSettings = (next: PromptSettings) => {
+    setSettings(next);
+    setForbiddenTopics(next.forbidden_topics.join("\n"));
+  };
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const response = await axios.get(
+          `/api/interview-prompt?interviewId=${interview?.id}`,
+        );
+        const fetched: PromptVersion[] = response.data.versions;
+        setVersions(fetched);
+        if (fetched.length > 0) {
+          loadSettings(toFormSettings(fetched[0]));
+        }
+      } catch (error) {
+        console.error("Error fetching prompt versions:", error);
+      }
+    };
+
+    if (interview?.id) {
+      fetchVersions();
+    }
+  }, [interview?.id]);
+
+  const onSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post("/api/interview-prompt", {
+        interviewId: interview?.id,
+        settings: normalizedSettings,
+      });
+      const saved: PromptVersion = response.data.version;
+      setVersions([
+        saved,
+        ...versions.filter((version) => version.id !== saved.id),
+      ]);
+      setViewedVersion(null);
+      toast.success(`Prompt saved as version ${saved.version}.`, {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error saving prompt:", error);
+      toast.error("Failed to save the prompt.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="h-screen z-[10] mx-2 mb-[100px] overflow-y-scroll">
+      <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5">
+        <div
+          className="inline-flex items-center text-indigo-600 hover:cursor-pointer pb-4"
+          onClick={() => {
+            router.push(`/interviews/${interview?.id}`);
+          }}
+        >
+          <ArrowLeft className="mr-2" />
+          <p className="text-sm font-semibold">Back to Summary</p>
+        </div>
+        <div className="flex flex-row gap-4">
+          <div className="w-1/2 p-4 rounded-2xl bg-slate-50">
+            <p className="font-semibold mb-1">Agent Prompt</p>
+            <p className="text-xs text-gray-500 mb-3">
+              Calls use the latest saved version. Changes to the questions are
+              picked up automatically and saved as a new version when the next
+              call starts.
+            </p>
+            <p className="text-sm font-medium mb-1">Tone</p>
+            <Select
+              value={settings.tone}
+              onValueChange={(tone) =>
+                setSettings({ ...settings, tone: tone as InterviewTone })
+              }
+            >
+              <SelectTrigger className="w-[180px] bg-white h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(INTERVIEW_TONES).map(([tone, { label }]) => (
+                  <SelectItem key={tone} value={tone}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm font-medium mt-3 mb-1">Opening script</p>
+            <Textarea
+              value={settings.opening_script}
+              maxLength={MAX_SCRIPT_LENGTH}
+              className="h-20 bg-white text-sm"
+              placeholder="e.g. Welcome! Thanks for taking the time to talk to us about the role..."
+              onChange={(e) =>
+                setSettings({ ...settings, opening_script: e.target.value })
+              }
+            />
+            <p className="text-sm font-medium mt-3 mb-1">Closing script</p>
+            <Textarea
+              value={settings.closing_script}
+              maxLength={MAX_SCRIPT_LENGTH}
+              className="h-20 bg-white text-sm"
+              placeholder="e.g. Thanks for your time. We will get back to you within a week."
+              onChange={(e) =>
+                setSettings({ ...settings, closing_script: e.target.value })
+              }
+            />
+            <p className="text-sm font-medium mt-3 mb-1">Forbidden topics</p>
+            <p className="text-xs text-gray-500 mb-1">
+              One per line, up to {MAX_FORBIDDEN_TOPICS}. The interviewer will
+              not discuss them.
+            </p>
+            <Textarea
+              value={forbiddenTopics}
+              className="h-20 bg-white text-sm"
+              placeholder={"Salary expectations\nCompetitors"}
+              onChange={(e) => setForbiddenTopics(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-3">
+              Follow-up depth is set per question when editing the interview.
+            </p>
+            <div className="flex flex-row justify-end mt-3">
+              <Button
+                className="bg-indigo-600 hover:bg-indigo-800 h-8"
+                disabled={isSaving || !interview}
+                onClick={onSave}
+              >
+                {isSaving ? "Saving..." : "Save New Version"}
+              </Button>
+            </div>
+          </div>
+          <div className="w-1/2 flex flex-col gap-4">
+            <div className="p-4 rounded-2xl bg-slate-50">
+              <div className="flex flex-row justify-between items-center mb-2">
+                <p className="font-semibold">
+                  {viewedVersion
+                    ? `Version ${viewedVersion.version}`
+                    : "Preview"}
+                </p>
+                {viewedVersion && (
+                  <Button
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => setViewedVersion(null)}
+                  >
+                    Back to Preview
+                  </Button>
+                )}
+              </div>
+              <pre className="text-xs whitespace-pre-wrap font-sans max-h-[420px] overflow-y-auto">
+                {preview}
+              </pre>
+            </div>
+            <div className="p-4 rounded-2xl bg-slate-50">
+              <p className="font-semibold mb-2">Versions</p>
+              {versions.length > 0 ? (
+                versions.map((version) => (
+                  <div
+                    key={version.id}
+                    className="flex flex-row justify-between items-center py-1 text-sm border-b last:border-b-0"
+                  >
+                    <span>
+                      <span className="font-medium">v{version.version}</span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {formatTimestampToDateHHMM(version.created_at)} ·{" "}
+                        {INTERVIEW_TONES[version.tone]?.label}
+                      </span>
+                    </span>
+                    <span className="flex flex-row gap-3 text-xs text-indigo-600">
+                      <span
+                        className="cursor-pointer"
+                        onClick={() => setViewedVersion(version)}
+                      >
+                        View
+                      </span>
+                      <span
+                        className="cursor-pointer"
+                        onClick={() => {
+                          loadSettings(toFormSettings(version));
+                          setViewedVersion(null);
+                        }}
+                      >
+                        Restore
+                      </span>
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-gray-500">
+                  No versions yet. The default prompt will be saved as version 1
+                  on the first call.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default InterviewPrompt;
@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import axios from "axios";
+import { Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  InterviewSchedule as Schedule,
+  MAX_AVAILABILITY_WINDOWS,
+  WEEKDAYS,
+  normalizeInterviewSchedule,
+} from "@/lib/interview-schedule";
+import { AvailabilityWindow, Interview } from "@/types/interview";
+
+type InterviewScheduleProps = {
+  open: boolean;
+  interview: Interview | undefined;
+  onClose: () => void;
+  onSaved: (schedule: Schedule) => void;
+};
+
+const DEFAULT_WINDOW: AvailabilityWindow = {
+  days: [1, 2, 3, 4, 5],
+  start: "09:00",
+  end: "17:00",
+};
+
+// datetime-local inputs work in the browser's timezone without an offset
+const toLocalInput = (date: string | null) => {
+  if (!date) {
+    return "";
+  }
+  const value = new Date(date);
+  value.setMinutes(value.getMinutes() - value.getTimezoneOffset());
+
+  return value.toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+function InterviewSchedule({
+  open,
+  interview,
+  onClose,
+  onSaved,
+}: InterviewScheduleProps) {
+  const browserTimezone = useMemo(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    [],
+  );
+  const timezones = useMemo(() => Intl.supportedValuesOf("timeZone"), []);
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [maxResponses, setMaxResponses] = useState("");
+  const [timezone, setTimezone] = useState(browserTimezone);
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && interview) {
+      setOpensAt(toLocalInput(interview.opens_at));
+      setClosesAt(toLocalInput(interview.closes_at));
+      setMaxResponses(interview.max_responses?.toString() ?? "");
+      setTimezone(interview.availability?.timezone || browserTimezone);
+      setWindows(interview.availability?.windows || []);
+    }
+  }, [open, interview, browserTimezone]);
+
+  const updateWindow = (index: number, update: Partial<AvailabilityWindow>) =>
+    setWindows(
+      windows.map((window, i) =>
+        i === index ? { ...window, ...update } : window,
+      ),
+    );
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, {
+      days: days.includes(day)
+        ? days.filter((item) => item !== day)
+        : [...days, day],
+    });
+  };
+
+  const onSave = async () => {
+    if (!interview) {
+      return;
+    }
+    const result = normalizeInterviewSchedule({
+      opens_at: fromLocalInput(opensAt),
+      closes_at: fromLocalInput(closesAt),
+      max_responses: maxResponses ? Number(maxResponses) : null,
+      availability: { timezone, windows },
+    });
+    if ("error" in result) {
+      toast.error(result.error, {
+        position: "bottom-right",
+        duration: 3000,
+      });
+
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await axios.put("/api/update-interview", {
+        interviewId: interview.id,
+        interviewData: result.schedule,
+      });
+      onSaved(result.schedule);
+      toast.success("Schedule updated", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error saving schedule:", error);
+      toast.error("Failed to save the schedule.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-[32rem] p-2">
+      <h3 className="text-lg font-semibold mb-1 text-center">Schedule</h3>
+      <p className="text-xs text-gray-500 mb-4 text-center">
+        The interview turns itself off once the close date passes or the
+        response limit is reached. Leave a field empty for no limit.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col text-sm font-medium">
+          Opens
+          <input
+            type="datetime-local"
+            className="border-b-2 focus:outline-none border-gray-500 px-1 py-0.5 font-normal"
+            value={opensAt}
+            onChange={(e) => setOpensAt(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col text-sm font-medium">
+          Closes
+          <input
+            type="datetime-local"
+            className="border-b-2 focus:outline-none border-gray-500 px-1 py-0.5 font-normal"
+            value={closesAt}
+            onChange={(e) => setClosesAt(e.target.value)}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-400 mt-1">
+        Dates are in your timezone ({browserTimezone}).
+      </p>
+      <label className="flex flex-row items-center text-sm font-medium mt-4">
+        Maximum responses:
+        <input
+          type="number"
+          min={1}
+          className="border-b-2 focus:outline-none border-gray-500 px-2 py-0.5 ml-3 w-24 font-normal"
+          placeholder="No limit"
+          value={maxResponses}
+          onChange={(e) => setMaxResponses(e.target.value)}
+        />
+      </label>
+      <div className="mt-4">
+        <div className="flex flex-row items-center justify-between">
+          <span className="text-sm font-medium">Availability windows</span>
+          {windows.length > 0 && (
+            <input
+              list="interview-schedule-timezones"
+              className="border-b-2 focus:outline-none border-gray-500 px-2 py-0.5 text-sm w-48"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+          )}
+          <datalist id="interview-schedule-timezones">
+            {timezones.map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+        </div>
+        {windows.length === 0 && (
+          <p className="text-xs text-gray-400 mt-1">
+            Candidates can start the interview at any time.
+          </p>
+        )}
+        {windows.map((window, index) => (
+          <div
+            // eslint-disable-next-line react/no-array-index-key
+            key={index}
+            className="flex flex-row items-center gap-2 mt-2"
+          >
+            <div className="flex flex-row gap-0.5">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  className={`text-xs w-8 py-1 rounded ${
+                    window.days.includes(day)
+                      ? "bg-indigo-600 text-white"
+                      : "bg-gray-100 text-gray-600"
+                  }`}
+                  onClick={() => toggleDay(index, day)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <input
+              type="time"
+              className="border-b-2 focus:outline-none border-gray-500 text-sm"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+            />
+            <span className="text-xs">to</span>
+            <input
+              type="time"
+              className="border-b-2 focus:outline-none border-gray-500 text-sm"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+            />
+            <X
+              className="w-4 h-4 cursor-pointer text-slate-400 hover:text-red-500 shrink-0"
+              onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+            />
+          </div>
+        ))}
+        {windows.length < MAX_AVAILABILITY_WINDOWS && (
+          <Button
+            variant="outline"
+            className="h-7 mt-2 text-xs"
+            onClick={() => setWindows([...windows, DEFAULT_WINDOW])}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add Window
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-row justify-end gap-2 mt-6">
+        <Button variant="outline" disabled={isSaving} onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          className="bg-indigo-600 hover:bg-indigo-800"
+          disabled={isSaving}
+          onClick={onSave}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default InterviewSchedule;
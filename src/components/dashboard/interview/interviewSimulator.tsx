@@ -0,0 +1,365 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import axios from "axios";
+import { useRouter } from "next/navigation";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  RotateCcw,
+  Send,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Interview } from "@/types/interview";
+import { InterviewSimulation, SimulationMessage } from "@/types/simulation";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { formatTimestampToDateHHMM } from "@/lib/utils";
+
+type InterviewSimulatorProps = {
+  interview: Interview | undefined;
+};
+
+function InterviewSimulator({ interview }: InterviewSimulatorProps) {
+  const router = useRouter();
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const [messages, setMessages] = useState<SimulationMessage[]>([]);
+  const [coveredQuestionIds, setCoveredQuestionIds] = useState<string[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isEnded, setIsEnded] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [simulations, setSimulations] = useState<InterviewSimulation[]>([]);
+  const [openSimulationId, setOpenSimulationId] = useState<number | null>(null);
+
+  const questions = (interview?.questions || []).filter(
+    (question) => question.question.trim().length > 0,
+  );
+
+  useEffect(() => {
+    const fetchSimulations = async () => {
+      try {
+        const response = await axios.get(
+          `/api/interview-simulations?interviewId=${interview?.id}`,
+        );
+        setSimulations(response.data.simulations);
+      } catch (error) {
+        console.error("Error fetching simulations:", error);
+      }
+    };
+
+    if (interview?.id) {
+      fetchSimulations();
+    }
+  }, [interview?.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const requestReply = async (conversation: SimulationMessage[]) => {
+    setIsReplying(true);
+    try {
+      const response = await axios.post("/api/simulate-interview", {
+        interviewId: interview?.id,
+        messages: conversation,
+      });
+      setMessages([
+        ...conversation,
+        { role: "agent", content: response.data.reply },
+      ]);
+      setCoveredQuestionIds(response.data.coveredQuestionIds);
+      setIsEnded(response.data.ended);
+    } catch (error) {
+      console.error("Error simulating interview:", error);
+      toast.error("The interviewer did not respond. Please try again.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsReplying(false);
+    }
+  };
+
+  const onSend = () => {
+    const content = draft.trim();
+    if (!content) {
+      return;
+    }
+    const conversation: SimulationMessage[] = [
+      ...messages,
+      { role: "user", content },
+    ];
+    setMessages(conversation);
+    setDraft("");
+    requestReply(conversation);
+  };
+
+  const onRestart = () => {
+    setMessages([]);
+    setCoveredQuestionIds([]);
+    setIsEnded(false);
+    setDraft("");
+  };
+
+  const onSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post("/api/interview-simulations", {
+        interviewId: interview?.id,
+        messages,
+      });
+      const saved: InterviewSimulation = response.data.simulation;
+      setSimulations([saved, ...simulations]);
+      setOpenSimulationId(saved.id);
+      toast.success(
+        saved.analytics
+          ? "Sample transcript saved and scored."
+          : "Sample transcript saved, but scoring failed.",
+        {
+          position: "bottom-right",
+          duration: 3000,
+        },
+      );
+    } catch (error) {
+      console.error("Error saving simulation:", error);
+      toast.error("Failed to save the sample transcript.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onDelete = async (id: number) => {
+    try {
+      await axios.delete(`/api/interview-simulations?id=${id}`);
+      setSimulations(simulations.filter((simulation) => simulation.id !== id));
+    } catch (error) {
+      console.error("Error deleting simulation:", error);
+      toast.error("Failed to delete the sample transcript.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <div className="h-screen z-[10] mx-2 mb-[100px] overflow-y-scroll">
+      <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5">
+        <div
+          className="inline-flex items-center text-indigo-600 hover:cursor-pointer pb-4"
+          onClick={() => {
+            router.push(`/interviews/${interview?.id}`);
+          }}
+        >
+          <ArrowLeft className="mr-2" />
+          <p className="text-sm font-semibold">Back to Summary</p>
+        </div>
+        <div className="flex flex-row gap-4">
+          <div className="w-2/3 p-4 rounded-2xl bg-slate-50 flex flex-col">
+            <div className="flex flex-row justify-between items-center mb-1">
+              <p className="font-semibold">Dry Run</p>
+              <Button
+                variant="outline"
+                className="h-7 text-xs"
+                disabled={isReplying || messages.length === 0}
+                onClick={onRestart}
+              >
+                <RotateCcw size={12} className="mr-1" />
+                Restart
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Chat with the interviewer as a candidate would. It uses the same
+              prompt and questions as the voice agent. Nothing here counts as a
+              response.
+            </p>
+            <ScrollArea className="h-[420px] bg-white rounded-xl p-3">
+              {messages.length === 0 && !isReplying && (
+                <div className="flex flex-col items-center justify-center h-[380px]">
+                  <Button
+                    className="bg-indigo-600 hover:bg-indigo-800"
+                    disabled={!interview}
+                    onClick={() => requestReply([])}
+                  >
+                    Start Dry Run
+                  </Button>
+                </div>
+              )}
+              {messages.map((message, index) => (
+                <div
+                  // eslint-disable-next-line react/no-array-index-key
+                  key={index}
+                  className={`flex mb-2 ${
+                    message.role === "user" ? "justify-end" : "justify-start"
+                  }`}
+                >
+                  <p
+                    className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap ${
+                      message.role === "user"
+                        ? "bg-indigo-600 text-white"
+                        : "bg-slate-100"
+                    }`}
+                  >
+                    {message.content}
+                  </p>
+                </div>
+              ))}
+              {isReplying && (
+                <Loader2 size={18} className="animate-spin text-gray-400" />
+              )}
+              {isEnded && (
+                <p className="text-center text-xs text-gray-500 mt-2">
+                  The interviewer ended the interview.
+                </p>
+              )}
+              <div ref={bottomRef} />
+            </ScrollArea>
+            <div className="flex flex-row gap-2 mt-3">
+              <Textarea
+                value={draft}
+                className="h-16 bg-white text-sm"
+                placeholder="Answer as the candidate..."
+                disabled={messages.length === 0 || isEnded}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    if (!isReplying) {
+                      onSend();
+                    }
+                  }
+                }}
+              />
+              <Button
+                className="bg-indigo-600 hover:bg-indigo-800 h-16"
+                disabled={isReplying || isEnded || !draft.trim()}
+                onClick={onSend}
+              >
+                <Send size={16} />
+              </Button>
+            </div>
+            <div className="flex flex-row justify-end mt-3">
+              <Button
+                variant="outline"
+                className="h-8"
+                disabled={
+                  isSaving ||
+                  isReplying ||
+                  !messages.some((message) => message.role === "user")
+                }
+                onClick={onSave}
+              >
+                {isSaving ? "Scoring..." : "Save as Sample Transcript"}
+              </Button>
+            </div>
+          </div>
+          <div className="w-1/3 flex flex-col gap-4">
+            <div className="p-4 rounded-2xl bg-slate-50">
+              <p className="font-semibold mb-2">
+                Questions Covered ({coveredQuestionIds.length}/
+                {questions.length})
+              </p>
+              {questions.map((question, index) => (
+                <div
+                  key={question.id}
+                  className="flex flex-row items-start gap-2 mb-2 text-sm"
+                >
+                  {coveredQuestionIds.includes(question.id) ? (
+                    <CheckCircle2
+                      size={16}
+                      className="text-green-600 shrink-0 mt-0.5"
+                    />
+                  ) : (
+                    <Circle
+                      size={16}
+                      className="text-gray-400 shrink-0 mt-0.5"
+                    />
+                  )}
+                  <span>
+                    {index + 1}. {question.question}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="p-4 rounded-2xl bg-slate-50">
+              <p className="font-semibold mb-2">Sample Transcripts</p>
+              {simulations.length > 0 ? (
+                simulations.map((simulation) => (
+                  <div
+                    key={simulation.id}
+                    className="py-2 border-b last:border-b-0 text-sm"
+                  >
+                    <div className="flex flex-row justify-between items-center">
+                      <span
+                        className="cursor-pointer text-indigo-600"
+                        onClick={() =>
+                          setOpenSimulationId(
+                            openSimulationId === simulation.id
+                              ? null
+                              : simulation.id,
+                          )
+                        }
+                      >
+                        {formatTimestampToDateHHMM(simulation.created_at)}
+                      </span>
+                      <span className="flex flex-row items-center gap-3">
+                        <span className="text-xs text-gray-500">
+                          {simulation.analytics
+                            ? `Score ${simulation.analytics.overallScore}`
+                            : "Not scored"}
+                          {" · "}
+                          {simulation.covered_question_ids.length}/
+                          {questions.length} covered
+                        </span>
+                        <Trash2
+                          className="cursor-pointer"
+                          color="red"
+                          size={14}
+                          onClick={() => onDelete(simulation.id)}
+                        />
+                      </span>
+                    </div>
+                    {openSimulationId === simulation.id && (
+                      <div className="mt-2 text-xs">
+                        {simulation.analytics && (
+                          <>
+                            <p className="font-medium">Overall Feedback</p>
+                            <p className="mb-2">
+                              {simulation.analytics.overallFeedback}
+                            </p>
+                            <p className="font-medium">Communication</p>
+                            <p className="mb-2">
+                              {simulation.analytics.communication.score}/10 -{" "}
+                              {simulation.analytics.communication.feedback}
+                            </p>
+                          </>
+                        )}
+                        <p className="font-medium">Transcript</p>
+                        <p className="whitespace-pre-wrap max-h-48 overflow-y-auto">
+                          {simulation.transcript}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Save a dry run to check how it would be scored.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default InterviewSimulator;
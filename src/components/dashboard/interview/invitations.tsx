@@ -0,0 +1,359 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import axios from "axios";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Copy, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Interview } from "@/types/interview";
+import { Invitation, InvitationStatus } from "@/types/invitation";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { InterviewService } from "@/services/interviews.service";
+import {
+  DEFAULT_INVITATION_EXPIRY_DAYS,
+  DEFAULT_INVITATION_MAX_ATTEMPTS,
+  getInvitationLink,
+  getInvitationStatus,
+  MAX_INVITATION_ATTEMPTS,
+  MAX_INVITATION_EXPIRY_DAYS,
+  parseCandidateList,
+} from "@/lib/invitations";
+import { formatTimestampToDateHHMM } from "@/lib/utils";
+
+type InvitationsProps = {
+  interview: Interview | undefined;
+};
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  sent: "bg-slate-200 text-slate-700",
+  opened: "bg-blue-100 text-blue-700",
+  started: "bg-yellow-100 text-yellow-700",
+  completed: "bg-green-100 text-green-700",
+  expired: "bg-red-100 text-red-700",
+};
+
+function Invitations({ interview }: InvitationsProps) {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [candidateList, setCandidateList] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(
+    DEFAULT_INVITATION_EXPIRY_DAYS,
+  );
+  const [maxAttempts, setMaxAttempts] = useState(
+    DEFAULT_INVITATION_MAX_ATTEMPTS,
+  );
+  const [isInviteOnly, setIsInviteOnly] = useState(
+    interview?.is_invite_only ?? false,
+  );
+  const [sendEmail, setSendEmail] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  const { candidates, skipped } = parseCandidateList(candidateList);
+
+  useEffect(() => {
+    const fetchInvitations = async () => {
+      try {
+        const response = await axios.get(
+          `/api/invitations?interviewId=${interview?.id}`,
+        );
+        setInvitations(response.data.invitations);
+      } catch (error) {
+        console.error("Error fetching invitations:", error);
+      }
+    };
+
+    if (interview?.id) {
+      fetchInvitations();
+    }
+  }, [interview?.id]);
+
+  const onInviteOnlyChange = async (checked: boolean) => {
+    try {
+      setIsInviteOnly(checked);
+      await InterviewService.updateInterview(
+        { is_invite_only: checked },
+        interview?.id as string,
+      );
+
+      toast.success(
+        checked
+          ? "Only invited candidates can now respond."
+          : "Anyone with the interview link can now respond.",
+        {
+          position: "bottom-right",
+          duration: 3000,
+        },
+      );
+    } catch (error) {
+      console.error(error);
+      setIsInviteOnly(!checked);
+      toast.error("Failed to update the interview.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  const onFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setCandidateList(await file.text());
+    }
+    event.target.value = "";
+  };
+
+  const onSendInvitations = async () => {
+    setIsSending(true);
+    try {
+      const response = await axios.post("/api/invitations", {
+        interviewId: interview?.id,
+        candidates,
+        expiresInDays,
+        maxAttempts,
+        sendEmail,
+      });
+      const created: Invitation[] = response.data.invitations;
+      setInvitations([
+        ...created,
+        ...invitations.filter(
+          (invitation) => !created.some((item) => item.id === invitation.id),
+        ),
+      ]);
+      setCandidateList("");
+      toast.success(
+        sendEmail
+          ? `${created.length} candidates invited, ${response.data.emailed} emails sent.`
+          : `${created.length} candidates invited.`,
+        {
+          position: "bottom-right",
+          duration: 3000,
+        },
+      );
+    } catch (error) {
+      console.error("Error creating invitations:", error);
+      toast.error("Failed to invite candidates.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const onCopyLink = (invitation: Invitation) => {
+    navigator.clipboard
+      .writeText(
+        getInvitationLink(interview as Interview, invitation.token as string),
+      )
+      .then(
+        () =>
+          toast.success(`Invitation link for ${invitation.email} copied.`, {
+            position: "bottom-right",
+            duration: 3000,
+          }),
+        (err) => console.error("Failed to copy", err.message),
+      );
+  };
+
+  const onRevoke = async (invitation: Invitation) => {
+    try {
+      await axios.delete(`/api/invitations?id=${invitation.id}`);
+      setInvitations(invitations.filter((item) => item.id !== invitation.id));
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      toast.error("Failed to revoke the invitation.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <div className="h-screen z-[10] mx-2 mb-[100px] overflow-y-scroll">
+      <div className="bg-slate-200 rounded-2xl min-h-[120px] p-4 px-5">
+        <div className="flex justify-between items-center pb-4 pr-2">
+          <div
+            className="inline-flex items-center text-indigo-600 hover:cursor-pointer"
+            onClick={() => {
+              router.push(`/interviews/${interview?.id}`);
+            }}
+          >
+            <ArrowLeft className="mr-2" />
+            <p className="text-sm font-semibold">Back to Summary</p>
+          </div>
+          <label className="flex flex-row items-center text-sm">
+            Invite only
+            <Switch
+              checked={isInviteOnly}
+              className={`ms-3 ${
+                isInviteOnly ? "bg-indigo-600" : "bg-[#E6E7EB]"
+              }`}
+              onCheckedChange={onInviteOnlyChange}
+            />
+          </label>
+        </div>
+        <div className="p-4 rounded-2xl bg-slate-50">
+          <p className="font-semibold mb-1">Invite Candidates</p>
+          <p className="text-xs text-gray-500 mb-2">
+            One candidate per line as &quot;Name, email&quot;, or upload a CSV
+            with name and email columns. Each candidate gets a personal link.
+          </p>
+          <Textarea
+            value={candidateList}
+            className="h-28 bg-white text-sm"
+            placeholder={
+              "Jane Doe, jane@example.com\nJohn Smith, john@example.com"
+            }
+            onChange={(e) => setCandidateList(e.target.value)}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            className="hidden"
+            onChange={onFileChange}
+          />
+          <div className="flex flex-row flex-wrap items-center gap-4 mt-2 text-sm">
+            <Button
+              variant="outline"
+              className="h-8"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload size={14} className="mr-2" />
+              Upload CSV
+            </Button>
+            <div className="flex flex-row items-center">
+              <span className="font-medium">Expires in (days):</span>
+              <input
+                type="number"
+                min="1"
+                max={MAX_INVITATION_EXPIRY_DAYS}
+                className="border-b-2 text-center focus:outline-none border-gray-500 w-12 px-1 ml-1 bg-transparent"
+                value={expiresInDays}
+                onChange={(e) =>
+                  setExpiresInDays(
+                    Math.min(
+                      Math.max(Number(e.target.value), 1),
+                      MAX_INVITATION_EXPIRY_DAYS,
+                    ),
+                  )
+                }
+              />
+            </div>
+            <div className="flex flex-row items-center">
+              <span className="font-medium">Attempts:</span>
+              <input
+                type="number"
+                min="1"
+                max={MAX_INVITATION_ATTEMPTS}
+                className="border-b-2 text-center focus:outline-none border-gray-500 w-12 px-1 ml-1 bg-transparent"
+                value={maxAttempts}
+                onChange={(e) =>
+                  setMaxAttempts(
+                    Math.min(
+                      Math.max(Number(e.target.value), 1),
+                      MAX_INVITATION_ATTEMPTS,
+                    ),
+                  )
+                }
+              />
+            </div>
+            <label className="flex flex-row items-center font-medium">
+              Email invitations
+              <Switch
+                checked={sendEmail}
+                className={`ms-2 ${sendEmail ? "bg-indigo-600" : "bg-[#E6E7EB]"}`}
+                onCheckedChange={setSendEmail}
+              />
+            </label>
+            <Button
+              className="bg-indigo-600 hover:bg-indigo-800 h-8 ml-auto"
+              disabled={isSending || candidates.length === 0}
+              onClick={onSendInvitations}
+            >
+              {isSending
+                ? "Inviting..."
+                : `Invite ${candidates.length || ""} Candidates`}
+            </Button>
+          </div>
+          {skipped.length > 0 && (
+            <p className="text-xs text-red-500 mt-2">
+              {skipped.length} lines without a valid email will be skipped.
+            </p>
+          )}
+
+          <p className="font-semibold mt-6 mb-1">Invitations</p>
+          {invitations.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => {
+                  const status = getInvitationStatus(invitation);
+
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell>{invitation.name || "-"}</TableCell>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[status]}`}
+                        >
+                          {status}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {invitation.attempts}/{invitation.max_attempts}
+                      </TableCell>
+                      <TableCell>
+                        {formatTimestampToDateHHMM(invitation.expires_at)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-row justify-end gap-3">
+                          <Copy
+                            className="cursor-pointer text-indigo-600"
+                            size={16}
+                            onClick={() => onCopyLink(invitation)}
+                          />
+                          <Trash2
+                            className="cursor-pointer"
+                            color="red"
+                            size={16}
+                            onClick={() => onRevoke(invitation)}
+                          />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-500">No candidates invited yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Invitations;
@@ -1,15 +1,25 @@
+import { PlayCircle } from "lucide-react";
 import { CardTitle } from "@/components/ui/card";
+import { convertSecondstoMMSS } from "@/lib/utils";
+import { formatTimestamp } from "@/lib/transcript";
+import { QuestionSegment } from "@/types/response";
 
 interface QuestionCardProps {
   questionNumber: number;
   question: string;
   answer: string;
+  score?: number;
+  segment?: QuestionSegment;
+  onSeek?: (seconds: number) => void;
 }
 
 function QuestionAnswerCard({
   questionNumber,
   question,
   answer,
+  score,
+  segment,
+  onSeek,
 }: QuestionCardProps) {
   return (
     <>
@@ -18,10 +28,43 @@ function QuestionAnswerCard({
           <CardTitle className="text-lg min-w-[42px] bg-indigo-200 rounded-full p-1 mx-3">
             <p className="my-auto text-center">{questionNumber}</p>
           </CardTitle>
-          <div className="flex flex-col p-1">
+          <div className="flex flex-col p-1 flex-1">
             <p className="font-medium">{question}</p>
             <p>{answer}</p>
+            {segment && (
+              <div className="flex flex-row flex-wrap items-center gap-x-3 text-xs text-gray-500 leading-5 mt-1">
+                {onSeek ? (
+                  <button
+                    type="button"
+                    className="flex flex-row items-center gap-1 font-semibold text-indigo-600 hover:underline"
+                    onClick={() => onSeek(segment.start)}
+                  >
+                    <PlayCircle size={14} />
+                    {formatTimestamp(segment.start)}
+                  </button>
+                ) : (
+                  <span>{formatTimestamp(segment.start)}</span>
+                )}
+                <span>
+                  {convertSecondstoMMSS(segment.end - segment.start)} in total
+                </span>
+                <span>
+                  Candidate {convertSecondstoMMSS(segment.candidateTalkTime)},
+                  interviewer {convertSecondstoMMSS(segment.agentTalkTime)}
+                </span>
+                {segment.answerLatency !== null && (
+                  <span>
+                    Answered after {segment.answerLatency.toFixed(1)}s
+                  </span>
+                )}
+              </div>
+            )}
           </div>
+          {score !== undefined && (
+            <p className="text-xs font-semibold text-indigo-600 mx-3 whitespace-nowrap">
+              {score}/10
+            </p>
+          )}
         </div>
       </div>
     </>
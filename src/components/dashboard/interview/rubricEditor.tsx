@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { RubricCompetency } from "@/types/interview";
+import {
+  createEmptyCompetency,
+  DEFAULT_LEVEL_DESCRIPTORS,
+  MAX_COMPETENCIES,
+  MAX_COMPETENCY_WEIGHT,
+  MUST_HAVE_MIN_LEVEL,
+} from "@/lib/rubric";
+
+interface Props {
+  rubric: RubricCompetency[];
+  setRubric: (rubric: RubricCompetency[]) => void;
+}
+
+function RubricEditor({ rubric, setRubric }: Props) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const totalWeight = rubric.reduce(
+    (sum, competency) => sum + competency.weight,
+    0,
+  );
+
+  const updateCompetency = (id: string, changes: Partial<RubricCompetency>) => {
+    setRubric(
+      rubric.map((competency) =>
+        competency.id === id ? { ...competency, ...changes } : competency,
+      ),
+    );
+  };
+
+  const updateLevel = (
+    competency: RubricCompetency,
+    level: number,
+    descriptor: string,
+  ) => {
+    const levels = [...competency.levels];
+    levels[level] = descriptor;
+    updateCompetency(competency.id, { levels });
+  };
+
+  return (
+    <div className="flex flex-col w-full gap-2">
+      {rubric.map((competency) => (
+        <div
+          key={competency.id}
+          className="flex flex-col gap-1 p-2 rounded-md border-2 border-gray-300 bg-white text-left"
+        >
+          <div className="flex flex-row items-center gap-3">
+            <input
+              type="text"
+              className="border-b-2 focus:outline-none border-gray-500 px-2 py-0.5 flex-grow text-sm"
+              placeholder="e.g. System design"
+              value={competency.name}
+              onChange={(e) =>
+                updateCompetency(competency.id, { name: e.target.value })
+              }
+            />
+            <div className="flex flex-row items-center text-xs">
+              <span className="font-medium">Weight:</span>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                max={MAX_COMPETENCY_WEIGHT}
+                className="border-b-2 text-center focus:outline-none border-gray-500 w-10 px-1 py-0.5 ml-1"
+                value={competency.weight}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isInteger(value) && value > 0) {
+                    updateCompetency(competency.id, {
+                      weight: Math.min(value, MAX_COMPETENCY_WEIGHT),
+                    });
+                  }
+                }}
+              />
+              <span className="ml-1 w-8 text-gray-500">
+                {totalWeight > 0
+                  ? `${Math.round((competency.weight / totalWeight) * 100)}%`
+                  : ""}
+              </span>
+            </div>
+            <div
+              className="flex flex-row items-center text-xs"
+              title={`Flag responses scoring below ${MUST_HAVE_MIN_LEVEL}/5 on this competency`}
+            >
+              <span className="font-medium">Must-have</span>
+              <Switch
+                checked={competency.must_have}
+                className={`ml-2 ${
+                  competency.must_have ? "bg-indigo-600" : "bg-[#E6E7EB]"
+                }`}
+                onCheckedChange={(checked) =>
+                  updateCompetency(competency.id, { must_have: checked })
+                }
+              />
+            </div>
+            <Trash2
+              className="cursor-pointer shrink-0"
+              color="red"
+              size={18}
+              onClick={() =>
+                setRubric(rubric.filter((item) => item.id !== competency.id))
+              }
+            />
+          </div>
+          <input
+            type="text"
+            className="focus:outline-none px-2 py-0.5 text-xs text-gray-600"
+            placeholder="What does this competency cover? (optional)"
+            value={competency.description}
+            onChange={(e) =>
+              updateCompetency(competency.id, { description: e.target.value })
+            }
+          />
+          <button
+            type="button"
+            className="flex flex-row items-center w-fit px-2 text-xs text-indigo-600"
+            onClick={() =>
+              setExpandedId(expandedId === competency.id ? null : competency.id)
+            }
+          >
+            Level descriptors
+            {expandedId === competency.id ? (
+              <ChevronUp size={14} className="ml-1" />
+            ) : (
+              <ChevronDown size={14} className="ml-1" />
+            )}
+          </button>
+          {expandedId === competency.id && (
+            <div className="flex flex-col gap-1 px-2">
+              {DEFAULT_LEVEL_DESCRIPTORS.map((defaultDescriptor, level) => (
+                <div
+                  key={defaultDescriptor}
+                  className="flex flex-row items-center text-xs"
+                >
+                  <span className="w-4 font-semibold">{level + 1}</span>
+                  <input
+                    type="text"
+                    className="border-b focus:outline-none border-gray-300 px-2 py-0.5 flex-grow"
+                    placeholder={defaultDescriptor}
+                    value={competency.levels[level] || ""}
+                    onChange={(e) =>
+                      updateLevel(competency, level, e.target.value)
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {rubric.length < MAX_COMPETENCIES && (
+        <button
+          type="button"
+          className="flex flex-row items-center w-fit text-sm text-indigo-600 hover:text-indigo-800"
+          onClick={() => setRubric([...rubric, createEmptyCompetency()])}
+        >
+          <Plus size={16} className="mr-1" />
+          Add competency
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default RubricEditor;
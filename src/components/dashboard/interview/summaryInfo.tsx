@@ -4,11 +4,25 @@ import { Interview } from "@/types/interview";
 import { Interviewer } from "@/types/interviewer";
 import { Response } from "@/types/response";
 import React, { useEffect, useState } from "react";
-import { UserCircleIcon, SmileIcon, Info } from "lucide-react";
+import axios from "axios";
+import { toast } from "sonner";
+import {
+  UserCircleIcon,
+  SmileIcon,
+  Info,
+  Columns,
+  Filter,
+  ArrowRightLeft,
+  Timer,
+} from "lucide-react";
 import { useInterviewers } from "@/contexts/interviewers.context";
+import { useClient } from "@/contexts/clients.context";
 import { PieChart } from "@mui/x-charts/PieChart";
-import { CandidateStatus } from "@/lib/enum";
+import { computeStageFunnel, getStage } from "@/lib/pipeline";
+import { PipelineStage, ResponseStatusChange } from "@/types/pipeline";
 import { convertSecondstoMMSS } from "@/lib/utils";
+import { computeQuestionTimings } from "@/lib/transcript";
+import { getCandidateLabel } from "@/lib/permissions";
 import Image from "next/image";
 import {
   Tooltip,
@@ -20,10 +34,25 @@ import DataTable, {
   TableData,
 } from "@/components/dashboard/interview/dataTable";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useRouter } from "next/navigation";
+import {
+  MAX_COMPARED_CANDIDATES,
+  MIN_COMPARED_CANDIDATES,
+} from "@/lib/constants";
 
 type SummaryProps = {
   responses: Response[];
   interview: Interview | undefined;
+  stages: PipelineStage[];
+  onCandidateStatusChange: (callIds: string[], newStatus: string) => void;
 };
 
 function InfoTooltip({ content }: { content: string }) {
@@ -44,8 +73,15 @@ function InfoTooltip({ content }: { content: string }) {
   );
 }
 
-function SummaryInfo({ responses, interview }: SummaryProps) {
+function SummaryInfo({
+  responses,
+  interview,
+  stages,
+  onCandidateStatusChange,
+}: SummaryProps) {
   const { interviewers } = useInterviewers();
+  const { can } = useClient();
+  const canViewPii = can("response:view_pii");
   const [interviewer, setInterviewer] = useState<Interviewer>();
   const [totalDuration, setTotalDuration] = useState<number>(0);
   const [completedInterviews, setCompletedInterviews] = useState<number>(0);
@@ -62,19 +98,31 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
 
   const totalResponses = responses.length;
 
-  const [candidateStatusCount, setCandidateStatusCount] = useState({
-    [CandidateStatus.NO_STATUS]: 0,
-    [CandidateStatus.NOT_SELECTED]: 0,
-    [CandidateStatus.POTENTIAL]: 0,
-    [CandidateStatus.SELECTED]: 0,
-  });
+  const [candidateStatusCount, setCandidateStatusCount] = useState<
+    Record<string, number>
+  >({});
+  const [statusChanges, setStatusChanges] = useState<ResponseStatusChange[]>(
+    [],
+  );
+  const [isMoving, setIsMoving] = useState(false);
 
   const [tableData, setTableData] = useState<TableData[]>([]);
+  const [selectedCallIds, setSelectedCallIds] = useState<string[]>([]);
+  const router = useRouter();
+
+  const handleSelectCall = (callId: string, selected: boolean) => {
+    setSelectedCallIds((prev) =>
+      selected ? [...prev, callId] : prev.filter((id) => id !== callId),
+    );
+  };
 
-  const prepareTableData = (responses: Response[]): TableData[] => {
+  const prepareTableData = (
+    responses: Response[],
+    canViewPii: boolean,
+  ): TableData[] => {
     return responses.map((response) => ({
       call_id: response.call_id,
-      name: response.name || "Anonymous",
+      name: getCandidateLabel(response, canViewPii),
       overallScore: response.analytics?.overallScore || 0,
       communicationScore: response.analytics?.communication?.score || 0,
       callSummary:
@@ -84,6 +132,58 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
     }));
   };
 
+  const fetchStatusChanges = async (interviewId: string) => {
+    try {
+      const response = await axios.get(
+        `/api/response-status?interviewId=${interviewId}`,
+      );
+      setStatusChanges(response.data.changes);
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (interview?.id) {
+      fetchStatusChanges(interview.id);
+    }
+  }, [interview?.id]);
+
+  const onBulkStatusChange = async (newStatus: string) => {
+    setIsMoving(true);
+    try {
+      await axios.put("/api/response-status", {
+        callIds: selectedCallIds,
+        status: newStatus,
+      });
+      onCandidateStatusChange(selectedCallIds, newStatus);
+      toast.success(
+        `Moved ${selectedCallIds.length} ${
+          selectedCallIds.length === 1 ? "candidate" : "candidates"
+        } to ${getStage(stages, newStatus).name}`,
+        {
+          position: "bottom-right",
+          duration: 3000,
+        },
+      );
+      setSelectedCallIds([]);
+      if (interview?.id) {
+        fetchStatusChanges(interview.id);
+      }
+    } catch (error) {
+      console.error("Error updating statuses:", error);
+      toast.error("Failed to move the candidates", {
+        description:
+          (axios.isAxiosError(error) && error.response?.data?.error) ||
+          undefined,
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
   useEffect(() => {
     if (!interviewers || !interview) {
       return;
@@ -114,12 +214,9 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
     let totalDuration = 0;
     let completedCount = 0;
 
-    const statusCounter = {
-      [CandidateStatus.NO_STATUS]: 0,
-      [CandidateStatus.NOT_SELECTED]: 0,
-      [CandidateStatus.POTENTIAL]: 0,
-      [CandidateStatus.SELECTED]: 0,
-    };
+    const statusCounter: Record<string, number> = Object.fromEntries(
+      stages.map((stage) => [stage.key, 0]),
+    );
 
     responses.forEach((response) => {
       const sentiment = response.details?.call_analysis?.user_sentiment;
@@ -151,13 +248,7 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
       }
 
       totalDuration += response.duration;
-      if (
-        Object.values(CandidateStatus).includes(
-          response.candidate_status as CandidateStatus,
-        )
-      ) {
-        statusCounter[response.candidate_status as CandidateStatus]++;
-      }
+      statusCounter[getStage(stages, response.candidate_status).key]++;
     });
 
     setSentimentCount(sentimentCounter);
@@ -166,9 +257,15 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
     setCompletedInterviews(completedCount);
     setCandidateStatusCount(statusCounter);
 
-    const preparedData = prepareTableData(responses);
+    const preparedData = prepareTableData(responses, canViewPii);
     setTableData(preparedData);
-  }, [responses]);
+  }, [responses, canViewPii, stages]);
+
+  const funnel = computeStageFunnel(stages, responses, statusChanges);
+  const questionTimings = computeQuestionTimings(
+    (interview?.questions || []).map((question) => question.question),
+    responses.map((response) => response.analytics),
+  );
 
   return (
     <div className="h-screen z-[10] mx-2">
@@ -188,8 +285,59 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
             <span className="font-medium">{interview?.description}</span>
           </p>
           <div className="flex flex-col gap-1 my-2 mt-4 mx-2 p-4 rounded-2xl bg-slate-50 shadow-md">
+            <div className="flex flex-row justify-between items-center mb-1">
+              <p className="text-xs text-gray-500">
+                Select {MIN_COMPARED_CANDIDATES} to {MAX_COMPARED_CANDIDATES}{" "}
+                candidates to compare them side by side.
+              </p>
+              <div className="flex flex-row items-center gap-2">
+                {can("response:update_status") && (
+                  <Select
+                    value=""
+                    disabled={selectedCallIds.length === 0 || isMoving}
+                    onValueChange={onBulkStatusChange}
+                  >
+                    <SelectTrigger className="w-44 h-9 bg-white">
+                      <ArrowRightLeft size={14} className="text-slate-400" />
+                      <SelectValue placeholder="Move selected to" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {stages.map((stage) => (
+                        <SelectItem key={stage.key} value={stage.key}>
+                          <div className="flex items-center">
+                            <div
+                              className="w-3 h-3 rounded-full mr-2"
+                              style={{ backgroundColor: stage.color }}
+                            />
+                            {stage.name}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  size="sm"
+                  className="bg-indigo-600 hover:bg-indigo-800"
+                  disabled={selectedCallIds.length < MIN_COMPARED_CANDIDATES}
+                  onClick={() =>
+                    router.push(
+                      `/interviews/${interview?.id}?compare=${selectedCallIds.join(",")}`,
+                    )
+                  }
+                >
+                  <Columns size={16} className="mr-2" />
+                  Compare ({selectedCallIds.length})
+                </Button>
+              </div>
+            </div>
             <ScrollArea className="h-[250px]">
-              <DataTable data={tableData} interviewId={interview?.id || ""} />
+              <DataTable
+                data={tableData}
+                interviewId={interview?.id || ""}
+                selectedCallIds={selectedCallIds}
+                onSelectCall={handleSelectCall}
+              />
             </ScrollArea>
           </div>
           <div className="flex flex-row gap-1 my-2 justify-center">
@@ -281,33 +429,12 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
                 }}
                 series={[
                   {
-                    data: [
-                      {
-                        id: 0,
-                        value: candidateStatusCount[CandidateStatus.SELECTED],
-                        label: `Selected (${candidateStatusCount[CandidateStatus.SELECTED]})`,
-                        color: "#22c55e",
-                      },
-                      {
-                        id: 1,
-                        value: candidateStatusCount[CandidateStatus.POTENTIAL],
-                        label: `Potential (${candidateStatusCount[CandidateStatus.POTENTIAL]})`,
-                        color: "#eab308",
-                      },
-                      {
-                        id: 2,
-                        value:
-                          candidateStatusCount[CandidateStatus.NOT_SELECTED],
-                        label: `Not Selected (${candidateStatusCount[CandidateStatus.NOT_SELECTED]})`,
-                        color: "#eb4444",
-                      },
-                      {
-                        id: 3,
-                        value: candidateStatusCount[CandidateStatus.NO_STATUS],
-                        label: `No Status (${candidateStatusCount[CandidateStatus.NO_STATUS]})`,
-                        color: "#9ca3af",
-                      },
-                    ],
+                    data: stages.map((stage, index) => ({
+                      id: index,
+                      value: candidateStatusCount[stage.key] ?? 0,
+                      label: `${stage.name} (${candidateStatusCount[stage.key] ?? 0})`,
+                      color: stage.color,
+                    })),
                     highlightScope: { faded: "global", highlighted: "item" },
                     faded: {
                       innerRadius: 10,
@@ -332,6 +459,106 @@ function SummaryInfo({ responses, interview }: SummaryProps) {
               />
             </div>
           </div>
+          <div className="flex flex-col gap-2 my-2 mx-2 p-4 rounded-2xl bg-slate-50 shadow-md">
+            <div className="flex flex-row gap-2 text-[15px] font-bold mb-1">
+              <Filter />
+              Pipeline Funnel
+              <InfoTooltip content="Candidates who reached each stage or a later one, from their status history" />
+            </div>
+            {funnel.steps.map((step, index) => {
+              const previous =
+                index > 0 ? funnel.steps[index - 1].reached : null;
+
+              return (
+                <div
+                  key={step.stage.key}
+                  className="flex flex-row items-center gap-3 text-sm"
+                >
+                  <p className="w-40 shrink-0 truncate" title={step.stage.name}>
+                    {step.stage.name}
+                  </p>
+                  <div className="flex-1 h-5 bg-slate-200 rounded-sm">
+                    <div
+                      className="h-5 rounded-sm"
+                      style={{
+                        width: `${totalResponses > 0 ? (step.reached / totalResponses) * 100 : 0}%`,
+                        backgroundColor: step.stage.color,
+                      }}
+                    />
+                  </div>
+                  <p className="w-44 shrink-0 text-right">
+                    {step.reached} reached
+                    {previous ? (
+                      <span className="text-gray-500">
+                        {" "}
+                        ({Math.round((step.reached / previous) * 100)}%)
+                      </span>
+                    ) : null}
+                    <span className="text-gray-500"> · {step.current} now</span>
+                  </p>
+                </div>
+              );
+            })}
+            {funnel.outcomes.length > 0 && (
+              <div className="flex flex-row flex-wrap gap-2 mt-1">
+                {funnel.outcomes.map((outcome) => (
+                  <span
+                    key={outcome.stage.key}
+                    className="flex items-center text-xs font-semibold rounded-full px-3 py-1 bg-slate-200"
+                  >
+                    <div
+                      className="w-3 h-3 rounded-full mr-2"
+                      style={{ backgroundColor: outcome.stage.color }}
+                    />
+                    {outcome.stage.name}: {outcome.count}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          {questionTimings.some((timing) => timing.count > 0) && (
+            <div className="flex flex-col gap-2 my-2 mx-2 p-4 rounded-2xl bg-slate-50 shadow-md">
+              <div className="flex flex-row gap-2 text-[15px] font-bold mb-1">
+                <Timer />
+                Time per Question
+                <InfoTooltip content="Averages over the responses in which each question was found in the recording" />
+              </div>
+              <div className="flex flex-row gap-3 text-xs font-semibold text-gray-500">
+                <p className="flex-1">Question</p>
+                <p className="w-24 text-right">Duration</p>
+                <p className="w-24 text-right">Candidate</p>
+                <p className="w-24 text-right">Time to answer</p>
+                <p className="w-20 text-right">Responses</p>
+              </div>
+              {questionTimings.map((timing, index) => (
+                <div
+                  // eslint-disable-next-line react/no-array-index-key
+                  key={index}
+                  className="flex flex-row gap-3 text-sm"
+                >
+                  <p className="flex-1 truncate" title={timing.question}>
+                    {index + 1}. {timing.question}
+                  </p>
+                  <p className="w-24 text-right">
+                    {timing.averageDuration !== null
+                      ? convertSecondstoMMSS(timing.averageDuration)
+                      : "-"}
+                  </p>
+                  <p className="w-24 text-right">
+                    {timing.averageCandidateTalkTime !== null
+                      ? convertSecondstoMMSS(timing.averageCandidateTalkTime)
+                      : "-"}
+                  </p>
+                  <p className="w-24 text-right">
+                    {timing.averageAnswerLatency !== null
+                      ? `${timing.averageAnswerLatency.toFixed(1)}s`
+                      : "-"}
+                  </p>
+                  <p className="w-20 text-right">{timing.count}</p>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       ) : (
         <div className="w-[85%] h-[60%] flex flex-col items-center justify-center">
@@ -11,7 +11,7 @@ function CreateInterviewerButton() {
 
   const createInterviewers = async () => {
     setIsLoading(true);
-    const response = await axios.get("/api/create-interviewer", {});
+    const response = await axios.post("/api/create-interviewer");
     console.log(response);
     setIsLoading(false);
     InterviewerService.getAllInterviewers();
@@ -41,7 +41,10 @@ const interviewerCard = ({ interviewer }: Props) => {
           setOpen(false);
         }}
       >
-        <InterviewerDetailsModal interviewer={interviewer} />
+        <InterviewerDetailsModal
+          interviewer={interviewer}
+          onClose={() => setOpen(false)}
+        />
       </Modal>
     </>
   );
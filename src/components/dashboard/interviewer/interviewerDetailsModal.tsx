@@ -1,19 +1,117 @@
+import { useState } from "react";
 import Image from "next/image";
+import { PencilIcon, TrashIcon } from "lucide-react";
+import { toast } from "sonner";
 import { CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import ReactAudioPlayer from "react-audio-player";
 import { Interviewer } from "@/types/interviewer";
+import { useInterviewers } from "@/contexts/interviewers.context";
+import { useClient } from "@/contexts/clients.context";
+import InterviewerForm from "@/components/dashboard/interviewer/interviewerForm";
 
 interface Props {
   interviewer: Interviewer | undefined;
+  onClose?: () => void;
 }
 
-function InterviewerDetailsModal({ interviewer }: Props) {
+function InterviewerDetailsModal({ interviewer, onClose }: Props) {
+  const { deleteInterviewer } = useInterviewers();
+  const { can } = useClient();
+  const [isEditing, setIsEditing] = useState(false);
+  // The default interviewers have no owner and cannot be changed
+  const isCustom = !!(interviewer?.user_id || interviewer?.organization_id);
+
+  const onDelete = async () => {
+    try {
+      await deleteInterviewer(interviewer?.id as bigint);
+      onClose?.();
+    } catch (error: any) {
+      console.error("Error deleting interviewer:", error);
+      toast.error(
+        error?.response?.status === 409
+          ? "This interviewer is used by an interview and cannot be deleted."
+          : "Failed to delete the interviewer.",
+        {
+          position: "bottom-right",
+          duration: 3000,
+        },
+      );
+    }
+  };
+
+  if (isEditing && interviewer) {
+    return (
+      <InterviewerForm
+        interviewer={interviewer}
+        onSaved={() => {
+          setIsEditing(false);
+          onClose?.();
+        }}
+      />
+    );
+  }
+
+  // Custom interviewers store a remote voice preview instead of a bundled file
+  const audioSrc = interviewer?.audio?.startsWith("http")
+    ? interviewer.audio
+    : `/audio/${interviewer?.audio}`;
+
   return (
     <div className="text-center w-[40rem]">
       <CardTitle className="text-3xl text mt-0 p-0 font-semibold ">
         {interviewer?.name}
       </CardTitle>
+      {isCustom && can("interview:edit") && (
+        <div className="flex flex-row justify-center gap-2 mt-2">
+          <Button
+            variant="outline"
+            className="h-8"
+            onClick={() => setIsEditing(true)}
+          >
+            <PencilIcon size={14} className="mr-2" />
+            Edit
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button className="bg-red-500 hover:bg-red-600 h-8">
+                <TrashIcon size={14} className="mr-2" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This action cannot be undone. This will permanently delete
+                  this interviewer and its voice agent.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  className="bg-indigo-600 hover:bg-indigo-800"
+                  onClick={onDelete}
+                >
+                  Continue
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
       <div className="mt-1 p-2 flex flex-col justify-center items-center">
         <div className="flex flex-row justify-center space-x-10 items-center">
           <div className=" flex items-center justify-center border-4 overflow-hidden border-gray-500 rounded-xl h-48 w-44">
@@ -29,9 +127,7 @@ function InterviewerDetailsModal({ interviewer }: Props) {
             <p className="text-sm leading-relaxed  mt-0 whitespace-normal w-[25rem] text-justify">
               {interviewer?.description}
             </p>
-            {interviewer?.audio && (
-              <ReactAudioPlayer src={`/audio/${interviewer.audio}`} controls />
-            )}
+            {interviewer?.audio && <ReactAudioPlayer src={audioSrc} controls />}
           </div>
         </div>
         <h3 className="text-mg m-0 p-0 mt-5 ml-0 font-medium">
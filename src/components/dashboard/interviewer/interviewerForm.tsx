@@ -0,0 +1,246 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import Image from "next/image";
+import { Image as LucideImage } from "lucide-react";
+import ReactAudioPlayer from "react-audio-player";
+import { toast } from "sonner";
+import { CardTitle } from "@/components/ui/card";
+import Modal from "@/components/dashboard/Modal";
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { avatars } from "@/components/dashboard/interviewer/avatars";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useInterviewers } from "@/contexts/interviewers.context";
+import {
+  Interviewer,
+  InterviewerSettings,
+  InterviewerVoice,
+} from "@/types/interviewer";
+
+interface Props {
+  interviewer?: Interviewer;
+  onSaved: () => void;
+}
+
+const DEFAULT_SETTINGS: InterviewerSettings = {
+  empathy: 4,
+  rapport: 7,
+  exploration: 2,
+  speed: 9,
+};
+
+const SETTING_LABELS: { key: keyof InterviewerSettings; label: string }[] = [
+  { key: "empathy", label: "Empathy" },
+  { key: "rapport", label: "Rapport" },
+  { key: "exploration", label: "Exploration" },
+  { key: "speed", label: "Speed" },
+];
+
+function InterviewerForm({ interviewer, onSaved }: Props) {
+  const { createInterviewer, updateInterviewer } = useInterviewers();
+  const [gallery, setGallery] = useState(false);
+  const [name, setName] = useState(interviewer?.name || "");
+  const [image, setImage] = useState(interviewer?.image || "");
+  const [voiceId, setVoiceId] = useState(interviewer?.voice_id || "");
+  const [voices, setVoices] = useState<InterviewerVoice[]>([]);
+  const [settings, setSettings] = useState<InterviewerSettings>(
+    interviewer
+      ? {
+          empathy: interviewer.empathy,
+          rapport: interviewer.rapport,
+          exploration: interviewer.exploration,
+          speed: interviewer.speed,
+        }
+      : DEFAULT_SETTINGS,
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedVoice = voices.find((voice) => voice.voice_id === voiceId);
+
+  useEffect(() => {
+    const fetchVoices = async () => {
+      try {
+        const response = await axios.get("/api/voices");
+        setVoices(response.data.voices);
+      } catch (error) {
+        console.error("Error fetching voices:", error);
+      }
+    };
+
+    fetchVoices();
+  }, []);
+
+  const onSave = async () => {
+    setIsSaving(true);
+    try {
+      const payload = { name, image, voice_id: voiceId, ...settings };
+      if (interviewer) {
+        await updateInterviewer(interviewer.id, {
+          ...payload,
+          description: interviewer.description,
+        });
+      } else {
+        await createInterviewer(payload);
+      }
+      onSaved();
+    } catch (error) {
+      console.error("Error saving interviewer:", error);
+      toast.error("Failed to save the interviewer. Please try again.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="text-center w-[35rem]">
+        <CardTitle className="text-2xl text mt-0 mb-4 p-0 font-semibold ">
+          {interviewer ? "Edit interviewer" : "Create an interviewer yourself!"}
+        </CardTitle>
+        <div className="mt-3 p-2 flex flex-row justify-center space-x-10 items-center">
+          <div
+            className=" flex flex-col items-center justify-center overflow-hidden border-4 border-gray-500 rounded-xl h-56 w-52 cursor-pointer"
+            onClick={() => setGallery(true)}
+          >
+            {image ? (
+              <Image
+                src={image}
+                alt="Picture of the interviewer"
+                width={200}
+                height={40}
+                className="w-full h-full object-cover object-center"
+              />
+            ) : (
+              <div>
+                <LucideImage
+                  className="mt-3 text-gray-300"
+                  size={100}
+                  strokeWidth={0.7}
+                />
+                <h4 className="text-xs text-center font-medium text-gray-400">
+                  Choose an Avatar
+                </h4>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col justify-center items-start ml-4">
+            <div className="flex flex-row justify-center items-center">
+              <h3 className="text-lg font-medium">Name</h3>
+              <input
+                type="text"
+                className="border-b-2 focus:outline-none border-gray-500 px-2 py-0.5 ml-3 w-[12.5rem]"
+                placeholder="e.g. Empathetic Bob"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-row justify-center items-center mt-3">
+              <h3 className="text-lg font-medium">Voice</h3>
+              <Select value={voiceId} onValueChange={setVoiceId}>
+                <SelectTrigger className="ml-3 w-[12.5rem] h-8">
+                  <SelectValue placeholder="Select a voice" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {voices.map((voice) => (
+                    <SelectItem key={voice.voice_id} value={voice.voice_id}>
+                      {voice.voice_name}
+                      <span className="ml-1 text-xs text-gray-500 capitalize">
+                        {[voice.gender, voice.accent]
+                          .filter(Boolean)
+                          .join(", ")}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedVoice?.preview_audio_url && (
+              <ReactAudioPlayer
+                className="mt-2 h-8 w-[16rem]"
+                src={selectedVoice.preview_audio_url}
+                controls
+              />
+            )}
+            <h3 className="text-lg mt-3 font-medium">Interviewer Settings</h3>
+            <div className="ml-5 mt-2 flex flex-col justify-start items-start">
+              {SETTING_LABELS.map(({ key, label }) => (
+                <div
+                  key={key}
+                  className="flex flex-row justify-between items-center mb-2"
+                >
+                  <h4 className="w-20 text-left">{label}</h4>
+                  <div className="w-40 space-x-3 ml-3 flex justify-between items-center">
+                    <Slider
+                      value={[settings[key] / 10]}
+                      max={1}
+                      step={0.1}
+                      onValueChange={(value) =>
+                        setSettings({
+                          ...settings,
+                          [key]: Math.round(value[0] * 10),
+                        })
+                      }
+                    />
+                    <span className="w-8 text-left">{settings[key] / 10}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-row justify-end mr-4">
+          <Button
+            disabled={!name || !image || !voiceId || isSaving}
+            className="bg-indigo-600  hover:bg-indigo-800"
+            onClick={onSave}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+      <Modal
+        open={gallery}
+        closeOnOutsideClick={true}
+        onClose={() => {
+          setGallery(false);
+        }}
+      >
+        <div className="text-left w-[20rem]">
+          <CardTitle className="text-xl text mt-0 p-0 font-semibold ">
+            Select an Avatar
+          </CardTitle>
+          <ScrollArea className="mt-3 h-96">
+            <div className="flex flex-row flex-wrap justify-center items-center">
+              {avatars.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex flex-col items-center justify-center border-2 border-gray-500 rounded-xl overflow-hidden m-2 cursor-pointer"
+                  onClick={() => {
+                    setImage(item.img);
+                    setGallery(false);
+                  }}
+                >
+                  <Image alt="avatar" width={125} height={100} src={item.img} />
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      </Modal>
+    </>
+  );
+}
+
+export default InterviewerForm;
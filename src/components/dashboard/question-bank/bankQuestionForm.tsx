@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useState } from "react";
+import axios from "axios";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SENIORITY_LEVELS } from "@/lib/question-bank";
+import { BankQuestion } from "@/types/question-bank";
+
+interface Props {
+  bankQuestion?: BankQuestion;
+  onSaved: (bankQuestion: BankQuestion) => void;
+}
+
+const DEPTH_LEVELS = [
+  { value: "1", label: "Low" },
+  { value: "2", label: "Medium" },
+  { value: "3", label: "High" },
+];
+
+const ANY_SENIORITY = "any";
+
+function BankQuestionForm({ bankQuestion, onSaved }: Props) {
+  const [question, setQuestion] = useState(bankQuestion?.question || "");
+  const [followUpCount, setFollowUpCount] = useState(
+    String(bankQuestion?.follow_up_count || 1),
+  );
+  const [skills, setSkills] = useState(bankQuestion?.skills.join(", ") || "");
+  const [seniority, setSeniority] = useState<string>(
+    bankQuestion?.seniority || ANY_SENIORITY,
+  );
+  const [role, setRole] = useState(bankQuestion?.role || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const onSave = async () => {
+    setIsSaving(true);
+    try {
+      const payload = {
+        question,
+        follow_up_count: Number(followUpCount),
+        skills,
+        seniority: seniority === ANY_SENIORITY ? null : seniority,
+        role,
+      };
+      const response = bankQuestion
+        ? await axios.put("/api/question-bank", {
+            ...payload,
+            id: bankQuestion.id,
+          })
+        : await axios.post("/api/question-bank", payload);
+      onSaved(response.data.question);
+      if (!bankQuestion) {
+        setQuestion("");
+        setSkills("");
+        setSeniority(ANY_SENIORITY);
+        setRole("");
+      }
+    } catch (error) {
+      console.error("Error saving bank question:", error);
+      toast.error("Failed to save the question.", {
+        position: "bottom-right",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <Textarea
+        value={question}
+        className="h-20 bg-white"
+        placeholder="e.g. Tell me about a time you had to learn a new technology quickly."
+        onChange={(e) => setQuestion(e.target.value)}
+      />
+      <div className="flex flex-row flex-wrap items-center gap-4">
+        <div className="flex flex-row items-center">
+          <span className="font-medium mr-2">Depth:</span>
+          <Select value={followUpCount} onValueChange={setFollowUpCount}>
+            <SelectTrigger className="w-28 h-8 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEPTH_LEVELS.map((level) => (
+                <SelectItem key={level.value} value={level.value}>
+                  {level.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-row items-center">
+          <span className="font-medium mr-2">Seniority:</span>
+          <Select value={seniority} onValueChange={setSeniority}>
+            <SelectTrigger className="w-28 h-8 bg-white capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_SENIORITY}>Any</SelectItem>
+              {SENIORITY_LEVELS.map((level) => (
+                <SelectItem key={level} value={level} className="capitalize">
+                  {level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-row items-center">
+          <span className="font-medium mr-2">Role:</span>
+          <input
+            type="text"
+            className="border-b-2 focus:outline-none border-gray-500 px-1 w-40 bg-transparent"
+            placeholder="e.g. Backend Engineer"
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex flex-row items-center">
+        <span className="font-medium mr-2">Skills:</span>
+        <input
+          type="text"
+          className="border-b-2 focus:outline-none border-gray-500 px-1 flex-1 bg-transparent"
+          placeholder="Comma separated, e.g. system design, communication"
+          value={skills}
+          onChange={(e) => setSkills(e.target.value)}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button
+          className="bg-indigo-600 hover:bg-indigo-800 h-8"
+          disabled={isSaving || !question.trim()}
+          onClick={onSave}
+        >
+          {isSaving ? "Saving..." : bankQuestion ? "Save" : "Add Question"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default BankQuestionForm;
@@ -1,12 +1,23 @@
 "use client";
 
 import React from "react";
-import { PlayCircleIcon, SpeechIcon } from "lucide-react";
+import {
+  Gauge,
+  KanbanSquare,
+  LibraryBig,
+  PlayCircleIcon,
+  SpeechIcon,
+  UsersRound,
+} from "lucide-react";
 import { usePathname, useRouter } from "next/navigation";
+import { useOrganization } from "@clerk/nextjs";
+import { useClient } from "@/contexts/clients.context";
 
 function SideMenu() {
   const pathname = usePathname();
   const router = useRouter();
+  const { can } = useClient();
+  const { organization } = useOrganization();
 
   return (
     <div className="z-[10] bg-slate-100 p-6 w-[200px] fixed top-[64px] left-0 h-full">
@@ -35,6 +46,46 @@ function SideMenu() {
             <SpeechIcon className="font-thin mr-2" />
             <p className="font-medium ">Interviewers</p>
           </div>
+          <div
+            className={`flex flex-row p-3 rounded-md hover:bg-slate-200 cursor-pointer ${
+              pathname.endsWith("/question-bank")
+                ? "bg-indigo-200"
+                : "bg-slate-100"
+            }`}
+            onClick={() => router.push("/dashboard/question-bank")}
+          >
+            <LibraryBig className="font-thin mr-2" />
+            <p className="font-medium ">Question Bank</p>
+          </div>
+          <div
+            className={`flex flex-row p-3 rounded-md hover:bg-slate-200 cursor-pointer ${
+              pathname.endsWith("/pipeline") ? "bg-indigo-200" : "bg-slate-100"
+            }`}
+            onClick={() => router.push("/dashboard/pipeline")}
+          >
+            <KanbanSquare className="font-thin mr-2" />
+            <p className="font-medium ">Pipeline</p>
+          </div>
+          <div
+            className={`flex flex-row p-3 rounded-md hover:bg-slate-200 cursor-pointer ${
+              pathname.endsWith("/usage") ? "bg-indigo-200" : "bg-slate-100"
+            }`}
+            onClick={() => router.push("/dashboard/usage")}
+          >
+            <Gauge className="font-thin mr-2" />
+            <p className="font-medium ">Usage</p>
+          </div>
+          {organization && can("members:manage") && (
+            <div
+              className={`flex flex-row p-3 rounded-md hover:bg-slate-200 cursor-pointer ${
+                pathname.endsWith("/members") ? "bg-indigo-200" : "bg-slate-100"
+              }`}
+              onClick={() => router.push("/dashboard/members")}
+            >
+              <UsersRound className="font-thin mr-2" />
+              <p className="font-medium ">Members</p>
+            </div>
+          )}
         </div>
       </div>
     </div>
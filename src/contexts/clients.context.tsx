@@ -1,16 +1,23 @@
 "use client";
 
 import React, { useState, useContext, ReactNode, useEffect } from "react";
+import axios from "axios";
 import { User } from "@/types/user";
+import { OrganizationRole, Permission } from "@/types/organization-member";
 import { useClerk, useOrganization } from "@clerk/nextjs";
 import { ClientService } from "@/services/clients.service";
+import { hasPermission } from "@/lib/permissions";
 
 interface ClientContextProps {
   client?: User;
+  role?: OrganizationRole;
+  can: (permission: Permission) => boolean;
 }
 
 export const ClientContext = React.createContext<ClientContextProps>({
   client: undefined,
+  role: undefined,
+  can: () => false,
 });
 
 interface ClientProviderProps {
@@ -22,6 +29,7 @@ export function ClientProvider({ children }: ClientProviderProps) {
   const { user } = useClerk();
   const { organization } = useOrganization();
 
+  const [role, setRole] = useState<OrganizationRole>();
   const [clientLoading, setClientLoading] = useState(true);
 
   const fetchClient = async () => {
@@ -52,6 +60,23 @@ export function ClientProvider({ children }: ClientProviderProps) {
     setClientLoading(false);
   };
 
+  // Nothing is allowed until the role has loaded
+  const fetchRole = async () => {
+    setRole(undefined);
+    try {
+      const response = await axios.get("/api/organization-role");
+      setRole(response.data.role);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchRole();
+    }
+  }, [user?.id, organization?.id]);
+
   useEffect(() => {
     if (user?.id) {
       fetchClient();
@@ -70,6 +95,8 @@ export function ClientProvider({ children }: ClientProviderProps) {
     <ClientContext.Provider
       value={{
         client,
+        role,
+        can: (permission) => hasPermission(role, permission),
       }}
     >
       {children}
@@ -1,14 +1,17 @@
 "use client";
 
 import React, { useState, useContext, ReactNode, useEffect } from "react";
-import { Interviewer } from "@/types/interviewer";
+import axios from "axios";
+import { Interviewer, InterviewerPayload } from "@/types/interviewer";
 import { InterviewerService } from "@/services/interviewers.service";
 import { useClerk } from "@clerk/nextjs";
 
 interface InterviewerContextProps {
   interviewers: Interviewer[];
   setInterviewers: React.Dispatch<React.SetStateAction<Interviewer[]>>;
-  createInterviewer: (payload: any) => void;
+  createInterviewer: (payload: InterviewerPayload) => Promise<void>;
+  updateInterviewer: (id: bigint, payload: InterviewerPayload) => Promise<void>;
+  deleteInterviewer: (id: bigint) => Promise<void>;
   interviewersLoading: boolean;
   setInterviewersLoading: (interviewersLoading: boolean) => void;
 }
@@ -16,7 +19,9 @@ interface InterviewerContextProps {
 export const InterviewerContext = React.createContext<InterviewerContextProps>({
   interviewers: [],
   setInterviewers: () => {},
-  createInterviewer: () => {},
+  createInterviewer: async () => {},
+  updateInterviewer: async () => {},
+  deleteInterviewer: async () => {},
   interviewersLoading: false,
   setInterviewersLoading: () => undefined,
 });
@@ -43,8 +48,20 @@ export function InterviewerProvider({ children }: InterviewerProviderProps) {
     setInterviewersLoading(false);
   };
 
-  const createInterviewer = async (payload: any) => {
-    await InterviewerService.createInterviewer({ ...payload });
+  // Interviewers are written through the API so their Retell agents stay in
+  // sync; errors are left to the caller to report
+  const createInterviewer = async (payload: InterviewerPayload) => {
+    await axios.post("/api/interviewers", { interviewer: payload });
+    fetchInterviewers();
+  };
+
+  const updateInterviewer = async (id: bigint, payload: InterviewerPayload) => {
+    await axios.put("/api/interviewers", { id, interviewer: payload });
+    fetchInterviewers();
+  };
+
+  const deleteInterviewer = async (id: bigint) => {
+    await axios.delete(`/api/interviewers?id=${id}`);
     fetchInterviewers();
   };
 
@@ -61,6 +78,8 @@ export function InterviewerProvider({ children }: InterviewerProviderProps) {
         interviewers,
         setInterviewers,
         createInterviewer,
+        updateInterviewer,
+        deleteInterviewer,
         interviewersLoading,
         setInterviewersLoading,
       }}
@@ -0,0 +1,79 @@
+import Retell from "retell-sdk";
+import { logger } from "@/lib/logger";
+import { AnalysisJobService } from "@/services/analysis-jobs.service";
+import { ResponseService } from "@/services/responses.service";
+import { InvitationService } from "@/services/invitations.service";
+import { sendCompletionReceipt } from "@/lib/notifications";
+import { generateInterviewAnalytics } from "@/services/analytics.service";
+import { AnalysisJob } from "@/types/analysis-job";
+import { CallData } from "@/types/response";
+
+const retell = new Retell({
+  apiKey: process.env.RETELL_API_KEY || "",
+});
+
+const runAnalysisJob = async (job: AnalysisJob) => {
+  const call = await retell.call.retrieve(job.call_id);
+
+  // Retell attaches call_analysis shortly after the call ends; failing here
+  // puts the job back in the queue with backoff until it is available.
+  if (call.call_status !== "ended" || !call.call_analysis) {
+    throw new Error(`Call is ${call.call_status} and not yet analysed`);
+  }
+
+  const duration = Math.round(
+    ((call.end_timestamp ?? 0) - (call.start_timestamp ?? 0)) / 1000,
+  );
+
+  const result = await generateInterviewAnalytics({
+    callId: job.call_id,
+    interviewId: job.interview_id,
+    transcript: call.transcript || "",
+    transcriptObject: (call.transcript_object ||
+      []) as CallData["transcript_object"],
+  });
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  await ResponseService.saveResponse(
+    {
+      details: call,
+      is_analysed: true,
+      duration: duration,
+      analytics: result.analytics,
+    },
+    job.call_id,
+  );
+  await InvitationService.completeInvitationByCallId(job.call_id);
+  await sendCompletionReceipt(job.call_id);
+};
+
+// With a call id, only that call's job is run, so a request handling one call
+// never takes on other calls' analyses
+export const processAnalysisJobs = async (
+  batchSize = 5,
+  callId: string | null = null,
+) => {
+  const jobs = await AnalysisJobService.claimAnalysisJobs(batchSize, callId);
+  let completed = 0;
+
+  for (const job of jobs) {
+    try {
+      await runAnalysisJob(job);
+      await AnalysisJobService.completeAnalysisJob(job.id);
+      completed += 1;
+      logger.info(`Call ${job.call_id} analysed successfully`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        `Analysis attempt ${job.attempts} failed for call ${job.call_id}`,
+        message,
+      );
+      await AnalysisJobService.failAnalysisJob(job, message);
+    }
+  }
+
+  return { claimed: jobs.length, completed };
+};
@@ -0,0 +1,171 @@
+import { auth } from "@clerk/nextjs/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AuthorizationError,
+  authorizeCall,
+  authorizeInterview,
+  authorizeInterviewerChoice,
+} from "@/lib/auth";
+import { InterviewService } from "@/services/interviews.service";
+import { InterviewerService } from "@/services/interviewers.service";
+import { ResponseService } from "@/services/responses.service";
+import { OrganizationMemberService } from "@/services/organization-members.service";
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+vi.mock("@/services/interviews.service", () => ({
+  InterviewService: { getInterviewById: vi.fn() },
+}));
+vi.mock("@/services/interviewers.service", () => ({
+  InterviewerService: { getInterviewer: vi.fn() },
+}));
+vi.mock("@/services/responses.service", () => ({
+  ResponseService: { getResponseByCallId: vi.fn() },
+}));
+vi.mock("@/services/organization-members.service", () => ({
+  OrganizationMemberService: { getMemberRole: vi.fn() },
+}));
+
+const interviews: Record<string, object> = {
+  interview_a: {
+    id: "interview_a",
+    organization_id: "org_a",
+    user_id: "user_a",
+  },
+  interview_b: {
+    id: "interview_b",
+    organization_id: "org_b",
+    user_id: "user_b",
+  },
+  interview_solo: {
+    id: "interview_solo",
+    organization_id: null,
+    user_id: "user_solo",
+  },
+};
+const interviewers: Record<string, object> = {
+  1: { id: 1, organization_id: null, user_id: null },
+  2: { id: 2, organization_id: "org_a", user_id: "user_a" },
+  3: { id: 3, organization_id: "org_b", user_id: "user_b" },
+};
+const responses: Record<string, object> = {
+  call_a: { id: 1, call_id: "call_a", interview_id: "interview_a" },
+  call_b: { id: 2, call_id: "call_b", interview_id: "interview_b" },
+};
+
+const signIn = (userId: string | null, orgId?: string, orgRole?: string) =>
+  vi
+    .mocked(auth)
+    .mockReturnValue({ userId, orgId, orgRole } as ReturnType<typeof auth>);
+
+const expectRejection = async (promise: Promise<unknown>, status: number) => {
+  const error = await promise.catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(AuthorizationError);
+  expect((error as AuthorizationError).status).toBe(status);
+};
+
+describe("tenant authorization", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(InterviewService.getInterviewById).mockImplementation(
+      async (id: string) => interviews[id] ?? null,
+    );
+    vi.mocked(InterviewerService.getInterviewer).mockImplementation(
+      async (id: bigint) => interviewers[String(id)] ?? null,
+    );
+    vi.mocked(ResponseService.getResponseByCallId).mockImplementation(
+      async (callId: string) => responses[callId] ?? null,
+    );
+    vi.mocked(OrganizationMemberService.getMemberRole).mockResolvedValue(null);
+    signIn("user_a", "org_a", "org:member");
+  });
+
+  describe("authorizeInterview", () => {
+    it("returns an interview of the member's organization", async () => {
+      signIn("user_a2", "org_a", "org:member");
+
+      await expect(authorizeInterview("interview_a")).resolves.toMatchObject({
+        id: "interview_a",
+      });
+    });
+
+    it("returns an interview the user created outside an organization", async () => {
+      signIn("user_solo");
+
+      await expect(authorizeInterview("interview_solo")).resolves.toMatchObject(
+        { id: "interview_solo" },
+      );
+    });
+
+    it("reports another organization's interview as missing", async () => {
+      await expectRejection(authorizeInterview("interview_b"), 404);
+    });
+
+    it("reports another user's personal interview as missing", async () => {
+      signIn("user_b");
+
+      await expectRejection(authorizeInterview("interview_solo"), 404);
+    });
+
+    it("checks access before the permission", async () => {
+      vi.mocked(OrganizationMemberService.getMemberRole).mockResolvedValue({
+        organization_id: "org_a",
+        user_id: "user_a",
+        role: "reviewer",
+      } as Awaited<ReturnType<typeof OrganizationMemberService.getMemberRole>>);
+
+      await expectRejection(
+        authorizeInterview("interview_b", "interview:edit"),
+        404,
+      );
+      await expectRejection(
+        authorizeInterview("interview_a", "interview:edit"),
+        403,
+      );
+    });
+
+    it("rejects signed out requests", async () => {
+      signIn(null);
+
+      await expectRejection(authorizeInterview("interview_a"), 401);
+      expect(InterviewService.getInterviewById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("authorizeCall", () => {
+    it("returns a response to an interview of the member's organization", async () => {
+      await expect(authorizeCall("call_a")).resolves.toMatchObject({
+        response: { call_id: "call_a" },
+        interview: { id: "interview_a" },
+      });
+    });
+
+    it("reports a response to another organization's interview as missing", async () => {
+      await expectRejection(authorizeCall("call_b"), 404);
+    });
+
+    it("reports an unknown call as missing", async () => {
+      await expectRejection(authorizeCall("call_unknown"), 404);
+    });
+  });
+
+  describe("authorizeInterviewerChoice", () => {
+    it("accepts the default interviewers and the organization's own", async () => {
+      await expect(
+        authorizeInterviewerChoice(BigInt(1)),
+      ).resolves.toMatchObject({ id: 1 });
+      await expect(
+        authorizeInterviewerChoice(BigInt(2)),
+      ).resolves.toMatchObject({ id: 2 });
+    });
+
+    it("reports another organization's interviewer as missing", async () => {
+      await expectRejection(authorizeInterviewerChoice(BigInt(3)), 404);
+      await expectRejection(authorizeInterviewerChoice(BigInt(4)), 404);
+    });
+  });
+});
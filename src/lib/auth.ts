@@ -0,0 +1,185 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  PERMISSION_ERRORS,
+  getDefaultRole,
+  hasPermission,
+} from "@/lib/permissions";
+import { InterviewService } from "@/services/interviews.service";
+import { ResponseService } from "@/services/responses.service";
+import { InterviewerService } from "@/services/interviewers.service";
+import { QuestionBankService } from "@/services/question-bank.service";
+import { OrganizationMemberService } from "@/services/organization-members.service";
+import { Interview } from "@/types/interview";
+import { Interviewer } from "@/types/interviewer";
+import { Response } from "@/types/response";
+import { Permission } from "@/types/organization-member";
+
+export class AuthorizationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AuthorizationError";
+    this.status = status;
+  }
+}
+
+// Mirrors the interview policy in supabase_schema.sql: an interview belongs to
+// the organization it was created in and to the user who created it
+export const canAccessInterview = (
+  interview: { organization_id: string | null; user_id: string | null },
+  userId: string,
+  orgId: string | null,
+) =>
+  (!!orgId && interview.organization_id === orgId) ||
+  interview.user_id === userId;
+
+export const getAuthContext = () => {
+  const { userId, orgId, orgRole } = auth();
+  if (!userId) {
+    throw new AuthorizationError("Unauthorized", 401);
+  }
+
+  return { userId, orgId: orgId ?? null, orgRole: orgRole ?? null };
+};
+
+// Mirrors requesting_role() in supabase_schema.sql
+export const getRoleContext = async () => {
+  const { userId, orgId, orgRole } = getAuthContext();
+  const member = orgId
+    ? await OrganizationMemberService.getMemberRole(orgId, userId)
+    : null;
+
+  return {
+    userId,
+    orgId,
+    role: member?.role ?? getDefaultRole(orgId, orgRole),
+  };
+};
+
+export const authorizePermission = async (permission: Permission) => {
+  const context = await getRoleContext();
+  if (!hasPermission(context.role, permission)) {
+    throw new AuthorizationError(PERMISSION_ERRORS[permission], 403);
+  }
+
+  return context;
+};
+
+// Interviews of another organization are reported as missing so their ids
+// cannot be probed. The permission, when given, is checked after access so a
+// 403 only ever refers to an interview the user can see.
+export const authorizeInterview = async (
+  interviewId: string,
+  permission?: Permission,
+) => {
+  const { userId, orgId } = getAuthContext();
+  const interview: Interview | null =
+    await InterviewService.getInterviewById(interviewId);
+
+  if (!interview || !canAccessInterview(interview, userId, orgId)) {
+    throw new AuthorizationError("Interview not found", 404);
+  }
+  if (permission) {
+    await authorizePermission(permission);
+  }
+
+  return interview;
+};
+
+export const authorizeCall = async (
+  callId: string,
+  permission?: Permission,
+) => {
+  const response: Response | null =
+    await ResponseService.getResponseByCallId(callId);
+  if (!response?.interview_id) {
+    throw new AuthorizationError("Response not found", 404);
+  }
+  const interview = await authorizeInterview(response.interview_id, permission);
+
+  return { response, interview };
+};
+
+const ownsInterviewer = (
+  interviewer: Interviewer,
+  userId: string,
+  orgId: string | null,
+) =>
+  (!!orgId && interviewer.organization_id === orgId) ||
+  (!!interviewer.user_id && interviewer.user_id === userId);
+
+// Only custom interviewers can be changed, and only by the organization (or
+// user) that created them. The default interviewers have no owner.
+export const authorizeInterviewer = async (interviewerId: bigint) => {
+  const { userId, orgId } = getAuthContext();
+  const interviewer: Interviewer | null =
+    await InterviewerService.getInterviewer(interviewerId);
+
+  if (!interviewer || !ownsInterviewer(interviewer, userId, orgId)) {
+    throw new AuthorizationError("Interviewer not found", 404);
+  }
+
+  return interviewer;
+};
+
+// Interviews can use a default interviewer or one of the caller's own, but
+// not another organization's custom interviewer and its agent
+export const authorizeInterviewerChoice = async (interviewerId: bigint) => {
+  const { userId, orgId } = getAuthContext();
+  const interviewer: Interviewer | null =
+    await InterviewerService.getInterviewer(interviewerId);
+  const isDefault =
+    !!interviewer && !interviewer.organization_id && !interviewer.user_id;
+
+  if (
+    !interviewer ||
+    !(isDefault || ownsInterviewer(interviewer, userId, orgId))
+  ) {
+    throw new AuthorizationError("Interviewer not found", 404);
+  }
+
+  return interviewer;
+};
+
+export const authorizeBankQuestion = async (bankQuestionId: number) => {
+  const { userId, orgId } = getAuthContext();
+  const bankQuestion =
+    await QuestionBankService.getBankQuestionById(bankQuestionId);
+
+  if (!bankQuestion || !canAccessInterview(bankQuestion, userId, orgId)) {
+    throw new AuthorizationError("Question not found", 404);
+  }
+
+  return bankQuestion;
+};
+
+// Scheduled workers are public routes guarded by CRON_SECRET. Without the
+// secret they refuse every request rather than run for anyone.
+export const isCronRequest = (req: Request) => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    logger.error("CRON_SECRET is not set, refusing scheduled worker request");
+
+    return false;
+  }
+
+  return req.headers.get("authorization") === `Bearer ${cronSecret}`;
+};
+
+export const toErrorResponse = (error: unknown) => {
+  if (error instanceof AuthorizationError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status },
+    );
+  }
+  logger.error(
+    "Unexpected error",
+    error instanceof Error ? error.message : String(error),
+  );
+
+  return NextResponse.json({ error: "internal server error" }, { status: 500 });
+};
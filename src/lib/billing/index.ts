@@ -0,0 +1,225 @@
+import { logger } from "@/lib/logger";
+import { createMockBillingProvider } from "@/lib/billing/providers/mock";
+import {
+  BillingEvent,
+  BillingProvider,
+  BillingProviderName,
+} from "@/lib/billing/types";
+import {
+  EMPTY_USAGE,
+  getExceededLimit,
+  getPlan,
+  getPlanLimits,
+  getUsagePeriodStart,
+} from "@/lib/billing/plans";
+import { ClientService } from "@/services/clients.service";
+import { InterviewService } from "@/services/interviews.service";
+import { UsageService } from "@/services/usage.service";
+import { Organization } from "@/types/organization";
+import {
+  InterviewUsage,
+  QuotaCheck,
+  UsageKind,
+  UsageSummary,
+  UsageTotals,
+} from "@/types/billing";
+
+const PROVIDERS: BillingProviderName[] = ["mock"];
+
+let cachedProvider: BillingProvider | undefined;
+
+// Null when BILLING_PROVIDER is not set. The mock provider upgrades for free,
+// so it has to be chosen explicitly and is never used in production.
+export const getBillingProvider = (): BillingProvider | null => {
+  const name = process.env.BILLING_PROVIDER as BillingProviderName | undefined;
+  if (!name) {
+    return null;
+  }
+  if (!PROVIDERS.includes(name)) {
+    throw new Error(`Unsupported BILLING_PROVIDER "${name}"`);
+  }
+  if (name === "mock" && process.env.NODE_ENV === "production") {
+    return null;
+  }
+  if (cachedProvider?.name !== name) {
+    cachedProvider = createMockBillingProvider();
+  }
+
+  return cachedProvider;
+};
+
+// Who the usage belongs to. Interviews outside an organization have no plan,
+// so their usage is not recorded.
+export type UsageContext = {
+  organizationId: string | null;
+  interviewId?: string | null;
+};
+
+export const getInterviewUsageContext = (interview: {
+  id: string;
+  organization_id: string | null;
+}): UsageContext => ({
+  organizationId: interview.organization_id ?? null,
+  interviewId: interview.id,
+});
+
+const getTotals = async (organization: Organization) => {
+  const rows = await UsageService.getUsageTotals(
+    organization.id,
+    getUsagePeriodStart(organization),
+  );
+  const totals: UsageTotals = { ...EMPTY_USAGE };
+  rows.forEach((row) => {
+    totals[row.kind] += row.quantity;
+  });
+
+  return { rows, totals };
+};
+
+// Free organizations that use up their trial are moved to free_trial_over and
+// their interviews are switched off, as the dashboard used to do in the browser
+const endFreeTrial = async (organization: Organization) => {
+  logger.info(`Free trial of ${organization.id} is over`);
+  await ClientService.updateOrganization(
+    { plan: "free_trial_over" },
+    organization.id,
+  );
+  await InterviewService.deactivateInterviewsByOrgId(organization.id);
+};
+
+export const recordUsage = async (
+  context: UsageContext,
+  usage: {
+    kind: UsageKind;
+    quantity: number;
+    metadata?: Record<string, unknown>;
+    idempotencyKey?: string;
+  },
+) => {
+  if (!context.organizationId || usage.quantity <= 0) {
+    return;
+  }
+
+  const isNew = await UsageService.recordUsageEvent({
+    organization_id: context.organizationId,
+    interview_id: context.interviewId ?? null,
+    kind: usage.kind,
+    quantity: usage.quantity,
+    metadata: usage.metadata ?? null,
+    idempotency_key: usage.idempotencyKey ?? null,
+  });
+  if (!isNew) {
+    return;
+  }
+
+  const organization = await ClientService.getOrganization(
+    context.organizationId,
+  );
+  if (!organization) {
+    return;
+  }
+
+  const plan = getPlan(organization);
+  if (plan === "pro") {
+    try {
+      await getBillingProvider()?.reportUsage({
+        organizationId: organization.id,
+        customerId: organization.billing_customer_id,
+        kind: usage.kind,
+        quantity: usage.quantity,
+        idempotencyKey: usage.idempotencyKey ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to report ${usage.kind} usage for ${organization.id}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  } else if (plan === "free") {
+    const { totals } = await getTotals(organization);
+    if (getExceededLimit(getPlanLimits(organization), totals)) {
+      await endFreeTrial(organization);
+    }
+  }
+};
+
+// Run before a call starts. Usage recorded afterwards, such as the call's
+// minutes and analysis tokens, can take an organization past a limit; the
+// next call is then refused.
+export const checkQuota = async (
+  organizationId: string | null,
+): Promise<QuotaCheck> => {
+  if (!organizationId) {
+    return { allowed: true };
+  }
+  const organization = await ClientService.getOrganization(organizationId);
+  if (!organization) {
+    return { allowed: true };
+  }
+  if (getPlan(organization) === "free_trial_over") {
+    return { allowed: false, kind: "plan" };
+  }
+
+  const { totals } = await getTotals(organization);
+  const exceeded = getExceededLimit(getPlanLimits(organization), totals);
+  if (!exceeded) {
+    return { allowed: true };
+  }
+  if (getPlan(organization) === "free") {
+    await endFreeTrial(organization);
+  }
+
+  return { allowed: false, kind: exceeded };
+};
+
+export const getUsageSummary = async (
+  organization: Organization,
+): Promise<UsageSummary> => {
+  const { rows, totals } = await getTotals(organization);
+
+  const byInterview = new Map<string | null, InterviewUsage>();
+  rows.forEach((row) => {
+    const usage = byInterview.get(row.interview_id) ?? {
+      interview_id: row.interview_id,
+      name: "",
+      ...EMPTY_USAGE,
+    };
+    usage[row.kind] += row.quantity;
+    byInterview.set(row.interview_id, usage);
+  });
+
+  const interviews = await InterviewService.getInterviewNamesByIds(
+    Array.from(byInterview.keys()).filter((id): id is string => !!id),
+  );
+  const names = new Map(
+    interviews.map((interview) => [interview.id, interview.name]),
+  );
+
+  return {
+    plan: getPlan(organization),
+    limits: getPlanLimits(organization),
+    period_start: getUsagePeriodStart(organization).toISOString(),
+    totals,
+    interviews: Array.from(byInterview.values()).map((usage) => ({
+      ...usage,
+      name: usage.interview_id
+        ? (names.get(usage.interview_id) ?? "Deleted interview")
+        : "Not tied to an interview",
+    })),
+    billing_provider: getBillingProvider()?.name ?? null,
+  };
+};
+
+export const applyBillingEvent = async (event: BillingEvent) => {
+  await ClientService.updateOrganization(
+    {
+      plan: event.plan,
+      billing_customer_id: event.customerId,
+      billing_subscription_id: event.subscriptionId,
+    },
+    event.organizationId,
+  );
+  logger.info(`Organization ${event.organizationId} moved to ${event.plan}`);
+};
+
+export * from "@/lib/billing/types";
@@ -0,0 +1,56 @@
+import { Organization } from "@/types/organization";
+import { BillingPlan, PlanLimits, UsageTotals } from "@/types/billing";
+
+export const DEFAULT_FREE_RESPONSES = 10;
+
+export const PLAN_LIMITS: Record<BillingPlan, PlanLimits> = {
+  free: {
+    response: DEFAULT_FREE_RESPONSES,
+    call_minutes: 150,
+    llm_tokens: 2_000_000,
+  },
+  pro: { response: null, call_minutes: null, llm_tokens: null },
+  free_trial_over: { response: 0, call_minutes: 0, llm_tokens: 0 },
+};
+
+export const EMPTY_USAGE: UsageTotals = {
+  response: 0,
+  call_minutes: 0,
+  llm_tokens: 0,
+};
+
+// Organizations created before plans had a default are on the free plan
+export const getPlan = (organization: Pick<Organization, "plan">) =>
+  organization.plan ?? "free";
+
+// allowed_responses_count lets a free organization be given more responses
+export const getPlanLimits = (
+  organization: Pick<Organization, "plan" | "allowed_responses_count">,
+): PlanLimits => {
+  const plan = getPlan(organization);
+  if (plan === "free" && organization.allowed_responses_count) {
+    return {
+      ...PLAN_LIMITS.free,
+      response: organization.allowed_responses_count,
+    };
+  }
+
+  return PLAN_LIMITS[plan];
+};
+
+// The free plan is a one-off trial, so its usage is counted from the start.
+// Paid plans are billed monthly.
+export const getUsagePeriodStart = (
+  organization: Pick<Organization, "plan" | "created_at">,
+  now = new Date(),
+) =>
+  getPlan(organization) === "pro"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+    : new Date(organization.created_at ?? 0);
+
+export const getExceededLimit = (limits: PlanLimits, totals: UsageTotals) =>
+  (Object.keys(limits) as (keyof PlanLimits)[]).find((kind) => {
+    const limit = limits[kind];
+
+    return limit !== null && totals[kind] >= limit;
+  }) ?? null;
@@ -0,0 +1,41 @@
+import { logger } from "@/lib/logger";
+import { BillingError, BillingProvider } from "@/lib/billing/types";
+import { BillingPlan } from "@/types/billing";
+
+const PLANS: BillingPlan[] = ["free", "pro"];
+
+// Stands in for a real provider during development. Checkout goes straight to
+// /api/billing/mock-checkout, which applies the plan, and usage reports are
+// only logged. Webhooks can be replayed by hand with BILLING_WEBHOOK_SECRET.
+export const createMockBillingProvider = (): BillingProvider => ({
+  name: "mock",
+  createCheckoutSession: async ({ plan }) => ({
+    url: `/api/billing/mock-checkout?plan=${plan}`,
+  }),
+  reportUsage: async (report) => {
+    logger.info(
+      `Mock billing: ${report.quantity} ${report.kind} for ${report.organizationId}`,
+    );
+  },
+  parseWebhook: async (req) => {
+    const secret = process.env.BILLING_WEBHOOK_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+      throw new BillingError("Invalid signature", 401);
+    }
+
+    const body = await req.json();
+    if (
+      typeof body?.organization_id !== "string" ||
+      !PLANS.includes(body?.plan)
+    ) {
+      return null;
+    }
+
+    return {
+      organizationId: body.organization_id,
+      plan: body.plan,
+      customerId: body.customer_id ?? `mock_${body.organization_id}`,
+      subscriptionId: body.subscription_id ?? null,
+    };
+  },
+});
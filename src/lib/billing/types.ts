@@ -0,0 +1,46 @@
+import { BillingPlan, UsageKind } from "@/types/billing";
+
+export type BillingProviderName = "mock";
+
+export interface CheckoutSession {
+  url: string;
+}
+
+// What a provider webhook means for an organization's plan
+export interface BillingEvent {
+  organizationId: string;
+  plan: BillingPlan;
+  customerId: string | null;
+  subscriptionId: string | null;
+}
+
+export interface UsageReport {
+  organizationId: string;
+  customerId: string | null;
+  kind: UsageKind;
+  quantity: number;
+  idempotencyKey: string | null;
+}
+
+export interface BillingProvider {
+  name: BillingProviderName;
+  createCheckoutSession: (input: {
+    organizationId: string;
+    plan: BillingPlan;
+    returnUrl: string;
+  }) => Promise<CheckoutSession>;
+  // Metered usage on paid plans, so the provider can invoice it
+  reportUsage: (report: UsageReport) => Promise<void>;
+  // Returns null for deliveries that are not about a plan change
+  parseWebhook: (req: Request) => Promise<BillingEvent | null>;
+}
+
+export class BillingError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "BillingError";
+    this.status = status;
+  }
+}
@@ -1,21 +1,13 @@
-export const RETELL_AGENT_GENERAL_PROMPT = `You are an interviewer who is an expert in asking follow up questions to uncover deeper insights. You have to keep the interview for {{mins}} or short. 
+// The interview specific instructions are rendered per interview and passed
+// in as {{interview_prompt}} (see lib/interview-prompt.ts)
+export const RETELL_AGENT_GENERAL_PROMPT = `You are an interviewer who is an expert in asking follow up questions to uncover deeper insights.
 
-The name of the person you are interviewing is {{name}}. 
+The name of the person you are interviewing is {{name}}.
 
-The interview objective is {{objective}}.
+{{interview_prompt}}`;
 
-These are some of the questions you can ask.
-{{questions}}
-
-Once you ask a question, make sure you ask a follow up question on it.
-
-Follow the guidlines below when conversing.
-- Follow a professional yet friendly tone.
-- Ask precise and open-ended questions
-- The question word count should be 30 words or less
-- Make sure you do not repeat any of the questions.
-- Do not talk about anything not related to the objective and the given questions.
-- If the name is given, use it in the conversation.`;
+export const MIN_COMPARED_CANDIDATES = 2;
+export const MAX_COMPARED_CANDIDATES = 5;
 
 export const INTERVIEWERS = {
   LISA: {
@@ -28,6 +20,7 @@ export const INTERVIEWERS = {
     description:
       "Hi! I'm Lisa, an enthusiastic and empathetic interviewer who loves to explore. With a perfect balance of empathy and rapport, I delve deep into conversations while maintaining a steady pace. Let's embark on this journey together and uncover meaningful insights!",
     audio: "Lisa.wav",
+    voice_id: "11labs-Chloe",
   },
   BOB: {
     name: "Empathetic Bob",
@@ -39,5 +32,6 @@ export const INTERVIEWERS = {
     description:
       "Hi! I'm Bob, your go-to empathetic interviewer. I excel at understanding and connecting with people on a deeper level, ensuring every conversation is insightful and meaningful. With a focus on empathy, I'm here to listen and learn from you. Let's create a genuine connection!",
     audio: "Bob.wav",
+    voice_id: "11labs-Brian",
   },
 };
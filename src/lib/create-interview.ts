@@ -0,0 +1,28 @@
+import { nanoid } from "nanoid";
+import { InterviewService } from "@/services/interviews.service";
+import { Interview } from "@/types/interview";
+
+const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
+
+const toSlug = (value: string) => value.toLowerCase().replace(/\s/g, "-");
+
+// Gives the interview its public id, link and, inside an organization, a
+// readable slug such as "acme-frontend-engineer"
+export const insertInterview = async (
+  payload: Record<string, any>,
+  organizationName?: string | null,
+) => {
+  const url_id = nanoid();
+  const readableSlug = organizationName
+    ? `${toSlug(organizationName)}-${toSlug(payload.name || "")}`
+    : null;
+
+  const interview: Interview | null = await InterviewService.createInterview({
+    ...payload,
+    url: `${base_url}/call/${url_id}`,
+    id: url_id,
+    readable_slug: readableSlug,
+  });
+
+  return interview;
+};
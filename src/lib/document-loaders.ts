@@ -0,0 +1,21 @@
+import { PDFLoader } from "langchain/document_loaders/fs/pdf";
+import { DocxLoader } from "langchain/document_loaders/fs/docx";
+import { TextLoader } from "langchain/document_loaders/fs/text";
+import { InterviewDocumentFileKind } from "@/types/interview";
+
+// Flattens an uploaded file to plain text with the LangChain loader for its
+// kind. URLs are fetched by the caller and passed in as files.
+export const loadFileText = async (
+  file: Blob,
+  kind: InterviewDocumentFileKind,
+) => {
+  const loader =
+    kind === "pdf"
+      ? new PDFLoader(file)
+      : kind === "docx"
+        ? new DocxLoader(file)
+        : new TextLoader(file);
+  const docs = await loader.load();
+
+  return docs.map((doc) => doc.pageContent).join("\n");
+};
@@ -0,0 +1,45 @@
+import { EmailTransportName } from "@/lib/email/types";
+
+const TRANSPORTS: EmailTransportName[] = ["smtp", "file", "console"];
+
+export interface EmailConfig {
+  transport: EmailTransportName;
+  from: string;
+  smtp: {
+    host?: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+  };
+  file: {
+    outputDir: string;
+  };
+}
+
+export const getEmailConfig = (): EmailConfig => {
+  const transport = (process.env.EMAIL_TRANSPORT ||
+    "console") as EmailTransportName;
+  if (!TRANSPORTS.includes(transport)) {
+    throw new Error(`Unsupported EMAIL_TRANSPORT "${transport}"`);
+  }
+  const port = Number(process.env.SMTP_PORT ?? 587);
+
+  return {
+    transport,
+    from: process.env.EMAIL_FROM || "FoloUp <no-reply@folo-up.co>",
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port,
+      // Port 465 speaks TLS from the start, others upgrade with STARTTLS
+      secure: process.env.SMTP_SECURE
+        ? process.env.SMTP_SECURE === "true"
+        : port === 465,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+    file: {
+      outputDir: process.env.EMAIL_OUTPUT_DIR || ".emails",
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { getEmailConfig } from "@/lib/email/config";
+import { createSMTPTransport } from "@/lib/email/transports/smtp";
+import { createFileTransport } from "@/lib/email/transports/file";
+import { createConsoleTransport } from "@/lib/email/transports/console";
+import { EmailMessage, EmailTransport } from "@/lib/email/types";
+
+let cachedTransport: EmailTransport | undefined;
+
+const getTransport = () => {
+  const config = getEmailConfig();
+  if (cachedTransport?.name !== config.transport) {
+    cachedTransport =
+      config.transport === "smtp"
+        ? createSMTPTransport(config)
+        : config.transport === "file"
+          ? createFileTransport(config)
+          : createConsoleTransport();
+  }
+
+  return { transport: cachedTransport, from: config.from };
+};
+
+export const sendEmail = async (message: EmailMessage) => {
+  const { transport, from } = getTransport();
+
+  await transport.send({ ...message, from });
+};
@@ -0,0 +1,210 @@
+import { Interview } from "@/types/interview";
+import { Invitation } from "@/types/invitation";
+import { Response } from "@/types/response";
+import { isHexColor, isLightColor } from "@/lib/utils";
+
+const DEFAULT_THEME_COLOR = "#4F46E5";
+
+type Branding = Pick<Interview, "theme_color" | "logo_url">;
+
+type EmailContent = {
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnote?: string;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "UTC",
+  }) + " UTC";
+
+// Table layout and inline styles, since many mail clients ignore <style>
+const renderLayout = (
+  branding: Branding | null,
+  content: EmailContent,
+): Omit<RenderedEmail, "subject"> => {
+  const color = escapeHtml(
+    isHexColor(branding?.theme_color)
+      ? branding.theme_color
+      : DEFAULT_THEME_COLOR,
+  );
+  const buttonTextColor = isLightColor(color) ? "#000000" : "#FFFFFF";
+  const logo = branding?.logo_url
+    ? `<img src="${escapeHtml(branding.logo_url)}" alt="Logo" height="40" style="display:block;margin:0 auto 16px;height:40px;width:auto;" />`
+    : "";
+  const paragraphs = content.paragraphs
+    .map(
+      (paragraph) =>
+        `<p style="margin:0 0 16px;font-size:15px;line-height:1.5;color:#374151;">${escapeHtml(paragraph).replace(/\n/g, "<br />")}</p>`,
+    )
+    .join("");
+  const action = content.action
+    ? `<p style="margin:24px 0;text-align:center;"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:12px 24px;border-radius:8px;background:${color};color:${buttonTextColor};font-weight:600;text-decoration:none;">${escapeHtml(content.action.label)}</a></p>`
+    : "";
+  const footnote = content.footnote
+    ? `<p style="margin:0;font-size:12px;color:#6B7280;">${escapeHtml(content.footnote)}</p>`
+    : "";
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#F3F4F6;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;background:#FFFFFF;border-radius:12px;overflow:hidden;">
+            <tr><td style="height:6px;background:${color};"></td></tr>
+            <tr>
+              <td style="padding:32px;">
+                ${logo}
+                <h1 style="margin:0 0 20px;font-size:20px;color:#111827;">${escapeHtml(content.heading)}</h1>
+                ${paragraphs}
+                ${action}
+                ${footnote}
+              </td>
+            </tr>
+          </table>
+          <p style="margin:16px 0 0;font-size:12px;color:#9CA3AF;">Powered by FoloUp</p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  const text = [
+    content.heading,
+    ...content.paragraphs,
+    content.action ? `${content.action.label}: ${content.action.url}` : "",
+    content.footnote || "",
+  ]
+    .filter((line) => line.length > 0)
+    .join("\n\n");
+
+  return { html, text };
+};
+
+const greeting = (name: string | null) => (name ? `Hi ${name},` : "Hi,");
+
+export const renderInvitationEmail = (
+  interview: Interview,
+  invitation: Invitation,
+  link: string,
+): RenderedEmail => ({
+  subject: `You're invited to interview: ${interview.name}`,
+  ...renderLayout(interview, {
+    heading: interview.name,
+    paragraphs: [
+      greeting(invitation.name),
+      `You have been invited to a short voice interview with an AI interviewer. It takes about ${interview.time_duration} minutes and can be done from any computer with a microphone.`,
+      ...(interview.description ? [interview.description] : []),
+    ],
+    action: { label: "Start Interview", url: link },
+    footnote: `This link is personal to you and expires on ${formatDate(invitation.expires_at)}.`,
+  }),
+});
+
+export const renderReminderEmail = (
+  interview: Interview,
+  invitation: Invitation,
+  link: string,
+): RenderedEmail => ({
+  subject: `Reminder: your interview for ${interview.name}`,
+  ...renderLayout(interview, {
+    heading: interview.name,
+    paragraphs: [
+      greeting(invitation.name),
+      `This is a friendly reminder that you have not started your interview yet. It takes about ${interview.time_duration} minutes.`,
+    ],
+    action: { label: "Start Interview", url: link },
+    footnote: `Your link expires on ${formatDate(invitation.expires_at)}.`,
+  }),
+});
+
+export const renderReceiptEmail = (
+  interview: Interview,
+  name: string | null,
+): RenderedEmail => ({
+  subject: `We received your interview: ${interview.name}`,
+  ...renderLayout(interview, {
+    heading: "Thanks, we received your interview",
+    paragraphs: [
+      greeting(name),
+      `Thank you for completing the interview for ${interview.name}. Your responses have been submitted and the team will be in touch about next steps.`,
+    ],
+  }),
+});
+
+export type DigestSection = {
+  interview: Interview;
+  responses: Response[];
+  link: string;
+};
+
+export const renderDigestEmail = (sections: DigestSection[]): RenderedEmail => {
+  const total = sections.reduce(
+    (sum, section) => sum + section.responses.length,
+    0,
+  );
+  const paragraphs = sections.map((section) =>
+    [
+      `${section.interview.name} (${section.responses.length} new):`,
+      ...section.responses.map(
+        (response) =>
+          `• ${response.name || "Anonymous"}${
+            response.analytics?.overallScore !== undefined
+              ? ` scored ${response.analytics.overallScore}/100`
+              : ""
+          }`,
+      ),
+      section.link,
+    ].join("\n"),
+  );
+
+  return {
+    subject: `${total} new interview ${total === 1 ? "response" : "responses"}`,
+    ...renderLayout(null, {
+      heading: "New interview responses",
+      paragraphs: [
+        `You have ${total} new ${total === 1 ? "response" : "responses"} since your last digest.`,
+        ...paragraphs,
+      ],
+      footnote:
+        "You are receiving this because response digests are turned on for these interviews.",
+    }),
+  };
+};
+
+// Leaves the candidate out, since the email goes to a teammate's inbox
+// regardless of whether their role can see candidate details
+export const renderMentionEmail = (
+  interview: Interview,
+  authorName: string,
+  comment: string,
+  link: string,
+): RenderedEmail => ({
+  subject: `${authorName} mentioned you on ${interview.name}`,
+  ...renderLayout(null, {
+    heading: "You were mentioned in a review",
+    paragraphs: [
+      `${authorName} mentioned you in a comment on a response to ${interview.name}:`,
+      comment,
+    ],
+    action: { label: "View Response", url: link },
+  }),
+});
@@ -0,0 +1,12 @@
+import { EmailTransport } from "@/lib/email/types";
+import { logger } from "@/lib/logger";
+
+export const createConsoleTransport = (): EmailTransport => ({
+  name: "console",
+  send: async (message) => {
+    logger.info(
+      `Email to ${message.to}: ${message.subject}`,
+      `\n${message.text}`,
+    );
+  },
+});
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { EmailConfig } from "@/lib/email/config";
+import { EmailTransport } from "@/lib/email/types";
+import { logger } from "@/lib/logger";
+
+// Writes each email as an .eml file that any mail client can open, for
+// checking templates locally without an SMTP server
+export const createFileTransport = (config: EmailConfig): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+  });
+
+  return {
+    name: "file",
+    send: async (message) => {
+      const { message: eml } = await transporter.sendMail(message);
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]+/gi, "_")}.eml`;
+      const filePath = path.join(config.file.outputDir, fileName);
+
+      await mkdir(config.file.outputDir, { recursive: true });
+      await writeFile(filePath, eml as Buffer);
+      logger.info(`Email "${message.subject}" written to ${filePath}`);
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import nodemailer from "nodemailer";
+import { EmailConfig } from "@/lib/email/config";
+import { EmailTransport } from "@/lib/email/types";
+
+export const createSMTPTransport = (config: EmailConfig): EmailTransport => {
+  if (!config.smtp.host) {
+    throw new Error("SMTP_HOST is required for the smtp email transport");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.smtp.host,
+    port: config.smtp.port,
+    secure: config.smtp.secure,
+    auth: config.smtp.user
+      ? { user: config.smtp.user, pass: config.smtp.password }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+};
@@ -0,0 +1,14 @@
+export type EmailTransportName = "smtp" | "file" | "console";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send: (message: EmailMessage & { from: string }) => Promise<void>;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { normalizeInterviewData } from "@/lib/interview-data";
+
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+
+const competency = {
+  id: "competency_1",
+  name: " System design ",
+  description: "Designs for scale",
+  weight: 3,
+  must_have: true,
+  levels: ["", "Basic", "", "", "Expert"],
+};
+
+describe("normalizeInterviewData", () => {
+  it("keeps only the fields the dashboard may set", () => {
+    expect(
+      normalizeInterviewData({
+        name: "Frontend engineer",
+        is_anonymous: true,
+        user_id: "user_other",
+        organization_id: "org_other",
+        url: "https://example.com",
+        is_active: false,
+        insights: ["planted"],
+      }),
+    ).toEqual({
+      interviewData: { name: "Frontend engineer", is_anonymous: true },
+    });
+  });
+
+  it("normalises the schedule", () => {
+    expect(
+      normalizeInterviewData({
+        opens_at: "2026-01-01T09:00:00Z",
+        max_responses: "20",
+        availability: {
+          timezone: "Europe/Berlin",
+          windows: [{ days: [3, 1, 1], start: "09:00", end: "17:00" }],
+        },
+      }),
+    ).toEqual({
+      interviewData: {
+        opens_at: "2026-01-01T09:00:00.000Z",
+        closes_at: null,
+        max_responses: 20,
+        availability: {
+          timezone: "Europe/Berlin",
+          windows: [{ days: [1, 3], start: "09:00", end: "17:00" }],
+        },
+      },
+    });
+  });
+
+  it.each([
+    [{ max_responses: 0 }, /response limit/],
+    [
+      { opens_at: "2026-02-01T00:00:00Z", closes_at: "2026-01-01T00:00:00Z" },
+      /after the open date/,
+    ],
+    [{ availability: { timezone: "UTC", windows: "always" } }, /windows/],
+    [
+      {
+        availability: {
+          timezone: "Not/AZone",
+          windows: [{ days: [1], start: "09:00", end: "17:00" }],
+        },
+      },
+      /Unknown timezone/,
+    ],
+    [
+      {
+        availability: {
+          timezone: "UTC",
+          windows: [{ days: "weekdays", start: "09:00", end: "17:00" }],
+        },
+      },
+      /at least one day/,
+    ],
+  ])("refuses the schedule %j", (data, error) => {
+    expect(normalizeInterviewData(data)).toEqual({
+      error: expect.stringMatching(error),
+    });
+  });
+
+  it("normalises the rubric", () => {
+    const result = normalizeInterviewData({
+      rubric: [
+        { ...competency, extra: "dropped" },
+        { ...competency, id: undefined, name: "  " },
+        "not a competency",
+      ],
+    });
+
+    expect(result).toEqual({
+      interviewData: {
+        rubric: [
+          {
+            ...competency,
+            name: "System design",
+            levels: ["", "Basic", "", "", "Expert"],
+          },
+        ],
+      },
+    });
+  });
+
+  it.each([
+    [{ rubric: "System design" }, /list of competencies/],
+    [{ rubric: [{ ...competency, weight: 0 }] }, /weights/],
+    [{ rubric: [{ ...competency, weight: 1.5 }] }, /weights/],
+    [{ rubric: Array(9).fill(competency) }, /at most 8/],
+  ])("refuses the rubric %j", (data, error) => {
+    expect(normalizeInterviewData(data)).toEqual({
+      error: expect.stringMatching(error),
+    });
+  });
+
+  it("keeps a hex theme colour", () => {
+    expect(normalizeInterviewData({ theme_color: "#4f46e5" })).toEqual({
+      interviewData: { theme_color: "#4f46e5" },
+    });
+  });
+
+  it.each(["red", "#FFF", '#000000;"><script>alert(1)</script>', 42])(
+    "refuses the theme colour %j",
+    (theme_color) => {
+      expect(normalizeInterviewData({ theme_color })).toEqual({
+        error: expect.stringMatching(/hex colour/),
+      });
+    },
+  );
+});
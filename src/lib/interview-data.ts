@@ -0,0 +1,75 @@
+import { normalizeInterviewDocuments } from "@/lib/interview-documents";
+import {
+  InterviewSchedule,
+  normalizeInterviewSchedule,
+} from "@/lib/interview-schedule";
+import { normalizeRubric } from "@/lib/rubric";
+import { isHexColor } from "@/lib/utils";
+
+// The fields the dashboard sets when it creates or edits an interview.
+// Ownership, links, status and analysis results are only set by the server.
+const EDITABLE_FIELDS = [
+  "name",
+  "objective",
+  "description",
+  "interviewer_id",
+  "question_count",
+  "time_duration",
+  "is_anonymous",
+  "accepts_resume",
+  "send_digest",
+  "questions",
+  "logo_url",
+  "theme_color",
+];
+
+// Saved as a whole, so a missing field clears that part of the schedule
+const SCHEDULE_FIELDS = [
+  "opens_at",
+  "closes_at",
+  "availability",
+  "max_responses",
+];
+
+// Picks the editable fields out of a request and validates the schedule and
+// rubric the same way the dashboard does before it sends them
+export const normalizeInterviewData = (
+  data: unknown,
+): { interviewData: Record<string, unknown> } | { error: string } => {
+  const input: Record<string, any> =
+    data && typeof data === "object" ? data : {};
+  const interviewData: Record<string, unknown> = {};
+  EDITABLE_FIELDS.filter((field) => input[field] !== undefined).forEach(
+    (field) => {
+      interviewData[field] = input[field];
+    },
+  );
+
+  // Used in candidate emails and the call page, so anything but a colour is
+  // refused
+  if (input.theme_color != null && !isHexColor(input.theme_color)) {
+    return { error: "The theme colour must be a hex colour such as #4F46E5" };
+  }
+
+  if (SCHEDULE_FIELDS.some((field) => input[field] !== undefined)) {
+    const result = normalizeInterviewSchedule(
+      input as Partial<InterviewSchedule>,
+    );
+    if ("error" in result) {
+      return result;
+    }
+    Object.assign(interviewData, result.schedule);
+  }
+  if (input.rubric !== undefined) {
+    const result = normalizeRubric(input.rubric);
+    if ("error" in result) {
+      return result;
+    }
+    interviewData.rubric = result.rubric;
+  }
+  if (input.documents !== undefined) {
+    interviewData.documents = normalizeInterviewDocuments(input.documents);
+  }
+
+  return { interviewData };
+};
@@ -0,0 +1,66 @@
+import {
+  InterviewDocument,
+  InterviewDocumentFileKind,
+} from "@/types/interview";
+
+export const MAX_INTERVIEW_DOCUMENTS = 5;
+export const MAX_DOCUMENT_FILE_SIZE = 10 * 1024 * 1024;
+// Characters of context kept per document. Longer documents are summarised
+// down to this, so five documents stay well inside a model's context window.
+export const DOCUMENT_CONTEXT_BUDGET = 8000;
+
+export const DOCUMENT_FILE_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    ".docx",
+  ],
+  "text/markdown": [".md", ".markdown"],
+  "text/plain": [".txt"],
+};
+
+export const getDocumentKind = (
+  fileName: string,
+): InterviewDocumentFileKind | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "pdf":
+      return "pdf";
+    case "docx":
+      return "docx";
+    case "md":
+    case "markdown":
+      return "markdown";
+    case "txt":
+      return "text";
+    default:
+      return null;
+  }
+};
+
+// Drops anything that did not come from parseDocument, such as entries from
+// an older client or a tampered request
+export const normalizeInterviewDocuments = (
+  value: unknown,
+): InterviewDocument[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(
+      (document) =>
+        typeof document?.id === "string" &&
+        typeof document?.name === "string" &&
+        typeof document?.content === "string" &&
+        document.content.trim().length > 0,
+    )
+    .slice(0, MAX_INTERVIEW_DOCUMENTS)
+    .map((document) => ({
+      id: document.id,
+      name: document.name,
+      kind: document.kind,
+      url: typeof document.url === "string" ? document.url : null,
+      content: document.content.slice(0, DOCUMENT_CONTEXT_BUDGET),
+      is_summarised: !!document.is_summarised,
+    }));
+
+export const buildDocumentContext = (documents: InterviewDocument[] = []) =>
+  documents
+    .map((document) => `### ${document.name}\n${document.content.trim()}`)
+    .join("\n\n");
@@ -0,0 +1,124 @@
+import { Interview } from "@/types/interview";
+import { InterviewTone, PromptSettings } from "@/types/interview-prompt";
+
+export const MAX_SCRIPT_LENGTH = 1000;
+export const MAX_FORBIDDEN_TOPICS = 20;
+export const MAX_FORBIDDEN_TOPIC_LENGTH = 100;
+
+export const INTERVIEW_TONES: Record<
+  InterviewTone,
+  { label: string; instruction: string }
+> = {
+  professional: {
+    label: "Professional",
+    instruction: "Follow a professional yet friendly tone.",
+  },
+  friendly: {
+    label: "Friendly",
+    instruction:
+      "Be warm and encouraging, and keep the conversation light while staying on topic.",
+  },
+  casual: {
+    label: "Casual",
+    instruction:
+      "Keep it relaxed and conversational, like a chat with a colleague. Plain language, no jargon.",
+  },
+  formal: {
+    label: "Formal",
+    instruction:
+      "Be formal and courteous. Address the candidate politely and avoid small talk and slang.",
+  },
+};
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  tone: "professional",
+  opening_script: "",
+  closing_script: "",
+  forbidden_topics: [],
+};
+
+const followUpInstruction = (count: number) =>
+  count <= 1
+    ? "ask up to 1 follow up question"
+    : `ask up to ${count} follow up questions`;
+
+// Settings come from the dashboard, so everything is trimmed and capped
+export const normalizePromptSettings = (
+  settings: Partial<PromptSettings> | undefined,
+): PromptSettings => ({
+  tone:
+    settings?.tone &&
+    Object.prototype.hasOwnProperty.call(INTERVIEW_TONES, settings.tone)
+      ? settings.tone
+      : DEFAULT_PROMPT_SETTINGS.tone,
+  opening_script: (settings?.opening_script || "")
+    .trim()
+    .slice(0, MAX_SCRIPT_LENGTH),
+  closing_script: (settings?.closing_script || "")
+    .trim()
+    .slice(0, MAX_SCRIPT_LENGTH),
+  forbidden_topics: Array.from(
+    new Set(
+      (settings?.forbidden_topics || [])
+        .map((topic) =>
+          String(topic).trim().slice(0, MAX_FORBIDDEN_TOPIC_LENGTH),
+        )
+        .filter((topic) => topic.length > 0),
+    ),
+  ).slice(0, MAX_FORBIDDEN_TOPICS),
+});
+
+// The interview specific part of the agent prompt. It is passed to the agent
+// as the {{interview_prompt}} dynamic variable, and the candidate's name is
+// passed separately so one rendered prompt serves every call.
+export const renderInterviewPrompt = (
+  interview: Pick<Interview, "objective" | "time_duration" | "questions">,
+  settings: PromptSettings,
+) => {
+  const questions = (interview.questions || [])
+    .filter((question) => question.question.trim().length > 0)
+    .map(
+      (question, index) =>
+        `${index + 1}. ${question.question.trim()} (${followUpInstruction(
+          question.follow_up_count || 1,
+        )})`,
+    );
+
+  const sections = [
+    `Keep the interview to ${interview.time_duration} minutes or shorter.`,
+    `The interview objective is: ${interview.objective}`,
+    settings.opening_script
+      ? `Open the interview with the following, in your own words:\n${settings.opening_script}`
+      : "Open the interview with a short greeting and tell the candidate what the interview is about.",
+    [
+      "Ask these questions in order. After each one, ask follow up questions about the answer, but no more than the number given for that question.",
+      ...questions,
+    ].join("\n"),
+    [
+      "Follow the guidelines below when conversing.",
+      `- ${INTERVIEW_TONES[settings.tone].instruction}`,
+      "- Ask precise and open-ended questions",
+      "- The question word count should be 30 words or less",
+      "- Make sure you do not repeat any of the questions.",
+      "- Do not talk about anything not related to the objective and the given questions.",
+      "- If the name is given, use it in the conversation.",
+    ].join("\n"),
+  ];
+
+  if (settings.forbidden_topics.length > 0) {
+    sections.push(
+      [
+        "Never bring up or discuss the following topics. If the candidate raises one, politely say you cannot discuss it and move on to the next question.",
+        ...settings.forbidden_topics.map((topic) => `- ${topic}`),
+      ].join("\n"),
+    );
+  }
+
+  sections.push(
+    settings.closing_script
+      ? `When the questions are covered or time is nearly up, close the interview with the following, in your own words:\n${settings.closing_script}`
+      : "When the questions are covered or time is nearly up, thank the candidate for their time and end the interview.",
+  );
+
+  return sections.join("\n\n");
+};
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from "vitest";
+import { getInterviewAvailabilityState } from "@/lib/interview-schedule";
+import { InterviewAvailability } from "@/types/interview";
+
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+
+type ScheduledInterview = Parameters<typeof getInterviewAvailabilityState>[0];
+
+const scheduled = (
+  overrides: Partial<ScheduledInterview> = {},
+): ScheduledInterview => ({
+  is_active: true,
+  opens_at: null,
+  closes_at: null,
+  availability: null,
+  max_responses: null,
+  closed_at: null,
+  closed_reason: null,
+  ...overrides,
+});
+
+const weekdays = (timezone: string): InterviewAvailability => ({
+  timezone,
+  windows: [{ days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" }],
+});
+
+const nextWindowAt = (interview: ScheduledInterview, now: string) => {
+  const state = getInterviewAvailabilityState(interview, 0, new Date(now));
+  expect(state.status).toBe("outside_window");
+
+  return "next_window_at" in state ? state.next_window_at : undefined;
+};
+
+describe("getInterviewAvailabilityState", () => {
+  describe("availability windows", () => {
+    const newYork = scheduled({ availability: weekdays("America/New_York") });
+
+    it("is open inside a window in the interview's timezone", () => {
+      // Monday 10:00 in New York
+      expect(
+        getInterviewAvailabilityState(
+          newYork,
+          0,
+          new Date("2026-10-19T14:00:00Z"),
+        ),
+      ).toEqual({ status: "open" });
+    });
+
+    it("opens at local time after the clocks go forward", () => {
+      // Saturday 20:00 EST; DST starts early on Sunday 8 March
+      expect(nextWindowAt(newYork, "2026-03-08T01:00:00Z")).toBe(
+        "2026-03-09T13:00:00.000Z",
+      );
+    });
+
+    it("opens at local time after the clocks go back", () => {
+      // Saturday 20:00 EDT; DST ends early on Sunday 1 November
+      expect(nextWindowAt(newYork, "2026-11-01T00:00:00Z")).toBe(
+        "2026-11-02T14:00:00.000Z",
+      );
+    });
+
+    it("wraps into next week when this week's windows have passed", () => {
+      const wednesdays = scheduled({
+        availability: {
+          timezone: "UTC",
+          windows: [{ days: [3], start: "09:00", end: "17:00" }],
+        },
+      });
+
+      // Wednesday 18:00, after that day's window
+      expect(nextWindowAt(wednesdays, "2026-10-14T18:00:00Z")).toBe(
+        "2026-10-21T09:00:00.000Z",
+      );
+    });
+
+    it("has no next window when it starts after the close date", () => {
+      const closing = scheduled({
+        availability: weekdays("UTC"),
+        closes_at: "2026-10-17T12:00:00.000Z",
+      });
+
+      // Friday 18:00; the next window is on Monday
+      expect(nextWindowAt(closing, "2026-10-16T18:00:00Z")).toBeNull();
+    });
+  });
+
+  describe("limits", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+
+    it("is not open before the open date", () => {
+      expect(
+        getInterviewAvailabilityState(
+          scheduled({ opens_at: "2026-10-20T00:00:00.000Z" }),
+          0,
+          now,
+        ),
+      ).toEqual({ status: "not_open", opens_at: "2026-10-20T00:00:00.000Z" });
+    });
+
+    it("is closed once the close date has passed", () => {
+      expect(
+        getInterviewAvailabilityState(
+          scheduled({ closes_at: "2026-10-18T00:00:00.000Z" }),
+          0,
+          now,
+        ),
+      ).toEqual({ status: "closed", closed_at: "2026-10-18T00:00:00.000Z" });
+    });
+
+    it("is full once it has as many responses as allowed", () => {
+      const limited = scheduled({ max_responses: 3 });
+
+      expect(getInterviewAvailabilityState(limited, 2, now)).toEqual({
+        status: "open",
+      });
+      expect(getInterviewAvailabilityState(limited, 3, now)).toEqual({
+        status: "full",
+      });
+    });
+
+    it("reports the close date of an interview closed on a later visit", () => {
+      expect(
+        getInterviewAvailabilityState(
+          scheduled({
+            is_active: false,
+            closes_at: "2026-10-10T00:00:00.000Z",
+            closed_at: "2026-10-12T08:00:00.000Z",
+            closed_reason: "schedule",
+          }),
+          0,
+          now,
+        ),
+      ).toEqual({ status: "closed", closed_at: "2026-10-10T00:00:00.000Z" });
+    });
+
+    it("keeps showing why an interview was closed until it is reopened", () => {
+      expect(
+        getInterviewAvailabilityState(
+          scheduled({ is_active: false, closed_reason: "response_limit" }),
+          0,
+          now,
+        ),
+      ).toEqual({ status: "full" });
+      expect(
+        getInterviewAvailabilityState(scheduled({ is_active: false }), 0, now),
+      ).toEqual({ status: "inactive" });
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import { InterviewService } from "@/services/interviews.service";
+import { ResponseService } from "@/services/responses.service";
+import {
+  AvailabilityWindow,
+  Interview,
+  InterviewAvailability,
+  InterviewAvailabilityState,
+  InterviewClosedReason,
+} from "@/types/interview";
+
+export const MAX_AVAILABILITY_WINDOWS = 7;
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type ScheduledInterview = Pick<
+  Interview,
+  | "is_active"
+  | "opens_at"
+  | "closes_at"
+  | "availability"
+  | "max_responses"
+  | "closed_at"
+  | "closed_reason"
+>;
+
+export type InterviewSchedule = Pick<
+  Interview,
+  "opens_at" | "closes_at" | "availability" | "max_responses"
+>;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+
+  return hours * 60 + minutes;
+};
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The weekday and minutes since midnight of an instant in a timezone
+const getLocalTime = (date: Date, timezone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+
+  return {
+    day: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    year: Number(parts.year),
+    month: Number(parts.month),
+    date: Number(parts.day),
+  };
+};
+
+// The instant at which the clock in a timezone reads the given local time.
+// The offset is measured twice so a DST change between guess and answer is
+// picked up.
+const fromLocalTime = (
+  local: { year: number; month: number; date: number; minutes: number },
+  timezone: string,
+) => {
+  const target = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.date,
+    0,
+    local.minutes,
+  );
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const shown = getLocalTime(new Date(instant), timezone);
+    const shownUtc = Date.UTC(
+      shown.year,
+      shown.month - 1,
+      shown.date,
+      0,
+      shown.minutes,
+    );
+    instant += target - shownUtc;
+  }
+
+  return new Date(instant);
+};
+
+const isWithinWindows = (date: Date, availability: InterviewAvailability) => {
+  const local = getLocalTime(date, availability.timezone);
+
+  return availability.windows.some(
+    (window) =>
+      window.days.includes(local.day) &&
+      local.minutes >= toMinutes(window.start) &&
+      local.minutes < toMinutes(window.end),
+  );
+};
+
+// Looks a week ahead, which always reaches the next window if there is one
+const getNextWindowStart = (
+  date: Date,
+  availability: InterviewAvailability,
+) => {
+  const today = getLocalTime(date, availability.timezone);
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(
+      Date.UTC(today.year, today.month - 1, today.date + offset),
+    );
+    const starts = availability.windows
+      .filter((window) => window.days.includes((today.day + offset) % 7))
+      .map((window) =>
+        fromLocalTime(
+          {
+            year: day.getUTCFullYear(),
+            month: day.getUTCMonth() + 1,
+            date: day.getUTCDate(),
+            minutes: toMinutes(window.start),
+          },
+          availability.timezone,
+        ),
+      )
+      .filter((start) => start > date)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (starts.length > 0) {
+      return starts[0];
+    }
+  }
+
+  return null;
+};
+
+// The limit that should deactivate the interview, if one has been reached
+export const getReachedLimit = (
+  interview: ScheduledInterview,
+  responseCount: number,
+  now = new Date(),
+): InterviewClosedReason | null => {
+  if (interview.closes_at && new Date(interview.closes_at) <= now) {
+    return "schedule";
+  }
+  if (interview.max_responses && responseCount >= interview.max_responses) {
+    return "response_limit";
+  }
+
+  return null;
+};
+
+export const getInterviewAvailabilityState = (
+  interview: ScheduledInterview,
+  responseCount: number,
+  now = new Date(),
+): InterviewAvailabilityState => {
+  // An interview closed automatically keeps showing why until it is reopened
+  if (!interview.is_active) {
+    if (interview.closed_reason === "schedule") {
+      // Limits are enforced on the next visit, which can be well after the
+      // close date, so the earlier of the two is when it really closed
+      const dates = [interview.closes_at, interview.closed_at]
+        .filter((date): date is string => !!date)
+        .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+      return { status: "closed", closed_at: dates[0] || now.toISOString() };
+    }
+
+    return {
+      status:
+        interview.closed_reason === "response_limit" ? "full" : "inactive",
+    };
+  }
+
+  const reachedLimit = getReachedLimit(interview, responseCount, now);
+  if (reachedLimit === "schedule") {
+    return { status: "closed", closed_at: interview.closes_at as string };
+  }
+  if (reachedLimit === "response_limit") {
+    return { status: "full" };
+  }
+  if (interview.opens_at && new Date(interview.opens_at) > now) {
+    return { status: "not_open", opens_at: interview.opens_at };
+  }
+
+  const availability = interview.availability;
+  if (
+    availability &&
+    availability.windows.length > 0 &&
+    !isWithinWindows(now, availability)
+  ) {
+    const nextWindow = getNextWindowStart(now, availability);
+
+    return {
+      status: "outside_window",
+      timezone: availability.timezone,
+      windows: availability.windows,
+      // A window that starts after the close date never opens
+      next_window_at:
+        nextWindow &&
+        (!interview.closes_at || nextWindow < new Date(interview.closes_at))
+          ? nextWindow.toISOString()
+          : null,
+    };
+  }
+
+  return { status: "open" };
+};
+
+export const describeWindow = (window: AvailabilityWindow) =>
+  `${window.days.map((day) => WEEKDAYS[day]).join(", ")} ${window.start}-${window.end}`;
+
+// Settings come from the dashboard, so dates, times and limits are checked
+// here and anything malformed is reported back rather than saved. Run again on
+// the server, where the input is whatever the request contained.
+export const normalizeInterviewSchedule = (
+  schedule: Partial<InterviewSchedule>,
+): { schedule: InterviewSchedule } | { error: string } => {
+  const parseDate = (value: string | null | undefined) => {
+    if (!value) {
+      return null;
+    }
+    const date = new Date(value);
+
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+
+  const opensAt = parseDate(schedule.opens_at);
+  const closesAt = parseDate(schedule.closes_at);
+  if (opensAt === undefined || closesAt === undefined) {
+    return { error: "Open and close dates must be valid dates" };
+  }
+  if (opensAt && closesAt && closesAt <= opensAt) {
+    return { error: "The close date must be after the open date" };
+  }
+
+  const maxResponses =
+    schedule.max_responses === null || schedule.max_responses === undefined
+      ? null
+      : Number(schedule.max_responses);
+  if (
+    maxResponses !== null &&
+    (!Number.isInteger(maxResponses) || maxResponses < 1)
+  ) {
+    return { error: "The response limit must be a whole number above 0" };
+  }
+
+  let availability: InterviewAvailability | null = null;
+  if (schedule.availability && !Array.isArray(schedule.availability.windows)) {
+    return { error: "Availability must be a list of windows" };
+  }
+  if (schedule.availability && schedule.availability.windows.length > 0) {
+    const { timezone, windows } = schedule.availability;
+    if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return { error: `Unknown timezone ${timezone}` };
+    }
+    if (windows.length > MAX_AVAILABILITY_WINDOWS) {
+      return {
+        error: `Add at most ${MAX_AVAILABILITY_WINDOWS} availability windows`,
+      };
+    }
+    for (const window of windows) {
+      if (
+        typeof window?.start !== "string" ||
+        typeof window.end !== "string" ||
+        !TIME_PATTERN.test(window.start) ||
+        !TIME_PATTERN.test(window.end) ||
+        toMinutes(window.end) <= toMinutes(window.start)
+      ) {
+        return { error: "Each window must end after it starts" };
+      }
+      if (
+        !Array.isArray(window.days) ||
+        window.days.length === 0 ||
+        window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+      ) {
+        return { error: "Each window needs at least one day" };
+      }
+    }
+    availability = {
+      timezone,
+      windows: windows.map((window) => ({
+        days: Array.from(new Set(window.days)).sort((a, b) => a - b),
+        start: window.start,
+        end: window.end,
+      })),
+    };
+  }
+
+  return {
+    schedule: {
+      opens_at: opensAt,
+      closes_at: closesAt,
+      availability,
+      max_responses: maxResponses,
+    },
+  };
+};
+
+// Deactivates the interview once its close date passes or it has as many
+// responses as allowed. Run wherever candidates reach the interview, so no
+// scheduled job is needed. Returns the availability after any change.
+export const enforceInterviewLimits = async (
+  interview: ScheduledInterview & { id: string },
+  now = new Date(),
+) => {
+  const responseCount = interview.max_responses
+    ? await ResponseService.getResponseCount(interview.id)
+    : 0;
+  const reachedLimit = interview.is_active
+    ? getReachedLimit(interview, responseCount, now)
+    : null;
+
+  if (!reachedLimit) {
+    return getInterviewAvailabilityState(interview, responseCount, now);
+  }
+
+  const closed = {
+    is_active: false,
+    closed_at: now.toISOString(),
+    closed_reason: reachedLimit,
+  };
+  await InterviewService.updateInterview(closed, interview.id);
+
+  return getInterviewAvailabilityState(
+    { ...interview, ...closed },
+    responseCount,
+    now,
+  );
+};
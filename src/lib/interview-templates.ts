@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from "uuid";
+import { Interview, Question, RubricCompetency } from "@/types/interview";
+import {
+  BuiltInInterviewTemplate,
+  InterviewTemplateContent,
+} from "@/types/interview-template";
+
+const question = (text: string, followUpCount = 1): Question => ({
+  id: uuidv4(),
+  question: text,
+  follow_up_count: followUpCount,
+});
+
+const competency = (
+  name: string,
+  description: string,
+  weight = 1,
+  mustHave = false,
+): RubricCompetency => ({
+  id: uuidv4(),
+  name,
+  description,
+  weight,
+  must_have: mustHave,
+  levels: ["", "", "", "", ""],
+});
+
+export const BUILT_IN_INTERVIEW_TEMPLATES: BuiltInInterviewTemplate[] = [
+  {
+    key: "software-engineer",
+    name: "Software Engineer Screen",
+    description:
+      "A short conversation about your engineering experience, the projects you have worked on and how you approach technical problems.",
+    objective:
+      "Screen software engineering candidates for technical depth, hands-on project experience and problem-solving ability.",
+    questions: [
+      question(
+        "Tell me about a recent project you are proud of and the part you personally built.",
+        2,
+      ),
+      question(
+        "Describe a difficult bug or production issue you tracked down. How did you approach it?",
+        2,
+      ),
+      question(
+        "How do you decide between shipping quickly and investing in code quality?",
+      ),
+      question(
+        "Tell me about a time you disagreed with a technical decision on your team.",
+      ),
+    ],
+    question_count: 4,
+    time_duration: "10",
+    interviewer_id: null,
+    rubric: [
+      competency(
+        "Technical depth",
+        "Understands the tools and systems they worked with beyond the surface.",
+        2,
+        true,
+      ),
+      competency(
+        "Problem solving",
+        "Breaks problems down and reasons about trade-offs.",
+        2,
+      ),
+      competency("Collaboration", "Works through disagreement constructively."),
+    ],
+  },
+  {
+    key: "product-manager",
+    name: "Product Manager Screen",
+    description:
+      "A conversation about how you discover customer problems, prioritise work and ship products with your team.",
+    objective:
+      "Assess product managers on customer insight, prioritisation and cross-functional leadership.",
+    questions: [
+      question(
+        "Walk me through a product you shipped, from the problem to the launch.",
+        2,
+      ),
+      question(
+        "How do you decide what goes into the next release when everything seems important?",
+        2,
+      ),
+      question(
+        "Tell me about a time the data disagreed with what stakeholders wanted.",
+      ),
+    ],
+    question_count: 3,
+    time_duration: "10",
+    interviewer_id: null,
+    rubric: [
+      competency(
+        "Customer insight",
+        "Grounds decisions in real customer problems and evidence.",
+        2,
+        true,
+      ),
+      competency(
+        "Prioritisation",
+        "Makes clear trade-offs and explains the reasoning behind them.",
+        2,
+      ),
+      competency(
+        "Stakeholder management",
+        "Aligns engineering, design and business partners.",
+      ),
+    ],
+  },
+  {
+    key: "customer-support",
+    name: "Customer Support Representative",
+    description:
+      "A friendly conversation about how you help customers, handle difficult situations and work with your team.",
+    objective:
+      "Find support representatives with empathy, clear communication and calm handling of difficult customers.",
+    questions: [
+      question(
+        "Tell me about a time you turned an unhappy customer into a satisfied one.",
+        2,
+      ),
+      question("How do you handle a question you do not know the answer to?"),
+      question(
+        "How do you stay organised when many customers are waiting for a reply?",
+      ),
+    ],
+    question_count: 3,
+    time_duration: "5",
+    interviewer_id: null,
+    rubric: [
+      competency(
+        "Empathy",
+        "Recognises and responds to how the customer feels.",
+        2,
+        true,
+      ),
+      competency("Communication", "Explains things clearly and simply.", 2),
+      competency("Organisation", "Manages a busy queue without dropping work."),
+    ],
+  },
+  {
+    key: "sales-representative",
+    name: "Sales Representative",
+    description:
+      "A conversation about your sales experience, how you build relationships and how you close deals.",
+    objective:
+      "Evaluate sales candidates on prospecting, discovery, objection handling and results.",
+    questions: [
+      question("Tell me about the deal you are most proud of closing.", 2),
+      question(
+        "How do you find out what a prospect really needs in a first call?",
+        2,
+      ),
+      question(
+        "A prospect says your product is too expensive. What do you do?",
+      ),
+    ],
+    question_count: 3,
+    time_duration: "10",
+    interviewer_id: null,
+    rubric: [
+      competency(
+        "Discovery",
+        "Asks questions that uncover the customer's real needs.",
+        2,
+      ),
+      competency(
+        "Objection handling",
+        "Responds to pushback with substance rather than pressure.",
+        2,
+      ),
+      competency(
+        "Track record",
+        "Backs up claims with concrete results.",
+        1,
+        true,
+      ),
+    ],
+  },
+];
+
+// Ids are regenerated so interviews created from the same template never
+// share question or competency ids
+export const cloneTemplateContent = (
+  content: InterviewTemplateContent,
+): InterviewTemplateContent => ({
+  name: content.name,
+  description: content.description || "",
+  objective: content.objective || "",
+  questions: (content.questions || []).map((item) => ({
+    ...item,
+    id: uuidv4(),
+  })),
+  question_count: content.question_count || content.questions?.length || 0,
+  time_duration: content.time_duration || "",
+  interviewer_id: content.interviewer_id ?? null,
+  rubric: (content.rubric || []).map((item) => ({ ...item, id: uuidv4() })),
+});
+
+export const getTemplateContent = (
+  interview: Interview,
+): InterviewTemplateContent =>
+  cloneTemplateContent({
+    name: interview.name,
+    description: interview.description,
+    objective: interview.objective,
+    questions: interview.questions,
+    question_count: interview.question_count,
+    time_duration: interview.time_duration,
+    interviewer_id: interview.interviewer_id,
+    rubric: interview.rubric,
+  });
@@ -0,0 +1,222 @@
+import Retell from "retell-sdk";
+import { RETELL_AGENT_GENERAL_PROMPT } from "@/lib/constants";
+import { logger } from "@/lib/logger";
+import { InterviewerService } from "@/services/interviewers.service";
+import { Interviewer, InterviewerSettings } from "@/types/interviewer";
+
+const retellClient = new Retell({
+  apiKey: process.env.RETELL_API_KEY || "",
+});
+
+export const DEFAULT_INTERVIEWER_VOICE_ID = "11labs-Chloe";
+
+// Bump whenever RETELL_AGENT_GENERAL_PROMPT changes. Interviewers store the
+// version their Retell LLM was last written with; interviewers from before
+// interview prompts have none and their LLM prompt lacks {{interview_prompt}}.
+export const AGENT_PROMPT_VERSION = 2;
+
+type TraitInstructions = { low: string; medium: string; high: string };
+
+// Sliders are stored on a 0-10 scale
+const TRAIT_INSTRUCTIONS: Record<
+  keyof Omit<InterviewerSettings, "speed">,
+  TraitInstructions
+> = {
+  empathy: {
+    low: "- Stay neutral and matter-of-fact; do not comment on how the candidate feels.",
+    medium: "- Acknowledge the candidate's answers briefly before moving on.",
+    high: "- Be warm and validating. Acknowledge feelings and effort, and reassure the candidate if they seem nervous.",
+  },
+  rapport: {
+    low: "- Keep small talk to a minimum and get straight to the questions.",
+    medium:
+      "- Open with a short friendly greeting, then focus on the questions.",
+    high: "- Build a relaxed, conversational atmosphere. Refer back to what the candidate said earlier and react naturally to their answers.",
+  },
+  exploration: {
+    low: "- Ask at most one short follow up question per topic and cover every listed question.",
+    medium: "- Ask a follow up question when an answer is vague or incomplete.",
+    high: "- Dig deep. Ask for concrete examples, reasoning and outcomes, and keep following up until the answer is specific.",
+  },
+};
+
+const SPEED_INSTRUCTIONS: TraitInstructions = {
+  low: "- Take your time. Leave room for the candidate to think and never rush them.",
+  medium: "- Keep a steady, natural pace.",
+  high: "- Keep the conversation brisk. Keep your turns short and move on as soon as a question is answered.",
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const getLevel = (value: number): keyof TraitInstructions =>
+  value < 4 ? "low" : value < 8 ? "medium" : "high";
+
+export const buildInterviewerPrompt = (settings: InterviewerSettings) =>
+  [
+    RETELL_AGENT_GENERAL_PROMPT,
+    "",
+    "Your interviewing style:",
+    TRAIT_INSTRUCTIONS.empathy[getLevel(settings.empathy)],
+    TRAIT_INSTRUCTIONS.rapport[getLevel(settings.rapport)],
+    TRAIT_INSTRUCTIONS.exploration[getLevel(settings.exploration)],
+    SPEED_INSTRUCTIONS[getLevel(settings.speed)],
+  ].join("\n");
+
+// Speed drives how fast the agent talks and how quickly it takes its turn.
+// Empathetic interviewers let candidates finish and back-channel ("mm-hmm").
+export const getVoiceSettings = (settings: InterviewerSettings) => {
+  const speed = clamp(settings.speed, 0, 10) / 10;
+  const empathy = clamp(settings.empathy, 0, 10) / 10;
+
+  return {
+    voice_speed: Number((0.8 + speed * 0.4).toFixed(2)),
+    responsiveness: Number((0.4 + speed * 0.6).toFixed(2)),
+    interruption_sensitivity: Number((1 - empathy * 0.4).toFixed(2)),
+    enable_backchannel: settings.rapport >= 5 || settings.empathy >= 5,
+  };
+};
+
+export const normalizeInterviewerSettings = (
+  settings: InterviewerSettings,
+): InterviewerSettings => ({
+  empathy: Math.round(clamp(Number(settings.empathy) || 0, 0, 10)),
+  rapport: Math.round(clamp(Number(settings.rapport) || 0, 0, 10)),
+  exploration: Math.round(clamp(Number(settings.exploration) || 0, 0, 10)),
+  speed: Math.round(clamp(Number(settings.speed) || 0, 0, 10)),
+});
+
+const END_CALL_TOOL = {
+  type: "end_call" as const,
+  name: "end_call_1",
+  description:
+    "End the call if the user uses goodbye phrases such as 'bye,' 'goodbye,' or 'have a nice day.' ",
+};
+
+// Each interviewer gets its own LLM so its prompt can change independently.
+// If the agent cannot be created the LLM is removed again.
+export const provisionInterviewerAgent = async (
+  name: string,
+  voiceId: string,
+  settings: InterviewerSettings,
+) => {
+  const llm = await retellClient.llm.create({
+    model: "gpt-4o",
+    general_prompt: buildInterviewerPrompt(settings),
+    general_tools: [END_CALL_TOOL],
+  });
+
+  try {
+    const agent = await retellClient.agent.create({
+      response_engine: { llm_id: llm.llm_id, type: "retell-llm" },
+      voice_id: voiceId,
+      agent_name: name,
+      ...getVoiceSettings(settings),
+    });
+
+    return {
+      agent_id: agent.agent_id,
+      llm_id: llm.llm_id,
+      agent_prompt_version: AGENT_PROMPT_VERSION,
+    };
+  } catch (error) {
+    await retellClient.llm.delete(llm.llm_id).catch(() => undefined);
+    throw error;
+  }
+};
+
+// Writes the current agent prompt to the interviewer's Retell LLM. The
+// default interviewers created before each interviewer had its own LLM share
+// one without a stored id, so they get a new LLM instead of overwriting the
+// prompt of the other interviewer.
+export const syncInterviewerPrompt = async (
+  agentId: string,
+  llmId: string | null,
+  settings: InterviewerSettings,
+) => {
+  if (llmId) {
+    await retellClient.llm.update(llmId, {
+      general_prompt: buildInterviewerPrompt(settings),
+    });
+
+    return { llm_id: llmId, agent_prompt_version: AGENT_PROMPT_VERSION };
+  }
+
+  const llm = await retellClient.llm.create({
+    model: "gpt-4o",
+    general_prompt: buildInterviewerPrompt(settings),
+    general_tools: [END_CALL_TOOL],
+  });
+  try {
+    await retellClient.agent.update(agentId, {
+      response_engine: { llm_id: llm.llm_id, type: "retell-llm" },
+    });
+  } catch (error) {
+    await retellClient.llm.delete(llm.llm_id).catch(() => undefined);
+    throw error;
+  }
+
+  return { llm_id: llm.llm_id, agent_prompt_version: AGENT_PROMPT_VERSION };
+};
+
+export const updateInterviewerAgent = async (
+  agentId: string,
+  llmId: string | null,
+  name: string,
+  voiceId: string,
+  settings: InterviewerSettings,
+) => {
+  const synced = await syncInterviewerPrompt(agentId, llmId, settings);
+  await retellClient.agent.update(agentId, {
+    voice_id: voiceId,
+    agent_name: name,
+    ...getVoiceSettings(settings),
+  });
+
+  return synced;
+};
+
+// Brings an interviewer's prompt up to date the first time it takes a call
+// after a prompt change. Returns false when it could not be synced: the call
+// then runs with the old prompt, which ignores the interview prompt.
+export const ensureInterviewerPromptSynced = async (
+  interviewer: Interviewer,
+) => {
+  if ((interviewer.agent_prompt_version ?? 0) >= AGENT_PROMPT_VERSION) {
+    return true;
+  }
+
+  try {
+    const synced = await syncInterviewerPrompt(
+      interviewer.agent_id,
+      interviewer.llm_id,
+      interviewer,
+    );
+
+    return !!(await InterviewerService.updateInterviewer(
+      synced,
+      interviewer.id,
+    ));
+  } catch (error) {
+    logger.error(
+      `Failed to sync the prompt of interviewer ${interviewer.id}`,
+      error instanceof Error ? error.message : String(error),
+    );
+
+    return false;
+  }
+};
+
+export const deleteInterviewerAgent = async (
+  agentId: string | null,
+  llmId: string | null,
+) => {
+  if (agentId) {
+    await retellClient.agent.delete(agentId);
+  }
+  if (llmId) {
+    await retellClient.llm.delete(llmId);
+  }
+};
+
+export const listVoices = () => retellClient.voice.list();
@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { InvitationService } from "@/services/invitations.service";
+import { Invitation, InvitationError } from "@/types/invitation";
+
+const getSecret = () => {
+  const secret = process.env.INVITATION_SECRET;
+  if (!secret) {
+    throw new Error("INVITATION_SECRET is not set");
+  }
+
+  return secret;
+};
+
+const toUnixSeconds = (date: string) =>
+  Math.floor(new Date(date).getTime() / 1000);
+
+const sign = (payload: string) =>
+  createHmac("sha256", getSecret()).update(payload).digest("base64url");
+
+// Tokens look like "<invitation id>.<expiry in unix seconds>.<signature>"
+export const createInvitationToken = (invitation: Invitation) => {
+  const payload = `${invitation.id}.${toUnixSeconds(invitation.expires_at)}`;
+
+  return `${payload}.${sign(payload)}`;
+};
+
+const verifyInvitationToken = (token: string) => {
+  const [id, expiresAt, signature] = token.split(".");
+  if (!id || !expiresAt || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${id}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return { id: Number(id), expiresAt: Number(expiresAt) };
+};
+
+// Checks a link token against the stored invitation. Reissuing an invitation
+// changes its expiry, which invalidates links handed out before.
+export const resolveInvitation = async (
+  token: string,
+  interviewId: string,
+): Promise<{ invitation: Invitation } | { error: InvitationError }> => {
+  const verified = verifyInvitationToken(token);
+  if (!verified) {
+    return { error: "invalid" };
+  }
+
+  const invitation = await InvitationService.getInvitationById(verified.id);
+  if (
+    !invitation ||
+    invitation.interview_id !== interviewId ||
+    toUnixSeconds(invitation.expires_at) !== verified.expiresAt
+  ) {
+    return { error: "invalid" };
+  }
+
+  if (verified.expiresAt * 1000 < Date.now()) {
+    if (invitation.status !== "expired" && invitation.status !== "completed") {
+      await InvitationService.updateInvitation(
+        { status: "expired" },
+        invitation.id,
+      );
+    }
+
+    return { error: "expired" };
+  }
+
+  // A completed invitation can be used again while it has attempts left, e.g.
+  // after a dropped call
+  if (invitation.attempts >= invitation.max_attempts) {
+    return { error: "used" };
+  }
+
+  return { invitation };
+};
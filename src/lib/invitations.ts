@@ -0,0 +1,98 @@
+import { Interview } from "@/types/interview";
+import { Invitation, InvitationCandidate } from "@/types/invitation";
+import { testEmail, toAbsoluteUrl } from "@/lib/utils";
+
+const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
+
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 7;
+export const MAX_INVITATION_EXPIRY_DAYS = 90;
+export const DEFAULT_INVITATION_MAX_ATTEMPTS = 1;
+export const MAX_INVITATION_ATTEMPTS = 5;
+export const MAX_INVITATIONS_PER_REQUEST = 500;
+
+const splitCSVLine = (line: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === "," || char === ";" || char === "\t") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+};
+
+// Accepts an uploaded CSV or pasted lines such as "Jane Doe, jane@acme.com".
+// The email is whichever cell looks like one, so column order and an optional
+// header row do not matter. Returns the valid candidates, deduplicated by
+// email, and the lines that had no email.
+export const parseCandidateList = (text: string) => {
+  const candidates: InvitationCandidate[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .forEach((line, index) => {
+      const cells = splitCSVLine(line);
+      const emailIndex = cells.findIndex((cell) => testEmail(cell));
+      if (emailIndex === -1) {
+        // A header row is expected, not an error
+        if (index > 0 || !/email/i.test(line)) {
+          skipped.push(line);
+        }
+
+        return;
+      }
+
+      const email = cells[emailIndex].toLowerCase();
+      if (seen.has(email)) {
+        return;
+      }
+      seen.add(email);
+      candidates.push({
+        email,
+        name: cells
+          .filter((_, cellIndex) => cellIndex !== emailIndex)
+          .join(" ")
+          .trim(),
+      });
+    });
+
+  return { candidates, skipped };
+};
+
+// Expiry is checked on read, so a stored status can lag behind the clock
+export const getInvitationStatus = (invitation: Invitation) =>
+  invitation.status !== "completed" &&
+  new Date(invitation.expires_at).getTime() < Date.now()
+    ? "expired"
+    : invitation.status;
+
+export const getInvitationLink = (interview: Interview, token: string) => {
+  const interviewUrl = interview.readable_slug
+    ? `${base_url}/call/${interview.readable_slug}`
+    : (interview.url as string);
+
+  return `${toAbsoluteUrl(interviewUrl)}?invite=${encodeURIComponent(token)}`;
+};
@@ -0,0 +1,89 @@
+import { LLMProviderName, LLMTask } from "@/lib/llm/types";
+
+const PROVIDERS: LLMProviderName[] = ["openai", "azure", "anthropic", "local"];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4o",
+  azure: "gpt-4o",
+  anthropic: "claude-3-5-sonnet-latest",
+  local: "llama3.1",
+};
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  maxRetries: number;
+  timeoutMs: number;
+  openai: {
+    apiKey?: string;
+  };
+  azure: {
+    apiKey?: string;
+    endpoint?: string;
+    apiVersion: string;
+  };
+  anthropic: {
+    apiKey?: string;
+    baseUrl: string;
+    maxTokens: number;
+  };
+  local: {
+    apiKey: string;
+    baseUrl: string;
+  };
+}
+
+// Values that are not a whole number of at least min fall back to the default,
+// so a typo cannot turn into NaN retries or timeouts
+const readInteger = (name: string, fallback: number, min = 0) => {
+  const value = Number(process.env[name]);
+
+  return process.env[name] !== undefined &&
+    process.env[name] !== "" &&
+    Number.isInteger(value) &&
+    value >= min
+    ? value
+    : fallback;
+};
+
+export const getLLMConfig = (): LLMConfig => {
+  const provider = (process.env.LLM_PROVIDER || "openai") as LLMProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unsupported LLM_PROVIDER "${provider}"`);
+  }
+
+  return {
+    provider,
+    maxRetries: readInteger("LLM_MAX_RETRIES", 3),
+    timeoutMs: readInteger("LLM_TIMEOUT_MS", 60000, 1),
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+    },
+    azure: {
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-08-01-preview",
+    },
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseUrl: process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com",
+      maxTokens: readInteger("ANTHROPIC_MAX_TOKENS", 4096, 1),
+    },
+    local: {
+      apiKey: process.env.LLM_API_KEY || "local",
+      baseUrl: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+    },
+  };
+};
+
+// A task model can be overridden with e.g. LLM_MODEL_INTERVIEW_ANALYTICS,
+// otherwise LLM_MODEL applies to every task.
+export const getModelForTask = (
+  task: LLMTask,
+  provider: LLMProviderName,
+): string => {
+  const taskKey = `LLM_MODEL_${task.toUpperCase().replace(/-/g, "_")}`;
+
+  return (
+    process.env[taskKey] || process.env.LLM_MODEL || DEFAULT_MODELS[provider]
+  );
+};
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { logger } from "@/lib/logger";
+import { getRepairPrompt } from "@/lib/prompts/repair-output";
+import { recordUsage, UsageContext } from "@/lib/billing";
+import { getLLMConfig, getModelForTask, LLMConfig } from "@/lib/llm/config";
+import { createOpenAIProvider } from "@/lib/llm/providers/openai";
+import { createAnthropicProvider } from "@/lib/llm/providers/anthropic";
+import {
+  LLMCompletion,
+  LLMError,
+  LLMMessage,
+  LLMProvider,
+  LLMTask,
+} from "@/lib/llm/types";
+
+export type GenerateOptions = {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Tokens are added to the organization's usage ledger when given
+  usage?: UsageContext;
+};
+
+let cachedProvider: LLMProvider | undefined;
+
+const getProvider = (config: LLMConfig): LLMProvider => {
+  if (cachedProvider?.name !== config.provider) {
+    cachedProvider =
+      config.provider === "anthropic"
+        ? createAnthropicProvider(config)
+        : createOpenAIProvider(config.provider, config);
+  }
+
+  return cachedProvider;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const complete = async (
+  options: GenerateOptions,
+  json: boolean,
+): Promise<LLMCompletion> => {
+  const config = getLLMConfig();
+  const provider = getProvider(config);
+  const model = getModelForTask(options.task, provider.name);
+
+  let completion: LLMCompletion;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      completion = await provider.complete({
+        model,
+        messages: options.messages,
+        json,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+      });
+      break;
+    } catch (error) {
+      const retryable = error instanceof LLMError && error.retryable;
+      if (!retryable || attempt >= config.maxRetries) {
+        throw error;
+      }
+      const delay = 500 * 2 ** attempt + Math.random() * 250;
+      logger.warn(
+        `${options.task} request to ${provider.name} failed, retrying in ${Math.round(delay)}ms`,
+        (error as Error).message,
+      );
+      await sleep(delay);
+    }
+  }
+
+  // Recorded once the completion has succeeded. A failed ledger write is only
+  // logged, since retrying would bill the tokens twice.
+  if (options.usage) {
+    try {
+      await recordUsage(options.usage, {
+        kind: "llm_tokens",
+        quantity: completion.usage.inputTokens + completion.usage.outputTokens,
+        metadata: { task: options.task, model: completion.model },
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to record ${options.task} token usage`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  return completion;
+};
+
+// Models occasionally wrap JSON in markdown fences or add a sentence around it
+export const parseJSONContent = (content: string) => {
+  const trimmed = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1));
+      } catch {
+        // Reported below like any other unparseable response
+      }
+    }
+    throw new LLMError("Model response is not valid JSON", undefined, false);
+  }
+};
+
+export const generateText = (options: GenerateOptions) =>
+  complete(options, false);
+
+export const generateJSON = async <T = unknown>(options: GenerateOptions) => {
+  const completion = await complete(options, true);
+
+  return { data: parseJSONContent(completion.content) as T, completion };
+};
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => `- ${issue.path.join(".") || "response"}: ${issue.message}`)
+    .join("\n");
+
+// Requests JSON and validates it against the schema. Malformed output is sent
+// back to the model with the validation problems until it conforms or the
+// repair attempts run out.
+export const generateStructured = async <T>(
+  options: GenerateOptions & {
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+    maxRepairAttempts?: number;
+  },
+): Promise<{ data: T; completion: LLMCompletion }> => {
+  const maxRepairAttempts = options.maxRepairAttempts ?? 2;
+  let messages = options.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const completion = await complete({ ...options, messages }, true);
+
+    let problems: string;
+    try {
+      const result = options.schema.safeParse(
+        parseJSONContent(completion.content),
+      );
+      if (result.success) {
+        return { data: result.data, completion };
+      }
+      problems = formatIssues(result.error);
+    } catch {
+      problems = "- response: not valid JSON";
+    }
+
+    if (attempt >= maxRepairAttempts) {
+      throw new LLMError(
+        `${options.task} output failed validation:\n${problems}`,
+        undefined,
+        false,
+      );
+    }
+
+    logger.warn(
+      `${options.task} output failed validation, repairing`,
+      problems,
+    );
+    messages = [
+      ...options.messages,
+      { role: "assistant", content: completion.content },
+      { role: "user", content: getRepairPrompt(problems) },
+    ];
+  }
+};
+
+export * from "@/lib/llm/types";
@@ -0,0 +1,78 @@
+import axios from "axios";
+import { LLMConfig } from "@/lib/llm/config";
+import {
+  LLMCompletionRequest,
+  LLMError,
+  LLMMessage,
+  LLMProvider,
+} from "@/lib/llm/types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const JSON_INSTRUCTION =
+  "Respond with a single valid JSON object and nothing else.";
+
+type AnthropicResponse = {
+  model: string;
+  content: { type: string; text?: string }[];
+  usage: { input_tokens: number; output_tokens: number };
+};
+
+export const createAnthropicProvider = (config: LLMConfig): LLMProvider => {
+  const complete = async (request: LLMCompletionRequest) => {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content);
+    const messages: LLMMessage[] = request.messages.filter(
+      (message) => message.role !== "system",
+    );
+
+    // Anthropic has no JSON mode, so we ask for JSON and prefill the opening brace
+    if (request.json) {
+      system.push(JSON_INSTRUCTION);
+      messages.push({ role: "assistant", content: "{" });
+    }
+
+    try {
+      const { data } = await axios.post<AnthropicResponse>(
+        `${config.anthropic.baseUrl}/v1/messages`,
+        {
+          model: request.model,
+          system: system.join("\n\n"),
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens ?? config.anthropic.maxTokens,
+        },
+        {
+          timeout: config.timeoutMs,
+          headers: {
+            "x-api-key": config.anthropic.apiKey,
+            "anthropic-version": ANTHROPIC_VERSION,
+            "content-type": "application/json",
+          },
+        },
+      );
+
+      const text = data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text)
+        .join("");
+
+      return {
+        content: request.json ? `{${text}` : text,
+        model: data.model,
+        usage: {
+          inputTokens: data.usage?.input_tokens ?? 0,
+          outputTokens: data.usage?.output_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new LLMError(error.message, error.response?.status);
+      }
+      throw new LLMError((error as Error).message);
+    }
+  };
+
+  return { name: "anthropic", complete };
+};
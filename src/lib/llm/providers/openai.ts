@@ -0,0 +1,74 @@
+import { AzureOpenAI, OpenAI } from "openai";
+import { LLMConfig } from "@/lib/llm/config";
+import {
+  LLMCompletionRequest,
+  LLMError,
+  LLMProvider,
+  LLMProviderName,
+} from "@/lib/llm/types";
+
+const createClient = (
+  name: Exclude<LLMProviderName, "anthropic">,
+  config: LLMConfig,
+): OpenAI => {
+  // Retries are handled by the LLM layer so every provider behaves the same
+  const options = { maxRetries: 0, timeout: config.timeoutMs };
+
+  if (name === "azure") {
+    return new AzureOpenAI({
+      ...options,
+      apiKey: config.azure.apiKey,
+      endpoint: config.azure.endpoint,
+      apiVersion: config.azure.apiVersion,
+    });
+  }
+
+  if (name === "local") {
+    return new OpenAI({
+      ...options,
+      apiKey: config.local.apiKey,
+      baseURL: config.local.baseUrl,
+    });
+  }
+
+  return new OpenAI({ ...options, apiKey: config.openai.apiKey });
+};
+
+// Serves OpenAI, Azure OpenAI and any OpenAI-compatible endpoint (vLLM,
+// Ollama, LM Studio or a stub server used for offline testing).
+export const createOpenAIProvider = (
+  name: Exclude<LLMProviderName, "anthropic">,
+  config: LLMConfig,
+): LLMProvider => {
+  const client = createClient(name, config);
+
+  const complete = async (request: LLMCompletionRequest) => {
+    try {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json && {
+          response_format: { type: "json_object" as const },
+        }),
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content || "",
+        model: completion.model || request.model,
+        usage: {
+          inputTokens: completion.usage?.prompt_tokens ?? 0,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMError(error.message, error.status);
+      }
+      throw new LLMError((error as Error).message);
+    }
+  };
+
+  return { name, complete };
+};
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignQuestionSummaries,
+  createAnalyticsSchema,
+} from "@/lib/llm/schemas";
+import { RubricCompetency } from "@/types/interview";
+
+const QUESTIONS = [
+  "Tell me about yourself",
+  "Why do you want this role?",
+  "Describe a hard bug you fixed",
+];
+
+const summary = (question: string, score?: number) => ({
+  question,
+  summary: `About: ${question}`,
+  ...(score !== undefined ? { score } : {}),
+});
+
+describe("alignQuestionSummaries", () => {
+  it("puts reordered summaries back in interview order", () => {
+    expect(
+      alignQuestionSummaries(
+        [
+          summary("3. Describe a hard bug you fixed", 6),
+          summary("tell me about yourself", 8),
+          summary("Why do you want this role", 7),
+        ],
+        QUESTIONS,
+      ),
+    ).toEqual([
+      {
+        question: QUESTIONS[0],
+        summary: "About: tell me about yourself",
+        score: 8,
+      },
+      {
+        question: QUESTIONS[1],
+        summary: "About: Why do you want this role",
+        score: 7,
+      },
+      {
+        question: QUESTIONS[2],
+        summary: "About: 3. Describe a hard bug you fixed",
+        score: 6,
+      },
+    ]);
+  });
+
+  it("reports questions without a summary as not asked", () => {
+    const aligned = alignQuestionSummaries(
+      [summary(QUESTIONS[0]), summary(QUESTIONS[2])],
+      QUESTIONS,
+    );
+
+    expect(aligned.map((item) => item.summary)).toEqual([
+      `About: ${QUESTIONS[0]}`,
+      "Not Asked",
+      `About: ${QUESTIONS[2]}`,
+    ]);
+    expect(aligned[1]).not.toHaveProperty("score");
+  });
+
+  it("drops summaries of questions that are not in the interview", () => {
+    expect(
+      alignQuestionSummaries(
+        [
+          summary(QUESTIONS[0]),
+          summary("What is your favourite colour?"),
+          summary(QUESTIONS[1]),
+          summary(QUESTIONS[2]),
+        ],
+        QUESTIONS,
+      ).map((item) => item.summary),
+    ).toEqual(QUESTIONS.map((question) => `About: ${question}`));
+  });
+
+  it("falls back to position when the model reworded a question", () => {
+    expect(
+      alignQuestionSummaries(
+        [
+          summary(QUESTIONS[0]),
+          summary("Why this job?"),
+          summary(QUESTIONS[2]),
+        ],
+        QUESTIONS,
+      )[1].summary,
+    ).toBe("About: Why this job?");
+  });
+
+  it("uses each summary at most once", () => {
+    expect(
+      alignQuestionSummaries(
+        [summary(QUESTIONS[1]), summary("Something else"), summary("More")],
+        QUESTIONS,
+      ).map((item) => item.summary),
+    ).toEqual(["Not Asked", `About: ${QUESTIONS[1]}`, "About: More"]);
+  });
+});
+
+describe("createAnalyticsSchema", () => {
+  const analytics = {
+    overallScore: 72,
+    overallFeedback: "Solid",
+    communication: { score: 7, feedback: "Clear" },
+    questionSummaries: QUESTIONS.map((question) => summary(question, 5)),
+    softSkillSummary: "Friendly",
+  };
+
+  it("rounds and clamps scores into range", () => {
+    const result = createAnalyticsSchema(QUESTIONS).parse({
+      ...analytics,
+      overallScore: 140,
+      communication: { score: "7.6", feedback: "Clear" },
+      questionSummaries: [
+        summary(QUESTIONS[0], 12),
+        summary(QUESTIONS[1], -3),
+        summary(QUESTIONS[2]),
+      ],
+    });
+
+    expect(result.overallScore).toBe(100);
+    expect(result.communication.score).toBe(8);
+    expect(result.questionSummaries.map((item) => item.score)).toEqual([
+      10,
+      0,
+      undefined,
+    ]);
+  });
+
+  it("refuses scores that are not numbers", () => {
+    expect(
+      createAnalyticsSchema(QUESTIONS).safeParse({
+        ...analytics,
+        overallScore: "high",
+      }).success,
+    ).toBe(false);
+  });
+
+  it("clamps competency scores to the rubric levels", () => {
+    const rubric: RubricCompetency[] = ["Coding", "Communication"].map(
+      (name) => ({
+        id: name,
+        name,
+        description: "",
+        weight: 1,
+        must_have: false,
+        levels: [],
+      }),
+    );
+
+    const result = createAnalyticsSchema(QUESTIONS, rubric).parse({
+      ...analytics,
+      competencyScores: [
+        { competency: "coding", score: 9 },
+        { competency: "Communication", score: 0 },
+      ],
+    });
+
+    expect(
+      result.competencyScores?.map(({ competency, score }) => ({
+        competency,
+        score,
+      })),
+    ).toEqual([
+      { competency: "Coding", score: 5 },
+      { competency: "Communication", score: 1 },
+    ]);
+    expect(result.overallScore).toBe(50);
+  });
+});
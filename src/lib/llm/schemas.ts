@@ -0,0 +1,349 @@
+import { z } from "zod";
+import { GeneratedQuestions, RubricCompetency } from "@/types/interview";
+import { ResumeQuestions } from "@/types/resume";
+import {
+  Analytics,
+  CandidateComparison,
+  CommunicationAnalysis,
+  CompetencyScore,
+  CallData,
+  QuestionSummary,
+} from "@/types/response";
+import { segmentQuestions } from "@/lib/transcript";
+import {
+  computeRubricScore,
+  getUnmetMustHaves,
+  RUBRIC_MAX_LEVEL,
+  RUBRIC_MIN_LEVEL,
+} from "@/lib/rubric";
+
+// Accepts numbers and numeric strings, rounding and clamping them into range
+const score = (max: number, min = 0) =>
+  z.coerce
+    .number()
+    .finite()
+    .transform((value) => Math.round(Math.min(max, Math.max(min, value))));
+
+const text = z.string().trim();
+
+export const normalizeText = (question: string) =>
+  question
+    .toLowerCase()
+    .replace(/^\s*\d+[.)]\s*/, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Returns exactly one summary per main question, in interview order. Summaries
+// are matched on question text first and position second, and each summary is
+// used at most once; questions the model skipped are reported as "Not Asked".
+export const alignQuestionSummaries = (
+  summaries: QuestionSummary[],
+  questions: string[],
+): QuestionSummary[] => {
+  const used = new Set<number>();
+  const textMatches = questions.map((question) => {
+    const matchIndex = summaries.findIndex(
+      (summary, index) =>
+        !used.has(index) &&
+        normalizeText(summary.question) === normalizeText(question),
+    );
+    if (matchIndex !== -1) {
+      used.add(matchIndex);
+    }
+
+    return matchIndex;
+  });
+
+  return questions.map((question, index) => {
+    let matchIndex = textMatches[index];
+    if (
+      matchIndex === -1 &&
+      summaries.length === questions.length &&
+      !used.has(index)
+    ) {
+      matchIndex = index;
+      used.add(index);
+    }
+    const match = matchIndex !== -1 ? summaries[matchIndex] : undefined;
+
+    return {
+      question,
+      summary: match?.summary || "Not Asked",
+      ...(match?.score !== undefined ? { score: match.score } : {}),
+    };
+  });
+};
+
+type RawCompetencyScore = {
+  competency: string;
+  score: number;
+  evidence: string[];
+  rationale: string;
+};
+
+// Attaches each rubric competency's weight and must-have flag to the score the
+// model gave it. The schema refinement guarantees every competency is present.
+const toCompetencyScores = (
+  rawScores: RawCompetencyScore[],
+  rubric: RubricCompetency[],
+): CompetencyScore[] =>
+  rubric.map((competency) => {
+    const match = rawScores.find(
+      (rawScore) =>
+        normalizeText(rawScore.competency) === normalizeText(competency.name),
+    );
+
+    return {
+      competency: competency.name,
+      score: match?.score ?? RUBRIC_MIN_LEVEL,
+      weight: competency.weight,
+      mustHave: competency.must_have,
+      evidence: match?.evidence ?? [],
+      rationale: match?.rationale ?? "",
+    };
+  });
+
+const resumeClaimStatus = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value
+          .toLowerCase()
+          .trim()
+          .replace(/[\s-]+/g, "_")
+      : value,
+  z.enum(["consistent", "inconsistent", "not_discussed"]),
+);
+
+// Resume consistency is only requested when the call was personalised from a
+// resume, and question lines only when the transcript has word timings
+export const createAnalyticsSchema = (
+  questions: string[],
+  rubric: RubricCompetency[] = [],
+  resumeClaims: string[] = [],
+  timedTranscript: CallData["transcript_object"] | null = null,
+): z.ZodType<Analytics, z.ZodTypeDef, unknown> =>
+  z
+    .object({
+      // With a rubric the overall score is computed from the competency scores
+      overallScore: rubric.length > 0 ? score(100).optional() : score(100),
+      overallFeedback: text,
+      communication: z.object({
+        score: score(10),
+        feedback: text,
+      }),
+      questionSummaries: z.array(
+        z.object({
+          question: text,
+          summary: text,
+          score: score(10).optional(),
+        }),
+      ),
+      softSkillSummary: text,
+      competencyScores: z
+        .array(
+          z.object({
+            competency: text,
+            score: score(RUBRIC_MAX_LEVEL, RUBRIC_MIN_LEVEL),
+            evidence: z.array(text).default([]),
+            rationale: text.default(""),
+          }),
+        )
+        .default([]),
+      resumeConsistency: z
+        .object({
+          score: score(10),
+          summary: text,
+          claims: z.array(
+            z.object({
+              claim: text,
+              status: resumeClaimStatus,
+              evidence: text.default(""),
+            }),
+          ),
+        })
+        .optional(),
+      questionLines: z
+        .array(z.number().int().nullable().catch(null))
+        .default([]),
+    })
+    .refine(
+      (analytics) =>
+        resumeClaims.length === 0 || analytics.resumeConsistency !== undefined,
+      {
+        message: "resumeConsistency is required when resume claims are given",
+        path: ["resumeConsistency"],
+      },
+    )
+    .refine(
+      (analytics) =>
+        rubric.every((competency) =>
+          analytics.competencyScores.some(
+            (rawScore) =>
+              normalizeText(rawScore.competency) ===
+              normalizeText(competency.name),
+          ),
+        ),
+      {
+        message: `competencyScores must contain an entry for each rubric competency: ${rubric
+          .map((competency) => competency.name)
+          .join(", ")}`,
+        path: ["competencyScores"],
+      },
+    )
+    .refine(
+      (analytics) =>
+        questions.length === 0 || analytics.questionSummaries.length > 0,
+      {
+        message: `questionSummaries must contain an entry for each of the ${questions.length} main questions`,
+        path: ["questionSummaries"],
+      },
+    )
+    .transform(
+      ({
+        competencyScores: rawScores,
+        resumeConsistency,
+        questionLines,
+        ...analytics
+      }) => {
+        const aligned = {
+          ...analytics,
+          ...(resumeClaims.length > 0 && resumeConsistency
+            ? { resumeConsistency }
+            : {}),
+          ...(timedTranscript
+            ? {
+                questionSegments: segmentQuestions(
+                  timedTranscript,
+                  questions.map((_, index) => questionLines[index] ?? null),
+                ),
+              }
+            : {}),
+          overallScore: analytics.overallScore ?? 0,
+          questionSummaries: alignQuestionSummaries(
+            analytics.questionSummaries,
+            questions,
+          ),
+          mainInterviewQuestions: questions,
+        };
+        if (rubric.length === 0) {
+          return aligned;
+        }
+
+        const competencyScores = toCompetencyScores(rawScores, rubric);
+
+        return {
+          ...aligned,
+          overallScore: computeRubricScore(competencyScores),
+          competencyScores,
+          unmetMustHaves: getUnmetMustHaves(competencyScores),
+        };
+      },
+    );
+
+export const createGeneratedQuestionsSchema = (
+  count: number,
+): z.ZodType<GeneratedQuestions, z.ZodTypeDef, unknown> =>
+  z
+    .object({
+      questions: z
+        .array(z.object({ question: text.min(1) }))
+        .min(count, `questions must contain ${count} entries`),
+      description: text.min(1),
+    })
+    .transform((generated) => ({
+      ...generated,
+      questions: generated.questions.slice(0, count),
+    }));
+
+export const createResumeQuestionsSchema = (
+  count: number,
+): z.ZodType<ResumeQuestions, z.ZodTypeDef, unknown> =>
+  z
+    .object({
+      claims: z.array(text.min(1)).default([]),
+      questions: z
+        .array(z.object({ question: text.min(1) }))
+        .min(count, `questions must contain ${count} entries`),
+    })
+    .transform((generated) => ({
+      claims: generated.claims.slice(0, 8),
+      questions: generated.questions.slice(0, count),
+    }));
+
+export const insightsSchema = z.object({
+  insights: z.array(text.min(1)).min(1),
+});
+
+export const communicationAnalysisSchema: z.ZodType<
+  CommunicationAnalysis,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  communicationScore: score(10),
+  overallFeedback: text,
+  supportingQuotes: z.array(
+    z.object({
+      quote: text,
+      analysis: text,
+      type: z.preprocess(
+        (value) =>
+          typeof value === "string"
+            ? value
+                .toLowerCase()
+                .trim()
+                .replace(/[\s-]+/g, "_")
+            : value,
+        z.enum(["strength", "improvement_area"]),
+      ),
+    }),
+  ),
+  strengths: z.array(text),
+  improvementAreas: z.array(text),
+});
+
+// Question numbers are 1-based; numbers outside the list are dropped
+export const createQuestionCoverageSchema = (count: number) =>
+  z
+    .object({
+      coveredQuestions: z.array(z.coerce.number().int()).default([]),
+    })
+    .transform(({ coveredQuestions }) =>
+      Array.from(new Set(coveredQuestions))
+        .filter((number) => number >= 1 && number <= count)
+        .sort((a, b) => a - b),
+    );
+
+// Candidates are matched back on call id; the model only sees the ids we gave
+// it, so unknown ids are dropped rather than failing the comparison.
+export const createCandidateComparisonSchema = (
+  callIds: string[],
+): z.ZodType<CandidateComparison, z.ZodTypeDef, unknown> =>
+  z
+    .object({
+      summary: text.min(1),
+      candidates: z.array(
+        z.object({
+          callId: text,
+          strengths: z.array(text).default([]),
+          concerns: z.array(text).default([]),
+        }),
+      ),
+    })
+    .refine(
+      (comparison) =>
+        callIds.every((callId) =>
+          comparison.candidates.some(
+            (candidate) => candidate.callId === callId,
+          ),
+        ),
+      {
+        message: `candidates must contain an entry for each callId: ${callIds.join(", ")}`,
+        path: ["candidates"],
+      },
+    )
+    .transform((comparison) => ({
+      ...comparison,
+      candidates: comparison.candidates.filter((candidate) =>
+        callIds.includes(candidate.callId),
+      ),
+    }));
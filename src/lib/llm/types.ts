@@ -0,0 +1,55 @@
+export type LLMProviderName = "openai" | "azure" | "anthropic" | "local";
+
+export type LLMTask =
+  | "generate-questions"
+  | "generate-insights"
+  | "interview-analytics"
+  | "communication-analysis"
+  | "compare-candidates"
+  | "interview-simulation"
+  | "simulation-coverage"
+  | "summarise-document"
+  | "resume-questions";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  json: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete: (request: LLMCompletionRequest) => Promise<LLMCompletion>;
+}
+
+export class LLMError extends Error {
+  status?: number;
+  retryable: boolean;
+
+  constructor(message: string, status?: number, retryable?: boolean) {
+    super(message);
+    this.name = "LLMError";
+    this.status = status;
+    // Rate limits, server errors and network failures (no status) are worth retrying
+    this.retryable =
+      retryable ?? (status === undefined || status === 429 || status >= 500);
+  }
+}
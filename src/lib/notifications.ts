@@ -0,0 +1,237 @@
+import { logger } from "@/lib/logger";
+import { sendEmail } from "@/lib/email";
+import {
+  DigestSection,
+  renderDigestEmail,
+  renderInvitationEmail,
+  renderMentionEmail,
+  renderReceiptEmail,
+  renderReminderEmail,
+} from "@/lib/email/templates";
+import { createInvitationToken } from "@/lib/invitation-token";
+import { getInvitationLink } from "@/lib/invitations";
+import { toAbsoluteUrl } from "@/lib/utils";
+import { InterviewService } from "@/services/interviews.service";
+import { InvitationService } from "@/services/invitations.service";
+import { ResponseService } from "@/services/responses.service";
+import { Interview } from "@/types/interview";
+import { Invitation } from "@/types/invitation";
+import { OrganizationMember } from "@/types/organization-member";
+
+const base_url = process.env.NEXT_PUBLIC_LIVE_URL;
+
+const HOUR_MS = 60 * 60 * 1000;
+const REMINDER_INTERVAL_HOURS = Number(
+  process.env.INVITATION_REMINDER_INTERVAL_HOURS ?? 48,
+);
+const MAX_INVITATION_REMINDERS = Number(
+  process.env.INVITATION_MAX_REMINDERS ?? 2,
+);
+const DIGEST_INTERVAL_HOURS = Number(
+  process.env.RESPONSE_DIGEST_INTERVAL_HOURS ?? 24,
+);
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export const sendInvitationEmails = async (
+  interview: Interview,
+  invitations: Invitation[],
+) => {
+  let sent = 0;
+
+  for (const invitation of invitations) {
+    try {
+      const link = getInvitationLink(
+        interview,
+        createInvitationToken(invitation),
+      );
+      await sendEmail({
+        to: invitation.email,
+        ...renderInvitationEmail(interview, invitation, link),
+      });
+      await InvitationService.updateInvitation(
+        { last_emailed_at: new Date().toISOString() },
+        invitation.id,
+      );
+      sent += 1;
+    } catch (error) {
+      logger.error(
+        `Failed to email invitation ${invitation.id}`,
+        getErrorMessage(error),
+      );
+    }
+  }
+
+  return sent;
+};
+
+// Nudges invited candidates who have not started, at most
+// INVITATION_MAX_REMINDERS times and never more often than the interval
+export const sendInvitationReminders = async () => {
+  const cutoff = new Date(
+    Date.now() - REMINDER_INTERVAL_HOURS * HOUR_MS,
+  ).toISOString();
+  const invitations = await InvitationService.getInvitationsDueForReminder(
+    cutoff,
+    MAX_INVITATION_REMINDERS,
+  );
+  const interviews = new Map<string, Interview | null>();
+  let sent = 0;
+
+  for (const invitation of invitations) {
+    if (!interviews.has(invitation.interview_id)) {
+      interviews.set(
+        invitation.interview_id,
+        await InterviewService.getInterviewById(invitation.interview_id),
+      );
+    }
+    const interview = interviews.get(invitation.interview_id);
+    if (!interview?.is_active) {
+      continue;
+    }
+
+    try {
+      const link = getInvitationLink(
+        interview,
+        createInvitationToken(invitation),
+      );
+      await sendEmail({
+        to: invitation.email,
+        ...renderReminderEmail(interview, invitation, link),
+      });
+      await InvitationService.updateInvitation(
+        {
+          last_emailed_at: new Date().toISOString(),
+          reminder_count: invitation.reminder_count + 1,
+        },
+        invitation.id,
+      );
+      sent += 1;
+    } catch (error) {
+      logger.error(
+        `Failed to send reminder for invitation ${invitation.id}`,
+        getErrorMessage(error),
+      );
+    }
+  }
+
+  return sent;
+};
+
+// Safe to call from every place that learns a call ended; only the first
+// caller sends the receipt
+export const sendCompletionReceipt = async (callId: string) => {
+  const response = await ResponseService.claimReceipt(callId);
+  if (!response?.email) {
+    return;
+  }
+
+  const interview = await InterviewService.getInterviewById(
+    response.interview_id,
+  );
+  if (!interview || interview.is_anonymous) {
+    return;
+  }
+
+  try {
+    await sendEmail({
+      to: response.email,
+      ...renderReceiptEmail(interview, response.name),
+    });
+  } catch (error) {
+    logger.error(
+      `Failed to send receipt for call ${callId}`,
+      getErrorMessage(error),
+    );
+  }
+};
+
+type DigestInterview = Interview & { user: { email: string | null } | null };
+
+// Sends each interview owner one email covering all their interviews with
+// digests turned on that got responses since the last digest
+export const sendResponseDigests = async () => {
+  const cutoff = new Date(Date.now() - DIGEST_INTERVAL_HOURS * HOUR_MS);
+  const interviews = (
+    (await InterviewService.getDigestInterviews()) as DigestInterview[]
+  ).filter(
+    (interview) =>
+      interview.user?.email &&
+      (!interview.digest_sent_at ||
+        new Date(interview.digest_sent_at) < cutoff),
+  );
+
+  const sectionsByEmail = new Map<string, DigestSection[]>();
+  for (const interview of interviews) {
+    const responses = await ResponseService.getResponsesEndedSince(
+      interview.id,
+      interview.digest_sent_at ?? cutoff.toISOString(),
+    );
+    if (responses.length === 0) {
+      continue;
+    }
+    const email = interview.user?.email as string;
+    sectionsByEmail.set(email, [
+      ...(sectionsByEmail.get(email) || []),
+      {
+        interview,
+        responses,
+        link: toAbsoluteUrl(`${base_url}/interviews/${interview.id}`),
+      },
+    ]);
+  }
+
+  let sent = 0;
+  for (const [email, sections] of Array.from(sectionsByEmail.entries())) {
+    try {
+      await sendEmail({ to: email, ...renderDigestEmail(sections) });
+      const sentAt = new Date().toISOString();
+      for (const section of sections) {
+        await InterviewService.updateInterview(
+          { digest_sent_at: sentAt },
+          section.interview.id,
+        );
+      }
+      sent += 1;
+    } catch (error) {
+      logger.error(`Failed to send digest to ${email}`, getErrorMessage(error));
+    }
+  }
+
+  return sent;
+};
+
+// Members sign in with their email, so their Clerk identifier is the address
+export const sendMentionEmails = async (
+  interview: Interview,
+  callId: string,
+  authorName: string,
+  comment: string,
+  members: OrganizationMember[],
+) => {
+  const link = toAbsoluteUrl(
+    `${base_url}/interviews/${interview.id}?call=${callId}`,
+  );
+  let sent = 0;
+
+  for (const member of members) {
+    if (!member.identifier.includes("@")) {
+      continue;
+    }
+    try {
+      await sendEmail({
+        to: member.identifier,
+        ...renderMentionEmail(interview, authorName, comment, link),
+      });
+      sent += 1;
+    } catch (error) {
+      logger.error(
+        `Failed to email mention to ${member.user_id}`,
+        getErrorMessage(error),
+      );
+    }
+  }
+
+  return sent;
+};
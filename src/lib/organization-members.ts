@@ -0,0 +1,72 @@
+import { clerkClient, currentUser } from "@clerk/nextjs/server";
+import { getDefaultRole } from "@/lib/permissions";
+import { OrganizationMemberService } from "@/services/organization-members.service";
+import { OrganizationMember } from "@/types/organization-member";
+
+const MEMBERSHIP_PAGE_SIZE = 100;
+
+// Clerk owns who is in an organization; roles come from organization_member
+// and fall back to the Clerk role like requesting_role() does
+export const getOrganizationMembers = async (
+  organizationId: string,
+): Promise<OrganizationMember[]> => {
+  const memberships = [];
+  for (let offset = 0; ; offset += MEMBERSHIP_PAGE_SIZE) {
+    const page = await clerkClient.organizations.getOrganizationMembershipList({
+      organizationId,
+      limit: MEMBERSHIP_PAGE_SIZE,
+      offset,
+    });
+    memberships.push(...page.data);
+    if (memberships.length >= page.totalCount || page.data.length === 0) {
+      break;
+    }
+  }
+
+  const roles = new Map(
+    (await OrganizationMemberService.getMemberRoles(organizationId)).map(
+      (member) => [member.user_id, member.role],
+    ),
+  );
+
+  return memberships
+    .filter((membership) => membership.publicUserData?.userId)
+    .map((membership) => {
+      const user = membership.publicUserData!;
+      const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+
+      return {
+        user_id: user.userId,
+        identifier: user.identifier,
+        name: name || null,
+        image_url: user.hasImage ? user.imageUrl : null,
+        joined_at: new Date(membership.createdAt).toISOString(),
+        role:
+          roles.get(user.userId) ??
+          getDefaultRole(organizationId, membership.role),
+      };
+    });
+};
+
+export const removeOrganizationMember = async (
+  organizationId: string,
+  userId: string,
+) => {
+  await clerkClient.organizations.deleteOrganizationMembership({
+    organizationId,
+    userId,
+  });
+
+  return OrganizationMemberService.deleteMemberRole(organizationId, userId);
+};
+
+// The name shown next to a reviewer's scorecards and comments
+export const getCurrentMemberName = async () => {
+  const user = await currentUser();
+  if (!user) {
+    return null;
+  }
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+
+  return name || user.primaryEmailAddress?.emailAddress || null;
+};
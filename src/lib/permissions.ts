@@ -0,0 +1,144 @@
+import { OrganizationRole, Permission } from "@/types/organization-member";
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = [
+  "owner",
+  "admin",
+  "recruiter",
+  "reviewer",
+];
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  recruiter: "Recruiter",
+  reviewer: "Reviewer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: "Full access, including managing other owners",
+  admin: "Full access and can manage members other than owners",
+  recruiter:
+    "Creates and edits interviews, sees candidate details, changes statuses and exports",
+  reviewer: "Views interviews and responses without candidate details",
+};
+
+// Kept in step with has_permission() in supabase_schema.sql
+export const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: [
+    "interview:create",
+    "interview:edit",
+    "interview:delete",
+    "response:view_pii",
+    "response:update_status",
+    "response:delete",
+    "response:export",
+    "members:manage",
+    "pipeline:manage",
+    "billing:manage",
+  ],
+  admin: [
+    "interview:create",
+    "interview:edit",
+    "interview:delete",
+    "response:view_pii",
+    "response:update_status",
+    "response:delete",
+    "response:export",
+    "members:manage",
+    "pipeline:manage",
+    "billing:manage",
+  ],
+  recruiter: [
+    "interview:create",
+    "interview:edit",
+    "response:view_pii",
+    "response:update_status",
+    "response:export",
+  ],
+  reviewer: [],
+};
+
+export const isOrganizationRole = (role: unknown): role is OrganizationRole =>
+  ORGANIZATION_ROLES.includes(role as OrganizationRole);
+
+export const hasPermission = (
+  role: OrganizationRole | null | undefined,
+  permission: Permission,
+) => !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Members without a stored role, see requesting_role() in supabase_schema.sql
+export const getDefaultRole = (
+  orgId: string | null,
+  clerkRole: string | null | undefined,
+): OrganizationRole => {
+  if (!orgId || clerkRole === "org:admin") {
+    return "owner";
+  }
+
+  return "recruiter";
+};
+
+// Admins manage everyone but owners, and only owners can make owners
+export const canAssignRole = (
+  actorRole: OrganizationRole,
+  currentRole: OrganizationRole,
+  newRole: OrganizationRole | null,
+) => {
+  if (!hasPermission(actorRole, "members:manage")) {
+    return false;
+  }
+  if (actorRole === "owner") {
+    return true;
+  }
+
+  return currentRole !== "owner" && newRole !== "owner";
+};
+
+export const PERMISSION_ERRORS: Record<Permission, string> = {
+  "interview:create": "You do not have permission to create interviews",
+  "interview:edit": "You do not have permission to edit this interview",
+  "interview:delete": "You do not have permission to delete this interview",
+  "response:view_pii": "You do not have permission to see candidate details",
+  "response:update_status":
+    "You do not have permission to change candidate statuses",
+  "response:delete": "You do not have permission to delete responses",
+  "response:export": "You do not have permission to export responses",
+  "members:manage": "You do not have permission to manage members",
+  "pipeline:manage": "You do not have permission to change the hiring pipeline",
+  "billing:manage": "You do not have permission to manage billing",
+};
+
+// Members who cannot see candidate details know candidates by their
+// response id, which stays the same on every page
+export const getCandidateLabel = (
+  response: { id: number | bigint; name: string | null },
+  canViewPii: boolean,
+) => (canViewPii ? response.name || "Anonymous" : `Candidate #${response.id}`);
+
+// Retell passes the candidate's name to the agent as a dynamic variable, so
+// it is dropped from the call along with the response's own name and email
+export const redactCallDetails = <T extends Record<string, any>>(
+  details: T,
+) => {
+  if (!details) {
+    return details;
+  }
+  const { retell_llm_dynamic_variables, ...rest } = details;
+
+  return rest;
+};
+
+export const redactResponse = <
+  T extends { name: string | null; email: string; details: any },
+>(
+  response: T,
+  canViewPii: boolean,
+): T =>
+  canViewPii
+    ? response
+    : {
+        ...response,
+        name: null,
+        email: "",
+        details: redactCallDetails(response.details),
+      };
@@ -0,0 +1,205 @@
+import { CandidateStatus } from "@/lib/enum";
+import { Response } from "@/types/response";
+import {
+  PipelineOwner,
+  PipelineStage,
+  PipelineStagePayload,
+  ResponseStatusChange,
+} from "@/types/pipeline";
+
+// New responses have no status and start here
+export const ENTRY_STAGE_KEY: string = CandidateStatus.NO_STATUS;
+
+export const MAX_PIPELINE_STAGES = 12;
+export const MAX_STAGE_NAME_LENGTH = 40;
+
+// The original statuses, used until an organization sets up its own stages
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  {
+    key: CandidateStatus.NO_STATUS,
+    name: "No Status",
+    color: "#9ca3af",
+    position: 0,
+    is_terminal: false,
+  },
+  {
+    key: CandidateStatus.POTENTIAL,
+    name: "Potential",
+    color: "#eab308",
+    position: 1,
+    is_terminal: false,
+  },
+  {
+    key: CandidateStatus.SELECTED,
+    name: "Selected",
+    color: "#22c55e",
+    position: 2,
+    is_terminal: true,
+  },
+  {
+    key: CandidateStatus.NOT_SELECTED,
+    name: "Not Selected",
+    color: "#eb4444",
+    position: 3,
+    is_terminal: true,
+  },
+];
+
+// Interviews use the stages of the organization they belong to, like
+// canAccessInterview decides who sees them
+export const getPipelineOwner = (interview: {
+  organization_id: string | null;
+  user_id: string | null;
+}): PipelineOwner =>
+  interview.organization_id
+    ? { organization_id: interview.organization_id, user_id: null }
+    : { organization_id: null, user_id: interview.user_id };
+
+export const resolveStages = (stored: PipelineStage[]) =>
+  stored.length > 0
+    ? [...stored].sort((a, b) => a.position - b.position)
+    : DEFAULT_PIPELINE_STAGES;
+
+// Responses without a status, or with one of a removed stage, count as being
+// in the entry stage
+export const getStage = (stages: PipelineStage[], key: string | null) =>
+  stages.find((stage) => stage.key === key) ||
+  stages.find((stage) => stage.key === ENTRY_STAGE_KEY) ||
+  stages[0];
+
+// Names stages in the status history, which can outlive the stage
+export const getStageName = (stages: PipelineStage[], key: string | null) =>
+  (key ? stages.find((stage) => stage.key === key)?.name : null) ||
+  key ||
+  getStage(stages, null)?.name;
+
+const toStageKey = (name: string, taken: Set<string>) => {
+  const base =
+    name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_|_$/g, "") || "STAGE";
+  let key = base;
+  for (let suffix = 2; taken.has(key); suffix += 1) {
+    key = `${base}_${suffix}`;
+  }
+
+  return key;
+};
+
+// Checks the stages from the pipeline page, in their new order. Known keys are
+// kept so responses stay in their stage through renames; new stages get a key
+// from their name.
+export const normalizeStages = (
+  payload: unknown,
+  existing: PipelineStage[],
+): { stages: PipelineStage[] } | { error: string } => {
+  if (!Array.isArray(payload) || payload.length === 0) {
+    return { error: "At least one stage is required" };
+  }
+  if (payload.length > MAX_PIPELINE_STAGES) {
+    return { error: `At most ${MAX_PIPELINE_STAGES} stages are allowed` };
+  }
+
+  const existingKeys = new Set(existing.map((stage) => stage.key));
+  const taken = new Set<string>();
+  const names = new Set<string>();
+  const stages: PipelineStage[] = [];
+
+  for (let index = 0; index < payload.length; index += 1) {
+    const item: PipelineStagePayload = payload[index];
+    const name = typeof item?.name === "string" ? item.name.trim() : "";
+    if (!name || name.length > MAX_STAGE_NAME_LENGTH) {
+      return {
+        error: `Stage names must be 1 to ${MAX_STAGE_NAME_LENGTH} characters`,
+      };
+    }
+    if (names.has(name.toLowerCase())) {
+      return { error: `There is more than one stage called ${name}` };
+    }
+    names.add(name.toLowerCase());
+    if (typeof item.color !== "string" || !/^#[0-9a-f]{6}$/i.test(item.color)) {
+      return { error: `${name} needs a colour like #4f46e5` };
+    }
+
+    const key =
+      item.key && existingKeys.has(item.key) && !taken.has(item.key)
+        ? item.key
+        : toStageKey(
+            name,
+            new Set(Array.from(existingKeys).concat(Array.from(taken))),
+          );
+    taken.add(key);
+    stages.push({
+      key,
+      name,
+      color: item.color.toLowerCase(),
+      position: index,
+      is_terminal: !!item.is_terminal,
+    });
+  }
+
+  if (stages[0].key !== ENTRY_STAGE_KEY || stages[0].is_terminal) {
+    return {
+      error: "The first stage is where new responses start and cannot move",
+    };
+  }
+
+  return { stages };
+};
+
+export type FunnelStep = {
+  stage: PipelineStage;
+  // Responses that got to this stage or further
+  reached: number;
+  // Responses in this stage right now
+  current: number;
+};
+
+// Builds the funnel from the furthest open stage each response has been in,
+// using its status history, so candidates keep counting for the stages they
+// passed after being rejected. Terminal stages are outcomes and are counted
+// separately rather than ranked.
+export const computeStageFunnel = (
+  stages: PipelineStage[],
+  responses: Pick<Response, "id" | "candidate_status">[],
+  history: ResponseStatusChange[],
+) => {
+  const openStages = stages.filter((stage) => !stage.is_terminal);
+  const visitedByResponse = new Map<number, string[]>();
+  for (const change of history) {
+    visitedByResponse.set(change.response_id, [
+      ...(visitedByResponse.get(change.response_id) || []),
+      change.to_status,
+    ]);
+  }
+
+  const furthest = responses.map((response) => {
+    const visited = [
+      ...(visitedByResponse.get(Number(response.id)) || []),
+      getStage(stages, response.candidate_status).key,
+    ];
+
+    return Math.max(
+      0,
+      ...openStages
+        .filter((stage) => visited.includes(stage.key))
+        .map((stage) => openStages.indexOf(stage)),
+    );
+  });
+  const countIn = (stage: PipelineStage) =>
+    responses.filter(
+      (response) => getStage(stages, response.candidate_status) === stage,
+    ).length;
+
+  const steps: FunnelStep[] = openStages.map((stage, index) => ({
+    stage,
+    reached: furthest.filter((position) => position >= index).length,
+    current: countIn(stage),
+  }));
+  const outcomes = stages
+    .filter((stage) => stage.is_terminal)
+    .map((stage) => ({ stage, count: countIn(stage) }));
+
+  return { steps, outcomes };
+};
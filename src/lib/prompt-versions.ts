@@ -0,0 +1,72 @@
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  renderInterviewPrompt,
+} from "@/lib/interview-prompt";
+import { InterviewPromptService } from "@/services/interview-prompts.service";
+import { Interview } from "@/types/interview";
+import { PromptSettings, PromptVersion } from "@/types/interview-prompt";
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+const getSettings = (version: PromptVersion): PromptSettings => ({
+  tone: version.tone,
+  opening_script: version.opening_script,
+  closing_script: version.closing_script,
+  forbidden_topics: version.forbidden_topics || [],
+});
+
+const isSameVersion = (
+  version: PromptVersion,
+  settings: PromptSettings,
+  prompt: string,
+) =>
+  version.prompt === prompt &&
+  JSON.stringify(getSettings(version)) === JSON.stringify(settings);
+
+// Saves the settings as the interview's next prompt version, or returns the
+// latest version when nothing changed. Version numbers are claimed through a
+// unique constraint, so concurrent saves retry with the next number.
+export const savePromptVersion = async (
+  interview: Interview,
+  settings: PromptSettings,
+  createdBy: string | null,
+) => {
+  const prompt = renderInterviewPrompt(interview, settings);
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const latest = await InterviewPromptService.getLatestPromptVersion(
+      interview.id,
+    );
+    if (latest && isSameVersion(latest, settings, prompt)) {
+      return latest;
+    }
+
+    const created = await InterviewPromptService.createPromptVersion(
+      interview.id,
+      (latest?.version ?? 0) + 1,
+      settings,
+      prompt,
+      createdBy,
+    );
+    if (created !== "conflict") {
+      return created;
+    }
+  }
+
+  return null;
+};
+
+// The version a new call runs with: the latest settings applied to the
+// interview as it is now. Editing the questions therefore also starts a new
+// version, the first time a call uses them.
+export const resolvePromptVersion = async (interview: Interview) => {
+  const latest = await InterviewPromptService.getLatestPromptVersion(
+    interview.id,
+  );
+
+  return savePromptVersion(
+    interview,
+    latest ? getSettings(latest) : DEFAULT_PROMPT_SETTINGS,
+    latest?.created_by ?? null,
+  );
+};
@@ -1,9 +1,47 @@
+import { RubricCompetency } from "@/types/interview";
+import { DEFAULT_LEVEL_DESCRIPTORS } from "@/lib/rubric";
+
 export const SYSTEM_PROMPT =
   "You are an expert in analyzing interview transcripts. You must only use the main questions provided and not generate or infer additional questions.";
 
+const getRubricText = (rubric: RubricCompetency[]) =>
+  rubric
+    .map((competency, index) => {
+      const levels = DEFAULT_LEVEL_DESCRIPTORS.map(
+        (defaultDescriptor, level) =>
+          `     - ${level + 1}: ${competency.levels[level]?.trim() || defaultDescriptor}`,
+      ).join("\n");
+
+      return `${index + 1}. ${competency.name}${competency.description ? ` - ${competency.description}` : ""}\n${levels}`;
+    })
+    .join("\n");
+
+const getRubricInstructions = (rubric: RubricCompetency[]) => `
+5. Score the interviewee against each competency of the following rubric on a scale of 1 to 5, using the level descriptors:
+${getRubricText(rubric)}
+   - Use the exact competency names given above and score every competency.
+   - Base each score only on what the interviewee said. If there is no evidence for a competency, give it a score of 1.
+   - Provide 1 to 3 short verbatim quotes from the interviewee as evidence, and a one sentence rationale for the score.`;
+
+const getResumeInstructions = (claims: string[], number: number) => `
+${number}. Check the following claims from the interviewee's resume against what they said in the interview:
+${claims.map((claim, index) => `${index + 1}. ${claim}`).join("\n")}
+   - For each claim give a status: "consistent" if the answers back it up, "inconsistent" if the answers contradict it or show much less depth than claimed, or "not_discussed" if it did not come up.
+   - Give a short verbatim quote or one sentence as evidence, empty when the claim was not discussed.
+   - Give a consistency score (0-10), where 10 means everything discussed matched the resume, and a summary (40 words).`;
+
+const getQuestionLineInstructions = (number: number) => `
+${number}. Each line of the transcript starts with its number in square brackets. For each main question, in order, give the number of the Agent line where it was first asked, or null if it was not asked.
+   - Give the line of the main question itself, not of a follow-up or of an earlier line that only introduces it.`;
+
+// With numberedLines the transcript is from getNumberedTranscript and the
+// analysis also says where each question was asked
 export const getInterviewAnalyticsPrompt = (
   interviewTranscript: string,
   mainInterviewQuestions: string,
+  rubric: RubricCompetency[] = [],
+  resumeClaims: string[] = [],
+  numberedLines = false,
 ) => `Analyse the following interview transcript and provide structured feedback:
 
 ###
@@ -49,14 +87,40 @@ Based on this transcript and the provided main interview questions, generate the
             a) The candidate's response to the main question
             b) Any follow-up questions that were asked related to this main question and their answers
           - The summary should be a cohesive paragraph encompassing all related information for each main question
-4. Create a 10 to 15 words summary regarding the soft skills considering factors such as confidence, leadership, adaptability, critical thinking and decision making.
+      - Also give each main question a score (0-10) for the quality of the answer, considering relevance, depth and concrete examples. Use 0 for questions that were "Not Asked" or "Not Answered".
+4. Create a 10 to 15 words summary regarding the soft skills considering factors such as confidence, leadership, adaptability, critical thinking and decision making.${rubric.length > 0 ? getRubricInstructions(rubric) : ""}${
+  resumeClaims.length > 0
+    ? getResumeInstructions(resumeClaims, rubric.length > 0 ? 6 : 5)
+    : ""
+}${
+  numberedLines
+    ? getQuestionLineInstructions(
+        5 + (rubric.length > 0 ? 1 : 0) + (resumeClaims.length > 0 ? 1 : 0),
+      )
+    : ""
+}
 Ensure the output is in valid JSON format with the following structure:
 {
   "overallScore": number,
   "overallFeedback": string,
   "communication": { "score": number, "feedback": string },
-  "questionSummaries": [{ "question": string, "summary": string }],
-  "softSkillSummary: string
+  "questionSummaries": [{ "question": string, "summary": string, "score": number }],
+  "softSkillSummary": string${
+    rubric.length > 0
+      ? `,
+  "competencyScores": [{ "competency": string, "score": number, "evidence": [string], "rationale": string }]`
+      : ""
+  }${
+    resumeClaims.length > 0
+      ? `,
+  "resumeConsistency": { "score": number, "summary": string, "claims": [{ "claim": string, "status": string, "evidence": string }] }`
+      : ""
+  }${
+    numberedLines
+      ? `,
+  "questionLines": [number | null]`
+      : ""
+  }
 }
 
 IMPORTANT: Only use the main questions provided. Do not generate or infer additional questions such as follow-up questions.`;
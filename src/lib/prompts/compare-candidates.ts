@@ -0,0 +1,54 @@
+import { Response } from "@/types/response";
+
+export const SYSTEM_PROMPT =
+  "You are an expert hiring panel assistant. You compare interview candidates fairly, using only the evidence provided.";
+
+const getCandidateText = (response: Response) => {
+  const analytics = response.analytics;
+  const questionSummaries = (analytics?.questionSummaries || [])
+    .map(
+      (qs: { question: string; summary: string }) =>
+        `  - ${qs.question}: ${qs.summary}`,
+    )
+    .join("\n");
+  const competencyScores = (analytics?.competencyScores || [])
+    .map(
+      (cs: { competency: string; score: number }) =>
+        `  - ${cs.competency}: ${cs.score}/5`,
+    )
+    .join("\n");
+
+  return `callId: ${response.call_id}
+Name: ${response.name || "Anonymous"}
+Overall Score: ${analytics?.overallScore ?? "not available"}
+Overall Feedback: ${analytics?.overallFeedback || "not available"}
+Communication Score: ${analytics?.communication?.score ?? "not available"}/10
+Soft Skills: ${analytics?.softSkillSummary || "not available"}
+${competencyScores ? `Competency Scores:\n${competencyScores}\n` : ""}Question Summaries:
+${questionSummaries || "  not available"}`;
+};
+
+export const getCompareCandidatesPrompt = (
+  interviewName: string,
+  interviewObjective: string,
+  responses: Response[],
+) => `Compare the following candidates who took the same interview.
+
+###
+Interview Title: ${interviewName}
+Interview Objective: ${interviewObjective}
+
+###
+${responses.map(getCandidateText).join("\n\n###\n")}
+
+Based on the candidate analyses above:
+1. Write a summary (80 words or less) of how the candidates compare relative to each other for this role. Refer to candidates by name, or by "Anonymous" and their position in the list if they have no name.
+2. For each candidate, list 1 to 3 relative strengths and 1 to 3 relative concerns compared to the other candidates. Each should be 20 words or less.
+
+Do not make a hiring decision and do not consider anything other than the interview evidence, such as names or gender.
+
+Output the answer in JSON format with the following structure:
+{
+  "summary": string,
+  "candidates": [{ "callId": string, "strengths": [string], "concerns": [string] }]
+}`;
@@ -0,0 +1,27 @@
+export const SIMULATION_END_MARKER = "[END_CALL]";
+
+// Appended to the agent prompt, since a text chat has no end_call tool and no
+// speech to transcribe
+export const getSimulationSystemPrompt = (
+  agentPrompt: string,
+) => `${agentPrompt}
+
+This interview is taking place over text chat instead of a voice call. Reply only with exactly what you would say out loud, without stage directions or notes. When the interview is over or the candidate says goodbye, end your final message with ${SIMULATION_END_MARKER}.`;
+
+export const COVERAGE_SYSTEM_PROMPT =
+  "You review interview transcripts and report which of the planned questions the interviewer has asked.";
+
+export const getCoveragePrompt = (
+  questions: string,
+  transcript: string,
+) => `Below are the planned interview questions and the transcript so far. A question counts as covered when the interviewer asked it or an equivalent question in different words, even if the candidate has not answered yet.
+
+###
+Planned Questions:
+${questions}
+
+###
+Transcript:
+${transcript}
+
+Respond with JSON in the form {"coveredQuestions": [1, 3]} listing the numbers of the covered questions.`;
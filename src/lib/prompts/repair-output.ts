@@ -0,0 +1,6 @@
+export const getRepairPrompt = (
+  problems: string,
+) => `Your previous response could not be used because it did not match the required format:
+${problems}
+
+Return the complete corrected JSON object using the exact structure requested earlier. Do not add explanations or markdown.`;
@@ -0,0 +1,13 @@
+export const SYSTEM_PROMPT =
+  "You condense hiring documents such as job descriptions, competency frameworks and company values without losing the details an interviewer needs.";
+
+export const getSummariseDocumentPrompt = (
+  name: string,
+  part: string,
+  maxCharacters: number,
+) => `Summarise the following part of the document "${name}" in at most ${maxCharacters} characters.
+
+Keep responsibilities, required skills and experience, technologies, competencies, levels and values, using the document's own terms. Drop boilerplate such as legal notices, benefits and application instructions. Output only the summary as plain text.
+
+###
+${part}`;
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchPublicUrl,
+  isPublicAddress,
+  isPublicUrl,
+  readBodyWithLimit,
+} from "@/lib/public-url";
+
+const PUBLIC_URL = "http://93.184.216.34/jobs/1";
+
+const redirectTo = (location: string) =>
+  new Response(null, { status: 302, headers: { location } });
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+  ])("refuses %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(["93.184.216.34", "8.8.8.8", "2606:4700:4700::1111"])(
+    "accepts %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it("refuses anything that is not an address", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+  });
+});
+
+describe("isPublicUrl", () => {
+  it.each([
+    "http://localhost/",
+    "http://2130706433/",
+    "http://0x7f.1/",
+    "http://017700000001/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[::1]/",
+    "http://169.254.169.254/latest/meta-data",
+    "file:///etc/passwd",
+  ])("refuses %s", async (url) => {
+    await expect(isPublicUrl(new URL(url))).resolves.toBe(false);
+  });
+
+  it("accepts a public address", async () => {
+    await expect(isPublicUrl(new URL(PUBLIC_URL))).resolves.toBe(true);
+  });
+});
+
+describe("fetchPublicUrl", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("follows redirects between public URLs", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(redirectTo("/jobs/2"))
+      .mockResolvedValueOnce(new Response("Job post"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await fetchPublicUrl(new URL(PUBLIC_URL));
+
+    await expect(response.text()).resolves.toBe("Job post");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1][0])).toBe(
+      "http://93.184.216.34/jobs/2",
+    );
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it("refuses a redirect to an internal address", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(redirectTo("http://169.254.169.254/latest/meta-data"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(fetchPublicUrl(new URL(PUBLIC_URL))).rejects.toThrow(
+      /Refusing to fetch/,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops after too many redirects", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => redirectTo(PUBLIC_URL)),
+    );
+
+    await expect(fetchPublicUrl(new URL(PUBLIC_URL))).rejects.toThrow(
+      /Too many redirects/,
+    );
+  });
+});
+
+describe("readBodyWithLimit", () => {
+  const streamOf = (...chunks: string[]) =>
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) =>
+          controller.enqueue(new TextEncoder().encode(chunk)),
+        );
+        controller.close();
+      },
+    });
+
+  it("reads a body within the limit", async () => {
+    const body = await readBodyWithLimit(
+      new Response(streamOf("Job ", "post")),
+      8,
+    );
+
+    expect(new TextDecoder().decode(body)).toBe("Job post");
+  });
+
+  it("refuses a larger declared length without reading", async () => {
+    const response = new Response(streamOf("Job post"), {
+      headers: { "content-length": "1000" },
+    });
+
+    await expect(readBodyWithLimit(response, 8)).rejects.toThrow(
+      /larger than 8 bytes/,
+    );
+  });
+
+  it("stops reading once the body passes the limit", async () => {
+    await expect(
+      readBodyWithLimit(new Response(streamOf("Job ", "post", "!")), 8),
+    ).rejects.toThrow(/larger than 8 bytes/);
+  });
+});
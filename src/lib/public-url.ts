@@ -0,0 +1,129 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+const MAX_REDIRECTS = 5;
+
+// This host, private networks, link-local (including cloud metadata) and
+// reserved ranges. IPv4 rules also match the IPv4-mapped IPv6 form.
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+// ::/96 holds the unspecified and loopback addresses and the deprecated
+// IPv4-compatible form; 64:ff9b::/96 translates to IPv4 addresses
+const BLOCKED_IPV6_RANGES: [string, number][] = [
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+];
+
+const blockedAddresses = new BlockList();
+BLOCKED_IPV4_RANGES.forEach(([address, prefix]) =>
+  blockedAddresses.addSubnet(address, prefix, "ipv4"),
+);
+BLOCKED_IPV6_RANGES.forEach(([address, prefix]) =>
+  blockedAddresses.addSubnet(address, prefix, "ipv6"),
+);
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+
+  return (
+    family !== 0 &&
+    !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6")
+  );
+};
+
+// Accepts http(s) URLs whose host only resolves to public addresses. Every
+// address is checked since the connection may use any of them. Decimal, octal
+// and hex hosts are already normalised to dotted IPv4 by the URL parser.
+export const isPublicUrl = async (url: URL) => {
+  if (!["http:", "https:"].includes(url.protocol)) {
+    return false;
+  }
+
+  try {
+    const addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), {
+      all: true,
+      verbatim: true,
+    });
+
+    return (
+      addresses.length > 0 &&
+      addresses.every(({ address }) => isPublicAddress(address))
+    );
+  } catch {
+    return false;
+  }
+};
+
+// fetch() for URLs given by users. Redirects are followed by hand so that
+// every hop is checked, and a public page cannot send the server to an
+// internal one.
+export const fetchPublicUrl = async (url: URL, init: RequestInit = {}) => {
+  let current = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects += 1) {
+    if (!(await isPublicUrl(current))) {
+      throw new Error(`Refusing to fetch ${current}`);
+    }
+
+    const response = await fetch(current, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+
+  throw new Error(`Too many redirects fetching ${url}`);
+};
+
+// Reads at most maxBytes of a response body. A larger declared length is
+// refused up front, and reading stops as soon as the body passes the limit,
+// since the length header may be missing or wrong.
+export const readBodyWithLimit = async (
+  response: Response,
+  maxBytes: number,
+) => {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Response is larger than ${maxBytes} bytes`);
+  }
+
+  const reader = response.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const chunk = await reader?.read();
+    if (!chunk || chunk.done) {
+      break;
+    }
+    size += chunk.value.byteLength;
+    if (size > maxBytes) {
+      await reader?.cancel();
+      throw new Error(`Response is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk.value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+
+  return body;
+};
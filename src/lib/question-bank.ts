@@ -0,0 +1,160 @@
+import { normalizeText } from "@/lib/llm/schemas";
+import { Interview } from "@/types/interview";
+import {
+  BankQuestion,
+  BankQuestionPayload,
+  BankQuestionStats,
+  BankQuestionWithStats,
+  Seniority,
+} from "@/types/question-bank";
+import { Analytics, Response } from "@/types/response";
+
+export const SENIORITY_LEVELS: Seniority[] = [
+  "junior",
+  "mid",
+  "senior",
+  "lead",
+];
+
+const MAX_SKILLS = 10;
+const NOT_ASKED = normalizeText("Not Asked");
+const NOT_ANSWERED = normalizeText("Not Answered");
+
+const isSeniority = (value: unknown): value is Seniority =>
+  SENIORITY_LEVELS.includes(value as Seniority);
+
+// Skills are stored lower case so "React" and "react" are one tag
+export const parseSkills = (value: unknown) => {
+  const skills = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+
+  return Array.from(
+    new Set(
+      skills
+        .filter((skill): skill is string => typeof skill === "string")
+        .map((skill) => skill.trim().toLowerCase())
+        .filter((skill) => skill.length > 0),
+    ),
+  ).slice(0, MAX_SKILLS);
+};
+
+// Returns null when the request has no question text
+export const normalizeBankQuestionPayload = (
+  body: any,
+): BankQuestionPayload | null => {
+  const question =
+    typeof body?.question === "string" ? body.question.trim() : "";
+  if (!question) {
+    return null;
+  }
+
+  const followUpCount = Number(body.follow_up_count);
+  const role = typeof body.role === "string" ? body.role.trim() : "";
+
+  return {
+    question,
+    follow_up_count: [1, 2, 3].includes(followUpCount) ? followUpCount : 1,
+    skills: parseSkills(body.skills),
+    seniority: isSeniority(body.seniority) ? body.seniority : null,
+    role: role || null,
+  };
+};
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(
+        (values.reduce((sum, value) => sum + value, 0) / values.length) * 10,
+      ) / 10
+    : null;
+
+// Aggregates the per-question summaries of every analysed response to an
+// interview that used the bank question. Summaries are matched on the question
+// text the response was analysed against, so a question edited after the
+// interview went out only counts responses that were asked the new wording.
+export const computeBankQuestionStats = (
+  bankQuestions: BankQuestion[],
+  interviews: Interview[],
+  responses: Pick<Response, "interview_id" | "analytics">[],
+): BankQuestionWithStats[] => {
+  const responsesByInterview = new Map<string, Analytics[]>();
+  for (const response of responses) {
+    if (!response.analytics) {
+      continue;
+    }
+    responsesByInterview.set(response.interview_id, [
+      ...(responsesByInterview.get(response.interview_id) || []),
+      response.analytics,
+    ]);
+  }
+
+  return bankQuestions.map((bankQuestion) => {
+    const stats: BankQuestionStats = {
+      interview_count: 0,
+      response_count: 0,
+      not_asked_count: 0,
+      not_answered_count: 0,
+      average_score: null,
+      average_overall_score: null,
+    };
+    const scores: number[] = [];
+    const overallScores: number[] = [];
+
+    for (const interview of interviews) {
+      const question = (interview.questions || []).find(
+        (item) => item.bank_question_id === bankQuestion.id,
+      );
+      if (!question) {
+        continue;
+      }
+      stats.interview_count += 1;
+
+      for (const analytics of responsesByInterview.get(interview.id) || []) {
+        const summary = (analytics.questionSummaries || []).find(
+          (item) =>
+            normalizeText(item.question) === normalizeText(question.question),
+        );
+        if (!summary) {
+          continue;
+        }
+        stats.response_count += 1;
+        if (typeof analytics.overallScore === "number") {
+          overallScores.push(analytics.overallScore);
+        }
+
+        const outcome = normalizeText(summary.summary);
+        if (outcome === NOT_ASKED) {
+          stats.not_asked_count += 1;
+        } else if (outcome === NOT_ANSWERED) {
+          stats.not_answered_count += 1;
+        } else if (typeof summary.score === "number") {
+          scores.push(summary.score);
+        }
+      }
+    }
+
+    stats.average_score = average(scores);
+    stats.average_overall_score = average(overallScores);
+
+    return { ...bankQuestion, stats };
+  });
+};
+
+export const matchesBankQuestionSearch = (
+  bankQuestion: BankQuestion,
+  search: string,
+) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [
+    bankQuestion.question,
+    bankQuestion.role || "",
+    bankQuestion.seniority || "",
+    ...bankQuestion.skills,
+  ]
+    .join(" ")
+    .toLowerCase();
+
+  return terms.every((term) => haystack.includes(term));
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+import { getClientIp } from "@/lib/rate-limit";
+
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+
+const request = (headers: Record<string, string>) =>
+  new Request("http://localhost/api/candidate-resume", { headers });
+
+describe("getClientIp", () => {
+  it("uses the address the proxy appended, not the one the client sent", () => {
+    expect(
+      getClientIp(request({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" })),
+    ).toBe("203.0.113.7");
+  });
+
+  it("prefers X-Real-IP, which the proxy sets itself", () => {
+    expect(
+      getClientIp(
+        request({
+          "x-forwarded-for": "1.2.3.4, 203.0.113.7",
+          "x-real-ip": "198.51.100.2",
+        }),
+      ),
+    ).toBe("198.51.100.2");
+  });
+
+  it("prefers the address Next.js reports", () => {
+    const req = Object.assign(request({ "x-real-ip": "198.51.100.2" }), {
+      ip: "192.0.2.1",
+    });
+
+    expect(getClientIp(req)).toBe("192.0.2.1");
+  });
+
+  it("groups requests without an address together", () => {
+    expect(getClientIp(request({}))).toBe("unknown");
+  });
+});
@@ -0,0 +1,26 @@
+import { RateLimitService } from "@/services/rate-limits.service";
+
+export type RateLimit = { maxCount: number; windowSeconds: number };
+
+// Clients can send their own X-Forwarded-For, so only what the proxy in front
+// of the app sets is trusted: the address Next.js reports on Vercel, the
+// X-Real-IP header Vercel overwrites, or else the entry the proxy appended
+// last to X-Forwarded-For
+export const getClientIp = (req: Request & { ip?: string }) =>
+  req.ip ||
+  req.headers.get("x-real-ip")?.trim() ||
+  req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+  "unknown";
+
+// Returns false once the caller has used up the limit for this scope, e.g. a
+// public route and the interview it is called for
+export const consumeRequestLimit = (
+  req: Request,
+  scope: string,
+  { maxCount, windowSeconds }: RateLimit,
+) =>
+  RateLimitService.consumeRateLimit(
+    `${scope}:${getClientIp(req)}`,
+    windowSeconds,
+    maxCount,
+  );
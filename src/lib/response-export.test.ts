@@ -0,0 +1,37 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import { toSheetName, toXLSX } from "@/lib/response-export";
+
+describe("toSheetName", () => {
+  it("replaces characters Excel does not allow", () => {
+    expect(toSheetName("Frontend / React: [Senior]?*")).toBe(
+      "Frontend React Senior",
+    );
+  });
+
+  it("truncates to 31 characters", () => {
+    expect(toSheetName("a".repeat(40))).toHaveLength(31);
+  });
+
+  it("does not start or end with an apostrophe", () => {
+    expect(toSheetName("'Quoted'")).toBe("Quoted");
+  });
+
+  it("falls back when nothing usable is left", () => {
+    expect(toSheetName("/ ? *")).toBe("Responses");
+    expect(toSheetName("History")).toBe("Responses");
+  });
+});
+
+describe("toXLSX", () => {
+  it("exports interviews whose names Excel rejects as sheet names", async () => {
+    const buffer = await toXLSX(
+      { headers: ["Name"], rows: [["Sam"]] },
+      "Frontend / React",
+    );
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(Uint8Array.from(buffer).buffer);
+
+    expect(workbook.worksheets[0].name).toBe("Frontend React");
+  });
+});
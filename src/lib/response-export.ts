@@ -0,0 +1,143 @@
+import ExcelJS from "exceljs";
+import { Interview } from "@/types/interview";
+import { CompetencyScore, Response } from "@/types/response";
+import { PipelineStage } from "@/types/pipeline";
+import { getStage } from "@/lib/pipeline";
+import { alignQuestionSummaries } from "@/lib/llm/schemas";
+import { convertSecondstoMMSS } from "@/lib/utils";
+
+export type ExportFormat = "csv" | "xlsx";
+
+type ExportCell = string | number | null;
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+export const toFileName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "interview";
+
+export const getStatusLabel = (
+  status: string | null,
+  stages: PipelineStage[],
+) => getStage(stages, status)?.name || status || "";
+
+// One row per response. Rubric competencies and interview questions each get
+// their own column so the sheet lines up across candidates.
+export const getResponsesTable = (
+  interview: Interview,
+  responses: Response[],
+  stages: PipelineStage[],
+): ExportTable => {
+  const questions = (interview.questions || []).map((q) => q.question);
+  const competencies = (interview.rubric || []).map(
+    (competency) => competency.name,
+  );
+
+  const headers = [
+    "Name",
+    "Email",
+    "Status",
+    "Submitted At",
+    "Overall Score",
+    "Communication Score",
+    ...competencies.map((competency) => `${competency} (1-5)`),
+    "Must-haves Not Met",
+    "Duration",
+    "Tab Switches",
+    "Overall Feedback",
+    "Call Summary",
+    ...questions.map((question, index) => `Q${index + 1}: ${question}`),
+  ];
+
+  const rows = responses.map((response) => {
+    const analytics = response.analytics;
+    const competencyScores: CompetencyScore[] =
+      analytics?.competencyScores || [];
+    const questionSummaries = analytics?.questionSummaries
+      ? alignQuestionSummaries(analytics.questionSummaries, questions)
+      : [];
+
+    return [
+      response.name || "Anonymous",
+      response.email || "",
+      getStatusLabel(response.candidate_status, stages),
+      new Date(response.created_at).toISOString(),
+      analytics?.overallScore ?? null,
+      analytics?.communication?.score ?? null,
+      ...competencies.map(
+        (competency) =>
+          competencyScores.find((score) => score.competency === competency)
+            ?.score ?? null,
+      ),
+      (analytics?.unmetMustHaves || []).join(", "),
+      response.duration ? convertSecondstoMMSS(response.duration) : "",
+      response.tab_switch_count ?? 0,
+      analytics?.overallFeedback || "",
+      response.details?.call_analysis?.call_summary || "",
+      ...questions.map((_, index) => questionSummaries[index]?.summary || ""),
+    ];
+  });
+
+  return { headers, rows };
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCSVCell = (cell: ExportCell) => {
+  if (cell === null) {
+    return "";
+  }
+  if (typeof cell === "number") {
+    return String(cell);
+  }
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCSV = ({ headers, rows }: ExportTable) =>
+  [headers, ...rows].map((row) => row.map(toCSVCell).join(",")).join("\r\n");
+
+// Excel limits sheet names to 31 characters, without * ? : \ / [ ] and not
+// starting or ending with an apostrophe, and reserves "History"
+export const toSheetName = (name: string) => {
+  const trimApostrophes = (value: string) =>
+    value
+      .trim()
+      .replace(/^'+|'+$/g, "")
+      .trim();
+  const sheetName = trimApostrophes(
+    trimApostrophes(
+      name.replace(/[*?:/\\[\]]+/g, " ").replace(/\s+/g, " "),
+    ).slice(0, 31),
+  );
+
+  return sheetName && sheetName.toLowerCase() !== "history"
+    ? sheetName
+    : "Responses";
+};
+
+export const toXLSX = async (
+  { headers, rows }: ExportTable,
+  sheetName: string,
+) => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(toSheetName(sheetName));
+
+  worksheet.addRow(headers);
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+  rows.forEach((row) => worksheet.addRow(row));
+  worksheet.columns.forEach((column, index) => {
+    column.width = Math.min(Math.max(headers[index].length, 12), 60);
+    column.alignment = { vertical: "top", wrapText: true };
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
@@ -0,0 +1,175 @@
+import PDFDocument from "pdfkit";
+import { Interview } from "@/types/interview";
+import { Analytics, CompetencyScore, Response } from "@/types/response";
+import { PipelineStage } from "@/types/pipeline";
+import { alignQuestionSummaries } from "@/lib/llm/schemas";
+import { getStatusLabel } from "@/lib/response-export";
+import { convertSecondstoMMSS } from "@/lib/utils";
+
+const INDIGO = "#4F46E5";
+const GRAY = "#6B7280";
+
+type Doc = PDFKit.PDFDocument;
+
+const heading = (doc: Doc, text: string) => {
+  doc.moveDown(1).font("Helvetica-Bold").fontSize(14).fillColor(INDIGO);
+  doc.text(text).moveDown(0.3);
+  doc.font("Helvetica").fontSize(10).fillColor("black");
+};
+
+const field = (doc: Doc, label: string, value: string | number) => {
+  doc.font("Helvetica-Bold").text(`${label}: `, { continued: true });
+  doc.font("Helvetica").text(String(value));
+};
+
+const bullets = (doc: Doc, items: string[]) => {
+  items.forEach((item) => doc.text(`•  ${item}`, { indent: 10 }));
+};
+
+const addAnalytics = (doc: Doc, analytics: Analytics, questions: string[]) => {
+  heading(doc, "Analysis");
+  field(doc, "Overall Score", `${analytics.overallScore}/100`);
+  doc.text(analytics.overallFeedback).moveDown(0.5);
+  field(doc, "Communication", `${analytics.communication.score}/10`);
+  doc.text(analytics.communication.feedback).moveDown(0.5);
+  field(doc, "Soft Skills", analytics.softSkillSummary);
+
+  const competencyScores: CompetencyScore[] = analytics.competencyScores || [];
+  if (competencyScores.length > 0) {
+    heading(doc, "Competency Scores");
+    if (analytics.unmetMustHaves && analytics.unmetMustHaves.length > 0) {
+      doc
+        .fillColor("red")
+        .text(`Must-have not met: ${analytics.unmetMustHaves.join(", ")}`)
+        .fillColor("black")
+        .moveDown(0.3);
+    }
+    competencyScores.forEach((score) => {
+      field(
+        doc,
+        `${score.competency}${score.mustHave ? " (must-have)" : ""}`,
+        `${score.score}/5, weight ${score.weight}`,
+      );
+      if (score.rationale) {
+        doc.text(score.rationale);
+      }
+      doc.fillColor(GRAY);
+      bullets(
+        doc,
+        score.evidence.map((quote) => `"${quote}"`),
+      );
+      doc.fillColor("black").moveDown(0.5);
+    });
+  }
+
+  if (analytics.questionSummaries?.length > 0) {
+    heading(doc, "Question Summaries");
+    alignQuestionSummaries(
+      analytics.questionSummaries,
+      questions.length > 0
+        ? questions
+        : analytics.questionSummaries.map((qs) => qs.question),
+    ).forEach((qs, index) => {
+      doc.font("Helvetica-Bold").text(`${index + 1}. ${qs.question}`);
+      doc.font("Helvetica").text(qs.summary).moveDown(0.5);
+    });
+  }
+
+  const communicationAnalysis = analytics.communicationAnalysis;
+  if (communicationAnalysis) {
+    heading(doc, "Communication Analysis");
+    field(doc, "Score", `${communicationAnalysis.communicationScore}/10`);
+    doc.text(communicationAnalysis.overallFeedback).moveDown(0.5);
+    if (communicationAnalysis.strengths.length > 0) {
+      doc.font("Helvetica-Bold").text("Strengths").font("Helvetica");
+      bullets(doc, communicationAnalysis.strengths);
+      doc.moveDown(0.5);
+    }
+    if (communicationAnalysis.improvementAreas.length > 0) {
+      doc
+        .font("Helvetica-Bold")
+        .text("Areas for Improvement")
+        .font("Helvetica");
+      bullets(doc, communicationAnalysis.improvementAreas);
+      doc.moveDown(0.5);
+    }
+    communicationAnalysis.supportingQuotes.forEach((quote) => {
+      doc.fillColor(GRAY).text(`"${quote.quote}"`, { indent: 10 });
+      doc
+        .fillColor("black")
+        .text(
+          `${quote.type === "strength" ? "Strength" : "Improvement area"}: ${quote.analysis}`,
+          { indent: 10 },
+        )
+        .moveDown(0.3);
+    });
+  }
+};
+
+const addTranscript = (doc: Doc, transcript: string, name: string) => {
+  heading(doc, "Transcript");
+  transcript
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .forEach((line) => {
+      const match = line.match(/^(Agent|User):\s*(.*)$/);
+      if (!match) {
+        doc.text(line).moveDown(0.3);
+
+        return;
+      }
+      const speaker = match[1] === "Agent" ? "AI interviewer" : name;
+      doc.font("Helvetica-Bold").text(`${speaker}: `, { continued: true });
+      doc.font("Helvetica").text(match[2]).moveDown(0.3);
+    });
+};
+
+export const createResponseReport = (
+  interview: Interview,
+  response: Response,
+  stages: PipelineStage[],
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const name = response.name || "Anonymous";
+
+    doc.font("Helvetica-Bold").fontSize(20).text(name);
+    doc
+      .font("Helvetica")
+      .fontSize(12)
+      .fillColor(GRAY)
+      .text(interview.name)
+      .fillColor("black")
+      .fontSize(10)
+      .moveDown(0.5);
+
+    if (response.email) {
+      field(doc, "Email", response.email);
+    }
+    field(doc, "Status", getStatusLabel(response.candidate_status, stages));
+    field(doc, "Submitted At", new Date(response.created_at).toUTCString());
+    if (response.duration) {
+      field(doc, "Duration", convertSecondstoMMSS(response.duration));
+    }
+    field(doc, "Tab Switches", response.tab_switch_count ?? 0);
+
+    if (response.analytics) {
+      addAnalytics(
+        doc,
+        response.analytics,
+        (interview.questions || []).map((q) => q.question),
+      );
+    }
+
+    const transcript = response.details?.transcript;
+    if (transcript) {
+      addTranscript(doc, transcript, name);
+    }
+
+    doc.end();
+  });
@@ -0,0 +1,26 @@
+import { CandidateResume } from "@/types/resume";
+
+export const MAX_RESUME_FILE_SIZE = 5 * 1024 * 1024;
+export const RESUME_QUESTION_COUNT = 2;
+// Resumes are a page or two; anything longer is cut rather than summarised
+export const RESUME_TEXT_LIMIT = 12000;
+
+export const RESUME_FILE_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    ".docx",
+  ],
+};
+
+// Added to the rendered interview prompt for a single call. The personalised
+// questions come after the core ones, so the interview's own coverage and
+// timing still take priority.
+export const getResumePromptSection = (
+  resume: Pick<CandidateResume, "questions">,
+) =>
+  [
+    "The candidate shared their resume. After the questions above, if there is time, ask these questions about it. After each one, ask up to 1 follow up question to check the details of what they describe.",
+    ...resume.questions.map(
+      (question, index) => `${index + 1}. ${question.question}`,
+    ),
+  ].join("\n");
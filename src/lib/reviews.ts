@@ -0,0 +1,255 @@
+import { normalizeText } from "@/lib/llm/schemas";
+import { RUBRIC_MAX_LEVEL, RUBRIC_MIN_LEVEL } from "@/lib/rubric";
+import { Interview } from "@/types/interview";
+import { Analytics } from "@/types/response";
+import {
+  ConsensusItem,
+  ResponseComment,
+  ResponseScorecard,
+  ReviewConsensus,
+  ReviewRecommendation,
+  ScorecardPayload,
+  ScorecardRating,
+} from "@/types/review";
+
+// Questions are rated out of 10 like the AI question scores
+export const QUESTION_RATING_MIN = 1;
+export const QUESTION_RATING_MAX = 10;
+
+export const MAX_SCORECARD_NOTES_LENGTH = 4000;
+export const MAX_COMMENT_LENGTH = 2000;
+
+export const RECOMMENDATIONS: ReviewRecommendation[] = [
+  "strong_no",
+  "no",
+  "yes",
+  "strong_yes",
+];
+
+export const RECOMMENDATION_LABELS: Record<ReviewRecommendation, string> = {
+  strong_no: "Strong No",
+  no: "No",
+  yes: "Yes",
+  strong_yes: "Strong Yes",
+};
+
+const RECOMMENDATION_VALUES: Record<ReviewRecommendation, number> = {
+  strong_no: -2,
+  no: -1,
+  yes: 1,
+  strong_yes: 2,
+};
+
+type ReviewedInterview = Pick<Interview, "questions" | "rubric">;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(
+        (values.reduce((sum, value) => sum + value, 0) / values.length) * 10,
+      ) / 10
+    : null;
+
+// Keeps one whole-number rating per known id, inside the scale
+const normalizeRatings = (
+  ratings: unknown,
+  ids: string[],
+  min: number,
+  max: number,
+): ScorecardRating[] | null => {
+  if (!Array.isArray(ratings)) {
+    return [];
+  }
+  const byId = new Map<string, number>();
+  for (const item of ratings) {
+    if (!ids.includes(item?.id)) {
+      continue;
+    }
+    const rating = Number(item.rating);
+    if (!Number.isInteger(rating) || rating < min || rating > max) {
+      return null;
+    }
+    byId.set(item.id, rating);
+  }
+
+  return ids
+    .filter((id) => byId.has(id))
+    .map((id) => ({ id, rating: byId.get(id) as number }));
+};
+
+// Scorecards come from the dashboard, so ratings for competencies or
+// questions the interview no longer has are dropped and anything out of range
+// is reported back rather than saved
+export const normalizeScorecard = (
+  body: Partial<ScorecardPayload>,
+  interview: ReviewedInterview,
+): { scorecard: ScorecardPayload } | { error: string } => {
+  const competencyRatings = normalizeRatings(
+    body.competency_ratings,
+    (interview.rubric || []).map((competency) => competency.id),
+    RUBRIC_MIN_LEVEL,
+    RUBRIC_MAX_LEVEL,
+  );
+  if (!competencyRatings) {
+    return {
+      error: `Competency ratings must be between ${RUBRIC_MIN_LEVEL} and ${RUBRIC_MAX_LEVEL}`,
+    };
+  }
+  const questionRatings = normalizeRatings(
+    body.question_ratings,
+    interview.questions.map((question) => question.id),
+    QUESTION_RATING_MIN,
+    QUESTION_RATING_MAX,
+  );
+  if (!questionRatings) {
+    return {
+      error: `Question ratings must be between ${QUESTION_RATING_MIN} and ${QUESTION_RATING_MAX}`,
+    };
+  }
+
+  const recommendation = body.recommendation ?? null;
+  if (recommendation !== null && !RECOMMENDATIONS.includes(recommendation)) {
+    return { error: "Unknown recommendation" };
+  }
+  const notes = typeof body.notes === "string" ? body.notes.trim() : "";
+  if (notes.length > MAX_SCORECARD_NOTES_LENGTH) {
+    return {
+      error: `Notes must be at most ${MAX_SCORECARD_NOTES_LENGTH} characters`,
+    };
+  }
+
+  return {
+    scorecard: {
+      competency_ratings: competencyRatings,
+      question_ratings: questionRatings,
+      recommendation,
+      notes,
+    },
+  };
+};
+
+export const isScorecardEmpty = (scorecard: ScorecardPayload) =>
+  scorecard.competency_ratings.length === 0 &&
+  scorecard.question_ratings.length === 0 &&
+  !scorecard.recommendation &&
+  !scorecard.notes;
+
+const collectRatings = (
+  scorecards: ResponseScorecard[],
+  key: "competency_ratings" | "question_ratings",
+  id: string,
+) =>
+  scorecards
+    .map((scorecard) => scorecard[key].find((item) => item.id === id)?.rating)
+    .filter((rating): rating is number => typeof rating === "number");
+
+// Lines the AI analysis up with the reviewers' ratings. AI scores are matched
+// by competency name and question text, since the analysis predates any
+// later edits to the interview's ids.
+export const computeReviewConsensus = (
+  interview: ReviewedInterview,
+  analytics: Analytics | null,
+  scorecards: ResponseScorecard[],
+): ReviewConsensus => {
+  const competencies: ConsensusItem[] = (interview.rubric || []).map(
+    (competency) => {
+      const ratings = collectRatings(
+        scorecards,
+        "competency_ratings",
+        competency.id,
+      );
+
+      return {
+        id: competency.id,
+        label: competency.name,
+        ai:
+          analytics?.competencyScores?.find(
+            (score) =>
+              normalizeText(score.competency) ===
+              normalizeText(competency.name),
+          )?.score ?? null,
+        average: average(ratings),
+        ratings,
+      };
+    },
+  );
+
+  const questions: ConsensusItem[] = interview.questions.map((question) => {
+    const ratings = collectRatings(scorecards, "question_ratings", question.id);
+
+    return {
+      id: question.id,
+      label: question.question,
+      ai:
+        analytics?.questionSummaries?.find(
+          (summary) =>
+            normalizeText(summary.question) ===
+            normalizeText(question.question),
+        )?.score ?? null,
+      average: average(ratings),
+      ratings,
+    };
+  });
+
+  const recommendations = Object.fromEntries(
+    RECOMMENDATIONS.map((recommendation) => [recommendation, 0]),
+  ) as Record<ReviewRecommendation, number>;
+  const values: number[] = [];
+  for (const scorecard of scorecards) {
+    if (scorecard.recommendation) {
+      recommendations[scorecard.recommendation] += 1;
+      values.push(RECOMMENDATION_VALUES[scorecard.recommendation]);
+    }
+  }
+
+  return {
+    reviewer_count: scorecards.length,
+    competencies,
+    questions,
+    recommendations,
+    recommendation_score: average(values),
+  };
+};
+
+// The recommendation closest to the average, for a one-word summary
+export const getConsensusRecommendation = (
+  score: number | null,
+): ReviewRecommendation | null => {
+  if (score === null) {
+    return null;
+  }
+
+  return RECOMMENDATIONS.reduce((closest, recommendation) =>
+    Math.abs(RECOMMENDATION_VALUES[recommendation] - score) <
+    Math.abs(RECOMMENDATION_VALUES[closest] - score)
+      ? recommendation
+      : closest,
+  );
+};
+
+export type CommentThread = ResponseComment & { replies: ResponseComment[] };
+
+// Replies are one level deep; a reply to a reply joins the same thread
+export const threadComments = (comments: ResponseComment[]) => {
+  const byId = new Map(comments.map((comment) => [comment.id, comment]));
+  const rootOf = (comment: ResponseComment): ResponseComment => {
+    const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined;
+
+    return parent ? rootOf(parent) : comment;
+  };
+
+  const threads = new Map<number, CommentThread>();
+  const sorted = [...comments].sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  );
+  for (const comment of sorted) {
+    const root = rootOf(comment);
+    if (root.id === comment.id) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    } else {
+      threads.get(root.id)?.replies.push(comment);
+    }
+  }
+
+  return Array.from(threads.values());
+};
@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from "uuid";
+import { RubricCompetency } from "@/types/interview";
+import { CompetencyScore } from "@/types/response";
+
+export const RUBRIC_MIN_LEVEL = 1;
+export const RUBRIC_MAX_LEVEL = 5;
+
+// Used in the prompt for any level the hiring manager left blank
+export const DEFAULT_LEVEL_DESCRIPTORS = [
+  "No evidence of the competency",
+  "Limited, mostly theoretical understanding",
+  "Meets expectations for the role",
+  "Strong, backed by concrete examples",
+  "Exceptional, could mentor others",
+];
+
+// A must-have competency scored below this level is flagged on the response
+export const MUST_HAVE_MIN_LEVEL = 3;
+
+export const MAX_COMPETENCIES = 8;
+
+export const createEmptyCompetency = (): RubricCompetency => ({
+  id: uuidv4(),
+  name: "",
+  description: "",
+  weight: 1,
+  must_have: false,
+  levels: ["", "", "", "", ""],
+});
+
+// Drops competencies without a name so half-filled editor rows are not saved
+export const cleanRubric = (rubric: RubricCompetency[]) =>
+  rubric
+    .map((competency) => ({ ...competency, name: competency.name.trim() }))
+    .filter((competency) => competency.name.length > 0);
+
+export const MAX_COMPETENCY_WEIGHT = 10;
+
+const toText = (value: unknown) => (typeof value === "string" ? value : "");
+
+// Server side counterpart of the rubric editor: the rubric comes from the
+// request, so every field is coerced into the shape the editor produces and
+// weights are kept to the editor's 1-10 range
+export const normalizeRubric = (
+  value: unknown,
+): { rubric: RubricCompetency[] } | { error: string } => {
+  if (value === null || value === undefined) {
+    return { rubric: [] };
+  }
+  if (!Array.isArray(value)) {
+    return { error: "The rubric must be a list of competencies" };
+  }
+
+  const rubric = cleanRubric(
+    value
+      .filter((competency) => competency && typeof competency === "object")
+      .map((competency) => ({
+        id: toText(competency.id) || uuidv4(),
+        name: toText(competency.name),
+        description: toText(competency.description).trim(),
+        weight: Number(competency.weight),
+        must_have: competency.must_have === true,
+        levels: Array.from({ length: RUBRIC_MAX_LEVEL }, (_, index) =>
+          (Array.isArray(competency.levels)
+            ? toText(competency.levels[index])
+            : ""
+          ).trim(),
+        ),
+      })),
+  );
+  if (rubric.length > MAX_COMPETENCIES) {
+    return { error: `Add at most ${MAX_COMPETENCIES} competencies` };
+  }
+  if (
+    rubric.some(
+      (competency) =>
+        !Number.isInteger(competency.weight) ||
+        competency.weight < 1 ||
+        competency.weight > MAX_COMPETENCY_WEIGHT,
+    )
+  ) {
+    return {
+      error: `Competency weights must be whole numbers from 1 to ${MAX_COMPETENCY_WEIGHT}`,
+    };
+  }
+
+  return { rubric };
+};
+
+// Weighted average of the competency levels, mapped onto 0-100
+export const computeRubricScore = (scores: CompetencyScore[]) => {
+  const totalWeight = scores.reduce((sum, score) => sum + score.weight, 0);
+  if (scores.length === 0) {
+    return 0;
+  }
+
+  const weighted = scores.reduce(
+    (sum, score) =>
+      sum +
+      (totalWeight > 0 ? score.weight / totalWeight : 1 / scores.length) *
+        ((score.score - RUBRIC_MIN_LEVEL) /
+          (RUBRIC_MAX_LEVEL - RUBRIC_MIN_LEVEL)),
+    0,
+  );
+
+  return Math.round(weighted * 100);
+};
+
+export const getUnmetMustHaves = (scores: CompetencyScore[]) =>
+  scores
+    .filter((score) => score.mustHave && score.score < MUST_HAVE_MIN_LEVEL)
+    .map((score) => score.competency);
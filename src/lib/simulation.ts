@@ -0,0 +1,151 @@
+import { RETELL_AGENT_GENERAL_PROMPT } from "@/lib/constants";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  renderInterviewPrompt,
+} from "@/lib/interview-prompt";
+import { buildInterviewerPrompt } from "@/lib/interviewer-agent";
+import { generateStructured, generateText } from "@/lib/llm";
+import { getInterviewUsageContext, UsageContext } from "@/lib/billing";
+import { createQuestionCoverageSchema } from "@/lib/llm/schemas";
+import {
+  COVERAGE_SYSTEM_PROMPT,
+  SIMULATION_END_MARKER,
+  getCoveragePrompt,
+  getSimulationSystemPrompt,
+} from "@/lib/prompts/interview-simulation";
+import { InterviewPromptService } from "@/services/interview-prompts.service";
+import { Interview } from "@/types/interview";
+import { Interviewer } from "@/types/interviewer";
+import { PromptVersion } from "@/types/interview-prompt";
+import { SimulationMessage } from "@/types/simulation";
+
+export const MAX_SIMULATION_MESSAGES = 80;
+export const MAX_SIMULATION_MESSAGE_LENGTH = 2000;
+
+// Drops anything that is not a chat message and caps the conversation, since
+// it comes from the browser
+export const normalizeSimulationMessages = (
+  messages: unknown,
+): SimulationMessage[] =>
+  (Array.isArray(messages) ? messages : [])
+    .filter(
+      (message) =>
+        (message?.role === "agent" || message?.role === "user") &&
+        typeof message.content === "string" &&
+        message.content.trim().length > 0,
+    )
+    .slice(-MAX_SIMULATION_MESSAGES)
+    .map((message) => ({
+      role: message.role,
+      content: message.content.trim().slice(0, MAX_SIMULATION_MESSAGE_LENGTH),
+    }));
+
+// Same "Agent:" / "User:" layout as Retell transcripts, so the analytics
+// prompt reads simulations and real calls alike
+export const toTranscript = (messages: SimulationMessage[]) =>
+  messages
+    .map(
+      (message) =>
+        `${message.role === "agent" ? "Agent" : "User"}: ${message.content}`,
+    )
+    .join("\n");
+
+// Rebuilds what the Retell agent would be told for this interview: the
+// interviewer's style and the latest prompt settings applied to the current
+// questions. Nothing is saved, so dry runs never create prompt versions.
+export const getSimulationAgentPrompt = async (
+  interview: Interview,
+  interviewer: Interviewer | null,
+) => {
+  const latest: PromptVersion | null =
+    await InterviewPromptService.getLatestPromptVersion(interview.id);
+  const interviewPrompt = renderInterviewPrompt(
+    interview,
+    latest
+      ? {
+          tone: latest.tone,
+          opening_script: latest.opening_script,
+          closing_script: latest.closing_script,
+          forbidden_topics: latest.forbidden_topics || [],
+        }
+      : DEFAULT_PROMPT_SETTINGS,
+  );
+  const agentPrompt = interviewer
+    ? buildInterviewerPrompt(interviewer)
+    : RETELL_AGENT_GENERAL_PROMPT;
+
+  return {
+    promptVersionId: latest?.id ?? null,
+    prompt: agentPrompt
+      .replace("{{name}}", "not provided")
+      .replace("{{interview_prompt}}", interviewPrompt),
+  };
+};
+
+export const generateSimulationReply = async (
+  agentPrompt: string,
+  messages: SimulationMessage[],
+  usage?: UsageContext,
+) => {
+  const completion = await generateText({
+    task: "interview-simulation",
+    usage,
+    temperature: 0.7,
+    messages: [
+      { role: "system", content: getSimulationSystemPrompt(agentPrompt) },
+      // The agent speaks first, so the chat starts with a cue from the user
+      ...(messages.length === 0 || messages[0].role === "agent"
+        ? [
+            {
+              role: "user" as const,
+              content: "(The candidate joins the call.)",
+            },
+          ]
+        : []),
+      ...messages.map((message) => ({
+        role:
+          message.role === "agent" ? ("assistant" as const) : ("user" as const),
+        content: message.content,
+      })),
+    ],
+  });
+  const content = completion.content.trim();
+
+  return {
+    reply: content.replace(SIMULATION_END_MARKER, "").trim(),
+    ended: content.includes(SIMULATION_END_MARKER),
+  };
+};
+
+// Returns the ids of the interview questions the agent has asked so far
+export const getCoveredQuestionIds = async (
+  interview: Interview,
+  messages: SimulationMessage[],
+) => {
+  const questions = (interview.questions || []).filter(
+    (question) => question.question.trim().length > 0,
+  );
+  if (questions.length === 0 || messages.length === 0) {
+    return [];
+  }
+
+  const { data: covered } = await generateStructured({
+    task: "simulation-coverage",
+    usage: getInterviewUsageContext(interview),
+    schema: createQuestionCoverageSchema(questions.length),
+    messages: [
+      { role: "system", content: COVERAGE_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: getCoveragePrompt(
+          questions
+            .map((question, index) => `${index + 1}. ${question.question}`)
+            .join("\n"),
+          toTranscript(messages),
+        ),
+      },
+    ],
+  });
+
+  return covered.map((number) => questions[number - 1].id);
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { computeSpeechMetrics } from "@/lib/speech-metrics";
+import { CallData } from "@/types/response";
+
+type Utterance = CallData["transcript_object"][number];
+
+const utterance = (
+  role: Utterance["role"],
+  ...words: [string, number, number][]
+): Utterance => ({
+  role,
+  content: words.map(([word]) => word).join(" "),
+  words: words.map(([word, start, end]) => ({ word, start, end })),
+});
+
+// One word every second, each half a second long
+const spoken = (role: Utterance["role"], text: string, start = 0) =>
+  utterance(
+    role,
+    ...text
+      .split(" ")
+      .map((word, index): [string, number, number] => [
+        word,
+        start + index,
+        start + index + 0.5,
+      ]),
+  );
+
+describe("computeSpeechMetrics", () => {
+  it("returns null without timed candidate words", () => {
+    expect(computeSpeechMetrics(undefined)).toBeNull();
+    expect(computeSpeechMetrics([])).toBeNull();
+    expect(
+      computeSpeechMetrics([
+        spoken("agent", "Tell me about yourself"),
+        { role: "user", content: "I was cut off", words: [] },
+      ]),
+    ).toBeNull();
+  });
+
+  it("counts filler words and phrases per 100 words", () => {
+    const metrics = computeSpeechMetrics([
+      spoken("user", "Um, I mean it uh works. Ah, er, you know?"),
+    ]);
+
+    expect(metrics).toMatchObject({
+      wordCount: 10,
+      fillerCount: 4,
+      fillerRate: 40,
+    });
+  });
+
+  it("sorts the gaps between the candidate's words into pauses", () => {
+    const metrics = computeSpeechMetrics([
+      utterance(
+        "user",
+        ["I", 0, 0.2],
+        ["think", 0.5, 0.8],
+        ["so", 1.4, 1.6],
+        ["maybe", 3.1, 3.4],
+        ["yes", 5.9, 6.2],
+      ),
+    ]);
+
+    expect(metrics?.pauses).toEqual({
+      short: 1,
+      medium: 1,
+      long: 1,
+      average: 1.53,
+      longest: 2.5,
+    });
+  });
+
+  it("has no pause statistics when the candidate never pauses", () => {
+    expect(computeSpeechMetrics([spoken("user", "Yes")])?.pauses).toEqual({
+      short: 0,
+      medium: 0,
+      long: 0,
+      average: null,
+      longest: null,
+    });
+  });
+
+  it("joins consecutive candidate lines into one monologue and splits talk time", () => {
+    const metrics = computeSpeechMetrics([
+      utterance("agent", ["Question", 0, 2]),
+      utterance("user", ["First", 2.5, 5]),
+      utterance("user", ["second", 6, 8]),
+      utterance("agent", ["Next", 8.5, 10.5]),
+      utterance("user", ["Third", 11, 12]),
+    ]);
+
+    expect(metrics).toMatchObject({
+      longestMonologue: 5.5,
+      candidateTalkTime: 5.5,
+      agentTalkTime: 4,
+      talkRatio: 0.58,
+      wordsPerMinute: 33,
+    });
+  });
+
+  it("counts turns that start before the other speaker finished", () => {
+    const metrics = computeSpeechMetrics([
+      utterance("agent", ["Tell", 0, 1], ["me", 1, 3]),
+      utterance("user", ["Sure", 2.5, 3.5]),
+      // Overlaps by less than the tolerance
+      utterance("agent", ["Okay", 3.4, 4]),
+      utterance("user", ["And", 5, 6]),
+      utterance("agent", ["Thanks", 5.5, 6.5]),
+    ]);
+
+    expect(metrics?.interruptions).toEqual({
+      byCandidate: 1,
+      byInterviewer: 1,
+    });
+  });
+
+  it("leaves untimed lines out of every metric", () => {
+    const metrics = computeSpeechMetrics([
+      spoken("agent", "Hello there", 0),
+      { role: "agent", content: "Are you still there", words: [] },
+      spoken("user", "Yes I am", 3),
+    ]);
+
+    expect(metrics).toMatchObject({
+      wordCount: 3,
+      agentTalkTime: 1.5,
+      candidateTalkTime: 2.5,
+      interruptions: { byCandidate: 0, byInterviewer: 0 },
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { getUtteranceEnd, getUtteranceStart } from "@/lib/transcript";
+import { CallData, SpeechMetrics } from "@/types/response";
+
+// Gaps between words shorter than this are part of normal speech
+export const MIN_PAUSE_SECONDS = 0.5;
+export const MEDIUM_PAUSE_SECONDS = 1;
+export const LONG_PAUSE_SECONDS = 2;
+
+// Word timings are approximate, so turns overlapping by less than this are not
+// counted as interruptions
+const INTERRUPTION_TOLERANCE_SECONDS = 0.2;
+
+// Only sounds that are never words in their own right. "Er" and "ah" are
+// left out: transcription splits words into them, and "ah" is often a real
+// reply.
+const FILLER_WORDS = ["um", "umm", "uh", "uhh", "uhm", "erm", "hmm"];
+const FILLER_PHRASES = ["you know", "i mean"];
+
+type TimedUtterance = {
+  role: "agent" | "user";
+  start: number;
+  end: number;
+  words: { word: string; start: number; end: number }[];
+};
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[^a-z']+/g, "");
+
+const countFillers = (words: string[]) => {
+  let count = 0;
+  for (let i = 0; i < words.length; i += 1) {
+    if (
+      i < words.length - 1 &&
+      FILLER_PHRASES.includes(`${words[i]} ${words[i + 1]}`)
+    ) {
+      count += 1;
+      i += 1;
+    } else if (FILLER_WORDS.includes(words[i])) {
+      count += 1;
+    }
+  }
+
+  return count;
+};
+
+// Lines and words without timings, such as ones cut off at the end of the
+// call, are left out of every metric
+const getTimedUtterances = (
+  transcript: CallData["transcript_object"],
+): TimedUtterance[] =>
+  transcript
+    .map((utterance) => ({
+      role: utterance.role,
+      start: getUtteranceStart(utterance),
+      end: getUtteranceEnd(utterance),
+      words: utterance.words.filter(
+        (word) =>
+          typeof word.start === "number" && typeof word.end === "number",
+      ),
+    }))
+    .filter(
+      (utterance): utterance is TimedUtterance =>
+        utterance.start !== null && utterance.end !== null,
+    );
+
+// Measures the candidate's delivery from the word timings of the recording.
+// Returns null when the candidate has no timed words.
+export const computeSpeechMetrics = (
+  transcript: CallData["transcript_object"] | undefined,
+): SpeechMetrics | null => {
+  const utterances = getTimedUtterances(transcript || []);
+  const candidate = utterances.filter((utterance) => utterance.role === "user");
+  const words = candidate.reduce<string[]>(
+    (all, utterance) =>
+      all.concat(
+        utterance.words.map((word) => normalizeWord(word.word)).filter(Boolean),
+      ),
+    [],
+  );
+  if (words.length === 0) {
+    return null;
+  }
+
+  const talkTime = (role: TimedUtterance["role"]) =>
+    utterances
+      .filter((utterance) => utterance.role === role)
+      .reduce((sum, utterance) => sum + (utterance.end - utterance.start), 0);
+  const candidateTalkTime = talkTime("user");
+  const agentTalkTime = talkTime("agent");
+
+  const pauses: number[] = [];
+  for (const utterance of candidate) {
+    for (let i = 1; i < utterance.words.length; i += 1) {
+      const gap = utterance.words[i].start - utterance.words[i - 1].end;
+      if (gap >= MIN_PAUSE_SECONDS) {
+        pauses.push(gap);
+      }
+    }
+  }
+
+  // Consecutive candidate lines with no interviewer line between them are one
+  // monologue
+  let longestMonologue = 0;
+  let monologueStart: number | null = null;
+  const interruptions = { byCandidate: 0, byInterviewer: 0 };
+  for (let i = 0; i < utterances.length; i += 1) {
+    const utterance = utterances[i];
+    const previous = i > 0 ? utterances[i - 1] : null;
+    if (utterance.role === "user") {
+      monologueStart =
+        previous?.role === "user" && monologueStart !== null
+          ? monologueStart
+          : utterance.start;
+      longestMonologue = Math.max(
+        longestMonologue,
+        utterance.end - monologueStart,
+      );
+    }
+    if (
+      previous &&
+      previous.role !== utterance.role &&
+      utterance.start < previous.end - INTERRUPTION_TOLERANCE_SECONDS
+    ) {
+      if (utterance.role === "user") {
+        interruptions.byCandidate += 1;
+      } else {
+        interruptions.byInterviewer += 1;
+      }
+    }
+  }
+
+  const fillerCount = countFillers(words);
+  const totalTalkTime = candidateTalkTime + agentTalkTime;
+
+  return {
+    wordCount: words.length,
+    wordsPerMinute:
+      candidateTalkTime > 0
+        ? Math.round(words.length / (candidateTalkTime / 60))
+        : 0,
+    fillerCount,
+    fillerRate: round((fillerCount / words.length) * 100, 1),
+    pauses: {
+      short: pauses.filter((pause) => pause < MEDIUM_PAUSE_SECONDS).length,
+      medium: pauses.filter(
+        (pause) => pause >= MEDIUM_PAUSE_SECONDS && pause < LONG_PAUSE_SECONDS,
+      ).length,
+      long: pauses.filter((pause) => pause >= LONG_PAUSE_SECONDS).length,
+      average:
+        pauses.length > 0
+          ? round(pauses.reduce((sum, pause) => sum + pause, 0) / pauses.length)
+          : null,
+      longest: pauses.length > 0 ? round(Math.max(...pauses)) : null,
+    },
+    longestMonologue: round(longestMonologue),
+    interruptions,
+    candidateTalkTime: round(candidateTalkTime),
+    agentTalkTime: round(agentTalkTime),
+    talkRatio: totalTalkTime > 0 ? round(candidateTalkTime / totalTalkTime) : 0,
+  };
+};
@@ -0,0 +1,36 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { logger } from "@/lib/logger";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
+
+type ClerkWindow = Window & {
+  Clerk?: { session?: { getToken: () => Promise<string | null> } | null };
+};
+
+// Browser requests carry the signed-in user's Clerk session token, so the row
+// level security policies in supabase_schema.sql decide what they can read
+// and write. Signed-out visitors, like candidates, fall back to the anon role.
+const createBrowserClient = () =>
+  createClient(supabaseUrl, supabaseAnonKey, {
+    accessToken: async () =>
+      (await (window as ClerkWindow).Clerk?.session?.getToken()) ?? null,
+  });
+
+// The service role bypasses RLS, so API routes check access with the helpers
+// in lib/auth.ts before reading or writing on behalf of a user.
+const createServiceClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    logger.warn(
+      "SUPABASE_SERVICE_ROLE_KEY is not set, server requests only see what anonymous users can",
+    );
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey || supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
+
+export const createSupabaseClient = (): SupabaseClient =>
+  typeof window === "undefined" ? createServiceClient() : createBrowserClient();
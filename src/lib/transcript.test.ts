@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeQuestionTimings,
+  getActivePosition,
+  getUtteranceAt,
+  segmentQuestions,
+} from "@/lib/transcript";
+import { Analytics, CallData, QuestionSegment } from "@/types/response";
+
+type Transcript = CallData["transcript_object"];
+
+// One word per second from the given start, or no timings at all
+const line = (
+  role: "agent" | "user",
+  content: string,
+  start: number | null,
+): Transcript[number] => ({
+  role,
+  content,
+  words:
+    start === null
+      ? []
+      : content.split(" ").map((word, index) => ({
+          word,
+          start: start + index,
+          end: start + index + 0.8,
+        })),
+});
+
+describe("getUtteranceAt", () => {
+  const transcript: Transcript = [
+    line("agent", "Tell me about yourself", 0),
+    line("user", "Sorry say again", null),
+    line("agent", "Tell me about yourself", 10),
+    line("user", "I build things", 20),
+  ];
+
+  it("returns the last utterance started by the moment", () => {
+    expect(getUtteranceAt(transcript, 2)).toBe(transcript[0]);
+    expect(getUtteranceAt(transcript, 21)).toBe(transcript[3]);
+  });
+
+  it("skips untimed utterances instead of stopping at them", () => {
+    expect(getUtteranceAt(transcript, 11)).toBe(transcript[2]);
+  });
+
+  it("returns nothing before the first utterance", () => {
+    expect(getUtteranceAt(transcript, -1)).toBeNull();
+    expect(getUtteranceAt(undefined, 5)).toBeNull();
+  });
+});
+
+describe("getActivePosition", () => {
+  const transcript: Transcript = [
+    line("agent", "Hello there", 0),
+    line("user", "Hi", null),
+    line("user", "Nice to meet you", 5),
+  ];
+
+  it("finds the word being spoken after an untimed utterance", () => {
+    expect(getActivePosition(transcript, 6.5)).toEqual({
+      utteranceIndex: 2,
+      wordIndex: 1,
+    });
+  });
+
+  it("has nothing active between turns", () => {
+    expect(getActivePosition(transcript, 3)).toBeNull();
+  });
+});
+
+describe("segmentQuestions", () => {
+  const transcript: Transcript = [
+    line("agent", "Hi", 0),
+    line("user", "Hello", 1),
+    line("agent", "Tell me", 2),
+    line("user", "Answer one", 5),
+    line("agent", "Follow up", 7),
+    line("user", "More", 9),
+    line("agent", "Next question", null),
+    line("agent", "Last one", 12),
+    line("user", "Done", 15),
+  ];
+
+  it("spans each question up to the next, follow-ups included", () => {
+    expect(segmentQuestions(transcript, [2, 7])).toEqual([
+      {
+        questionIndex: 0,
+        startLine: 2,
+        endLine: 7,
+        start: 2,
+        end: 9.8,
+        agentTalkTime: 3.6,
+        candidateTalkTime: 2.6,
+        answerLatency: 1.2,
+      },
+      {
+        questionIndex: 1,
+        startLine: 7,
+        endLine: 9,
+        start: 12,
+        end: 15.8,
+        agentTalkTime: 1.8,
+        candidateTalkTime: 0.8,
+        answerLatency: 1.2,
+      },
+    ]);
+  });
+
+  it("leaves out questions that were never asked", () => {
+    expect(
+      segmentQuestions(transcript, [null, 7, 99]).map(
+        (segment) => segment.questionIndex,
+      ),
+    ).toEqual([1]);
+  });
+
+  it("ignores untimed lines, candidate lines and lines already taken", () => {
+    expect(
+      segmentQuestions(transcript, [6, 3, 2, 2]).map((segment) => [
+        segment.questionIndex,
+        segment.endLine,
+      ]),
+    ).toEqual([[2, 9]]);
+  });
+
+  it("finds nothing in a transcript without timings", () => {
+    const untimed = transcript.map((utterance) => ({
+      ...utterance,
+      words: [],
+    }));
+
+    expect(segmentQuestions(untimed, [2, 7])).toEqual([]);
+  });
+
+  it("has no answer latency when the candidate never answered", () => {
+    const [segment] = segmentQuestions(transcript.slice(0, 3), [2]);
+
+    expect(segment.candidateTalkTime).toBe(0);
+    expect(segment.answerLatency).toBeNull();
+  });
+});
+
+describe("computeQuestionTimings", () => {
+  const segment = (
+    questionIndex: number,
+    start: number,
+    end: number,
+    candidateTalkTime: number,
+    answerLatency: number | null,
+  ): QuestionSegment => ({
+    questionIndex,
+    startLine: 0,
+    endLine: 1,
+    start,
+    end,
+    agentTalkTime: 0,
+    candidateTalkTime,
+    answerLatency,
+  });
+
+  it("averages each question over the responses it was found in", () => {
+    const analytics = [
+      {
+        mainInterviewQuestions: ["Tell me about yourself!", "Why us?"],
+        questionSegments: [segment(0, 0, 10, 6, 1)],
+      },
+      {
+        // Asked in a different order, and matched on the text
+        mainInterviewQuestions: ["Why us?", "tell me about yourself"],
+        questionSegments: [
+          segment(1, 5, 25, 10, null),
+          segment(0, 30, 40, 5, 2),
+        ],
+      },
+      null,
+    ] as (Analytics | null)[];
+
+    expect(
+      computeQuestionTimings(
+        ["Tell me about yourself", "Why us?", "Never asked"],
+        analytics,
+      ),
+    ).toEqual([
+      {
+        question: "Tell me about yourself",
+        count: 2,
+        averageDuration: 15,
+        averageCandidateTalkTime: 8,
+        averageAnswerLatency: 1,
+      },
+      {
+        question: "Why us?",
+        count: 1,
+        averageDuration: 10,
+        averageCandidateTalkTime: 5,
+        averageAnswerLatency: 2,
+      },
+      {
+        question: "Never asked",
+        count: 0,
+        averageDuration: null,
+        averageCandidateTalkTime: null,
+        averageAnswerLatency: null,
+      },
+    ]);
+  });
+});
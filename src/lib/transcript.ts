@@ -0,0 +1,229 @@
+import { Analytics, CallData, QuestionSegment } from "@/types/response";
+
+export type TranscriptUtterance = CallData["transcript_object"][number];
+
+export const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = Math.floor(seconds % 60);
+
+  return `${minutes}:${remaining.toString().padStart(2, "0")}`;
+};
+
+// Utterances without word timings, such as ones cut off at the end of the
+// call, are never active and cannot be seeked to
+export const getUtteranceStart = (utterance: TranscriptUtterance) =>
+  utterance.words[0]?.start ?? null;
+
+export const getUtteranceEnd = (utterance: TranscriptUtterance) =>
+  utterance.words[utterance.words.length - 1]?.end ?? null;
+
+// What was being said at a moment of the recording
+export const getUtteranceAt = (
+  transcript: CallData["transcript_object"] | undefined,
+  seconds: number,
+) => {
+  let current: TranscriptUtterance | null = null;
+  for (const utterance of transcript || []) {
+    const start = getUtteranceStart(utterance);
+    if (start === null) {
+      continue;
+    }
+    if (start > seconds) {
+      break;
+    }
+    current = utterance;
+  }
+
+  return current;
+};
+
+// The utterance and word being spoken at a moment, for highlighting during
+// playback. Between turns nothing is active.
+export const getActivePosition = (
+  transcript: CallData["transcript_object"],
+  seconds: number,
+) => {
+  const utterance = getUtteranceAt(transcript, seconds);
+  const end = utterance ? getUtteranceEnd(utterance) : null;
+  if (!utterance || end === null || seconds > end) {
+    return null;
+  }
+
+  return {
+    utteranceIndex: transcript.indexOf(utterance),
+    wordIndex: utterance.words.findIndex(
+      (word) => word.start <= seconds && seconds <= word.end,
+    ),
+  };
+};
+
+const normalizeSearchText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Indexes of the utterances containing every word of the query
+export const searchTranscript = (
+  transcript: CallData["transcript_object"],
+  query: string,
+) => {
+  const terms = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  return transcript
+    .map((utterance, index) => ({
+      index,
+      text: normalizeSearchText(utterance.content),
+    }))
+    .filter(({ text }) => terms.every((term) => text.includes(term)))
+    .map(({ index }) => index);
+};
+
+export const isSearchMatch = (word: string, query: string) => {
+  const text = normalizeSearchText(word);
+
+  return (
+    !!text &&
+    normalizeSearchText(query)
+      .split(/\s+/)
+      .some((term) => term && text.includes(term))
+  );
+};
+
+export const hasWordTimings = (
+  transcript: CallData["transcript_object"] | undefined,
+) =>
+  (transcript || []).some((utterance) => getUtteranceStart(utterance) !== null);
+
+// The transcript with a number on each line, so the analysis can say where
+// each question was asked
+export const getNumberedTranscript = (
+  transcript: CallData["transcript_object"],
+) =>
+  transcript
+    .map(
+      (utterance, index) =>
+        `[${index}] ${utterance.role === "agent" ? "Agent" : "User"}: ${utterance.content}`,
+    )
+    .join("\n");
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 100) / 100;
+
+// Splits the transcript into one span per main question, from the line where
+// it was first asked up to the line where the next one was. Follow-ups fall in
+// the span of the question they follow. Lines that are not a timed agent line
+// are ignored, as are questions asked on a line already taken.
+export const segmentQuestions = (
+  transcript: CallData["transcript_object"],
+  questionLines: (number | null)[],
+): QuestionSegment[] => {
+  const starts: { questionIndex: number; line: number }[] = [];
+  questionLines.forEach((line, questionIndex) => {
+    if (
+      line !== null &&
+      transcript[line]?.role === "agent" &&
+      getUtteranceStart(transcript[line]) !== null &&
+      !starts.some((start) => start.line === line)
+    ) {
+      starts.push({ questionIndex, line });
+    }
+  });
+  starts.sort((a, b) => a.line - b.line);
+
+  return starts
+    .map(({ questionIndex, line }, index) => {
+      const endLine =
+        index < starts.length - 1 ? starts[index + 1].line : transcript.length;
+      let end = getUtteranceEnd(transcript[line]) ?? 0;
+      let agentTalkTime = 0;
+      let candidateTalkTime = 0;
+      let lastAgentEnd: number | null = null;
+      let answerLatency: number | null = null;
+
+      for (let i = line; i < endLine; i += 1) {
+        const start = getUtteranceStart(transcript[i]);
+        const utteranceEnd = getUtteranceEnd(transcript[i]);
+        if (start === null || utteranceEnd === null) {
+          continue;
+        }
+        end = Math.max(end, utteranceEnd);
+        if (transcript[i].role === "agent") {
+          agentTalkTime += utteranceEnd - start;
+          lastAgentEnd = utteranceEnd;
+        } else {
+          candidateTalkTime += utteranceEnd - start;
+          if (answerLatency === null && lastAgentEnd !== null) {
+            answerLatency = Math.max(0, start - lastAgentEnd);
+          }
+        }
+      }
+      const start = getUtteranceStart(transcript[line]) ?? 0;
+
+      return {
+        questionIndex,
+        startLine: line,
+        endLine,
+        start: roundSeconds(start),
+        end: roundSeconds(end),
+        agentTalkTime: roundSeconds(agentTalkTime),
+        candidateTalkTime: roundSeconds(candidateTalkTime),
+        answerLatency:
+          answerLatency === null ? null : roundSeconds(answerLatency),
+      };
+    })
+    .sort((a, b) => a.questionIndex - b.questionIndex);
+};
+
+export type QuestionTiming = {
+  question: string;
+  // Responses in which the question was found in the recording
+  count: number;
+  averageDuration: number | null;
+  averageCandidateTalkTime: number | null;
+  averageAnswerLatency: number | null;
+};
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+// Averages the question segments of an interview's responses. Segments are
+// matched on question text, since the questions may have changed since a
+// response was analysed.
+export const computeQuestionTimings = (
+  questions: string[],
+  analytics: (Analytics | null)[],
+): QuestionTiming[] =>
+  questions.map((question) => {
+    const segments: QuestionSegment[] = [];
+    for (const item of analytics) {
+      const segment = item?.questionSegments?.find(
+        (candidate) =>
+          normalizeSearchText(
+            item.mainInterviewQuestions?.[candidate.questionIndex] || "",
+          ) === normalizeSearchText(question),
+      );
+      if (segment) {
+        segments.push(segment);
+      }
+    }
+    const latencies = segments
+      .map((segment) => segment.answerLatency)
+      .filter((latency): latency is number => latency !== null);
+
+    return {
+      question,
+      count: segments.length,
+      averageDuration: average(
+        segments.map((segment) => segment.end - segment.start),
+      ),
+      averageCandidateTalkTime: average(
+        segments.map((segment) => segment.candidateTalkTime),
+      ),
+      averageAnswerLatency: average(latencies),
+    };
+  });
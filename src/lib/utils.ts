@@ -44,6 +44,10 @@ export function convertSecondstoMMSS(seconds: number) {
   return `${minutes}m ${remainingSeconds.toString().padStart(2, "0")}s`;
 }
 
+// Theme colours are stored as #rrggbb, as the colour picker produces them
+export const isHexColor = (color: unknown): color is string =>
+  typeof color === "string" && /^#[0-9a-f]{6}$/i.test(color);
+
 export function isLightColor(color: string) {
   const hex = color?.replace("#", "");
   const r = parseInt(hex?.substring(0, 2), 16);
@@ -53,3 +57,13 @@ export function isLightColor(color: string) {
 
   return brightness > 155;
 }
+
+// NEXT_PUBLIC_LIVE_URL and stored interview URLs are usually saved without a
+// protocol
+export function toAbsoluteUrl(url: string) {
+  if (/^https?:\/\//.test(url)) {
+    return url;
+  }
+
+  return `${url.includes("localhost") ? "http" : "https"}://${url}`;
+}
@@ -7,10 +7,14 @@ const isPublicRoute = createRouteMatcher([
   "/interview(.*)",
   "/call(.*)",
   "/api/register-call(.*)",
-  "/api/get-call(.*)",
-  "/api/generate-interview-questions(.*)",
-  "/api/create-interviewer(.*)",
-  "/api/analyze-communication(.*)",
+  "/api/candidate-resume(.*)",
+  "/api/get-interview(.*)",
+  "/api/analysis-jobs(.*)",
+  "/api/analysis-worker(.*)",
+  "/api/response-webhook(.*)",
+  "/api/verify-invitation(.*)",
+  "/api/email-worker(.*)",
+  "/api/billing/webhook(.*)",
 ]);
 
 const isProtectedRoute = createRouteMatcher([
@@ -0,0 +1,170 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { AnalysisJob } from "@/types/analysis-job";
+
+const supabase = createSupabaseClient();
+
+// Retry delays grow 30s, 60s, 120s, ... so a call whose Retell analysis is not
+// ready yet gets picked up again shortly after it is.
+const BACKOFF_BASE_SECONDS = 30;
+
+// Idempotent per call_id: enqueueing a call that already has a job is a no-op
+const enqueueAnalysisJob = async (callId: string, interviewId: string) => {
+  const { error } = await supabase
+    .from("analysis_job")
+    .upsert(
+      { call_id: callId, interview_id: interviewId },
+      { onConflict: "call_id", ignoreDuplicates: true },
+    );
+
+  if (error) {
+    console.error("Error enqueueing analysis job:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+// Called once Retell has analysed the call. Attempts made before then failed
+// only because the analysis was not ready, so a job backing off or given up
+// on is made due again with its attempts reset. Running and completed jobs
+// are left alone.
+const scheduleAnalysisJobNow = async (callId: string, interviewId: string) => {
+  if (!(await enqueueAnalysisJob(callId, interviewId))) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from("analysis_job")
+    .update({
+      status: "pending",
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("call_id", callId)
+    .in("status", ["pending", "failed"]);
+
+  if (error) {
+    console.error("Error scheduling analysis job:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+const claimAnalysisJobs = async (
+  batchSize: number,
+  callId: string | null = null,
+) => {
+  const { data, error } = await supabase.rpc("claim_analysis_jobs", {
+    batch_size: batchSize,
+    only_call_id: callId,
+  });
+
+  if (error) {
+    console.error("Error claiming analysis jobs:", error);
+
+    return [];
+  }
+
+  return (data || []) as AnalysisJob[];
+};
+
+const completeAnalysisJob = async (id: number) => {
+  const { error } = await supabase
+    .from("analysis_job")
+    .update({
+      status: "completed",
+      locked_at: null,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error completing analysis job:", error);
+  }
+};
+
+const failAnalysisJob = async (job: AnalysisJob, message: string) => {
+  const exhausted = job.attempts >= job.max_attempts;
+  const delaySeconds =
+    BACKOFF_BASE_SECONDS * 2 ** Math.max(job.attempts - 1, 0);
+
+  const { error } = await supabase
+    .from("analysis_job")
+    .update({
+      status: exhausted ? "failed" : "pending",
+      run_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      locked_at: null,
+      last_error: message,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (error) {
+    console.error("Error updating failed analysis job:", error);
+  }
+};
+
+const retryAnalysisJob = async (callId: string) => {
+  const { error } = await supabase
+    .from("analysis_job")
+    .update({
+      status: "pending",
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("call_id", callId)
+    .eq("status", "failed");
+
+  if (error) {
+    console.error("Error retrying analysis job:", error);
+  }
+};
+
+const getAnalysisJobByCallId = async (callId: string) => {
+  const { data, error } = await supabase
+    .from("analysis_job")
+    .select("*")
+    .eq("call_id", callId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching analysis job:", error);
+
+    return null;
+  }
+
+  return data as AnalysisJob | null;
+};
+
+const getAnalysisJobsByInterviewId = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("analysis_job")
+    .select("*")
+    .eq("interview_id", interviewId);
+
+  if (error) {
+    console.error("Error fetching analysis jobs:", error);
+
+    return [];
+  }
+
+  return (data || []) as AnalysisJob[];
+};
+
+export const AnalysisJobService = {
+  enqueueAnalysisJob,
+  scheduleAnalysisJobNow,
+  claimAnalysisJobs,
+  completeAnalysisJob,
+  failAnalysisJob,
+  retryAnalysisJob,
+  getAnalysisJobByCallId,
+  getAnalysisJobsByInterviewId,
+};
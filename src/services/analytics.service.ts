@@ -1,49 +1,87 @@
 "use server";
 
-import { OpenAI } from "openai";
 import { ResponseService } from "@/services/responses.service";
 import { InterviewService } from "@/services/interviews.service";
-import { Question } from "@/types/interview";
-import { Analytics } from "@/types/response";
+import { ResumeService } from "@/services/resumes.service";
+import { Question, RubricCompetency } from "@/types/interview";
+import { Analytics, CallData } from "@/types/response";
+import { generateStructured } from "@/lib/llm";
+import { UsageContext } from "@/lib/billing";
+import {
+  communicationAnalysisSchema,
+  createAnalyticsSchema,
+} from "@/lib/llm/schemas";
 import {
   getInterviewAnalyticsPrompt,
   SYSTEM_PROMPT,
 } from "@/lib/prompts/analytics";
+import { getNumberedTranscript, hasWordTimings } from "@/lib/transcript";
+import { computeSpeechMetrics } from "@/lib/speech-metrics";
+import {
+  getCommunicationAnalysisPrompt,
+  SYSTEM_PROMPT as COMMUNICATION_SYSTEM_PROMPT,
+} from "@/lib/prompts/communication-analysis";
 
 export const generateInterviewAnalytics = async (payload: {
   callId: string;
   interviewId: string;
   transcript: string;
+  // Word timings from the recording, used to find where each question was
+  // asked
+  transcriptObject?: CallData["transcript_object"];
 }) => {
-  const { callId, interviewId, transcript } = payload;
+  const { callId, interviewId, transcript, transcriptObject } = payload;
 
   try {
     const response = await ResponseService.getResponseByCallId(callId);
     const interview = await InterviewService.getInterviewById(interviewId);
 
-    if (response.analytics) {
+    // Simulated interviews are scored without a response row
+    if (response?.analytics) {
       return { analytics: response.analytics as Analytics, status: 200 };
     }
 
-    const interviewTranscript = transcript || response.details?.transcript;
-    const questions = interview?.questions || [];
+    const interviewTranscript = transcript || response?.details?.transcript;
+    const questions: string[] = (interview?.questions || []).map(
+      (q: Question) => q.question,
+    );
     const mainInterviewQuestions = questions
-      .map((q: Question, index: number) => `${index + 1}. ${q.question}`)
+      .map((question, index) => `${index + 1}. ${question}`)
       .join("\n");
 
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      maxRetries: 5,
-      dangerouslyAllowBrowser: true,
-    });
+    const rubric: RubricCompetency[] = interview?.rubric || [];
+    const resume = response?.resume_id
+      ? await ResumeService.getResumeById(response.resume_id)
+      : null;
+    const resumeClaims: string[] = resume?.claims || [];
+
+    const timedTranscript =
+      transcriptObject && hasWordTimings(transcriptObject)
+        ? transcriptObject
+        : null;
 
     const prompt = getInterviewAnalyticsPrompt(
-      interviewTranscript,
+      timedTranscript
+        ? getNumberedTranscript(timedTranscript)
+        : interviewTranscript,
       mainInterviewQuestions,
+      rubric,
+      resumeClaims,
+      !!timedTranscript,
     );
 
-    const baseCompletion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const { data: analytics } = await generateStructured({
+      task: "interview-analytics",
+      schema: createAnalyticsSchema(
+        questions,
+        rubric,
+        resumeClaims,
+        timedTranscript,
+      ),
+      usage: {
+        organizationId: interview?.organization_id ?? null,
+        interviewId,
+      },
       messages: [
         {
           role: "system",
@@ -54,21 +92,39 @@ export const generateInterviewAnalytics = async (payload: {
           content: prompt,
         },
       ],
-      response_format: { type: "json_object" },
     });
+    const speechMetrics = computeSpeechMetrics(timedTranscript || undefined);
 
-    const basePromptOutput = baseCompletion.choices[0] || {};
-    const content = basePromptOutput.message?.content || "";
-    const analyticsResponse = JSON.parse(content);
-
-    analyticsResponse.mainInterviewQuestions = questions.map(
-      (q: Question) => q.question,
-    );
-
-    return { analytics: analyticsResponse, status: 200 };
+    return {
+      analytics: speechMetrics ? { ...analytics, speechMetrics } : analytics,
+      status: 200,
+    };
   } catch (error) {
-    console.error("Error in OpenAI request:", error);
+    console.error("Error in LLM request:", error);
 
     return { error: "internal server error", status: 500 };
   }
 };
+
+export const generateCommunicationAnalysis = async (
+  transcript: string,
+  usage?: UsageContext,
+) => {
+  const { data: analysis } = await generateStructured({
+    task: "communication-analysis",
+    usage,
+    schema: communicationAnalysisSchema,
+    messages: [
+      {
+        role: "system",
+        content: COMMUNICATION_SYSTEM_PROMPT,
+      },
+      {
+        role: "user",
+        content: getCommunicationAnalysisPrompt(transcript),
+      },
+    ],
+  });
+
+  return analysis;
+};
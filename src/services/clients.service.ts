@@ -1,9 +1,10 @@
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { createSupabaseClient } from "@/lib/supabase";
+import { Organization } from "@/types/organization";
 // Fallback for build time
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-const supabase = createClientComponentClient();
+const supabase = createSupabaseClient();
 
 const updateOrganization = async (payload: any, id: string) => {
   const { error, data } = await supabase
@@ -114,8 +115,26 @@ const getOrganizationById = async (
   }
 };
 
+// Server-side lookup that, unlike getOrganizationById, never creates the row
+const getOrganization = async (id: string) => {
+  const { data, error } = await supabase
+    .from("organization")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching organization:", error);
+
+    return null;
+  }
+
+  return data as Organization | null;
+};
+
 export const ClientService = {
   updateOrganization,
   getClientById,
   getOrganizationById,
+  getOrganization,
 };
@@ -1,22 +1,20 @@
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { createSupabaseClient } from "@/lib/supabase";
 import { FeedbackData } from "@/types/response";
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-const supabase = createClientComponentClient();
+const supabase = createSupabaseClient();
 
 const submitFeedback = async (feedbackData: FeedbackData) => {
-  const { error, data } = await supabase
-    .from("feedback")
-    .insert(feedbackData)
-    .select();
+  // Candidates are signed out and may add feedback but not read it back
+  const { error } = await supabase.from("feedback").insert(feedbackData);
 
   if (error) {
     console.error("Error submitting feedback:", error);
     throw error;
   }
 
-  return data;
+  return true;
 };
 
 export const FeedbackService = {
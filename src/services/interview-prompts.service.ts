@@ -0,0 +1,79 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { PromptSettings, PromptVersion } from "@/types/interview-prompt";
+
+const supabase = createSupabaseClient();
+
+const UNIQUE_VIOLATION = "23505";
+
+const getPromptVersions = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("interview_prompt_version")
+    .select("*")
+    .eq("interview_id", interviewId)
+    .order("version", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching prompt versions:", error);
+
+    return [];
+  }
+
+  return data as PromptVersion[];
+};
+
+const getLatestPromptVersion = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("interview_prompt_version")
+    .select("*")
+    .eq("interview_id", interviewId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching latest prompt version:", error);
+
+    return null;
+  }
+
+  return data as PromptVersion | null;
+};
+
+// Returns "conflict" when another request saved the same version number
+// first, so the caller can reload the latest version and try again
+const createPromptVersion = async (
+  interviewId: string,
+  version: number,
+  settings: PromptSettings,
+  prompt: string,
+  createdBy: string | null,
+) => {
+  const { data, error } = await supabase
+    .from("interview_prompt_version")
+    .insert({
+      interview_id: interviewId,
+      version: version,
+      ...settings,
+      prompt: prompt,
+      created_by: createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return "conflict";
+    }
+    console.error("Error creating prompt version:", error);
+
+    return null;
+  }
+
+  return data as PromptVersion;
+};
+
+export const InterviewPromptService = {
+  getPromptVersions,
+  getLatestPromptVersion,
+  createPromptVersion,
+};
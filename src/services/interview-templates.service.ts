@@ -0,0 +1,91 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import {
+  InterviewTemplate,
+  InterviewTemplateContent,
+} from "@/types/interview-template";
+
+const supabase = createSupabaseClient();
+
+// Templates saved by the organization, or by the user outside one
+const getTemplates = async (userId: string, organizationId: string | null) => {
+  const { data, error } = await supabase
+    .from("interview_template")
+    .select("*")
+    .or(
+      organizationId
+        ? `organization_id.eq.${organizationId},user_id.eq.${userId}`
+        : `user_id.eq.${userId}`,
+    )
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching interview templates:", error);
+
+    return [];
+  }
+
+  return data as InterviewTemplate[];
+};
+
+const getTemplateById = async (id: number) => {
+  const { data, error } = await supabase
+    .from("interview_template")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching interview template:", error);
+
+    return null;
+  }
+
+  return data as InterviewTemplate | null;
+};
+
+const createTemplate = async (
+  content: InterviewTemplateContent,
+  userId: string,
+  organizationId: string | null,
+) => {
+  const { data, error } = await supabase
+    .from("interview_template")
+    .insert({
+      ...content,
+      interviewer_id: content.interviewer_id?.toString() ?? null,
+      user_id: userId,
+      organization_id: organizationId,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error creating interview template:", error);
+
+    return null;
+  }
+
+  return data as InterviewTemplate;
+};
+
+const deleteTemplate = async (id: number) => {
+  const { error } = await supabase
+    .from("interview_template")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting interview template:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const InterviewTemplateService = {
+  getTemplates,
+  getTemplateById,
+  createTemplate,
+  deleteTemplate,
+};
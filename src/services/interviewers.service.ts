@@ -1,9 +1,9 @@
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { createSupabaseClient } from "@/lib/supabase";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-const supabase = createClientComponentClient();
+const supabase = createSupabaseClient();
 
 const getAllInterviewers = async (clientId: string = "") => {
   try {
@@ -28,6 +28,25 @@ const getAllInterviewers = async (clientId: string = "") => {
   }
 };
 
+// The default interviewers have no owner and are shared by everyone
+const getDefaultInterviewers = async (name: string) => {
+  const { data, error } = await supabase
+    .from("interviewer")
+    .select("*")
+    .eq("name", name)
+    .is("organization_id", null)
+    .is("user_id", null)
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching default interviewers:", error);
+
+    return null;
+  }
+
+  return data || [];
+};
+
 const createInterviewer = async (payload: any) => {
   // Check for existing interviewer with the same name
   const { data: existingInterviewer, error: checkError } = await supabase
@@ -51,7 +70,9 @@ const createInterviewer = async (payload: any) => {
 
   const { error, data } = await supabase
     .from("interviewer")
-    .insert({ ...payload });
+    .insert({ ...payload })
+    .select()
+    .single();
 
   if (error) {
     console.error("Error creating interviewer:", error);
@@ -78,8 +99,43 @@ const getInterviewer = async (interviewerId: bigint) => {
   return interviewerData;
 };
 
+const updateInterviewer = async (payload: any, interviewerId: bigint) => {
+  const { error, data } = await supabase
+    .from("interviewer")
+    .update({ ...payload })
+    .eq("id", interviewerId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating interviewer:", error);
+
+    return null;
+  }
+
+  return data;
+};
+
+const deleteInterviewer = async (interviewerId: bigint) => {
+  const { error } = await supabase
+    .from("interviewer")
+    .delete()
+    .eq("id", interviewerId);
+
+  if (error) {
+    console.error("Error deleting interviewer:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
 export const InterviewerService = {
   getAllInterviewers,
+  getDefaultInterviewers,
   createInterviewer,
   getInterviewer,
+  updateInterviewer,
+  deleteInterviewer,
 };
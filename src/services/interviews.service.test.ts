@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { InterviewService } from "@/services/interviews.service";
+import { fakeSupabase } from "@/test/fake-supabase";
+
+vi.mock("@/lib/supabase", async () => {
+  const { fakeSupabase: client } = await import("@/test/fake-supabase");
+
+  return { createSupabaseClient: () => client };
+});
+
+describe("getInterviewById", () => {
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeSupabase.setRows("interview", [
+      { id: "interview_a", readable_slug: "acme-engineer", user_id: "user_a" },
+      { id: "interview_b", readable_slug: null, user_id: "user_b" },
+    ]);
+  });
+
+  it("finds an interview by id or by readable slug", async () => {
+    await expect(
+      InterviewService.getInterviewById("interview_b"),
+    ).resolves.toMatchObject({ id: "interview_b" });
+    await expect(
+      InterviewService.getInterviewById("acme-engineer"),
+    ).resolves.toMatchObject({ id: "interview_a" });
+  });
+
+  it("does not let the id add filters of its own", async () => {
+    await expect(
+      InterviewService.getInterviewById("missing,user_id.eq.user_b"),
+    ).resolves.toBeNull();
+  });
+});
@@ -1,9 +1,9 @@
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { createSupabaseClient } from "@/lib/supabase";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-const supabase = createClientComponentClient();
+const supabase = createSupabaseClient();
 
 const getAllInterviews = async (userId: string, organizationId: string) => {
   try {
@@ -21,14 +21,24 @@ const getAllInterviews = async (userId: string, organizationId: string) => {
   }
 };
 
+// Public routes pass ids straight from the URL, so the id and the slug are
+// matched with separate eq filters rather than interpolated into or()
 const getInterviewById = async (id: string) => {
   try {
-    const { data, error } = await supabase
+    const { data: byId } = await supabase
+      .from("interview")
+      .select(`*`)
+      .eq("id", id);
+    if (byId?.[0]) {
+      return byId[0];
+    }
+
+    const { data: bySlug } = await supabase
       .from("interview")
       .select(`*`)
-      .or(`id.eq.${id},readable_slug.eq.${id}`);
+      .eq("readable_slug", id);
 
-    return data ? data[0] : null;
+    return bySlug ? (bySlug[0] ?? null) : null;
   } catch (error) {
     console.log(error);
 
@@ -40,14 +50,15 @@ const updateInterview = async (payload: any, id: string) => {
   const { error, data } = await supabase
     .from("interview")
     .update({ ...payload })
-    .eq("id", id);
+    .eq("id", id)
+    .select();
   if (error) {
     console.log(error);
 
-    return [];
+    return null;
   }
 
-  return data;
+  return data?.[0] ?? null;
 };
 
 const deleteInterview = async (id: string) => {
@@ -82,16 +93,36 @@ const getAllRespondents = async (interviewId: string) => {
 const createInterview = async (payload: any) => {
   const { error, data } = await supabase
     .from("interview")
-    .insert({ ...payload });
+    .insert({ ...payload })
+    .select("*")
+    .single();
   if (error) {
     console.log(error);
 
-    return [];
+    return null;
   }
 
   return data;
 };
 
+const getInterviewNamesByIds = async (ids: string[]) => {
+  if (ids.length === 0) {
+    return [];
+  }
+  const { data, error } = await supabase
+    .from("interview")
+    .select("id, name")
+    .in("id", ids);
+
+  if (error) {
+    console.error("Error fetching interview names:", error);
+
+    return [];
+  }
+
+  return data as { id: string; name: string }[];
+};
+
 const deactivateInterviewsByOrgId = async (organizationId: string) => {
   try {
     const { error } = await supabase
@@ -108,6 +139,39 @@ const deactivateInterviewsByOrgId = async (organizationId: string) => {
   }
 };
 
+// Interviews whose owner asked for response digests, with the owner's email
+const getDigestInterviews = async () => {
+  const { data, error } = await supabase
+    .from("interview")
+    .select(`*, user(email)`)
+    .eq("send_digest", true)
+    .eq("is_archived", false);
+
+  if (error) {
+    console.error("Error fetching digest interviews:", error);
+
+    return [];
+  }
+
+  return data || [];
+};
+
+// Returns null when the check itself failed, so callers can fail closed
+const countInterviewsByInterviewerId = async (interviewerId: bigint) => {
+  const { count, error } = await supabase
+    .from("interview")
+    .select("id", { count: "exact", head: true })
+    .eq("interviewer_id", interviewerId);
+
+  if (error) {
+    console.error("Error counting interviews for interviewer:", error);
+
+    return null;
+  }
+
+  return count ?? 0;
+};
+
 export const InterviewService = {
   getAllInterviews,
   getInterviewById,
@@ -116,4 +180,7 @@ export const InterviewService = {
   getAllRespondents,
   createInterview,
   deactivateInterviewsByOrgId,
+  getInterviewNamesByIds,
+  getDigestInterviews,
+  countInterviewsByInterviewerId,
 };
@@ -0,0 +1,198 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { Invitation, InvitationCandidate } from "@/types/invitation";
+
+const supabase = createSupabaseClient();
+
+// Inviting an email that already has an invitation for the interview issues
+// it again with a fresh expiry and attempt count
+const createInvitations = async (
+  interviewId: string,
+  candidates: InvitationCandidate[],
+  expiresAt: string,
+  maxAttempts: number,
+) => {
+  const { data, error } = await supabase
+    .from("invitation")
+    .upsert(
+      candidates.map((candidate) => ({
+        interview_id: interviewId,
+        name: candidate.name,
+        email: candidate.email,
+        status: "sent",
+        attempts: 0,
+        max_attempts: maxAttempts,
+        expires_at: expiresAt,
+        opened_at: null,
+        started_at: null,
+        completed_at: null,
+        call_id: null,
+        last_emailed_at: null,
+        reminder_count: 0,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: "interview_id,email" },
+    )
+    .select("*");
+
+  if (error) {
+    console.error("Error creating invitations:", error);
+
+    return [];
+  }
+
+  return data as Invitation[];
+};
+
+const getInvitationsByInterviewId = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("invitation")
+    .select("*")
+    .eq("interview_id", interviewId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching invitations:", error);
+
+    return [];
+  }
+
+  return data as Invitation[];
+};
+
+const getInvitationById = async (id: number) => {
+  const { data, error } = await supabase
+    .from("invitation")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching invitation:", error);
+
+    return null;
+  }
+
+  return data as Invitation | null;
+};
+
+const updateInvitation = async (payload: Partial<Invitation>, id: number) => {
+  const { error } = await supabase
+    .from("invitation")
+    .update({ ...payload, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error updating invitation:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+// Counts a call against the invitation. The update only applies while the
+// attempt count is still the one the caller checked, so two tabs cannot both
+// use the last attempt.
+const startInvitationAttempt = async (invitation: Invitation) => {
+  const { data, error } = await supabase
+    .from("invitation")
+    .update({
+      status: "started",
+      attempts: invitation.attempts + 1,
+      started_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", invitation.id)
+    .eq("attempts", invitation.attempts)
+    .select("id");
+
+  if (error) {
+    console.error("Error starting invitation attempt:", error);
+
+    return false;
+  }
+
+  return (data || []).length > 0;
+};
+
+// Gives back an attempt taken by startInvitationAttempt when the call could
+// not be started, restoring the invitation as the caller read it
+const releaseInvitationAttempt = async (invitation: Invitation) => {
+  const { error } = await supabase
+    .from("invitation")
+    .update({
+      status: invitation.status,
+      attempts: invitation.attempts,
+      started_at: invitation.started_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", invitation.id)
+    .eq("attempts", invitation.attempts + 1);
+
+  if (error) {
+    console.error("Error releasing invitation attempt:", error);
+  }
+};
+
+const completeInvitationByCallId = async (callId: string) => {
+  const { error } = await supabase
+    .from("invitation")
+    .update({
+      status: "completed",
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("call_id", callId)
+    .neq("status", "completed");
+
+  if (error) {
+    console.error("Error completing invitation:", error);
+  }
+};
+
+// Invitations that were emailed, are still waiting on the candidate and have
+// not been emailed since the cutoff
+const getInvitationsDueForReminder = async (
+  cutoff: string,
+  maxReminders: number,
+) => {
+  const { data, error } = await supabase
+    .from("invitation")
+    .select("*")
+    .in("status", ["sent", "opened"])
+    .gt("expires_at", new Date().toISOString())
+    .lt("last_emailed_at", cutoff)
+    .lt("reminder_count", maxReminders);
+
+  if (error) {
+    console.error("Error fetching invitations due for reminder:", error);
+
+    return [];
+  }
+
+  return data as Invitation[];
+};
+
+const deleteInvitation = async (id: number) => {
+  const { error } = await supabase.from("invitation").delete().eq("id", id);
+
+  if (error) {
+    console.error("Error deleting invitation:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const InvitationService = {
+  createInvitations,
+  getInvitationsByInterviewId,
+  getInvitationById,
+  updateInvitation,
+  startInvitationAttempt,
+  releaseInvitationAttempt,
+  completeInvitationByCallId,
+  getInvitationsDueForReminder,
+  deleteInvitation,
+};
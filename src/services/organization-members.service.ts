@@ -0,0 +1,91 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import {
+  OrganizationMemberRole,
+  OrganizationRole,
+} from "@/types/organization-member";
+
+const supabase = createSupabaseClient();
+
+const getMemberRole = async (organizationId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from("organization_member")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching member role:", error);
+
+    return null;
+  }
+
+  return data as OrganizationMemberRole | null;
+};
+
+const getMemberRoles = async (organizationId: string) => {
+  const { data, error } = await supabase
+    .from("organization_member")
+    .select("*")
+    .eq("organization_id", organizationId);
+
+  if (error) {
+    console.error("Error fetching member roles:", error);
+
+    return [];
+  }
+
+  return (data || []) as OrganizationMemberRole[];
+};
+
+const setMemberRole = async (
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole,
+  updatedBy: string,
+) => {
+  const { data, error } = await supabase
+    .from("organization_member")
+    .upsert(
+      {
+        organization_id: organizationId,
+        user_id: userId,
+        role,
+        updated_by: updatedBy,
+      },
+      { onConflict: "organization_id,user_id" },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving member role:", error);
+
+    return null;
+  }
+
+  return data as OrganizationMemberRole;
+};
+
+const deleteMemberRole = async (organizationId: string, userId: string) => {
+  const { error } = await supabase
+    .from("organization_member")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error deleting member role:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const OrganizationMemberService = {
+  getMemberRole,
+  getMemberRoles,
+  setMemberRole,
+  deleteMemberRole,
+};
@@ -0,0 +1,88 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import {
+  PipelineOwner,
+  PipelineStage,
+  ResponseStatusChange,
+} from "@/types/pipeline";
+
+const supabase = createSupabaseClient();
+
+const STAGE_COLUMNS = "key, name, color, position, is_terminal";
+
+const getStages = async (owner: PipelineOwner) => {
+  const query = supabase.from("pipeline_stage").select(STAGE_COLUMNS);
+  const { data, error } = await (
+    owner.organization_id
+      ? query.eq("organization_id", owner.organization_id)
+      : query.is("organization_id", null).eq("user_id", owner.user_id)
+  ).order("position", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching pipeline stages:", error);
+
+    return [];
+  }
+
+  return (data || []) as PipelineStage[];
+};
+
+// Stages are saved as a whole list, in order, in one transaction
+const replaceStages = async (owner: PipelineOwner, stages: PipelineStage[]) => {
+  const { data, error } = await supabase
+    .rpc("replace_pipeline_stages", {
+      owner_organization_id: owner.organization_id,
+      owner_user_id: owner.user_id,
+      stages,
+    })
+    .select(STAGE_COLUMNS);
+
+  if (error) {
+    console.error("Error saving pipeline stages:", error);
+
+    return null;
+  }
+
+  return (data || []) as PipelineStage[];
+};
+
+const getStatusChanges = async (
+  filter: { interviewId: string } | { responseId: number },
+) => {
+  const query = supabase.from("response_status_change").select("*");
+  const { data, error } = await (
+    "interviewId" in filter
+      ? query.eq("interview_id", filter.interviewId)
+      : query.eq("response_id", filter.responseId)
+  ).order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching status changes:", error);
+
+    return [];
+  }
+
+  return (data || []) as ResponseStatusChange[];
+};
+
+const createStatusChanges = async (
+  changes: Omit<ResponseStatusChange, "id" | "created_at">[],
+) => {
+  const { error } = await supabase
+    .from("response_status_change")
+    .insert(changes);
+
+  if (error) {
+    console.error("Error saving status changes:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const PipelineService = {
+  getStages,
+  replaceStages,
+  getStatusChanges,
+  createStatusChanges,
+};
@@ -0,0 +1,108 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { BankQuestion, BankQuestionPayload } from "@/types/question-bank";
+
+const supabase = createSupabaseClient();
+
+// Questions saved by the organization, or by the user outside one
+const getBankQuestions = async (
+  userId: string,
+  organizationId: string | null,
+) => {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .select("*")
+    .or(
+      organizationId
+        ? `organization_id.eq.${organizationId},user_id.eq.${userId}`
+        : `user_id.eq.${userId}`,
+    )
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching question bank:", error);
+
+    return [];
+  }
+
+  return data as BankQuestion[];
+};
+
+const getBankQuestionById = async (id: number) => {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching bank question:", error);
+
+    return null;
+  }
+
+  return data as BankQuestion | null;
+};
+
+const createBankQuestion = async (
+  payload: BankQuestionPayload,
+  userId: string,
+  organizationId: string | null,
+) => {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .insert({
+      ...payload,
+      user_id: userId,
+      organization_id: organizationId,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error creating bank question:", error);
+
+    return null;
+  }
+
+  return data as BankQuestion;
+};
+
+const updateBankQuestion = async (
+  payload: Partial<BankQuestionPayload> & { is_retired?: boolean },
+  id: number,
+) => {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .update({ ...payload, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error updating bank question:", error);
+
+    return null;
+  }
+
+  return data as BankQuestion;
+};
+
+const deleteBankQuestion = async (id: number) => {
+  const { error } = await supabase.from("question_bank").delete().eq("id", id);
+
+  if (error) {
+    console.error("Error deleting bank question:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const QuestionBankService = {
+  getBankQuestions,
+  getBankQuestionById,
+  createBankQuestion,
+  updateBankQuestion,
+  deleteBankQuestion,
+};
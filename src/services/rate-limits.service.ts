@@ -0,0 +1,29 @@
+import { createSupabaseClient } from "@/lib/supabase";
+
+const supabase = createSupabaseClient();
+
+// Fails open: candidates should not be locked out because the counter could
+// not be written
+const consumeRateLimit = async (
+  key: string,
+  windowSeconds: number,
+  maxCount: number,
+) => {
+  const { data, error } = await supabase.rpc("consume_rate_limit", {
+    limit_key: key,
+    window_seconds: windowSeconds,
+    max_count: maxCount,
+  });
+
+  if (error) {
+    console.error("Error consuming rate limit:", error);
+
+    return true;
+  }
+
+  return data !== false;
+};
+
+export const RateLimitService = {
+  consumeRateLimit,
+};
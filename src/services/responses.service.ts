@@ -1,9 +1,10 @@
-import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { createSupabaseClient } from "@/lib/supabase";
+import { Response } from "@/types/response";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-const supabase = createClientComponentClient();
+const supabase = createSupabaseClient();
 
 const createResponse = async (payload: any) => {
   const { error, data } = await supabase
@@ -69,6 +70,22 @@ const getResponseCountByOrganizationId = async (
   }
 };
 
+// Every call started counts, finished or not, so the limit also caps spend
+const getResponseCount = async (interviewId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from("response")
+    .select("id", { count: "exact", head: true })
+    .eq("interview_id", interviewId);
+
+  if (error) {
+    console.error("Error counting responses:", error);
+
+    return 0;
+  }
+
+  return count ?? 0;
+};
+
 const getAllEmailAddressesForInterview = async (interviewId: string) => {
   try {
     const { data, error } = await supabase
@@ -127,13 +144,130 @@ const updateResponse = async (payload: any, call_id: string) => {
   return data;
 };
 
+const getResponsesByCallIds = async (callIds: string[]) => {
+  const { data, error } = await supabase
+    .from("response")
+    .select(`*`)
+    .in("call_id", callIds);
+
+  if (error) {
+    console.error("Error fetching responses:", error);
+
+    return [];
+  }
+
+  return (data || []) as Response[];
+};
+
+const updateCandidateStatus = async (callIds: string[], status: string) => {
+  const { error } = await supabase
+    .from("response")
+    .update({ candidate_status: status })
+    .in("call_id", callIds);
+
+  if (error) {
+    console.error("Error updating candidate status:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+// Responses still in any of the given stages, across the interviews
+const getResponseCountByStatuses = async (
+  interviewIds: string[],
+  statuses: string[],
+) => {
+  if (interviewIds.length === 0 || statuses.length === 0) {
+    return 0;
+  }
+  const { count, error } = await supabase
+    .from("response")
+    .select("id", { count: "exact", head: true })
+    .in("interview_id", interviewIds)
+    .in("candidate_status", statuses);
+
+  if (error) {
+    console.error("Error counting responses by status:", error);
+
+    return 0;
+  }
+
+  return count ?? 0;
+};
+
+const getResponsesEndedSince = async (interviewId: string, since: string) => {
+  const { data, error } = await supabase
+    .from("response")
+    .select(`*`)
+    .eq("interview_id", interviewId)
+    .eq("is_ended", true)
+    .gt("created_at", since)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching new responses:", error);
+
+    return [];
+  }
+
+  return data || [];
+};
+
+const getAnalyticsByInterviewIds = async (interviewIds: string[]) => {
+  if (interviewIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("response")
+    .select(`interview_id, analytics`)
+    .in("interview_id", interviewIds)
+    .eq("is_analysed", true);
+
+  if (error) {
+    console.error("Error fetching response analytics:", error);
+
+    return [];
+  }
+
+  return (data || []) as Pick<Response, "interview_id" | "analytics">[];
+};
+
+// Marks the receipt as sent and returns the response, or null when another
+// caller already claimed it, so each candidate gets a single receipt
+const claimReceipt = async (callId: string) => {
+  const { data, error } = await supabase
+    .from("response")
+    .update({ receipt_sent_at: new Date().toISOString() })
+    .eq("call_id", callId)
+    .is("receipt_sent_at", null)
+    .select(`*`);
+
+  if (error) {
+    console.error("Error claiming receipt:", error);
+
+    return null;
+  }
+
+  return data && data.length > 0 ? data[0] : null;
+};
+
 export const ResponseService = {
   createResponse,
   saveResponse,
   updateResponse,
   getAllResponses,
   getResponseByCallId,
+  getResponsesByCallIds,
+  updateCandidateStatus,
   deleteResponse,
   getResponseCountByOrganizationId,
+  getResponseCount,
+  getResponseCountByStatuses,
   getAllEmails: getAllEmailAddressesForInterview,
+  getResponsesEndedSince,
+  claimReceipt,
+  getAnalyticsByInterviewIds,
 };
@@ -0,0 +1,63 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { CandidateResume } from "@/types/resume";
+
+const supabase = createSupabaseClient();
+
+const createResume = async (
+  payload: Omit<CandidateResume, "id" | "created_at" | "call_id">,
+) => {
+  const { data, error } = await supabase
+    .from("candidate_resume")
+    .insert(payload)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error saving resume:", error);
+
+    return null;
+  }
+
+  return data as CandidateResume;
+};
+
+const getResumeById = async (id: string) => {
+  const { data, error } = await supabase
+    .from("candidate_resume")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching resume:", error);
+
+    return null;
+  }
+
+  return data as CandidateResume | null;
+};
+
+// A resume personalises a single call. The update only applies while no call
+// has claimed it, so the same upload cannot be replayed.
+const claimResume = async (id: string, callId: string) => {
+  const { data, error } = await supabase
+    .from("candidate_resume")
+    .update({ call_id: callId })
+    .eq("id", id)
+    .is("call_id", null)
+    .select("id");
+
+  if (error) {
+    console.error("Error claiming resume:", error);
+
+    return false;
+  }
+
+  return (data || []).length > 0;
+};
+
+export const ResumeService = {
+  createResume,
+  getResumeById,
+  claimResume,
+};
@@ -0,0 +1,82 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import {
+  RetellEvent,
+  RetellEventType,
+  RetellWebhookPayload,
+} from "@/types/retell-event";
+
+const supabase = createSupabaseClient();
+
+// A delivery that died while handling an event stops blocking redeliveries
+// after this long
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Stores a webhook delivery and claims it for handling. The claim is a single
+// conditional update, so of several concurrent deliveries of the same event
+// only one gets it. Returns the claimed event, "duplicate" when the event was
+// already handled or is being handled, or null on a database error.
+const claimRetellEvent = async (
+  callId: string,
+  event: RetellEventType,
+  payload: RetellWebhookPayload,
+): Promise<RetellEvent | "duplicate" | null> => {
+  const { error: insertError } = await supabase
+    .from("retell_event")
+    .upsert(
+      { call_id: callId, event: event, payload: payload },
+      { onConflict: "call_id,event", ignoreDuplicates: true },
+    );
+
+  if (insertError) {
+    console.error("Error recording retell event:", insertError);
+
+    return null;
+  }
+
+  const staleBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+  const { data, error } = await supabase
+    .from("retell_event")
+    .update({ locked_at: new Date().toISOString() })
+    .eq("call_id", callId)
+    .eq("event", event)
+    .is("processed_at", null)
+    .or(`locked_at.is.null,locked_at.lt.${staleBefore}`)
+    .select("*");
+
+  if (error) {
+    console.error("Error claiming retell event:", error);
+
+    return null;
+  }
+
+  return data && data.length > 0 ? (data[0] as RetellEvent) : "duplicate";
+};
+
+const markRetellEventProcessed = async (id: number) => {
+  const { error } = await supabase
+    .from("retell_event")
+    .update({ processed_at: new Date().toISOString(), locked_at: null })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error marking retell event as processed:", error);
+  }
+};
+
+// Lets Retell's redelivery of an event whose handling failed run it again
+const releaseRetellEvent = async (id: number) => {
+  const { error } = await supabase
+    .from("retell_event")
+    .update({ locked_at: null })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error releasing retell event:", error);
+  }
+};
+
+export const RetellEventService = {
+  claimRetellEvent,
+  markRetellEventProcessed,
+  releaseRetellEvent,
+};
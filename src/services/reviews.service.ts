@@ -0,0 +1,124 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import {
+  ResponseComment,
+  ResponseScorecard,
+  ScorecardPayload,
+} from "@/types/review";
+
+const supabase = createSupabaseClient();
+
+const getScorecardsByResponseId = async (responseId: number) => {
+  const { data, error } = await supabase
+    .from("response_scorecard")
+    .select("*")
+    .eq("response_id", responseId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching scorecards:", error);
+
+    return [];
+  }
+
+  return (data || []) as ResponseScorecard[];
+};
+
+const upsertScorecard = async (
+  scorecard: ScorecardPayload & {
+    response_id: number;
+    interview_id: string;
+    reviewer_id: string;
+    reviewer_name: string | null;
+  },
+) => {
+  const { data, error } = await supabase
+    .from("response_scorecard")
+    .upsert(
+      { ...scorecard, updated_at: new Date().toISOString() },
+      { onConflict: "response_id,reviewer_id" },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving scorecard:", error);
+
+    return null;
+  }
+
+  return data as ResponseScorecard;
+};
+
+const getCommentsByResponseId = async (responseId: number) => {
+  const { data, error } = await supabase
+    .from("response_comment")
+    .select("*")
+    .eq("response_id", responseId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching comments:", error);
+
+    return [];
+  }
+
+  return (data || []) as ResponseComment[];
+};
+
+const getCommentById = async (id: number) => {
+  const { data, error } = await supabase
+    .from("response_comment")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching comment:", error);
+
+    return null;
+  }
+
+  return data as ResponseComment | null;
+};
+
+const createComment = async (
+  comment: Omit<ResponseComment, "id" | "created_at">,
+) => {
+  const { data, error } = await supabase
+    .from("response_comment")
+    .insert(comment)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating comment:", error);
+
+    return null;
+  }
+
+  return data as ResponseComment;
+};
+
+const deleteComment = async (id: number) => {
+  const { error } = await supabase
+    .from("response_comment")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting comment:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const ReviewService = {
+  getScorecardsByResponseId,
+  upsertScorecard,
+  getCommentsByResponseId,
+  getCommentById,
+  createComment,
+  deleteComment,
+};
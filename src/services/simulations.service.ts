@@ -0,0 +1,76 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { InterviewSimulation } from "@/types/simulation";
+
+const supabase = createSupabaseClient();
+
+const createSimulation = async (
+  payload: Omit<InterviewSimulation, "id" | "created_at">,
+) => {
+  const { data, error } = await supabase
+    .from("interview_simulation")
+    .insert(payload)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error saving simulation:", error);
+
+    return null;
+  }
+
+  return data as InterviewSimulation;
+};
+
+const getSimulationsByInterviewId = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("interview_simulation")
+    .select("*")
+    .eq("interview_id", interviewId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching simulations:", error);
+
+    return [];
+  }
+
+  return data as InterviewSimulation[];
+};
+
+const getSimulationById = async (id: number) => {
+  const { data, error } = await supabase
+    .from("interview_simulation")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching simulation:", error);
+
+    return null;
+  }
+
+  return data as InterviewSimulation | null;
+};
+
+const deleteSimulation = async (id: number) => {
+  const { error } = await supabase
+    .from("interview_simulation")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting simulation:", error);
+
+    return false;
+  }
+
+  return true;
+};
+
+export const SimulationService = {
+  createSimulation,
+  getSimulationsByInterviewId,
+  getSimulationById,
+  deleteSimulation,
+};
@@ -0,0 +1,53 @@
+import { createSupabaseClient } from "@/lib/supabase";
+import { UsageEvent, UsageKind } from "@/types/billing";
+
+const supabase = createSupabaseClient();
+
+// Events with an idempotency key that was already recorded are skipped, so
+// retried webhooks and requests are only counted once. Returns whether the
+// event was new.
+const recordUsageEvent = async (
+  payload: Omit<UsageEvent, "id" | "created_at">,
+) => {
+  const { data, error } = await supabase
+    .from("usage_event")
+    .upsert(payload, {
+      onConflict: "idempotency_key",
+      ignoreDuplicates: true,
+    })
+    .select("id");
+
+  if (error) {
+    console.error("Error recording usage:", error);
+
+    return false;
+  }
+
+  return (data || []).length > 0;
+};
+
+const getUsageTotals = async (organizationId: string, since: Date) => {
+  const { data, error } = await supabase.rpc("get_usage_totals", {
+    target_organization_id: organizationId,
+    since: since.toISOString(),
+  });
+
+  if (error) {
+    console.error("Error fetching usage totals:", error);
+
+    return [];
+  }
+
+  return (
+    (data || []) as {
+      interview_id: string | null;
+      kind: UsageKind;
+      quantity: number | string;
+    }[]
+  ).map((row) => ({ ...row, quantity: Number(row.quantity) }));
+};
+
+export const UsageService = {
+  recordUsageEvent,
+  getUsageTotals,
+};
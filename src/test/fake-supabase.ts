@@ -0,0 +1,359 @@
+// An in-memory stand-in for the Supabase client used by the services, for
+// tests. It supports the query builder calls the services make, applied to
+// plain arrays of rows, with unique constraints declared per table.
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type Result = {
+  data: unknown;
+  error: { code: string; message: string } | null;
+};
+
+const UNIQUE_VIOLATION = "23505";
+
+const compare = (a: unknown, b: unknown) => {
+  const left = typeof a === "number" ? a : String(a);
+  const right = typeof a === "number" ? Number(b) : String(b);
+
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const parseValue = (value: string) =>
+  value === "null"
+    ? null
+    : value === "true"
+      ? true
+      : value === "false"
+        ? false
+        : value;
+
+// PostgREST's or=(column.operator.value,...) syntax, for the operators used
+const parseOrFilter = (expression: string): Filter => {
+  const conditions = expression.split(",").map((part) => {
+    const [column, operator, ...rest] = part.split(".");
+    const value = parseValue(rest.join("."));
+
+    return (row: Row) => {
+      switch (operator) {
+        case "is":
+          return value === null ? row[column] == null : row[column] === value;
+        case "eq":
+          return String(row[column]) === String(value);
+        case "lt":
+          return row[column] != null && compare(row[column], value) < 0;
+        case "gt":
+          return row[column] != null && compare(row[column], value) > 0;
+        default:
+          throw new Error(`Unsupported or() operator ${operator}`);
+      }
+    };
+  });
+
+  return (row) => conditions.some((condition) => condition(row));
+};
+
+class FakeQuery implements PromiseLike<Result> {
+  private operation: "select" | "insert" | "upsert" | "update" | "delete" =
+    "select";
+  private values: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns: string[] = ["id"];
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private returning = false;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+  private sortColumn: string | null = null;
+  private ascending = true;
+  private maxRows: number | null = null;
+
+  constructor(
+    private database: FakeSupabase,
+    private table: string,
+  ) {}
+
+  select() {
+    if (this.operation !== "select") {
+      this.returning = true;
+    }
+
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+
+    return this;
+  }
+
+  upsert(
+    values: Row | Row[],
+    options: { onConflict?: string; ignoreDuplicates?: boolean } = {},
+  ) {
+    this.operation = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumns = (options.onConflict || "id").split(",");
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+
+    return this;
+  }
+
+  update(changes: Row) {
+    this.operation = "update";
+    this.changes = changes;
+
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value);
+
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push((row) =>
+      value === null ? row[column] == null : row[column] === value,
+    );
+
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) < 0,
+    );
+
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) <= 0,
+    );
+
+    return this;
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) > 0,
+    );
+
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) >= 0,
+    );
+
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseOrFilter(expression));
+
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sortColumn = column;
+    this.ascending = options.ascending ?? true;
+
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+
+    return this;
+  }
+
+  single() {
+    this.mode = "single";
+
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = "maybeSingle";
+
+    return this;
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ) {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((filter) => filter(row));
+  }
+
+  private violatesUnique(row: Row, ignore?: Row) {
+    return this.database
+      .getUniqueKeys(this.table)
+      .some((columns) =>
+        this.database
+          .rows(this.table)
+          .some(
+            (existing) =>
+              existing !== ignore &&
+              columns.every((column) => existing[column] === row[column]),
+          ),
+      );
+  }
+
+  private execute(): Result {
+    const rows = this.database.rows(this.table);
+    let affected: Row[] = [];
+
+    switch (this.operation) {
+      case "select":
+        affected = rows.filter((row) => this.matches(row));
+        break;
+      case "insert":
+        for (const value of this.values) {
+          const row = this.database.withDefaults(value);
+          if (this.violatesUnique(row)) {
+            return {
+              data: null,
+              error: { code: UNIQUE_VIOLATION, message: "duplicate key" },
+            };
+          }
+          rows.push(row);
+          affected.push(row);
+        }
+        break;
+      case "upsert":
+        for (const value of this.values) {
+          const existing = rows.find((row) =>
+            this.conflictColumns.every(
+              (column) => row[column] === value[column],
+            ),
+          );
+          if (existing) {
+            if (!this.ignoreDuplicates) {
+              Object.assign(existing, value);
+              affected.push(existing);
+            }
+          } else {
+            const row = this.database.withDefaults(value);
+            rows.push(row);
+            affected.push(row);
+          }
+        }
+        break;
+      case "update":
+        affected = rows.filter((row) => this.matches(row));
+        for (const row of affected) {
+          if (this.violatesUnique({ ...row, ...this.changes }, row)) {
+            return {
+              data: null,
+              error: { code: UNIQUE_VIOLATION, message: "duplicate key" },
+            };
+          }
+        }
+        affected.forEach((row) => Object.assign(row, this.changes));
+        break;
+      case "delete":
+        affected = rows.filter((row) => this.matches(row));
+        this.database.setRows(
+          this.table,
+          rows.filter((row) => !affected.includes(row)),
+        );
+        break;
+    }
+
+    if (this.operation !== "select" && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    const column = this.sortColumn;
+    if (column) {
+      affected = [...affected].sort(
+        (a, b) => compare(a[column], b[column]) * (this.ascending ? 1 : -1),
+      );
+    }
+    if (this.maxRows !== null) {
+      affected = affected.slice(0, this.maxRows);
+    }
+    const data = affected.map((row) => ({ ...row }));
+
+    if (this.mode === "many") {
+      return { data, error: null };
+    }
+    if (data.length > 1 || (this.mode === "single" && data.length === 0)) {
+      return {
+        data: null,
+        error: { code: "PGRST116", message: `${data.length} rows returned` },
+      };
+    }
+
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export class FakeSupabase {
+  private tables: Record<string, Row[]> = {};
+  private uniqueKeys: Record<string, string[][]> = {};
+  private nextId = 1;
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  // Clears every table and declares the unique constraints to enforce
+  reset(uniqueKeys: Record<string, string[][]> = {}) {
+    this.tables = {};
+    this.uniqueKeys = uniqueKeys;
+    this.nextId = 1;
+  }
+
+  rows(table: string) {
+    this.tables[table] = this.tables[table] || [];
+
+    return this.tables[table];
+  }
+
+  setRows(table: string, rows: Row[]) {
+    this.tables[table] = rows;
+  }
+
+  getUniqueKeys(table: string) {
+    return this.uniqueKeys[table] || [];
+  }
+
+  withDefaults(value: Row): Row {
+    return {
+      id: this.nextId++,
+      created_at: new Date().toISOString(),
+      ...value,
+    };
+  }
+}
+
+export const fakeSupabase = new FakeSupabase();
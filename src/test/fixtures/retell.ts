@@ -0,0 +1,42 @@
+import { Retell } from "retell-sdk";
+import { NextRequest } from "next/server";
+import { CallData } from "@/types/response";
+
+export const RETELL_TEST_API_KEY = "test_retell_api_key";
+
+export const createCallFixture = (overrides: Partial<CallData> = {}) =>
+  ({
+    call_id: "call_fixture_1",
+    agent_id: "agent_fixture",
+    call_status: "ended",
+    start_timestamp: 1700000000000,
+    end_timestamp: 1700000125000,
+    transcript: "Agent: Hi there\nUser: Hello",
+    transcript_object: [],
+    recording_url: "https://example.com/recording.wav",
+    retell_llm_dynamic_variables: { customer_name: "Sam" },
+    call_analysis: {
+      call_summary: "A short call",
+      user_sentiment: "Positive",
+      agent_sentiment: "Positive",
+      agent_task_completion_rating: "Complete",
+      agent_task_completion_rating_reason: "",
+      call_completion_rating: "Complete",
+      call_completion_rating_reason: "",
+    },
+    ...overrides,
+  }) as CallData;
+
+// Signs the body the way Retell does, with the API key as the secret
+export const createWebhookRequest = (
+  payload: unknown,
+  signature: string | null = Retell.sign(
+    JSON.stringify(payload),
+    RETELL_TEST_API_KEY,
+  ),
+) =>
+  new NextRequest("http://localhost/api/response-webhook", {
+    method: "POST",
+    body: JSON.stringify(payload),
+    headers: signature ? { "x-retell-signature": signature } : {},
+  });
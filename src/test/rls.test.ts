@@ -0,0 +1,222 @@
+import { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSchemaDatabase, JwtClaims, runAs } from "@/test/schema-db";
+
+// Admins are owners, so every permission check passes and only the tenant
+// checks in the policies stand between them and another organization's rows
+const ORG_A_ADMIN: JwtClaims = {
+  sub: "user_a",
+  org_id: "org_a",
+  org_role: "org:admin",
+};
+const ORG_B_ADMIN: JwtClaims = {
+  sub: "user_b",
+  org_id: "org_b",
+  org_role: "org:admin",
+};
+const PERSONAL_USER: JwtClaims = { sub: "user_solo" };
+
+const SEED = `
+INSERT INTO organization (id, name) VALUES ('org_a', 'Org A'), ('org_b', 'Org B');
+INSERT INTO "user" (id, organization_id) VALUES
+    ('user_a', 'org_a'), ('user_b', 'org_b'), ('user_solo', NULL);
+INSERT INTO interview (id, name, organization_id, user_id) VALUES
+    ('interview_a', 'A', 'org_a', 'user_a'),
+    ('interview_b', 'B', 'org_b', 'user_b'),
+    ('interview_solo', 'Solo', NULL, 'user_solo');
+INSERT INTO response (interview_id, call_id, name, email) VALUES
+    ('interview_a', 'call_a', 'Candidate A', 'a@example.com'),
+    ('interview_b', 'call_b', 'Candidate B', 'b@example.com'),
+    ('interview_solo', 'call_solo', 'Candidate Solo', 'solo@example.com');
+INSERT INTO invitation (interview_id, email, expires_at) VALUES
+    ('interview_a', 'a@example.com', NOW() + INTERVAL '1 day'),
+    ('interview_b', 'b@example.com', NOW() + INTERVAL '1 day');
+INSERT INTO feedback (interview_id, email, feedback) VALUES
+    ('interview_a', 'a@example.com', 'Good'),
+    ('interview_b', 'b@example.com', 'Fine');
+INSERT INTO analysis_job (call_id, interview_id) VALUES
+    ('call_a', 'interview_a'),
+    ('call_b', 'interview_b');
+`;
+
+const TENANT_TABLES = ["response", "invitation", "feedback", "analysis_job"];
+
+describe("row level security", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createSchemaDatabase();
+    await db.exec(SEED);
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.close();
+  });
+
+  const selectColumn = (
+    claims: JwtClaims | null,
+    sql: string,
+    column: string,
+  ) =>
+    runAs(db, claims, async (tx) =>
+      (await tx.query<Record<string, string>>(sql)).rows.map(
+        (row) => row[column],
+      ),
+    );
+
+  it("shows members only the interviews of their organization", async () => {
+    expect(
+      await selectColumn(ORG_A_ADMIN, "SELECT id FROM interview", "id"),
+    ).toEqual(["interview_a"]);
+    expect(
+      await selectColumn(ORG_B_ADMIN, "SELECT id FROM interview", "id"),
+    ).toEqual(["interview_b"]);
+  });
+
+  it("shows users outside an organization only their own interviews", async () => {
+    expect(
+      await selectColumn(PERSONAL_USER, "SELECT id FROM interview", "id"),
+    ).toEqual(["interview_solo"]);
+  });
+
+  it.each(TENANT_TABLES)(
+    "shows members only the %s rows of their interviews",
+    async (table) => {
+      expect(
+        await selectColumn(
+          ORG_A_ADMIN,
+          `SELECT interview_id FROM ${table}`,
+          "interview_id",
+        ),
+      ).toEqual(["interview_a"]);
+    },
+  );
+
+  it("does not leak responses through a known call id", async () => {
+    expect(
+      await selectColumn(
+        ORG_B_ADMIN,
+        "SELECT id FROM response WHERE call_id = 'call_a'",
+        "id",
+      ),
+    ).toEqual([]);
+  });
+
+  it.each(["name", "email", "details", "*"])(
+    "does not let members select %s from responses directly",
+    async (column) => {
+      await expect(
+        runAs(db, ORG_A_ADMIN, (tx) =>
+          tx.query(`SELECT ${column} FROM response`),
+        ),
+      ).rejects.toThrow(/permission denied/);
+    },
+  );
+
+  it("lets members read the rest of their responses", async () => {
+    expect(
+      await selectColumn(
+        ORG_A_ADMIN,
+        "SELECT call_id, candidate_status, analytics FROM response",
+        "call_id",
+      ),
+    ).toEqual(["call_a"]);
+  });
+
+  it("does not let members change or delete another organization's rows", async () => {
+    const affected = await runAs(db, ORG_B_ADMIN, async (tx) => [
+      (
+        await tx.query(
+          "UPDATE interview SET name = 'Taken' WHERE id = 'interview_a'",
+        )
+      ).affectedRows,
+      (
+        await tx.query(
+          "UPDATE response SET candidate_status = 'REJECTED' WHERE call_id = 'call_a'",
+        )
+      ).affectedRows,
+      (await tx.query("DELETE FROM response WHERE call_id = 'call_a'"))
+        .affectedRows,
+      (await tx.query("DELETE FROM interview WHERE id = 'interview_a'"))
+        .affectedRows,
+    ]);
+
+    expect(affected).toEqual([0, 0, 0, 0]);
+    const rows = await db.query<{ name: string; candidate_status: string }>(
+      "SELECT i.name, r.candidate_status FROM interview i JOIN response r ON r.interview_id = i.id WHERE i.id = 'interview_a'",
+    );
+    expect(rows.rows).toEqual([{ name: "A", candidate_status: null }]);
+  });
+
+  it("does not let members add rows to another organization's interviews", async () => {
+    await expect(
+      runAs(db, ORG_B_ADMIN, (tx) =>
+        tx.query(
+          "INSERT INTO response (interview_id, call_id) VALUES ('interview_a', 'call_planted')",
+        ),
+      ),
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      runAs(db, ORG_B_ADMIN, (tx) =>
+        tx.query(
+          "INSERT INTO interview (id, organization_id, user_id) VALUES ('interview_planted', 'org_a', 'user_a')",
+        ),
+      ),
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("leaves the schedule, rubric and interviewer to the server", async () => {
+    await expect(
+      runAs(db, ORG_A_ADMIN, (tx) =>
+        tx.query(
+          "UPDATE interview SET max_responses = 0 WHERE id = 'interview_a'",
+        ),
+      ),
+    ).rejects.toThrow(/only be changed through the API/);
+    await expect(
+      runAs(db, ORG_A_ADMIN, (tx) =>
+        tx.query(
+          `UPDATE interview SET rubric = '[{"name": "Planted"}]' WHERE id = 'interview_a'`,
+        ),
+      ),
+    ).rejects.toThrow(/only be changed through the API/);
+    await expect(
+      runAs(db, ORG_A_ADMIN, (tx) =>
+        tx.query(
+          "UPDATE interview SET interviewer_id = 1 WHERE id = 'interview_a'",
+        ),
+      ),
+    ).rejects.toThrow(/only be changed through the API/);
+
+    const updated = await runAs(
+      db,
+      ORG_A_ADMIN,
+      async (tx) =>
+        (
+          await tx.query(
+            "UPDATE interview SET theme_color = '#000000' WHERE id = 'interview_a'",
+          )
+        ).affectedRows,
+    );
+    expect(updated).toBe(1);
+  });
+
+  it("refuses theme colours that are not hex colours", async () => {
+    await expect(
+      runAs(db, ORG_A_ADMIN, (tx) =>
+        tx.query(
+          `UPDATE interview SET theme_color = '#000"><script>' WHERE id = 'interview_a'`,
+        ),
+      ),
+    ).rejects.toThrow(/check constraint/);
+  });
+
+  it("hides interviews and responses from anonymous requests", async () => {
+    expect(await selectColumn(null, "SELECT id FROM interview", "id")).toEqual(
+      [],
+    );
+    expect(
+      await selectColumn(null, "SELECT call_id FROM response", "call_id"),
+    ).toEqual([]);
+  });
+});
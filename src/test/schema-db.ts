@@ -0,0 +1,62 @@
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { PGlite, Transaction } from "@electric-sql/pglite";
+
+// The pieces of a Supabase database the schema relies on: the API roles and
+// auth.jwt(), which reads the claims PostgREST sets for each request
+const SUPABASE_BOOTSTRAP = `
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN BYPASSRLS;
+CREATE SCHEMA auth;
+CREATE FUNCTION auth.jwt() RETURNS jsonb LANGUAGE sql STABLE AS $$
+    SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+$$;
+CREATE FUNCTION auth.role() RETURNS text LANGUAGE sql STABLE AS $$
+    SELECT auth.jwt()->>'role'
+$$;
+CREATE FUNCTION uuid_generate_v4() RETURNS uuid LANGUAGE sql AS $$
+    SELECT gen_random_uuid()
+$$;
+GRANT USAGE ON SCHEMA public, auth TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+`;
+
+const SCHEMA_PATH = fileURLToPath(
+  new URL("../../supabase_schema.sql", import.meta.url),
+);
+
+// An in-memory Postgres with supabase_schema.sql applied. Queries on the
+// returned database run as the superuser, which bypasses row level security.
+export const createSchemaDatabase = async () => {
+  const db = new PGlite();
+  await db.exec(SUPABASE_BOOTSTRAP);
+  await db.exec(readFileSync(SCHEMA_PATH, "utf8"));
+
+  return db;
+};
+
+export type JwtClaims = {
+  sub?: string;
+  org_id?: string;
+  org_role?: string;
+};
+
+// Runs the callback the way a dashboard request with the given Clerk session
+// reaches the database. Without claims the request is anonymous.
+export const runAs = async <T>(
+  db: PGlite,
+  claims: JwtClaims | null,
+  callback: (tx: Transaction) => Promise<T>,
+) =>
+  db.transaction(async (tx) => {
+    const role = claims ? "authenticated" : "anon";
+    await tx.exec(`SET LOCAL ROLE ${role}`);
+    await tx.query("SELECT set_config('request.jwt.claims', $1, true)", [
+      JSON.stringify({ ...claims, role }),
+    ]);
+
+    return callback(tx);
+  });
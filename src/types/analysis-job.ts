@@ -0,0 +1,15 @@
+export type AnalysisJobStatus = "pending" | "running" | "completed" | "failed";
+
+export interface AnalysisJob {
+  id: number;
+  created_at: Date;
+  updated_at: Date;
+  call_id: string;
+  interview_id: string;
+  status: AnalysisJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+}
@@ -0,0 +1,37 @@
+export type BillingPlan = "free" | "pro" | "free_trial_over";
+
+export type UsageKind = "response" | "call_minutes" | "llm_tokens";
+
+// null means the plan has no limit for that kind of usage
+export type PlanLimits = Record<UsageKind, number | null>;
+
+export type UsageTotals = Record<UsageKind, number>;
+
+export interface UsageEvent {
+  id: number;
+  created_at: string;
+  organization_id: string;
+  interview_id: string | null;
+  kind: UsageKind;
+  quantity: number;
+  metadata: Record<string, unknown> | null;
+  idempotency_key: string | null;
+}
+
+export interface InterviewUsage extends UsageTotals {
+  interview_id: string | null;
+  name: string;
+}
+
+export interface UsageSummary {
+  plan: BillingPlan;
+  limits: PlanLimits;
+  period_start: string;
+  totals: UsageTotals;
+  interviews: InterviewUsage[];
+  billing_provider: string | null;
+}
+
+// Which limit stopped a call from starting
+export type QuotaCheck =
+  { allowed: true } | { allowed: false; kind: UsageKind | "plan" };
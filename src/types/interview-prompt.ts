@@ -0,0 +1,19 @@
+export type InterviewTone = "professional" | "friendly" | "casual" | "formal";
+
+export interface PromptSettings {
+  tone: InterviewTone;
+  opening_script: string;
+  closing_script: string;
+  forbidden_topics: string[];
+}
+
+// A snapshot of the prompt an interview's calls ran with. A new version is
+// saved whenever the settings or the interview's questions change.
+export interface PromptVersion extends PromptSettings {
+  id: number;
+  created_at: string;
+  interview_id: string;
+  version: number;
+  prompt: string;
+  created_by: string | null;
+}
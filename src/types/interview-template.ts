@@ -0,0 +1,24 @@
+import { Question, RubricCompetency } from "@/types/interview";
+
+export interface InterviewTemplateContent {
+  name: string;
+  description: string;
+  objective: string;
+  questions: Question[];
+  question_count: number;
+  time_duration: string;
+  // Built-in templates leave the interviewer to the user
+  interviewer_id: bigint | null;
+  rubric: RubricCompetency[];
+}
+
+export interface InterviewTemplate extends InterviewTemplateContent {
+  id: number;
+  created_at: string;
+  organization_id: string | null;
+  user_id: string | null;
+}
+
+export interface BuiltInInterviewTemplate extends InterviewTemplateContent {
+  key: string;
+}
@@ -2,6 +2,68 @@ export interface Question {
   id: string;
   question: string;
   follow_up_count: number;
+  // Set when the question was picked from the question bank
+  bank_question_id?: number | null;
+}
+
+export interface RubricCompetency {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+  must_have: boolean;
+  // Descriptors for levels 1 to 5, empty when the default wording is enough
+  levels: string[];
+}
+
+export type InterviewDocumentFileKind = "pdf" | "docx" | "markdown" | "text";
+export type InterviewDocumentKind = InterviewDocumentFileKind | "url";
+
+// Source material for question generation, kept so questions can be
+// regenerated later from the same documents
+export interface InterviewDocument {
+  id: string;
+  name: string;
+  kind: InterviewDocumentKind;
+  url: string | null;
+  content: string;
+  // Whether content is a summary because the document exceeded its budget
+  is_summarised: boolean;
+}
+
+// A weekly window in the interview's timezone. Days are 0 (Sunday) to 6,
+// times are "HH:MM" and the end is exclusive.
+export interface AvailabilityWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface InterviewAvailability {
+  timezone: string;
+  windows: AvailabilityWindow[];
+}
+
+// Why an interview was deactivated automatically
+export type InterviewClosedReason = "schedule" | "response_limit";
+
+// What the call page shows instead of the generic inactive screen
+export type InterviewAvailabilityState =
+  | { status: "open" }
+  | { status: "inactive" }
+  | { status: "not_open"; opens_at: string }
+  | { status: "closed"; closed_at: string }
+  | { status: "full" }
+  | {
+      status: "outside_window";
+      timezone: string;
+      windows: AvailabilityWindow[];
+      next_window_at: string | null;
+    };
+
+export interface GeneratedQuestions {
+  questions: { question: string }[];
+  description: string;
 }
 
 export interface Quote {
@@ -21,6 +83,8 @@ export interface InterviewBase {
   questions: Question[];
   description: string;
   response_count: bigint;
+  rubric: RubricCompetency[];
+  documents: InterviewDocument[];
 }
 
 export interface InterviewDetails {
@@ -31,6 +95,16 @@ export interface InterviewDetails {
   quotes: Quote[];
   details: any;
   is_active: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  availability: InterviewAvailability | null;
+  max_responses: number | null;
+  closed_at: string | null;
+  closed_reason: InterviewClosedReason | null;
+  is_invite_only: boolean;
+  accepts_resume: boolean;
+  send_digest: boolean;
+  digest_sent_at: string | null;
   theme_color: string;
   logo_url: string;
   respondents: string[];
@@ -38,3 +112,19 @@ export interface InterviewDetails {
 }
 
 export interface Interview extends InterviewBase, InterviewDetails {}
+
+// What the candidate-facing call page gets to see of an interview
+export type PublicInterview = Pick<
+  Interview,
+  | "id"
+  | "name"
+  | "description"
+  | "time_duration"
+  | "interviewer_id"
+  | "is_active"
+  | "is_anonymous"
+  | "is_invite_only"
+  | "accepts_resume"
+  | "theme_color"
+  | "logo_url"
+>;
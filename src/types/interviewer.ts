@@ -1,6 +1,7 @@
 export interface Interviewer {
   id: bigint;
-  user_id: string;
+  user_id: string | null;
+  organization_id: string | null;
   created_at: Date;
   name: string;
   rapport: number;
@@ -11,4 +12,27 @@ export interface Interviewer {
   description: string;
   audio: string;
   agent_id: string;
+  llm_id: string | null;
+  voice_id: string | null;
+  agent_prompt_version: number | null;
+}
+
+export type InterviewerSettings = Pick<
+  Interviewer,
+  "empathy" | "rapport" | "exploration" | "speed"
+>;
+
+export interface InterviewerPayload extends InterviewerSettings {
+  name: string;
+  image: string;
+  voice_id: string;
+  description?: string;
+}
+
+export interface InterviewerVoice {
+  voice_id: string;
+  voice_name: string;
+  gender: "male" | "female";
+  accent?: string;
+  preview_audio_url?: string;
 }
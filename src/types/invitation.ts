@@ -0,0 +1,29 @@
+export type InvitationStatus =
+  "sent" | "opened" | "started" | "completed" | "expired";
+
+// Why an invitation link cannot be used
+export type InvitationError = "invalid" | "expired" | "used";
+
+export interface InvitationCandidate {
+  name: string;
+  email: string;
+}
+
+export interface Invitation extends InvitationCandidate {
+  id: number;
+  created_at: Date;
+  updated_at: Date;
+  interview_id: string;
+  status: InvitationStatus;
+  attempts: number;
+  max_attempts: number;
+  expires_at: string;
+  opened_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  call_id: string | null;
+  last_emailed_at: string | null;
+  reminder_count: number;
+  // Signed link token, only present in responses from /api/invitations
+  token?: string;
+}
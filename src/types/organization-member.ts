@@ -0,0 +1,31 @@
+export type OrganizationRole = "owner" | "admin" | "recruiter" | "reviewer";
+
+export type Permission =
+  | "interview:create"
+  | "interview:edit"
+  | "interview:delete"
+  | "response:view_pii"
+  | "response:update_status"
+  | "response:delete"
+  | "response:export"
+  | "members:manage"
+  | "pipeline:manage"
+  | "billing:manage";
+
+export interface OrganizationMemberRole {
+  organization_id: string;
+  user_id: string;
+  created_at: string;
+  role: OrganizationRole;
+  updated_by: string | null;
+}
+
+// A Clerk membership joined with the role stored for it
+export interface OrganizationMember {
+  user_id: string;
+  identifier: string;
+  name: string | null;
+  image_url: string | null;
+  joined_at: string;
+  role: OrganizationRole;
+}
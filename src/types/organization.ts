@@ -1,8 +1,12 @@
+import { BillingPlan } from "@/types/billing";
+
 export interface Organization {
   id: string;
   created_at: Date;
   image_url: string;
   name: string;
-  plan: string;
+  plan: BillingPlan | null;
   allowed_responses_count: number;
+  billing_customer_id: string | null;
+  billing_subscription_id: string | null;
 }
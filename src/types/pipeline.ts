@@ -0,0 +1,29 @@
+export interface PipelineStage {
+  key: string;
+  name: string;
+  color: string;
+  position: number;
+  // Outcomes such as hired or rejected, which end the pipeline
+  is_terminal: boolean;
+}
+
+export type PipelineStagePayload = Omit<PipelineStage, "key" | "position"> & {
+  key?: string;
+};
+
+// Who owns a set of stages: an organization, or a user outside one
+export type PipelineOwner = {
+  organization_id: string | null;
+  user_id: string | null;
+};
+
+export interface ResponseStatusChange {
+  id: number;
+  created_at: string;
+  response_id: number;
+  interview_id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string;
+  changed_by_name: string | null;
+}
@@ -0,0 +1,36 @@
+export type Seniority = "junior" | "mid" | "senior" | "lead";
+
+export interface BankQuestionTags {
+  skills: string[];
+  seniority: Seniority | null;
+  role: string | null;
+}
+
+export interface BankQuestionPayload extends BankQuestionTags {
+  question: string;
+  follow_up_count: number;
+}
+
+export interface BankQuestion extends BankQuestionPayload {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  organization_id: string | null;
+  user_id: string | null;
+  is_retired: boolean;
+}
+
+export interface BankQuestionStats {
+  interview_count: number;
+  // Analysed responses to interviews that used the question
+  response_count: number;
+  not_asked_count: number;
+  not_answered_count: number;
+  // Out of 10, over answered questions from responses scored per question
+  average_score: number | null;
+  average_overall_score: number | null;
+}
+
+export interface BankQuestionWithStats extends BankQuestion {
+  stats: BankQuestionStats;
+}
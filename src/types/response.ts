@@ -13,18 +13,123 @@ export interface Response {
   analytics: any;
   candidate_status: string;
   tab_switch_count: number;
+  receipt_sent_at: string | null;
+  prompt_version_id: number | null;
+  resume_id: string | null;
+}
+
+export interface QuestionSummary {
+  question: string;
+  summary: string;
+  // Answer quality out of 10, missing on responses analysed before it existed
+  score?: number;
+}
+
+// Where a main question and its follow-ups were asked and answered in the
+// recording. Lines index transcript_object, with endLine exclusive; times are
+// in seconds.
+export interface QuestionSegment {
+  questionIndex: number;
+  startLine: number;
+  endLine: number;
+  start: number;
+  end: number;
+  agentTalkTime: number;
+  candidateTalkTime: number;
+  // From the end of the interviewer's last line to the candidate's first answer
+  answerLatency: number | null;
+}
+
+// Delivery measured from the word timings rather than by the model. Times
+// are in seconds.
+export interface SpeechMetrics {
+  wordCount: number;
+  wordsPerMinute: number;
+  fillerCount: number;
+  // Filler words per 100 words
+  fillerRate: number;
+  pauses: {
+    short: number;
+    medium: number;
+    long: number;
+    average: number | null;
+    longest: number | null;
+  };
+  longestMonologue: number;
+  interruptions: {
+    byCandidate: number;
+    byInterviewer: number;
+  };
+  candidateTalkTime: number;
+  agentTalkTime: number;
+  // The candidate's share of the talk time, from 0 to 1
+  talkRatio: number;
+}
+
+export interface CompetencyScore {
+  competency: string;
+  score: number;
+  weight: number;
+  mustHave: boolean;
+  evidence: string[];
+  rationale: string;
 }
 
 export interface Analytics {
   overallScore: number;
   overallFeedback: string;
   communication: { score: number; feedback: string };
-  generalIntelligence: string;
+  generalIntelligence?: string;
   softSkillSummary: string;
-  questionSummaries: Array<{
-    question: string;
-    summary: string;
-  }>;
+  questionSummaries: QuestionSummary[];
+  mainInterviewQuestions?: string[];
+  // Missing on calls without word timings and responses analysed before it
+  questionSegments?: QuestionSegment[];
+  speechMetrics?: SpeechMetrics;
+  competencyScores?: CompetencyScore[];
+  unmetMustHaves?: string[];
+  communicationAnalysis?: CommunicationAnalysis;
+  resumeConsistency?: ResumeConsistency;
+}
+
+export type ResumeClaimStatus = "consistent" | "inconsistent" | "not_discussed";
+
+export interface ResumeClaimCheck {
+  claim: string;
+  status: ResumeClaimStatus;
+  evidence: string;
+}
+
+// How well the interview answers back up what the resume says
+export interface ResumeConsistency {
+  score: number;
+  summary: string;
+  claims: ResumeClaimCheck[];
+}
+
+export interface SupportingQuote {
+  quote: string;
+  analysis: string;
+  type: "strength" | "improvement_area";
+}
+
+export interface CommunicationAnalysis {
+  communicationScore: number;
+  overallFeedback: string;
+  supportingQuotes: SupportingQuote[];
+  strengths: string[];
+  improvementAreas: string[];
+}
+
+export interface CandidateStrengths {
+  callId: string;
+  strengths: string[];
+  concerns: string[];
+}
+
+export interface CandidateComparison {
+  summary: string;
+  candidates: CandidateStrengths[];
 }
 
 export interface FeedbackData {
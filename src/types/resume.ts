@@ -0,0 +1,18 @@
+import { Question } from "@/types/interview";
+
+export interface CandidateResume {
+  id: string;
+  created_at: string;
+  interview_id: string;
+  file_name: string;
+  content: string;
+  // Verifiable statements taken from the resume, checked during analysis
+  claims: string[];
+  questions: Question[];
+  call_id: string | null;
+}
+
+export interface ResumeQuestions {
+  claims: string[];
+  questions: { question: string }[];
+}
@@ -0,0 +1,18 @@
+import { CallData } from "@/types/response";
+
+export type RetellEventType = "call_started" | "call_ended" | "call_analyzed";
+
+export interface RetellWebhookPayload {
+  event: string;
+  call: CallData;
+}
+
+export interface RetellEvent {
+  id: number;
+  created_at: Date;
+  call_id: string;
+  event: RetellEventType;
+  payload: RetellWebhookPayload;
+  processed_at: string | null;
+  locked_at: string | null;
+}
@@ -0,0 +1,57 @@
+export type ReviewRecommendation = "strong_no" | "no" | "yes" | "strong_yes";
+
+// A rating of one rubric competency or interview question, keyed by its id
+export interface ScorecardRating {
+  id: string;
+  rating: number;
+}
+
+export interface ResponseScorecard {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  response_id: number;
+  interview_id: string;
+  reviewer_id: string;
+  reviewer_name: string | null;
+  competency_ratings: ScorecardRating[];
+  question_ratings: ScorecardRating[];
+  recommendation: ReviewRecommendation | null;
+  notes: string;
+}
+
+export type ScorecardPayload = Pick<
+  ResponseScorecard,
+  "competency_ratings" | "question_ratings" | "recommendation" | "notes"
+>;
+
+export interface ResponseComment {
+  id: number;
+  created_at: string;
+  response_id: number;
+  interview_id: string;
+  parent_id: number | null;
+  author_id: string;
+  author_name: string | null;
+  body: string;
+  timestamp_seconds: number | null;
+  mentions: string[];
+}
+
+// The AI score of a competency or question next to the reviewers' ratings
+export interface ConsensusItem {
+  id: string;
+  label: string;
+  ai: number | null;
+  average: number | null;
+  ratings: number[];
+}
+
+export interface ReviewConsensus {
+  reviewer_count: number;
+  competencies: ConsensusItem[];
+  questions: ConsensusItem[];
+  recommendations: Record<ReviewRecommendation, number>;
+  // Average of the recommendations, from -2 (strong no) to 2 (strong yes)
+  recommendation_score: number | null;
+}
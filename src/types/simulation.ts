@@ -0,0 +1,20 @@
+import { Analytics } from "@/types/response";
+
+export interface SimulationMessage {
+  role: "agent" | "user";
+  content: string;
+}
+
+// A dry run of an interview, chatted by text from the dashboard. Saved
+// simulations are scored like real responses but never count as one.
+export interface InterviewSimulation {
+  id: number;
+  created_at: string;
+  interview_id: string;
+  created_by: string | null;
+  prompt_version_id: number | null;
+  messages: SimulationMessage[];
+  transcript: string;
+  covered_question_ids: string[];
+  analytics: Analytics | null;
+}
@@ -8,7 +8,9 @@ CREATE TABLE organization (
     name TEXT,
     image_url TEXT,
     allowed_responses_count INTEGER,
-    plan plan
+    plan plan DEFAULT 'free',
+    billing_customer_id TEXT,
+    billing_subscription_id TEXT
 );
 
 CREATE TABLE "user" (
@@ -18,10 +20,29 @@ CREATE TABLE "user" (
     organization_id TEXT REFERENCES organization(id)
 );
 
+-- Roles of organization members. Members without a row get a default role
+-- from their Clerk membership, see requesting_role() below.
+CREATE TABLE organization_member (
+    organization_id TEXT NOT NULL REFERENCES organization(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'recruiter', 'reviewer')),
+    updated_by TEXT,
+    PRIMARY KEY (organization_id, user_id)
+);
+
 CREATE TABLE interviewer (
     id SERIAL PRIMARY KEY,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
     agent_id TEXT,
+    llm_id TEXT,
+    voice_id TEXT,
+    -- AGENT_PROMPT_VERSION the Retell LLM prompt was last written with, see
+    -- src/lib/interviewer-agent.ts. NULL for interviewers from before prompts
+    -- were versioned; they are synced before their next call.
+    agent_prompt_version INTEGER,
+    user_id TEXT REFERENCES "user"(id),
+    organization_id TEXT REFERENCES organization(id),
     name TEXT NOT NULL,
     description TEXT NOT NULL,
     image TEXT NOT NULL,
@@ -42,13 +63,25 @@ CREATE TABLE interview (
     user_id TEXT REFERENCES "user"(id),
     interviewer_id INTEGER REFERENCES interviewer(id),
     is_active BOOLEAN DEFAULT true,
+    opens_at TIMESTAMP WITH TIME ZONE,
+    closes_at TIMESTAMP WITH TIME ZONE,
+    availability JSONB,
+    max_responses INTEGER,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    closed_reason TEXT,
     is_anonymous BOOLEAN DEFAULT false,
+    is_invite_only BOOLEAN DEFAULT false,
+    accepts_resume BOOLEAN DEFAULT false,
+    send_digest BOOLEAN DEFAULT false,
+    digest_sent_at TIMESTAMP WITH TIME ZONE,
     is_archived BOOLEAN DEFAULT false,
     logo_url TEXT,
-    theme_color TEXT,
+    theme_color TEXT CHECK (theme_color ~ '^#[0-9A-Fa-f]{6}$'),
     url TEXT,
     readable_slug TEXT,
     questions JSONB,
+    rubric JSONB DEFAULT '[]'::jsonb,
+    documents JSONB DEFAULT '[]'::jsonb,
     quotes JSONB[],
     insights TEXT[],
     respondents TEXT[],
@@ -71,7 +104,8 @@ CREATE TABLE response (
     is_analysed BOOLEAN DEFAULT false,
     is_ended BOOLEAN DEFAULT false,
     is_viewed BOOLEAN DEFAULT false,
-    tab_switch_count INTEGER
+    tab_switch_count INTEGER,
+    receipt_sent_at TIMESTAMP WITH TIME ZONE
 );
 
 CREATE TABLE feedback (
@@ -82,3 +116,609 @@ CREATE TABLE feedback (
     feedback TEXT,
     satisfaction INTEGER
 );
+
+CREATE TYPE analysis_job_status AS ENUM ('pending', 'running', 'completed', 'failed');
+
+CREATE TABLE analysis_job (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    call_id TEXT NOT NULL UNIQUE,
+    interview_id TEXT REFERENCES interview(id) ON DELETE CASCADE,
+    status analysis_job_status NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT
+);
+
+CREATE INDEX analysis_job_due_idx ON analysis_job (status, run_at);
+
+-- Atomically hands due jobs to a worker. Jobs left running by a worker that
+-- died are picked up again once their lock is older than the timeout. With
+-- only_call_id, only that call's job is claimed. The drop replaces the
+-- two-argument version on databases created before only_call_id existed.
+DROP FUNCTION IF EXISTS claim_analysis_jobs(INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION claim_analysis_jobs(
+    batch_size INTEGER,
+    lock_timeout_seconds INTEGER DEFAULT 300,
+    only_call_id TEXT DEFAULT NULL
+)
+RETURNS SETOF analysis_job AS $$
+    UPDATE analysis_job
+    SET status = 'running',
+        locked_at = NOW(),
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id IN (
+        SELECT id FROM analysis_job
+        WHERE ((status = 'pending' AND run_at <= NOW())
+           OR (status = 'running'
+               AND locked_at < NOW() - MAKE_INTERVAL(secs => lock_timeout_seconds)))
+          AND (only_call_id IS NULL OR call_id = only_call_id)
+        ORDER BY run_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Every Retell webhook delivery, deduplicated on (call_id, event). Retell
+-- redelivers until it gets a 2xx, so processed_at tells a replay of a handled
+-- event apart from one whose handling failed and should run again. locked_at
+-- is set by the delivery handling the event, so concurrent redeliveries of it
+-- are skipped.
+CREATE TABLE retell_event (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    call_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    payload JSONB,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (call_id, event)
+);
+
+CREATE TYPE invitation_status AS ENUM ('sent', 'opened', 'started', 'completed', 'expired');
+
+-- One row per invited candidate. The link token is signed with
+-- INVITATION_SECRET and carries the invitation id and expiry, so links cannot
+-- be forged or extended; attempts counts the calls started from the link.
+CREATE TABLE invitation (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    name TEXT,
+    email TEXT NOT NULL,
+    status invitation_status NOT NULL DEFAULT 'sent',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 1,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    opened_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    call_id TEXT,
+    last_emailed_at TIMESTAMP WITH TIME ZONE,
+    reminder_count INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (interview_id, email)
+);
+
+-- Row level security. Server routes use the service role key and bypass these
+-- policies; the dashboard talks to Supabase with the Clerk session token, so
+-- signed-in users only see rows belonging to their organization, or their own
+-- rows outside an organization. Candidates never read tables directly.
+CREATE OR REPLACE FUNCTION requesting_user_id() RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(auth.jwt()->>'sub', '')
+$$;
+
+CREATE OR REPLACE FUNCTION requesting_org_id() RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(COALESCE(auth.jwt()->>'org_id', auth.jwt()->'o'->>'id'), '')
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_interview(target_interview_id TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM interview
+        WHERE id = target_interview_id
+          AND (organization_id = requesting_org_id() OR user_id = requesting_user_id())
+    )
+$$;
+
+-- Outside an organization users own everything they can see. Clerk admins
+-- without a stored role are owners, other members are recruiters.
+CREATE OR REPLACE FUNCTION requesting_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT CASE
+        WHEN requesting_org_id() IS NULL THEN 'owner'
+        ELSE COALESCE(
+            (
+                SELECT role FROM organization_member
+                WHERE organization_id = requesting_org_id()
+                  AND user_id = requesting_user_id()
+            ),
+            CASE
+                WHEN COALESCE(auth.jwt()->>'org_role', 'org:' || (auth.jwt()->'o'->>'rol')) = 'org:admin'
+                THEN 'owner'
+                ELSE 'recruiter'
+            END
+        )
+    END
+$$;
+
+-- Mirrors ROLE_PERMISSIONS in src/lib/permissions.ts
+CREATE OR REPLACE FUNCTION has_permission(permission TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+    SELECT CASE requesting_role()
+        WHEN 'owner' THEN true
+        WHEN 'admin' THEN true
+        WHEN 'recruiter' THEN permission IN (
+            'interview:create',
+            'interview:edit',
+            'response:view_pii',
+            'response:update_status',
+            'response:export'
+        )
+        ELSE false
+    END
+$$;
+
+ALTER TABLE organization ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "user" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_member ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interviewer ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview ENABLE ROW LEVEL SECURITY;
+ALTER TABLE response ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_job ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retell_event ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invitation ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY organization_select ON organization FOR SELECT TO authenticated
+    USING (id = requesting_org_id());
+CREATE POLICY organization_insert ON organization FOR INSERT TO authenticated
+    WITH CHECK (id = requesting_org_id());
+CREATE POLICY organization_update ON organization FOR UPDATE TO authenticated
+    USING (id = requesting_org_id());
+-- The plan, limits and billing ids are only changed by the server
+REVOKE INSERT, UPDATE ON organization FROM authenticated;
+GRANT INSERT (id, name, image_url) ON organization TO authenticated;
+GRANT UPDATE (name, image_url) ON organization TO authenticated;
+
+CREATE POLICY user_all ON "user" FOR ALL TO authenticated
+    USING (id = requesting_user_id())
+    WITH CHECK (id = requesting_user_id());
+
+-- Members can see the roles in their organization; only the server changes them
+CREATE POLICY organization_member_select ON organization_member FOR SELECT TO authenticated
+    USING (organization_id = requesting_org_id());
+
+-- The default interviewers have no owner and are shared by everyone; custom
+-- interviewers belong to the organization (or user) that created them.
+-- Candidates need to read the interviewer of the interview they are taking.
+CREATE POLICY interviewer_select_anon ON interviewer FOR SELECT TO anon
+    USING (true);
+CREATE POLICY interviewer_select ON interviewer FOR SELECT TO authenticated
+    USING (
+        (organization_id IS NULL AND user_id IS NULL)
+        OR organization_id = requesting_org_id()
+        OR user_id = requesting_user_id()
+    );
+
+CREATE POLICY interview_select ON interview FOR SELECT TO authenticated
+    USING (organization_id = requesting_org_id() OR user_id = requesting_user_id());
+CREATE POLICY interview_insert ON interview FOR INSERT TO authenticated
+    WITH CHECK (
+        (organization_id = requesting_org_id() OR user_id = requesting_user_id())
+        AND has_permission('interview:create')
+    );
+CREATE POLICY interview_update ON interview FOR UPDATE TO authenticated
+    USING (
+        (organization_id = requesting_org_id() OR user_id = requesting_user_id())
+        AND has_permission('interview:edit')
+    );
+CREATE POLICY interview_delete ON interview FOR DELETE TO authenticated
+    USING (
+        (organization_id = requesting_org_id() OR user_id = requesting_user_id())
+        AND has_permission('interview:delete')
+    );
+
+-- The schedule and rubric are validated, and the interviewer checked against
+-- the caller's organization, by the server (see src/lib/interview-data.ts and
+-- authorizeInterviewerChoice), so the dashboard cannot write them directly
+CREATE OR REPLACE FUNCTION check_interview_settings_source() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+    IF auth.role() = 'authenticated' AND (
+        (TG_OP = 'INSERT' AND (
+            NEW.opens_at IS NOT NULL
+            OR NEW.closes_at IS NOT NULL
+            OR NEW.availability IS NOT NULL
+            OR NEW.max_responses IS NOT NULL
+            OR COALESCE(NEW.rubric, '[]'::jsonb) <> '[]'::jsonb
+            OR NEW.interviewer_id IS NOT NULL
+        ))
+        OR (TG_OP = 'UPDATE' AND
+            ROW(NEW.opens_at, NEW.closes_at, NEW.availability, NEW.max_responses, NEW.rubric, NEW.interviewer_id)
+            IS DISTINCT FROM
+            ROW(OLD.opens_at, OLD.closes_at, OLD.availability, OLD.max_responses, OLD.rubric, OLD.interviewer_id))
+    ) THEN
+        RAISE EXCEPTION 'the interview schedule, rubric and interviewer can only be changed through the API'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER interview_settings_source
+    BEFORE INSERT OR UPDATE ON interview
+    FOR EACH ROW EXECUTE FUNCTION check_interview_settings_source();
+
+-- Every member can mark a response as viewed, so updates are allowed and the
+-- candidate status is guarded by a trigger instead. Names, emails and call
+-- details cannot be read directly (see the grants after resume_id below); the
+-- dashboard loads them through /api/responses, which checks response:view_pii.
+CREATE POLICY response_select ON response FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+CREATE POLICY response_insert ON response FOR INSERT TO authenticated
+    WITH CHECK (can_access_interview(interview_id));
+CREATE POLICY response_update ON response FOR UPDATE TO authenticated
+    USING (can_access_interview(interview_id))
+    WITH CHECK (can_access_interview(interview_id));
+CREATE POLICY response_delete ON response FOR DELETE TO authenticated
+    USING (can_access_interview(interview_id) AND has_permission('response:delete'));
+
+CREATE OR REPLACE FUNCTION check_response_status_permission() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+    IF NEW.candidate_status IS DISTINCT FROM OLD.candidate_status
+       AND auth.role() = 'authenticated'
+       AND NOT has_permission('response:update_status') THEN
+        RAISE EXCEPTION 'permission denied to change the candidate status'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER response_status_permission
+    BEFORE UPDATE ON response
+    FOR EACH ROW EXECUTE FUNCTION check_response_status_permission();
+
+CREATE POLICY invitation_all ON invitation FOR ALL TO authenticated
+    USING (can_access_interview(interview_id))
+    WITH CHECK (can_access_interview(interview_id));
+
+-- Candidates leave feedback after the call without signing in
+CREATE POLICY feedback_insert ON feedback FOR INSERT TO anon, authenticated
+    WITH CHECK (true);
+CREATE POLICY feedback_select ON feedback FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+
+CREATE POLICY analysis_job_select ON analysis_job FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+
+-- retell_event has no policies: only the service role reads or writes it
+
+-- Prompt versions are append only. Each response records the version its call
+-- ran with, so later edits to an interview never change how past calls read.
+CREATE TABLE interview_prompt_version (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    tone TEXT NOT NULL DEFAULT 'professional',
+    opening_script TEXT NOT NULL DEFAULT '',
+    closing_script TEXT NOT NULL DEFAULT '',
+    forbidden_topics TEXT[] NOT NULL DEFAULT '{}',
+    prompt TEXT NOT NULL,
+    created_by TEXT,
+    UNIQUE (interview_id, version)
+);
+
+ALTER TABLE response
+    ADD COLUMN prompt_version_id INTEGER REFERENCES interview_prompt_version(id) ON DELETE SET NULL;
+
+ALTER TABLE interview_prompt_version ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY interview_prompt_version_select ON interview_prompt_version FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+
+-- Text dry runs of an interview from the dashboard. They are scored like a
+-- response but kept apart so they never show up as candidates.
+CREATE TABLE interview_simulation (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    created_by TEXT,
+    prompt_version_id INTEGER REFERENCES interview_prompt_version(id) ON DELETE SET NULL,
+    messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+    transcript TEXT NOT NULL,
+    covered_question_ids TEXT[] NOT NULL DEFAULT '{}',
+    analytics JSONB
+);
+
+ALTER TABLE interview_simulation ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY interview_simulation_all ON interview_simulation FOR ALL TO authenticated
+    USING (can_access_interview(interview_id))
+    WITH CHECK (can_access_interview(interview_id));
+
+-- Reusable interview setups. Built-in templates ship with the app
+-- (lib/interview-templates.ts); these are the ones a team saved itself.
+CREATE TABLE interview_template (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    organization_id TEXT REFERENCES organization(id),
+    user_id TEXT REFERENCES "user"(id),
+    name TEXT NOT NULL,
+    description TEXT,
+    objective TEXT,
+    questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    question_count INTEGER,
+    time_duration TEXT,
+    interviewer_id INTEGER REFERENCES interviewer(id) ON DELETE SET NULL,
+    rubric JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+ALTER TABLE interview_template ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY interview_template_all ON interview_template FOR ALL TO authenticated
+    USING (organization_id = requesting_org_id() OR user_id = requesting_user_id())
+    WITH CHECK (organization_id = requesting_org_id() OR user_id = requesting_user_id());
+
+-- Org-wide question bank. Interview questions picked from the bank keep its id
+-- in interview.questions[].bank_question_id, which is how usage and answer
+-- stats are traced back to it.
+CREATE TABLE question_bank (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    organization_id TEXT REFERENCES organization(id),
+    user_id TEXT REFERENCES "user"(id),
+    question TEXT NOT NULL,
+    follow_up_count INTEGER NOT NULL DEFAULT 1,
+    skills TEXT[] NOT NULL DEFAULT '{}',
+    seniority TEXT,
+    role TEXT,
+    is_retired BOOLEAN NOT NULL DEFAULT false
+);
+
+ALTER TABLE question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY question_bank_all ON question_bank FOR ALL TO authenticated
+    USING (organization_id = requesting_org_id() OR user_id = requesting_user_id())
+    WITH CHECK (organization_id = requesting_org_id() OR user_id = requesting_user_id());
+
+-- Resumes candidates upload on the call page. The personalised questions are
+-- generated on upload and only ever read by the server, so candidates cannot
+-- see them ahead of the call.
+CREATE TABLE candidate_resume (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    claims JSONB NOT NULL DEFAULT '[]'::jsonb,
+    questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    call_id TEXT UNIQUE
+);
+
+ALTER TABLE response ADD COLUMN resume_id UUID REFERENCES candidate_resume(id) ON DELETE SET NULL;
+
+-- Row level security cannot hide single columns, so members read responses
+-- without the candidate's name, email and call details, which also carry the
+-- name. New response columns have to be added to this list.
+REVOKE SELECT ON response FROM authenticated;
+GRANT SELECT (
+    id, created_at, interview_id, call_id, candidate_status, duration, analytics,
+    is_analysed, is_ended, is_viewed, tab_switch_count, receipt_sent_at,
+    prompt_version_id, resume_id
+) ON response TO authenticated;
+
+ALTER TABLE candidate_resume ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY candidate_resume_select ON candidate_resume FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+
+-- Ledger of billable usage: one row per call started (response), per finished
+-- call (call_minutes) and per LLM completion (llm_tokens). Plan limits are
+-- checked against these totals before a call starts. Rows recorded for a call
+-- carry an idempotency key so webhook redeliveries are not counted twice.
+CREATE TABLE usage_event (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    organization_id TEXT NOT NULL REFERENCES organization(id) ON DELETE CASCADE,
+    interview_id TEXT REFERENCES interview(id) ON DELETE SET NULL,
+    kind TEXT NOT NULL,
+    quantity NUMERIC NOT NULL,
+    metadata JSONB,
+    idempotency_key TEXT UNIQUE
+);
+
+CREATE INDEX usage_event_organization_idx ON usage_event (organization_id, created_at);
+
+CREATE OR REPLACE FUNCTION get_usage_totals(
+    target_organization_id TEXT,
+    since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (interview_id TEXT, kind TEXT, quantity NUMERIC) AS $$
+    SELECT interview_id, kind, SUM(quantity)
+    FROM usage_event
+    WHERE organization_id = target_organization_id AND created_at >= since
+    GROUP BY interview_id, kind;
+$$ LANGUAGE sql STABLE;
+
+-- Backfills responses and call minutes from before the ledger existed. The
+-- free plan counts usage since the organization was created, so without them
+-- an organization that had used up its trial would get a new one. The keys
+-- match the ones recorded for new calls, so this can be run again safely.
+INSERT INTO usage_event (organization_id, interview_id, kind, quantity, idempotency_key, created_at)
+SELECT interview.organization_id, response.interview_id, 'response', 1,
+       'response:' || response.call_id, response.created_at
+FROM response
+JOIN interview ON interview.id = response.interview_id
+WHERE interview.organization_id IS NOT NULL AND response.call_id IS NOT NULL
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO usage_event (organization_id, interview_id, kind, quantity, idempotency_key, created_at)
+SELECT interview.organization_id, response.interview_id, 'call_minutes',
+       ROUND(response.duration / 60.0, 2), 'call_minutes:' || response.call_id,
+       response.created_at
+FROM response
+JOIN interview ON interview.id = response.interview_id
+WHERE interview.organization_id IS NOT NULL
+  AND response.call_id IS NOT NULL
+  AND response.duration > 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+ALTER TABLE usage_event ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY usage_event_select ON usage_event FOR SELECT TO authenticated
+    USING (organization_id = requesting_org_id());
+
+-- Human reviews of a response. Each member keeps one scorecard per response
+-- with ratings on the same scales as the AI analysis: rubric competencies on
+-- levels 1 to 5, keyed by competency id, and questions out of 10, keyed by
+-- question id.
+CREATE TABLE response_scorecard (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    response_id INTEGER NOT NULL REFERENCES response(id) ON DELETE CASCADE,
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    reviewer_id TEXT NOT NULL,
+    reviewer_name TEXT,
+    competency_ratings JSONB NOT NULL DEFAULT '[]'::jsonb,
+    question_ratings JSONB NOT NULL DEFAULT '[]'::jsonb,
+    recommendation TEXT CHECK (recommendation IN ('strong_no', 'no', 'yes', 'strong_yes')),
+    notes TEXT NOT NULL DEFAULT '',
+    UNIQUE (response_id, reviewer_id)
+);
+
+-- Threaded notes on a response. A comment can point at a moment of the
+-- recording, and mentions hold the user ids of the members it notified.
+CREATE TABLE response_comment (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    response_id INTEGER NOT NULL REFERENCES response(id) ON DELETE CASCADE,
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES response_comment(id) ON DELETE CASCADE,
+    author_id TEXT NOT NULL,
+    author_name TEXT,
+    body TEXT NOT NULL,
+    timestamp_seconds NUMERIC,
+    mentions TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX response_comment_response_idx ON response_comment (response_id, created_at);
+
+ALTER TABLE response_scorecard ENABLE ROW LEVEL SECURITY;
+ALTER TABLE response_comment ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY response_scorecard_select ON response_scorecard FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+CREATE POLICY response_comment_select ON response_comment FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+
+-- Hiring pipeline stages, owned by an organization or by a user outside one.
+-- response.candidate_status holds a stage key, so keys never change once made.
+-- Without rows the four original statuses are used, and the first stage is
+-- always NO_STATUS, where new responses start.
+CREATE TABLE pipeline_stage (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    organization_id TEXT REFERENCES organization(id) ON DELETE CASCADE,
+    user_id TEXT REFERENCES "user"(id),
+    key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    is_terminal BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX pipeline_stage_owner_idx ON pipeline_stage (organization_id, user_id, position);
+
+-- Every stage change of a response, written by the server with who made it
+CREATE TABLE response_status_change (
+    id SERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    response_id INTEGER NOT NULL REFERENCES response(id) ON DELETE CASCADE,
+    interview_id TEXT NOT NULL REFERENCES interview(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    changed_by_name TEXT
+);
+
+CREATE INDEX response_status_change_interview_idx ON response_status_change (interview_id, created_at);
+
+-- Saves an owner's stages as a whole list. Both statements run in one
+-- transaction, so a failed insert leaves the previous stages in place.
+CREATE OR REPLACE FUNCTION replace_pipeline_stages(
+    owner_organization_id TEXT,
+    owner_user_id TEXT,
+    stages JSONB
+)
+RETURNS SETOF pipeline_stage AS $$
+    DELETE FROM pipeline_stage
+    WHERE CASE
+        WHEN owner_organization_id IS NOT NULL THEN organization_id = owner_organization_id
+        ELSE organization_id IS NULL AND user_id = owner_user_id
+    END;
+
+    INSERT INTO pipeline_stage (organization_id, user_id, key, name, color, position, is_terminal)
+    SELECT owner_organization_id, owner_user_id, stage.key, stage.name, stage.color, stage.position, stage.is_terminal
+    FROM jsonb_to_recordset(stages)
+        AS stage(key TEXT, name TEXT, color TEXT, position INTEGER, is_terminal BOOLEAN)
+    RETURNING *;
+$$ LANGUAGE sql;
+
+ALTER TABLE pipeline_stage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE response_status_change ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY pipeline_stage_select ON pipeline_stage FOR SELECT TO authenticated
+    USING (organization_id = requesting_org_id() OR user_id = requesting_user_id());
+CREATE POLICY response_status_change_select ON response_status_change FOR SELECT TO authenticated
+    USING (can_access_interview(interview_id));
+
+-- Fixed window counters for public routes, keyed by route and caller. Only the
+-- server reads or writes them, so the table has no policies.
+CREATE TABLE rate_limit (
+    key TEXT NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (key, window_start)
+);
+
+ALTER TABLE rate_limit ENABLE ROW LEVEL SECURITY;
+
+-- Counts one request against the key's current window and returns whether it
+-- is within the limit. Earlier windows of the key are dropped.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+    limit_key TEXT,
+    window_seconds INTEGER,
+    max_count INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_window TIMESTAMP WITH TIME ZONE := TO_TIMESTAMP(
+        FLOOR(EXTRACT(EPOCH FROM NOW()) / window_seconds) * window_seconds
+    );
+    current_count INTEGER;
+BEGIN
+    DELETE FROM rate_limit WHERE key = limit_key AND window_start < current_window;
+
+    INSERT INTO rate_limit (key, window_start, count)
+    VALUES (limit_key, current_window, 1)
+    ON CONFLICT (key, window_start) DO UPDATE SET count = rate_limit.count + 1
+    RETURNING count INTO current_count;
+
+    RETURN current_count <= max_count;
+END;
+$$ LANGUAGE plpgsql;